@@ -0,0 +1,273 @@
+-- Migration: 0060_case_collaborators
+-- Description: Read-only collaborator access to a case (Plan 03 Phase 1).
+-- Adds `case_collaborators` (invite token → acceptance → soft revoke), the
+-- `user_can_access_case()` helper, and `<table>_select_collab` SELECT policies on
+-- every case-scoped table so an accepted collaborator (attorney) can browse one
+-- case without write access.
+--
+-- Idempotent (CREATE TABLE / INDEX / POLICY / TRIGGER all guard with IF NOT EXISTS
+-- or DO blocks; the function uses CREATE OR REPLACE).
+--
+-- Schema notes:
+-- - `exports` was user-scoped only. It gains a nullable case_id, backfilled from
+--   the owner's active case (or most recent case), so shared exports can be
+--   listed per case. New exports always set it.
+-- - Existing owner-only write policies are left in place. The legacy
+--   "Users can manage own X" policies only check `auth.uid() = user_id`, which
+--   would let a collaborator insert a row with their own user_id into a case
+--   they were only granted read access to. RESTRICTIVE INSERT/UPDATE policies
+--   close that gap by requiring case ownership on writes.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.case_collaborators (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id uuid NOT NULL REFERENCES public.cases(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  role text NOT NULL DEFAULT 'attorney_readonly' CHECK (role IN ('attorney_readonly')),
+  invite_token text NOT NULL,
+  invited_by uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  invited_at timestamptz NOT NULL DEFAULT now(),
+  accepted_at timestamptz,
+  last_seen_at timestamptz,
+  revoked_at timestamptz
+);
+
+-- ============================================================
+-- Indexes
+-- ============================================================
+
+-- One live invite per (case, email). Revoked rows are kept for audit, so a
+-- re-invite after revocation creates a fresh row.
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_collab_case_email
+  ON public.case_collaborators (case_id, lower(email))
+  WHERE revoked_at IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_collab_token
+  ON public.case_collaborators (invite_token);
+
+CREATE INDEX IF NOT EXISTS idx_collab_case
+  ON public.case_collaborators (case_id);
+
+CREATE INDEX IF NOT EXISTS idx_collab_user
+  ON public.case_collaborators (user_id) WHERE user_id IS NOT NULL;
+
+-- ============================================================
+-- Access helper. SECURITY DEFINER so policies on other tables can consult
+-- case_collaborators regardless of the caller's RLS posture — the function body
+-- is itself the access check.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.user_can_access_case(check_case_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.cases WHERE id = check_case_id AND user_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM public.case_collaborators
+    WHERE case_id = check_case_id
+      AND user_id = auth.uid()
+      AND accepted_at IS NOT NULL
+      AND revoked_at IS NULL
+  );
+$$;
+
+-- ============================================================
+-- exports.case_id
+-- ============================================================
+
+ALTER TABLE public.exports ADD COLUMN IF NOT EXISTS case_id uuid REFERENCES public.cases(id) ON DELETE CASCADE;
+
+UPDATE public.exports x
+SET case_id = COALESCE(
+  (
+    SELECT p.active_case_id FROM public.profiles p
+    JOIN public.cases c ON c.id = p.active_case_id AND c.user_id = x.user_id
+    WHERE p.id = x.user_id
+  ),
+  (
+    SELECT c.id FROM public.cases c
+    WHERE c.user_id = x.user_id
+    ORDER BY c.created_at DESC
+    LIMIT 1
+  )
+)
+WHERE x.case_id IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_exports_case_created
+  ON public.exports (case_id, created_at DESC);
+
+-- ============================================================
+-- RLS — case_collaborators. Owner manages rows for their cases; a collaborator
+-- can read their own accepted, unrevoked row. Invite lookup by token happens
+-- server-side with the service client (the invitee has no row access yet).
+-- ============================================================
+
+ALTER TABLE public.case_collaborators ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'case_collaborators' AND policyname = 'collab_owner_all'
+  ) THEN
+    CREATE POLICY collab_owner_all ON public.case_collaborators
+      FOR ALL USING (
+        EXISTS (SELECT 1 FROM public.cases c WHERE c.id = case_collaborators.case_id AND c.user_id = (SELECT auth.uid()))
+      ) WITH CHECK (
+        EXISTS (SELECT 1 FROM public.cases c WHERE c.id = case_collaborators.case_id AND c.user_id = (SELECT auth.uid()))
+      );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'case_collaborators' AND policyname = 'collab_self_select'
+  ) THEN
+    CREATE POLICY collab_self_select ON public.case_collaborators
+      FOR SELECT USING (
+        user_id = (SELECT auth.uid()) AND accepted_at IS NOT NULL AND revoked_at IS NULL
+      );
+  END IF;
+END
+$$;
+
+-- ============================================================
+-- RLS — collaborator SELECT on case-scoped tables. PERMISSIVE, so these OR
+-- together with the existing owner policies; owner behavior is unchanged.
+-- ============================================================
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'events', 'evidence', 'journal_entries', 'action_items', 'evidence_mentions',
+    'messages', 'message_threads', 'chats', 'exports'
+  ]
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_policies
+      WHERE schemaname = 'public' AND tablename = t AND policyname = t || '_select_collab'
+    ) THEN
+      EXECUTE format(
+        'CREATE POLICY %I ON public.%I FOR SELECT USING (case_id IS NOT NULL AND public.user_can_access_case(case_id))',
+        t || '_select_collab', t
+      );
+    END IF;
+  END LOOP;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'cases' AND policyname = 'cases_select_collab'
+  ) THEN
+    CREATE POLICY cases_select_collab ON public.cases
+      FOR SELECT USING (public.user_can_access_case(id));
+  END IF;
+
+  -- Join tables carry no case_id; they inherit access from their parent row.
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'event_participants' AND policyname = 'event_participants_select_collab'
+  ) THEN
+    CREATE POLICY event_participants_select_collab ON public.event_participants
+      FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.events e WHERE e.id = event_participants.event_id AND public.user_can_access_case(e.case_id))
+      );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'event_evidence' AND policyname = 'event_evidence_select_collab'
+  ) THEN
+    CREATE POLICY event_evidence_select_collab ON public.event_evidence
+      FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.events e WHERE e.id = event_evidence.event_id AND public.user_can_access_case(e.case_id))
+      );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'journal_entry_evidence' AND policyname = 'journal_entry_evidence_select_collab'
+  ) THEN
+    CREATE POLICY journal_entry_evidence_select_collab ON public.journal_entry_evidence
+      FOR SELECT USING (
+        EXISTS (SELECT 1 FROM public.journal_entries je WHERE je.id = journal_entry_evidence.journal_entry_id AND public.user_can_access_case(je.case_id))
+      );
+  END IF;
+END
+$$;
+
+-- ============================================================
+-- RLS — RESTRICTIVE owner-only writes on tables whose legacy ALL policy keys on
+-- user_id alone. AND-ed with every permissive policy, so a collaborator can
+-- never insert into (or move a row onto) a case they do not own.
+-- ============================================================
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY[
+    'events', 'evidence', 'journal_entries', 'action_items', 'evidence_mentions', 'exports'
+  ]
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_policies
+      WHERE schemaname = 'public' AND tablename = t AND policyname = t || '_insert_case_owner'
+    ) THEN
+      EXECUTE format(
+        'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR INSERT WITH CHECK ('
+        || 'case_id IS NULL OR EXISTS (SELECT 1 FROM public.cases c WHERE c.id = case_id AND c.user_id = (SELECT auth.uid())))',
+        t || '_insert_case_owner', t
+      );
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_policies
+      WHERE schemaname = 'public' AND tablename = t AND policyname = t || '_update_case_owner'
+    ) THEN
+      EXECUTE format(
+        'CREATE POLICY %I ON public.%I AS RESTRICTIVE FOR UPDATE WITH CHECK ('
+        || 'case_id IS NULL OR EXISTS (SELECT 1 FROM public.cases c WHERE c.id = case_id AND c.user_id = (SELECT auth.uid())))',
+        t || '_update_case_owner', t
+      );
+    END IF;
+  END LOOP;
+END
+$$;
+
+-- ============================================================
+-- Audit log trigger — revocations must be traceable.
+-- ============================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'audit_case_collaborators'
+  ) THEN
+    CREATE TRIGGER audit_case_collaborators
+      AFTER INSERT OR UPDATE OR DELETE ON public.case_collaborators
+      FOR EACH ROW EXECUTE FUNCTION public.record_audit();
+  END IF;
+END
+$$;
+
+-- ============================================================
+-- Documentation
+-- ============================================================
+
+COMMENT ON TABLE public.case_collaborators IS
+  'Users granted read-only access to a case by its owner. Invite → accept (user_id, accepted_at set) → optional soft revoke (revoked_at).';
+COMMENT ON COLUMN public.case_collaborators.invite_token IS
+  '32-byte URL-safe random token embedded in the invite link. Looked up server-side only.';
+COMMENT ON FUNCTION public.user_can_access_case(uuid) IS
+  'True when auth.uid() owns the case or is an accepted, unrevoked collaborator on it. Used by *_select_collab policies.';
+COMMENT ON COLUMN public.exports.case_id IS
+  'Case this export was generated from. Nullable for exports created before 0060 by users with no case.';
+
+COMMIT;
@@ -0,0 +1,98 @@
+-- Migration: 0061_embeddings
+-- Description: Vector embeddings for semantic retrieval in the chat agent.
+--   One row per (case_id, kind, record_id) where kind is 'message', 'event' or
+--   'journal'. Rows are written by the embeddings-sync / embeddings-backfill
+--   Inngest functions with the service role; users only ever read them through
+--   match_case_embeddings().
+--
+--   content_hash is a sha256 of the exact text that was embedded, so re-syncing
+--   a case only re-embeds records whose text changed.
+--
+-- Idempotent (IF NOT EXISTS / DO blocks; the function uses CREATE OR REPLACE).
+
+BEGIN;
+
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS public.embeddings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id uuid NOT NULL REFERENCES public.cases(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('message', 'event', 'journal')),
+  record_id uuid NOT NULL,
+  content_hash text NOT NULL,
+  model text NOT NULL,
+  embedding extensions.vector(1536) NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- ============================================================
+-- Indexes
+-- ============================================================
+
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_embeddings_case_kind_record
+  ON public.embeddings (case_id, kind, record_id);
+
+-- Cosine distance matches how OpenAI embeddings are meant to be compared.
+CREATE INDEX IF NOT EXISTS idx_embeddings_vector
+  ON public.embeddings USING hnsw (embedding extensions.vector_cosine_ops);
+
+-- ============================================================
+-- RLS — read-only for anyone who can access the case (owner or accepted
+-- collaborator). No INSERT/UPDATE/DELETE policies: only the service role
+-- writes. Rows for deleted records are removed by the sync function.
+-- ============================================================
+
+ALTER TABLE public.embeddings ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'embeddings' AND policyname = 'embeddings_select_case'
+  ) THEN
+    CREATE POLICY embeddings_select_case ON public.embeddings
+      FOR SELECT USING (public.user_can_access_case(case_id));
+  END IF;
+END
+$$;
+
+-- ============================================================
+-- Nearest-neighbour search. SECURITY INVOKER so the caller's RLS applies;
+-- the chat agent calls it with the user's client.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.match_case_embeddings(
+  p_case_id uuid,
+  p_query_embedding extensions.vector(1536),
+  p_kinds text[] DEFAULT NULL,
+  p_match_count int DEFAULT 20
+)
+RETURNS TABLE(kind text, record_id uuid, similarity double precision)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+  SELECT e.kind, e.record_id, 1 - (e.embedding <=> p_query_embedding) AS similarity
+  FROM public.embeddings e
+  WHERE e.case_id = p_case_id
+    AND (p_kinds IS NULL OR e.kind = ANY (p_kinds))
+  ORDER BY e.embedding <=> p_query_embedding
+  LIMIT LEAST(GREATEST(p_match_count, 1), 100);
+$$;
+
+-- ============================================================
+-- Documentation
+-- ============================================================
+
+COMMENT ON TABLE public.embeddings IS
+  'Semantic search vectors for case records (messages, events, journal entries). Service-role writes only.';
+COMMENT ON COLUMN public.embeddings.record_id IS
+  'Id of the embedded row in messages / events / journal_entries, depending on kind. Not a FK — one column spans three tables.';
+COMMENT ON COLUMN public.embeddings.content_hash IS
+  'sha256 of the embedded text. A record is re-embedded only when this changes.';
+COMMENT ON FUNCTION public.match_case_embeddings(uuid, extensions.vector, text[], int) IS
+  'Cosine nearest neighbours within one case, optionally filtered by kind. Powers the semantic_search chat tool.';
+
+COMMIT;
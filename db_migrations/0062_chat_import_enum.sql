@@ -0,0 +1,10 @@
+-- Migration: 0062_chat_import_enum
+-- Description: Adds job_type 'chat_import' for the SMS / WhatsApp importer
+-- (chat-import Inngest function).
+--
+-- Split from 0063 for the same reason as 0049: a freshly-added enum value
+-- cannot be used in the transaction that adds it.
+--
+-- Idempotent (IF NOT EXISTS).
+
+ALTER TYPE job_type ADD VALUE IF NOT EXISTS 'chat_import';
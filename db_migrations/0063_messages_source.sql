@@ -0,0 +1,82 @@
+-- Migration: 0063_messages_source
+-- Description: Lets `messages` hold phone texts alongside OFW messages.
+--
+--   - source: 'ofw' | 'sms' | 'whatsapp'. Existing rows are OFW, hence the
+--     default.
+--   - dedupe_key: importer-computed identity for sources without a stable
+--     upstream id (sha256 of conversation + sender + sent_at + body). NULL for
+--     OFW rows, which keep deduping on sequence_number.
+--
+-- The (case_id, sequence_number) constraint from 0056 becomes
+-- (case_id, source, sequence_number): OFW numbers 1..N and chat imports
+-- number 1..N per source, so the two ranges must not collide. ofw-ingest
+-- upserts on the new constraint.
+--
+-- Idempotent (IF NOT EXISTS / DO blocks).
+
+BEGIN;
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS source text NOT NULL DEFAULT 'ofw';
+
+ALTER TABLE public.messages
+  ADD COLUMN IF NOT EXISTS dedupe_key text;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'messages_source_check'
+  ) THEN
+    ALTER TABLE public.messages
+      ADD CONSTRAINT messages_source_check
+      CHECK (source IN ('ofw', 'sms', 'whatsapp'));
+  END IF;
+END
+$$;
+
+-- ============================================================
+-- Uniqueness
+-- ============================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'uniq_messages_case_source_sequence'
+  ) THEN
+    ALTER TABLE public.messages
+      ADD CONSTRAINT uniq_messages_case_source_sequence
+      UNIQUE (case_id, source, sequence_number);
+  END IF;
+END
+$$;
+
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS uniq_messages_case_sequence;
+
+-- NULLs are distinct, so OFW rows (dedupe_key IS NULL) never conflict here.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'uniq_messages_case_source_dedupe'
+  ) THEN
+    ALTER TABLE public.messages
+      ADD CONSTRAINT uniq_messages_case_source_dedupe
+      UNIQUE (case_id, source, dedupe_key);
+  END IF;
+END
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_messages_case_source
+  ON public.messages (case_id, source);
+
+-- ============================================================
+-- Documentation
+-- ============================================================
+
+COMMENT ON COLUMN public.messages.source IS
+  'Where the message came from: ofw (Message Report), sms (SMS Backup & Restore XML) or whatsapp (chat .txt export).';
+COMMENT ON COLUMN public.messages.dedupe_key IS
+  'Importer-computed identity for chat imports so re-importing an overlapping export is a no-op. NULL for OFW rows.';
+COMMENT ON COLUMN public.messages.sequence_number IS
+  'Parser-assigned id, unique per (case_id, source). OFW: 1..N within the report. Chat imports: continues from the highest existing number for that source.';
+
+COMMIT;
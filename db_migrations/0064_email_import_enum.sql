@@ -0,0 +1,10 @@
+-- Migration: 0064_email_import_enum
+-- Description: Adds job_type 'email_import' for the .eml / .mbox importer
+-- (email-import Inngest function).
+--
+-- Split from 0065 for the same reason as 0049: a freshly-added enum value
+-- cannot be used in the transaction that adds it.
+--
+-- Idempotent (IF NOT EXISTS).
+
+ALTER TYPE job_type ADD VALUE IF NOT EXISTS 'email_import';
@@ -0,0 +1,22 @@
+-- Migration: 0065_messages_email_source
+-- Description: Allows messages.source = 'email' for the .eml / .mbox importer.
+--
+-- Email rows use the normalized Message-ID as dedupe_key, so re-importing a
+-- mailbox that overlaps an earlier one is a no-op for known messages, and a
+-- reply in a later upload can find its thread through In-Reply-To /
+-- References. Both lookups use uniq_messages_case_source_dedupe from 0063.
+--
+-- Idempotent (DROP ... IF EXISTS, then re-add).
+
+BEGIN;
+
+ALTER TABLE public.messages DROP CONSTRAINT IF EXISTS messages_source_check;
+
+ALTER TABLE public.messages
+  ADD CONSTRAINT messages_source_check
+  CHECK (source IN ('ofw', 'sms', 'whatsapp', 'email'));
+
+COMMENT ON COLUMN public.messages.source IS
+  'Where the message came from: ofw (Message Report), sms (SMS Backup & Restore XML), whatsapp (chat .txt export) or email (.eml / .mbox).';
+
+COMMIT;
@@ -0,0 +1,10 @@
+-- Migration: 0066_schedule_check_enum
+-- Description: Adds job_type 'schedule_check' for the parenting-schedule
+-- violation detector (schedule-check Inngest function).
+--
+-- Split from 0067 for the same reason as 0049: a freshly-added enum value
+-- cannot be used in the transaction that adds it.
+--
+-- Idempotent (IF NOT EXISTS).
+
+ALTER TYPE job_type ADD VALUE IF NOT EXISTS 'schedule_check';
@@ -0,0 +1,135 @@
+-- Migration: 0067_parenting_schedules
+-- Description: Structured parenting-time schedule per case, plus the
+-- violations the schedule-check job finds against it.
+--
+--   - parenting_schedules: one row per case. A repeating rotation (preset or
+--     custom day-by-day cycle) anchored on a date, holiday overrides, and the
+--     usual exchange time / location. cases.parenting_schedule stays as the
+--     free-text description used in prompts.
+--   - schedule_violations: late exchanges, missed visits and overholds found
+--     by comparing parenting_time events and messages with the expected
+--     custodian. Rebuilt by the job on every run (service role), one row per
+--     (case, kind, date). Linked events also get an event_patterns row.
+--
+-- Idempotent (IF NOT EXISTS / DO blocks).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.parenting_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id uuid NOT NULL REFERENCES public.cases(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  rotation text NOT NULL
+    CHECK (rotation IN ('alternating_weeks', '2-2-3', '2-2-5-5', 'alternating_weekends', 'custom')),
+  -- Day-by-day cycle for rotation = 'custom': 'you' / 'coparent', one per day.
+  custom_cycle text[],
+  anchor_date date NOT NULL,
+  anchor_custodian text NOT NULL CHECK (anchor_custodian IN ('you', 'coparent')),
+  exchange_time time,
+  exchange_location text,
+  grace_minutes int NOT NULL DEFAULT 15 CHECK (grace_minutes >= 0),
+  -- [{ "label": text, "start": date, "end": date, "custodian": "you" | "coparent" }]
+  holidays jsonb NOT NULL DEFAULT '[]'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_parenting_schedules_case
+  ON public.parenting_schedules (case_id);
+
+CREATE TABLE IF NOT EXISTS public.schedule_violations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id uuid NOT NULL REFERENCES public.cases(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('late_exchange', 'missed_visit', 'overhold')),
+  violation_date date NOT NULL,
+  expected_custodian text NOT NULL CHECK (expected_custodian IN ('you', 'coparent')),
+  summary text NOT NULL,
+  reasons text[] NOT NULL DEFAULT '{}',
+  event_ids uuid[] NOT NULL DEFAULT '{}',
+  message_ids uuid[] NOT NULL DEFAULT '{}',
+  pattern_id uuid REFERENCES public.patterns(id) ON DELETE SET NULL,
+  detected_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_schedule_violations_case_kind_date
+  ON public.schedule_violations (case_id, kind, violation_date);
+
+CREATE INDEX IF NOT EXISTS idx_schedule_violations_case_date
+  ON public.schedule_violations (case_id, violation_date DESC);
+
+-- ============================================================
+-- updated_at trigger — uses the shared set_updated_at() function.
+-- ============================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'parenting_schedules_set_updated_at'
+  ) THEN
+    CREATE TRIGGER parenting_schedules_set_updated_at
+      BEFORE UPDATE ON public.parenting_schedules
+      FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+  END IF;
+END
+$$;
+
+-- ============================================================
+-- RLS — anyone who can access the case reads both tables. The case owner
+-- writes the schedule; violations are written by the service role only.
+-- ============================================================
+
+ALTER TABLE public.parenting_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.schedule_violations ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'parenting_schedules' AND policyname = 'parenting_schedules_select_case'
+  ) THEN
+    CREATE POLICY parenting_schedules_select_case ON public.parenting_schedules
+      FOR SELECT USING (public.user_can_access_case(case_id));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'parenting_schedules' AND policyname = 'parenting_schedules_owner_all'
+  ) THEN
+    CREATE POLICY parenting_schedules_owner_all ON public.parenting_schedules
+      FOR ALL
+      USING (auth.uid() = user_id)
+      WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM public.cases c WHERE c.id = case_id AND c.user_id = auth.uid())
+      );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'schedule_violations' AND policyname = 'schedule_violations_select_case'
+  ) THEN
+    CREATE POLICY schedule_violations_select_case ON public.schedule_violations
+      FOR SELECT USING (public.user_can_access_case(case_id));
+  END IF;
+END
+$$;
+
+-- ============================================================
+-- Documentation
+-- ============================================================
+
+COMMENT ON TABLE public.parenting_schedules IS
+  'Structured parenting-time schedule for a case: rotation, holiday overrides, exchange time and place.';
+COMMENT ON COLUMN public.parenting_schedules.anchor_date IS
+  'First day of the rotation cycle. Also the date the schedule takes effect: nothing earlier is checked.';
+COMMENT ON COLUMN public.parenting_schedules.anchor_custodian IS
+  'Who has the child on anchor_date under the rotation (before holiday overrides).';
+COMMENT ON COLUMN public.parenting_schedules.grace_minutes IS
+  'How late an exchange can be before it is flagged.';
+COMMENT ON TABLE public.schedule_violations IS
+  'Schedule deviations found by the schedule-check job. Service-role writes only; rebuilt on every run.';
+COMMENT ON COLUMN public.schedule_violations.reasons IS
+  'One line per piece of evidence (event or message) that points at this violation.';
+
+COMMIT;
@@ -0,0 +1,139 @@
+-- Migration: 0068_expenses
+-- Description: Case-scoped expense and reimbursement ledger.
+--
+--   - expenses: one row per shared cost (medical co-pay, activity fee,
+--     childcare, support arrears…). Amounts are integer cents. paid_by is who
+--     fronted the money; split_percent is the share the *other* parent owes
+--     back (50 for an even split, 100 for support owed in full). An optional
+--     receipt links to evidence; reimbursement_requested_on / _paid_on track
+--     the request and settlement.
+--   - expense_messages: messages (OFW, SMS, email…) where reimbursement was
+--     requested or discussed.
+--
+-- Idempotent (IF NOT EXISTS / DO blocks).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.expenses (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id uuid NOT NULL REFERENCES public.cases(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  description text NOT NULL,
+  category text NOT NULL
+    CHECK (category IN ('medical', 'education', 'activities', 'childcare', 'clothing', 'travel', 'child_support', 'other')),
+  amount_cents integer NOT NULL CHECK (amount_cents > 0),
+  incurred_on date NOT NULL,
+  paid_by text NOT NULL CHECK (paid_by IN ('you', 'coparent')),
+  split_percent numeric(5, 2) NOT NULL DEFAULT 50 CHECK (split_percent >= 0 AND split_percent <= 100),
+  receipt_evidence_id uuid REFERENCES public.evidence(id) ON DELETE SET NULL,
+  reimbursement_requested_on date,
+  reimbursement_paid_on date,
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_expenses_case_incurred
+  ON public.expenses (case_id, incurred_on DESC);
+
+CREATE TABLE IF NOT EXISTS public.expense_messages (
+  expense_id uuid NOT NULL REFERENCES public.expenses(id) ON DELETE CASCADE,
+  message_id uuid NOT NULL REFERENCES public.messages(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (expense_id, message_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_expense_messages_message
+  ON public.expense_messages (message_id);
+
+-- ============================================================
+-- updated_at trigger — uses the shared set_updated_at() function.
+-- ============================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'expenses_set_updated_at'
+  ) THEN
+    CREATE TRIGGER expenses_set_updated_at
+      BEFORE UPDATE ON public.expenses
+      FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+  END IF;
+END
+$$;
+
+-- ============================================================
+-- RLS — anyone who can access the case reads; the case owner writes.
+-- ============================================================
+
+ALTER TABLE public.expenses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.expense_messages ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'expenses' AND policyname = 'expenses_select_case'
+  ) THEN
+    CREATE POLICY expenses_select_case ON public.expenses
+      FOR SELECT USING (public.user_can_access_case(case_id));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'expenses' AND policyname = 'expenses_owner_all'
+  ) THEN
+    CREATE POLICY expenses_owner_all ON public.expenses
+      FOR ALL
+      USING (auth.uid() = user_id)
+      WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM public.cases c WHERE c.id = case_id AND c.user_id = auth.uid())
+      );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'expense_messages' AND policyname = 'expense_messages_select_case'
+  ) THEN
+    CREATE POLICY expense_messages_select_case ON public.expense_messages
+      FOR SELECT USING (
+        EXISTS (
+          SELECT 1 FROM public.expenses e
+          WHERE e.id = expense_id AND public.user_can_access_case(e.case_id)
+        )
+      );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'expense_messages' AND policyname = 'expense_messages_owner_all'
+  ) THEN
+    CREATE POLICY expense_messages_owner_all ON public.expense_messages
+      FOR ALL
+      USING (
+        EXISTS (SELECT 1 FROM public.expenses e WHERE e.id = expense_id AND e.user_id = auth.uid())
+      )
+      WITH CHECK (
+        EXISTS (SELECT 1 FROM public.expenses e WHERE e.id = expense_id AND e.user_id = auth.uid())
+      );
+  END IF;
+END
+$$;
+
+-- ============================================================
+-- Documentation
+-- ============================================================
+
+COMMENT ON TABLE public.expenses IS
+  'Shared child-related costs and support owed between the parents, with reimbursement status.';
+COMMENT ON COLUMN public.expenses.paid_by IS
+  'Who fronted the money: ''you'' (the case owner) or ''coparent''.';
+COMMENT ON COLUMN public.expenses.split_percent IS
+  'Percent of amount_cents the parent who did not pay owes back. 50 = even split, 100 = owed in full.';
+COMMENT ON COLUMN public.expenses.reimbursement_paid_on IS
+  'Set once the other parent has paid their share; the expense is then settled.';
+COMMENT ON TABLE public.expense_messages IS
+  'Messages where reimbursement for an expense was requested or discussed.';
+
+COMMIT;
@@ -0,0 +1,71 @@
+-- Migration: 0069_hearing_prep
+-- Description: Hearing preparation workspace.
+--
+--   - cases.last_court_date: the previous hearing. Hearing prep digests and
+--     exports everything since this date. Rolled forward from next_court_date
+--     when the user marks a hearing as held.
+--   - hearing_exhibits: evidence the user has pinned as key exhibits for the
+--     upcoming hearing, in their chosen order with an optional note.
+--
+-- Idempotent (IF NOT EXISTS / DO blocks).
+
+BEGIN;
+
+ALTER TABLE public.cases
+  ADD COLUMN IF NOT EXISTS last_court_date timestamptz;
+
+CREATE TABLE IF NOT EXISTS public.hearing_exhibits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id uuid NOT NULL REFERENCES public.cases(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  evidence_id uuid NOT NULL REFERENCES public.evidence(id) ON DELETE CASCADE,
+  note text,
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (case_id, evidence_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_hearing_exhibits_case_position
+  ON public.hearing_exhibits (case_id, position);
+
+-- ============================================================
+-- RLS — anyone who can access the case reads; the case owner writes.
+-- ============================================================
+
+ALTER TABLE public.hearing_exhibits ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'hearing_exhibits' AND policyname = 'hearing_exhibits_select_case'
+  ) THEN
+    CREATE POLICY hearing_exhibits_select_case ON public.hearing_exhibits
+      FOR SELECT USING (public.user_can_access_case(case_id));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'hearing_exhibits' AND policyname = 'hearing_exhibits_owner_all'
+  ) THEN
+    CREATE POLICY hearing_exhibits_owner_all ON public.hearing_exhibits
+      FOR ALL
+      USING (auth.uid() = user_id)
+      WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM public.cases c WHERE c.id = case_id AND c.user_id = auth.uid())
+      );
+  END IF;
+END
+$$;
+
+-- ============================================================
+-- Documentation
+-- ============================================================
+
+COMMENT ON COLUMN public.cases.last_court_date IS
+  'Previous hearing. Hearing prep covers the period from here to next_court_date.';
+COMMENT ON TABLE public.hearing_exhibits IS
+  'Evidence pinned as key exhibits for the upcoming hearing, ordered by position.';
+
+COMMIT;
@@ -0,0 +1,91 @@
+-- Migration: 0070_case_deadlines
+-- Description: Court dates and deadlines per case.
+--
+--   - case_deadlines: hearings, mediation sessions, discovery and filing
+--     deadlines, GAL interviews, evaluations… Each has a type, when it is
+--     (starts_at), where, free-form notes, and reminder_days — how many days
+--     before starts_at the user wants to be reminded (0 = the day of).
+--
+--   cases.next_court_date stays as the headline hearing that drives hearing
+--   prep; case_deadlines holds everything else on the calendar.
+--
+-- Idempotent (IF NOT EXISTS / DO blocks).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.case_deadlines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id uuid NOT NULL REFERENCES public.cases(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type text NOT NULL
+    CHECK (type IN ('hearing', 'mediation', 'discovery', 'filing', 'gal_interview', 'evaluation', 'other')),
+  title text NOT NULL,
+  starts_at timestamptz NOT NULL,
+  location text,
+  notes text,
+  reminder_days integer[] NOT NULL DEFAULT '{7,1}'
+    CHECK (cardinality(reminder_days) <= 5),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_case_deadlines_case_starts
+  ON public.case_deadlines (case_id, starts_at);
+
+-- ============================================================
+-- updated_at trigger — uses the shared set_updated_at() function.
+-- ============================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'case_deadlines_set_updated_at'
+  ) THEN
+    CREATE TRIGGER case_deadlines_set_updated_at
+      BEFORE UPDATE ON public.case_deadlines
+      FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+  END IF;
+END
+$$;
+
+-- ============================================================
+-- RLS — anyone who can access the case reads; the case owner writes.
+-- ============================================================
+
+ALTER TABLE public.case_deadlines ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'case_deadlines' AND policyname = 'case_deadlines_select_case'
+  ) THEN
+    CREATE POLICY case_deadlines_select_case ON public.case_deadlines
+      FOR SELECT USING (public.user_can_access_case(case_id));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'case_deadlines' AND policyname = 'case_deadlines_owner_all'
+  ) THEN
+    CREATE POLICY case_deadlines_owner_all ON public.case_deadlines
+      FOR ALL
+      USING (auth.uid() = user_id)
+      WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (SELECT 1 FROM public.cases c WHERE c.id = case_id AND c.user_id = auth.uid())
+      );
+  END IF;
+END
+$$;
+
+-- ============================================================
+-- Documentation
+-- ============================================================
+
+COMMENT ON TABLE public.case_deadlines IS
+  'Court dates and deadlines on a case: hearings, mediation, discovery, filings, GAL interviews, evaluations.';
+COMMENT ON COLUMN public.case_deadlines.reminder_days IS
+  'Days before starts_at to remind the user; 0 means the day of. Empty disables reminders.';
+
+COMMIT;
@@ -0,0 +1,55 @@
+-- Migration: 0071_reminders
+-- Description: Reminders for due action items and upcoming court dates.
+--
+--   - profiles.email_reminders: opt-out for the daily reminder email.
+--   - reminder_deliveries: one row per reminder sent, keyed so the hourly
+--     reminders cron never sends the same reminder twice (e.g. the 7-day
+--     reminder for a mediation session, or the day-of reminder for an action
+--     item). Written by the service role only.
+--
+-- Idempotent (IF NOT EXISTS / DO blocks).
+
+BEGIN;
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS email_reminders boolean NOT NULL DEFAULT true;
+
+CREATE TABLE IF NOT EXISTS public.reminder_deliveries (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  reminder_key text NOT NULL,
+  channel text NOT NULL,
+  delivered_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, reminder_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reminder_deliveries_delivered
+  ON public.reminder_deliveries (delivered_at);
+
+-- ============================================================
+-- RLS — users can see what was sent to them; only the service role writes.
+-- ============================================================
+
+ALTER TABLE public.reminder_deliveries ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'reminder_deliveries' AND policyname = 'reminder_deliveries_select_own'
+  ) THEN
+    CREATE POLICY reminder_deliveries_select_own ON public.reminder_deliveries
+      FOR SELECT USING (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- ============================================================
+-- Documentation
+-- ============================================================
+
+COMMENT ON COLUMN public.profiles.email_reminders IS
+  'Send the daily reminder email for due action items and upcoming court dates.';
+COMMENT ON TABLE public.reminder_deliveries IS
+  'Reminders already delivered, by stable key, so each is sent at most once.';
+
+COMMIT;
@@ -0,0 +1,60 @@
+-- Migration: 0072_journal_nudge
+-- Description: Opt-in daily journaling nudge and notification quiet hours.
+--
+--   - profiles.journal_nudge_enabled / _time / _days: send a nudge at a local
+--     time on the chosen weekdays (0 = Sunday … 6 = Saturday) when nothing has
+--     been journaled that day yet. Off by default.
+--   - profiles.quiet_hours_start / _end: local window in which no nudge or
+--     reminder is sent; anything due inside it goes out when it ends. May wrap
+--     midnight (22:00–07:00). Both null = no quiet hours.
+--
+-- Nudges are deduplicated through reminder_deliveries (0071).
+--
+-- Idempotent (IF NOT EXISTS / DO blocks).
+
+BEGIN;
+
+ALTER TABLE public.profiles
+  ADD COLUMN IF NOT EXISTS journal_nudge_enabled boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS journal_nudge_time time NOT NULL DEFAULT '20:00',
+  ADD COLUMN IF NOT EXISTS journal_nudge_days smallint[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}',
+  ADD COLUMN IF NOT EXISTS quiet_hours_start time,
+  ADD COLUMN IF NOT EXISTS quiet_hours_end time;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'profiles_journal_nudge_days_check'
+  ) THEN
+    ALTER TABLE public.profiles
+      ADD CONSTRAINT profiles_journal_nudge_days_check
+      CHECK (journal_nudge_days <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::smallint[]);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'profiles_quiet_hours_check'
+  ) THEN
+    ALTER TABLE public.profiles
+      ADD CONSTRAINT profiles_quiet_hours_check
+      CHECK ((quiet_hours_start IS NULL) = (quiet_hours_end IS NULL));
+  END IF;
+END
+$$;
+
+-- The nudge cron scans opted-in profiles every 15 minutes.
+CREATE INDEX IF NOT EXISTS idx_profiles_journal_nudge_enabled
+  ON public.profiles (id)
+  WHERE journal_nudge_enabled;
+
+-- ============================================================
+-- Documentation
+-- ============================================================
+
+COMMENT ON COLUMN public.profiles.journal_nudge_time IS
+  'Local time (profiles.timezone) for the daily journaling nudge.';
+COMMENT ON COLUMN public.profiles.journal_nudge_days IS
+  'Weekdays the nudge is sent, 0 = Sunday … 6 = Saturday.';
+COMMENT ON COLUMN public.profiles.quiet_hours_start IS
+  'Start of the local window with no nudges or reminders; may be later than quiet_hours_end to wrap midnight.';
+
+COMMIT;
@@ -0,0 +1,12 @@
+-- Migration: 0073_job_type_journal_import
+-- Description: Adds 'journal_import' to the job_type enum for bulk journal
+--   imports. One journal_import job is the parent of an import: every entry
+--   it creates points at it through journal_entries.extraction_job_id, and
+--   journal-extraction rolls the entries' outcomes up into it.
+--
+-- Postgres forbids using a freshly-added enum value in the same transaction
+-- as the ALTER TYPE that adds it, so this stays on its own (see 0054).
+--
+-- Idempotent — IF NOT EXISTS guard is safe to re-run.
+
+ALTER TYPE job_type ADD VALUE IF NOT EXISTS 'journal_import';
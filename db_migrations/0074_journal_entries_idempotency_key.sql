@@ -0,0 +1,24 @@
+-- Migration: 0074_journal_entries_idempotency_key
+-- Description: Idempotent journal submits. The offline capture queue retries
+--   POST /api/journal/submit with the same Idempotency-Key header until it
+--   gets an answer; the key is stored on the entry so a retry returns the
+--   entry the first attempt created instead of inserting a duplicate.
+--
+--   Keys are scoped per user and only unique when present; entries submitted
+--   without a key keep NULL.
+--
+-- Idempotent (IF NOT EXISTS).
+
+BEGIN;
+
+ALTER TABLE public.journal_entries
+  ADD COLUMN IF NOT EXISTS idempotency_key text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_journal_entries_user_idempotency_key
+  ON public.journal_entries (user_id, idempotency_key)
+  WHERE idempotency_key IS NOT NULL;
+
+COMMENT ON COLUMN public.journal_entries.idempotency_key IS
+  'Client-supplied Idempotency-Key of the submit that created the entry; retries with the same key return this entry.';
+
+COMMIT;
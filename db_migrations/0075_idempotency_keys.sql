@@ -0,0 +1,62 @@
+-- Migration: 0075_idempotency_keys
+-- Description: Idempotency-Key support on create endpoints (journal submit,
+--   evidence upload, save-events, exports).
+--
+--   A request that carries an Idempotency-Key header claims (user_id, key)
+--   here before doing any work. When it finishes, the response is stored so
+--   a retry with the same key gets the same response back instead of
+--   creating a second row (and spending free-tier quota twice). The request
+--   fingerprint catches a key reused for a different request.
+--
+--   Rows expire after 24 hours and are swept by the idempotency-cleanup cron.
+--
+-- Idempotent (IF NOT EXISTS / DO blocks).
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS public.idempotency_keys (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  key text NOT NULL,
+  scope text NOT NULL,
+  request_fingerprint text NOT NULL,
+  status text NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+  response_status integer,
+  response_body jsonb,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL,
+  PRIMARY KEY (user_id, key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires
+  ON public.idempotency_keys (expires_at);
+
+-- ============================================================
+-- RLS — requests run as the user and manage their own keys.
+-- ============================================================
+
+ALTER TABLE public.idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public' AND tablename = 'idempotency_keys' AND policyname = 'idempotency_keys_own'
+  ) THEN
+    CREATE POLICY idempotency_keys_own ON public.idempotency_keys
+      FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+  END IF;
+END
+$$;
+
+-- ============================================================
+-- Documentation
+-- ============================================================
+
+COMMENT ON TABLE public.idempotency_keys IS
+  'Idempotency-Key headers seen on create endpoints, with the stored response replayed to retries.';
+COMMENT ON COLUMN public.idempotency_keys.scope IS
+  'Endpoint that claimed the key, e.g. POST /api/exports.';
+COMMENT ON COLUMN public.idempotency_keys.request_fingerprint IS
+  'SHA-256 of the scope and request payload; a retry with a different payload is rejected.';
+
+COMMIT;
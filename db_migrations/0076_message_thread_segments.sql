@@ -0,0 +1,129 @@
+-- Migration: 0076_message_thread_segments
+-- Description: Map-reduce summaries for long threads.
+--
+--   thread-summarization used to read at most the first 40 messages of a
+--   thread, so long OFW threads (schedule negotiations often run to hundreds
+--   of replies) were summarized from a fraction of their content. Long
+--   threads are now split into chronological segments; each segment gets its
+--   own summary, tone, flags and search anchors (the map step), and the
+--   thread summary in message_threads is written from those (the reduce
+--   step).
+--
+--   Segments are also searchable: segment_fts lets search_threads say which
+--   part of a long thread matched, and get_thread can read just that part.
+--   Short threads are still summarized in one pass and have no segments.
+--
+--   Segments belong to their message_threads row and are deleted with it, so
+--   dropping thread rows before a backfill also clears their segments.
+--
+-- Idempotent — every CREATE is guarded so a re-run is a no-op.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS message_thread_segments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_thread_id uuid NOT NULL REFERENCES message_threads(id) ON DELETE CASCADE,
+  case_id uuid NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+  thread_id text NOT NULL,
+  segment_index int NOT NULL,
+
+  message_count int NOT NULL DEFAULT 0,
+  first_message_id uuid,
+  last_message_id uuid,
+  first_sent_at timestamptz,
+  last_sent_at timestamptz,
+
+  summary text,
+  tone thread_tone,
+  flags text[] NOT NULL DEFAULT '{}',
+  search_anchors jsonb NOT NULL DEFAULT '{}'::jsonb,
+
+  model text,
+  summary_version int NOT NULL DEFAULT 1,
+
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+
+  -- Same tokenization as message_threads.summary_fts (summary + anchor proper
+  -- nouns and topics) so one query string works against both.
+  segment_fts tsvector GENERATED ALWAYS AS (
+    message_threads_fts(summary, NULL, '{}'::text[], search_anchors, NULL)
+  ) STORED
+);
+
+-- ============================================================
+-- Indexes
+-- ============================================================
+
+-- Natural key for upsert. Segment indexes are 0-based and contiguous.
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_message_thread_segments_thread_index
+  ON message_thread_segments (message_thread_id, segment_index);
+
+CREATE INDEX IF NOT EXISTS idx_message_thread_segments_case_thread
+  ON message_thread_segments (case_id, thread_id, segment_index);
+
+CREATE INDEX IF NOT EXISTS idx_message_thread_segments_fts
+  ON message_thread_segments USING gin (segment_fts);
+
+-- ============================================================
+-- RLS — owner or collaborator via the case, mirroring message_threads.
+-- ============================================================
+
+ALTER TABLE message_thread_segments ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'message_thread_segments'
+      AND policyname = 'message_thread_segments_owner_via_case'
+  ) THEN
+    CREATE POLICY message_thread_segments_owner_via_case ON message_thread_segments
+      FOR ALL USING (
+        EXISTS (SELECT 1 FROM cases c WHERE c.id = message_thread_segments.case_id AND c.user_id = (SELECT auth.uid()))
+      ) WITH CHECK (
+        EXISTS (SELECT 1 FROM cases c WHERE c.id = message_thread_segments.case_id AND c.user_id = (SELECT auth.uid()))
+      );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'message_thread_segments'
+      AND policyname = 'message_thread_segments_select_collab'
+  ) THEN
+    CREATE POLICY message_thread_segments_select_collab ON message_thread_segments
+      FOR SELECT USING (public.user_can_access_case(case_id));
+  END IF;
+END
+$$;
+
+-- ============================================================
+-- updated_at trigger — uses the shared set_updated_at() function.
+-- ============================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'message_thread_segments_set_updated_at'
+  ) THEN
+    CREATE TRIGGER message_thread_segments_set_updated_at
+      BEFORE UPDATE ON message_thread_segments
+      FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+  END IF;
+END
+$$;
+
+-- ============================================================
+-- Documentation
+-- ============================================================
+
+COMMENT ON TABLE message_thread_segments IS
+  'Per-segment summaries of long message threads (map step of thread-summarization). The thread summary in message_threads is reduced from these. Searched by search_threads to point at the part of a long thread that matched.';
+COMMENT ON COLUMN message_thread_segments.segment_index IS
+  '0-based chronological position of the segment within its thread.';
+COMMENT ON COLUMN message_thread_segments.segment_fts IS
+  'Generated tsvector over summary + search_anchors.proper_nouns + search_anchors.topics, via message_threads_fts.';
+
+COMMIT;
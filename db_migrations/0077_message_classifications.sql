@@ -0,0 +1,134 @@
+-- Migration: 0077_message_classifications
+-- Description: Per-message tone and flags.
+--
+--   Tone and flags were only stored per thread (message_threads), so a
+--   "hostile" thread could not say which message was hostile or who sent it.
+--   message_classifications holds one row per classified message, written by
+--   the message-classification Inngest function. It is a side table rather
+--   than columns on messages so classifying doesn't fire the messages audit
+--   trigger, and so a message with no row is simply "not classified yet".
+--
+--   Classification is incremental: the function only sends messages with no
+--   row (or a row from an older classification_version) to the model.
+--   case_threads_needing_classification finds the threads that have any.
+--
+-- Idempotent — every CREATE is guarded so a re-run is a no-op.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS message_classifications (
+  message_id uuid PRIMARY KEY REFERENCES messages(id) ON DELETE CASCADE,
+  case_id uuid NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+  thread_id text,
+
+  -- Same controlled vocabulary as message_threads.tone. `mixed` is allowed by
+  -- the type but the classifier doesn't use it for a single message.
+  tone thread_tone NOT NULL,
+  -- Descriptive tags (schedule_change_request, refusal, information_request,
+  -- child_related, ...). Vocabulary lives in server/utils/message-classification.ts.
+  flags text[] NOT NULL DEFAULT '{}',
+
+  model text,
+  classification_version int NOT NULL DEFAULT 1,
+
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- ============================================================
+-- Indexes
+-- ============================================================
+
+CREATE INDEX IF NOT EXISTS idx_message_classifications_case_tone
+  ON message_classifications (case_id, tone);
+
+CREATE INDEX IF NOT EXISTS idx_message_classifications_case_thread
+  ON message_classifications (case_id, thread_id);
+
+CREATE INDEX IF NOT EXISTS idx_message_classifications_flags
+  ON message_classifications USING gin (flags);
+
+-- ============================================================
+-- RLS — owner or collaborator via the case, mirroring message_threads.
+-- ============================================================
+
+ALTER TABLE message_classifications ENABLE ROW LEVEL SECURITY;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'message_classifications'
+      AND policyname = 'message_classifications_owner_via_case'
+  ) THEN
+    CREATE POLICY message_classifications_owner_via_case ON message_classifications
+      FOR ALL USING (
+        EXISTS (SELECT 1 FROM cases c WHERE c.id = message_classifications.case_id AND c.user_id = (SELECT auth.uid()))
+      ) WITH CHECK (
+        EXISTS (SELECT 1 FROM cases c WHERE c.id = message_classifications.case_id AND c.user_id = (SELECT auth.uid()))
+      );
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE schemaname = 'public'
+      AND tablename = 'message_classifications'
+      AND policyname = 'message_classifications_select_collab'
+  ) THEN
+    CREATE POLICY message_classifications_select_collab ON message_classifications
+      FOR SELECT USING (public.user_can_access_case(case_id));
+  END IF;
+END
+$$;
+
+-- ============================================================
+-- updated_at trigger — uses the shared set_updated_at() function.
+-- ============================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_trigger WHERE tgname = 'message_classifications_set_updated_at'
+  ) THEN
+    CREATE TRIGGER message_classifications_set_updated_at
+      BEFORE UPDATE ON message_classifications
+      FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+  END IF;
+END
+$$;
+
+-- ============================================================
+-- Fan-out helper
+-- ============================================================
+
+-- Threads in the case with at least one message that has no classification
+-- or one older than p_version. Server-side for the same reason as
+-- case_thread_message_counts (0055): the supabase-js 1000-row cap.
+CREATE OR REPLACE FUNCTION case_threads_needing_classification(p_case_id uuid, p_version int)
+RETURNS TABLE(thread_id text, pending_count bigint)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+AS $$
+  SELECT m.thread_id, count(*)::bigint
+  FROM messages m
+  LEFT JOIN message_classifications mc ON mc.message_id = m.id
+  WHERE m.case_id = p_case_id
+    AND m.thread_id IS NOT NULL
+    AND (mc.message_id IS NULL OR mc.classification_version < p_version)
+  GROUP BY m.thread_id;
+$$;
+
+-- ============================================================
+-- Documentation
+-- ============================================================
+
+COMMENT ON TABLE message_classifications IS
+  'Per-message tone and descriptive flags, written incrementally by the message-classification Inngest function. Shown as badges on /messages/[id] and filterable in the search_messages chat tool.';
+COMMENT ON COLUMN message_classifications.classification_version IS
+  'MESSAGE_CLASSIFICATION_VERSION at the time of classification. Rows below the current version are re-classified on the next run for their thread.';
+COMMENT ON FUNCTION case_threads_needing_classification(uuid, int) IS
+  'Threads with unclassified (or outdated) messages, with how many. Powers the message-classification backfill.';
+
+COMMIT;
@@ -0,0 +1,134 @@
+-- Migration: 0078_thread_summary_versions
+-- Description: First-class thread summary versions, dry runs and approval.
+--
+--   SUMMARY_VERSION in thread-summarization.ts used to be the only record of
+--   what a version meant, and regenerating a case meant dropping its
+--   message_threads rows and running the backfill blind.
+--
+--   - thread_summary_versions: one row per SUMMARY_VERSION with the model
+--     and a fingerprint of the prompt + output schema. Registered by the code
+--     the first time a version runs.
+--   - thread_summary_dry_runs: a request to re-summarize a sample of a case's
+--     outdated threads at the current version without writing message_threads.
+--     An employee reviews it on /internal and approves it; approval is what
+--     enqueues the case-wide re-summarization.
+--   - thread_summary_dry_run_items: old vs. new summary, tone and flags for
+--     each sampled thread.
+--
+--   All three are internal tooling: employees can read them, only the service
+--   role writes.
+--
+-- Idempotent — every CREATE is guarded so a re-run is a no-op.
+
+BEGIN;
+
+CREATE TABLE IF NOT EXISTS thread_summary_versions (
+  version int PRIMARY KEY,
+  model text,
+  -- sha256 of the system prompt + JSON schema. Null for versions that ran
+  -- before versions were recorded.
+  prompt_fingerprint text,
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Versions that shipped before this table existed, from the SUMMARY_VERSION
+-- doc comment.
+INSERT INTO thread_summary_versions (version, model, notes) VALUES
+  (1, 'gpt-5.4-mini', 'Initial summary, tone, flags and search anchors.'),
+  (2, 'gpt-5.4-mini', 'Added retrieval_blurb, folded into summary_fts.'),
+  (3, 'gpt-5.4-mini', 'Long threads summarized map-reduce over message_thread_segments.')
+ON CONFLICT (version) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS thread_summary_dry_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  case_id uuid NOT NULL REFERENCES cases(id) ON DELETE CASCADE,
+  summary_version int NOT NULL REFERENCES thread_summary_versions(version),
+  sample_size int NOT NULL,
+  status text NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'completed', 'failed', 'approved')),
+  error_message text,
+  requested_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  approved_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  approved_at timestamptz,
+  -- Threads enqueued for re-summarization on approval.
+  enqueued_count int,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS thread_summary_dry_run_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  dry_run_id uuid NOT NULL REFERENCES thread_summary_dry_runs(id) ON DELETE CASCADE,
+  message_thread_id uuid NOT NULL REFERENCES message_threads(id) ON DELETE CASCADE,
+  thread_id text NOT NULL,
+  subject text,
+  message_count int NOT NULL DEFAULT 0,
+
+  old_summary_version int,
+  old_summary text,
+  old_tone thread_tone,
+  old_flags text[] NOT NULL DEFAULT '{}',
+
+  new_summary text,
+  new_retrieval_blurb text,
+  new_tone thread_tone,
+  new_flags text[] NOT NULL DEFAULT '{}',
+  new_search_anchors jsonb NOT NULL DEFAULT '{}'::jsonb,
+  new_segment_count int NOT NULL DEFAULT 0,
+
+  error_message text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- ============================================================
+-- Indexes
+-- ============================================================
+
+CREATE INDEX IF NOT EXISTS idx_thread_summary_dry_runs_case
+  ON thread_summary_dry_runs (case_id, created_at DESC);
+
+-- One item per thread per run, so a retried step doesn't duplicate it.
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_thread_summary_dry_run_items_thread
+  ON thread_summary_dry_run_items (dry_run_id, message_thread_id);
+
+-- ============================================================
+-- RLS — employees read; only the service role writes.
+-- ============================================================
+
+ALTER TABLE thread_summary_versions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE thread_summary_dry_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE thread_summary_dry_run_items ENABLE ROW LEVEL SECURITY;
+
+DO $$
+DECLARE
+  t text;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['thread_summary_versions', 'thread_summary_dry_runs', 'thread_summary_dry_run_items'] LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_policies
+      WHERE schemaname = 'public' AND tablename = t AND policyname = t || '_select_employee'
+    ) THEN
+      EXECUTE format(
+        'CREATE POLICY %I ON public.%I FOR SELECT USING (EXISTS (SELECT 1 FROM public.profiles p WHERE p.id = (SELECT auth.uid()) AND p.is_employee = true))',
+        t || '_select_employee', t
+      );
+    END IF;
+  END LOOP;
+END
+$$;
+
+-- ============================================================
+-- Documentation
+-- ============================================================
+
+COMMENT ON TABLE thread_summary_versions IS
+  'One row per thread-summarization SUMMARY_VERSION: model, prompt fingerprint and what changed. message_threads.summary_version refers to these.';
+COMMENT ON COLUMN thread_summary_versions.prompt_fingerprint IS
+  'sha256 of the system prompt and JSON schema. A mismatch at runtime means the prompt changed without a SUMMARY_VERSION bump.';
+COMMENT ON TABLE thread_summary_dry_runs IS
+  'Re-summarization of a sample of a case''s outdated threads at a new version, reviewed on /internal. Approving it enqueues the case-wide re-summarization.';
+COMMENT ON TABLE thread_summary_dry_run_items IS
+  'Old vs. new summary, tone and flags for one sampled thread. The new values are never written to message_threads from here.';
+
+COMMIT;
@@ -0,0 +1,47 @@
+-- Migration: 0079_ofw_attachment_evidence
+-- Description: Link evidence and evidence mentions to the message they were
+--   attached to.
+--
+--   OFW Message Reports list attachments on "See Attachments:" lines and can
+--   embed the attachment pages themselves. ofw-ingest now stores each embedded
+--   attachment as an `evidence` row with message_id set, and records a
+--   need_to_get `evidence_mentions` row for every listed file the report did
+--   not include.
+--
+--   evidence_mentions.event_id becomes nullable: a mention belongs to an event
+--   or to a message, never neither.
+--
+-- Idempotent (IF NOT EXISTS; the CHECK is dropped and re-added).
+
+BEGIN;
+
+ALTER TABLE public.evidence
+  ADD COLUMN IF NOT EXISTS message_id uuid REFERENCES public.messages (id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_evidence_message_id
+  ON public.evidence (message_id)
+  WHERE message_id IS NOT NULL;
+
+ALTER TABLE public.evidence_mentions
+  ADD COLUMN IF NOT EXISTS message_id uuid REFERENCES public.messages (id) ON DELETE CASCADE;
+
+ALTER TABLE public.evidence_mentions
+  ALTER COLUMN event_id DROP NOT NULL;
+
+ALTER TABLE public.evidence_mentions DROP CONSTRAINT IF EXISTS evidence_mentions_subject_check;
+
+ALTER TABLE public.evidence_mentions
+  ADD CONSTRAINT evidence_mentions_subject_check
+  CHECK (event_id IS NOT NULL OR message_id IS NOT NULL);
+
+-- One mention per listed file per message, so a re-import doesn't repeat them.
+CREATE UNIQUE INDEX IF NOT EXISTS uniq_evidence_mentions_message_description
+  ON public.evidence_mentions (message_id, description)
+  WHERE message_id IS NOT NULL;
+
+COMMENT ON COLUMN public.evidence.message_id IS
+  'Message this file was attached to, for attachments extracted from an OFW Message Report. Null for everything else.';
+COMMENT ON COLUMN public.evidence_mentions.message_id IS
+  'Message that listed this file as an attachment. description is the filename; need_to_get until a later import captures the file.';
+
+COMMIT;
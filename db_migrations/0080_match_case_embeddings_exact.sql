@@ -0,0 +1,49 @@
+-- Migration: 0080_match_case_embeddings_exact
+-- Description: Exact per-case nearest-neighbour search for the chat agent.
+--
+--   0061 put one HNSW index over every case's vectors and filtered on case_id
+--   afterwards. The index only hands back its top ef_search candidates across
+--   the whole table, so for any case that doesn't dominate the table the
+--   case_id filter left few or no rows.
+--
+--   Searches never cross cases, and a case holds at most tens of thousands of
+--   records, so match_case_embeddings now scans the case's rows (found through
+--   uniq_embeddings_case_kind_record) and sorts them exactly. The global HNSW
+--   index is dropped: nothing reads it any more and it slows every write.
+--
+-- Idempotent (DROP ... IF EXISTS; CREATE OR REPLACE).
+
+BEGIN;
+
+DROP INDEX IF EXISTS public.idx_embeddings_vector;
+
+CREATE OR REPLACE FUNCTION public.match_case_embeddings(
+  p_case_id uuid,
+  p_query_embedding extensions.vector(1536),
+  p_kinds text[] DEFAULT NULL,
+  p_match_count int DEFAULT 20
+)
+RETURNS TABLE(kind text, record_id uuid, similarity double precision)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+  -- MATERIALIZED keeps the planner from pushing the ORDER BY into a vector
+  -- index scan if one is ever added back.
+  WITH candidates AS MATERIALIZED (
+    SELECT e.kind, e.record_id, e.embedding <=> p_query_embedding AS distance
+    FROM public.embeddings e
+    WHERE e.case_id = p_case_id
+      AND (p_kinds IS NULL OR e.kind = ANY (p_kinds))
+  )
+  SELECT c.kind, c.record_id, 1 - c.distance AS similarity
+  FROM candidates c
+  ORDER BY c.distance
+  LIMIT LEAST(GREATEST(p_match_count, 1), 100);
+$$;
+
+COMMENT ON FUNCTION public.match_case_embeddings(uuid, extensions.vector, text[], int) IS
+  'Exact cosine nearest neighbours within one case, optionally filtered by kind. Powers the semantic_search chat tool.';
+
+COMMIT;
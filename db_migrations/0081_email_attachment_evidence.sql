@@ -0,0 +1,13 @@
+-- Migration: 0081_email_attachment_evidence
+-- Description: email-import now links each stored attachment to its message
+--   through evidence.message_id (added for OFW attachments in 0079). Comment
+--   only; the column and its index already cover it.
+--
+-- Idempotent (COMMENT ON replaces).
+
+BEGIN;
+
+COMMENT ON COLUMN public.evidence.message_id IS
+  'Message this file was attached to, for attachments extracted from an imported OFW Message Report or email export. Null for everything else.';
+
+COMMIT;
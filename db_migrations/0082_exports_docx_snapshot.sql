@@ -0,0 +1,26 @@
+-- Migration: 0082_exports_docx_snapshot
+-- Description: Word snapshot for saved timeline exports in its own column.
+--
+--   The structured report behind a saved export's Word download (every event
+--   and, when included, every message body) was kept in exports.metadata, so
+--   listing or opening exports carried it along. It now lives in
+--   exports.docx_snapshot, read only by GET /api/exports/:id/docx. Snapshots
+--   already saved in metadata are moved across.
+--
+-- Idempotent (ADD COLUMN IF NOT EXISTS; the move only touches rows that still
+-- carry metadata.docx_options).
+
+BEGIN;
+
+ALTER TABLE public.exports
+ADD COLUMN IF NOT EXISTS docx_snapshot jsonb;
+
+UPDATE public.exports
+SET docx_snapshot = metadata -> 'docx_options',
+    metadata = metadata - 'docx_options'
+WHERE metadata ? 'docx_options';
+
+COMMENT ON COLUMN public.exports.docx_snapshot IS
+  'PdfExportOptions for the Word download, captured when the export was saved. NULL for exports saved before 0082 or built from message threads.';
+
+COMMIT;
@@ -0,0 +1,65 @@
+-- Migration: 0083_save_expense
+-- Description: save_expense writes an expense and replaces its linked
+--   messages (expense_messages) in one transaction, so a failed link write
+--   no longer leaves the expense saved without its messages.
+--
+--   p_expense_id null inserts; otherwise updates that expense in
+--   p_expense->>'case_id' and returns no row when there is none. SECURITY
+--   INVOKER: the expenses / expense_messages owner policies (0068) still
+--   decide who may write.
+--
+-- Idempotent (CREATE OR REPLACE).
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION public.save_expense(p_expense_id uuid, p_expense jsonb, p_message_ids uuid[])
+RETURNS SETOF public.expenses
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+  v_input public.expenses := jsonb_populate_record(NULL::public.expenses, p_expense);
+  v_row public.expenses;
+BEGIN
+  IF p_expense_id IS NULL THEN
+    INSERT INTO public.expenses (
+      case_id, user_id, description, category, amount_cents, incurred_on, paid_by, split_percent,
+      receipt_evidence_id, reimbursement_requested_on, reimbursement_paid_on, notes
+    )
+    VALUES (
+      v_input.case_id, v_input.user_id, v_input.description, v_input.category, v_input.amount_cents,
+      v_input.incurred_on, v_input.paid_by, v_input.split_percent, v_input.receipt_evidence_id,
+      v_input.reimbursement_requested_on, v_input.reimbursement_paid_on, v_input.notes
+    )
+    RETURNING * INTO v_row;
+  ELSE
+    UPDATE public.expenses SET
+      description = v_input.description,
+      category = v_input.category,
+      amount_cents = v_input.amount_cents,
+      incurred_on = v_input.incurred_on,
+      paid_by = v_input.paid_by,
+      split_percent = v_input.split_percent,
+      receipt_evidence_id = v_input.receipt_evidence_id,
+      reimbursement_requested_on = v_input.reimbursement_requested_on,
+      reimbursement_paid_on = v_input.reimbursement_paid_on,
+      notes = v_input.notes
+    WHERE id = p_expense_id AND case_id = v_input.case_id
+    RETURNING * INTO v_row;
+    IF NOT FOUND THEN
+      RETURN;
+    END IF;
+  END IF;
+
+  DELETE FROM public.expense_messages WHERE expense_id = v_row.id;
+  INSERT INTO public.expense_messages (expense_id, message_id)
+  SELECT v_row.id, m FROM unnest(COALESCE(p_message_ids, '{}')) AS m;
+
+  RETURN NEXT v_row;
+END
+$$;
+
+COMMENT ON FUNCTION public.save_expense(uuid, jsonb, uuid[]) IS
+  'Insert (p_expense_id null) or update an expense and replace its expense_messages atomically. Used by the expense POST and PATCH routes.';
+
+COMMIT;
@@ -9,6 +9,8 @@ export interface CaseListItem {
 
 interface CasesResponse {
   cases: CaseListItem[]
+  // Read-only cases another user has shared with this user.
+  sharedCases: CaseListItem[]
   activeCaseId: string | null
 }
 
@@ -39,7 +41,7 @@ export const useCases = () => {
 
   const { data, refresh, status } = useFetch<CasesResponse>('/api/cases', {
     key: 'cases-list',
-    default: () => ({ cases: [], activeCaseId: null }),
+    default: () => ({ cases: [], sharedCases: [], activeCaseId: null }),
     onResponse({ response }) {
       // Hydrate the global ref from the server's authoritative resolution.
       // Don't clobber a more recent optimistic update if one is in flight.
@@ -51,12 +53,18 @@ export const useCases = () => {
   })
 
   const cases = computed<CaseListItem[]>(() => data.value?.cases ?? [])
+  const sharedCases = computed<CaseListItem[]>(() => data.value?.sharedCases ?? [])
+  const allCases = computed(() => [...cases.value, ...sharedCases.value])
   const activeCase = computed(
-    () => cases.value.find((c) => c.id === activeCaseId.value)
-      ?? cases.value.find((c) => c.isActive)
-      ?? cases.value[0]
+    () => allCases.value.find(c => c.id === activeCaseId.value)
+      ?? allCases.value.find(c => c.isActive)
+      ?? allCases.value[0]
       ?? null
   )
+  // True when the active case is one the user collaborates on (read-only).
+  const isSharedActive = computed(
+    () => !!activeCase.value && sharedCases.value.some(c => c.id === activeCase.value?.id)
+  )
 
   const setActive = async (caseId: string) => {
     if (activeCaseId.value === caseId) return
@@ -81,5 +89,5 @@ export const useCases = () => {
     await Promise.all([refresh(), refreshNuxtData()])
   }
 
-  return { cases, activeCase, activeCaseId, setActive, refresh, status }
+  return { cases, sharedCases, activeCase, isSharedActive, activeCaseId, setActive, refresh, status }
 }
@@ -9,7 +9,7 @@
  * - Recovery mechanism to re-track jobs on app mount
  */
 
-import type { Job, JobResultSummary, JobType } from '~/types'
+import type { Job, JobResultSummary, JobType, JournalImportResultSummary } from '~/types'
 
 // Per-job-type rendering for completion toasts. Add an entry here when wiring
 // a new job type into the global tracker.
@@ -36,6 +36,52 @@ const completionToastByType: Record<JobType, (job: Job) => CompletionToast> = {
       href: '/messages'
     }
   },
+  chat_import: (job) => {
+    const s = job.result_summary as { messages_inserted?: number, source_format?: string } | null
+    const inserted = s?.messages_inserted ?? 0
+    return {
+      title: s?.source_format === 'whatsapp' ? 'WhatsApp import complete' : 'Text import complete',
+      description: inserted
+        ? `Imported ${inserted} message${inserted !== 1 ? 's' : ''}`
+        : 'No new messages — already imported.',
+      href: '/messages'
+    }
+  },
+  email_import: (job) => {
+    const s = job.result_summary as { messages_inserted?: number, attachments_stored?: number } | null
+    const inserted = s?.messages_inserted ?? 0
+    const files = s?.attachments_stored ?? 0
+    return {
+      title: 'Email import complete',
+      description: inserted
+        ? `Imported ${inserted} email${inserted !== 1 ? 's' : ''}${files ? ` and ${files} attachment${files !== 1 ? 's' : ''}` : ''}`
+        : 'No new emails — already imported.',
+      href: '/messages'
+    }
+  },
+  schedule_check: (job) => {
+    const s = job.result_summary as { violations_found?: number, no_schedule?: boolean } | null
+    const found = s?.violations_found ?? 0
+    return {
+      title: 'Schedule check complete',
+      description: s?.no_schedule
+        ? 'No parenting schedule set up yet.'
+        : found
+          ? `Found ${found} possible schedule violation${found !== 1 ? 's' : ''}`
+          : 'No schedule violations found.',
+      href: '/case'
+    }
+  },
+  journal_import: (job) => {
+    const s = job.result_summary as unknown as JournalImportResultSummary | null
+    const done = s?.entries_completed ?? 0
+    const failed = s?.entries_failed ?? 0
+    return {
+      title: 'Journal import complete',
+      description: `${done} entr${done !== 1 ? 'ies' : 'y'} processed${failed ? `, ${failed} failed` : ''}${s?.events_created ? ` · ${s.events_created} event${s.events_created !== 1 ? 's' : ''} extracted` : ''}`,
+      href: '/journal'
+    }
+  },
   evidence_processing: () => ({
     title: 'Evidence processed',
     description: 'Processing complete'
@@ -0,0 +1,206 @@
+/**
+ * Composable for capturing journal entries offline and syncing them later.
+ *
+ * Features:
+ * - Queues entries (text plus any untranscribed voice recording) in IndexedDB
+ * - Syncs when the browser comes back online, on app mount, or on demand
+ * - Transcribes queued recordings before submitting
+ * - Submits with an Idempotency-Key so retries never duplicate an entry
+ * - Module-level state persists across page navigation
+ */
+
+import { useOnline } from '@vueuse/core'
+import type { JournalSubmitResponse } from '~/types'
+import {
+  deleteQueuedJournalEntry,
+  isOfflineQueueSupported,
+  listQueuedJournalEntries,
+  putQueuedJournalEntry,
+  type QueuedJournalEntry
+} from '~/utils/offlineJournalQueue'
+
+// Module-level state (persists across page navigation)
+const queuedEntries = ref<QueuedJournalEntry[]>([])
+const isSyncing = ref(false)
+const queueUserId = ref<string | null>(null)
+let listening = false
+
+function audioFileName(mimeType: string): string {
+  if (mimeType.includes('mp3') || mimeType.includes('mpeg')) return 'recording.mp3'
+  if (mimeType.includes('wav')) return 'recording.wav'
+  if (mimeType.includes('mp4') || mimeType.includes('m4a')) return 'recording.mp4'
+  return 'recording.webm'
+}
+
+type SyncError = { response?: { status?: number }, statusCode?: number, data?: { statusMessage?: string }, message?: string }
+
+/** No response at all, a server error or an expired session: worth retrying later. */
+function isRetryable(e: SyncError | undefined): boolean {
+  const status = e?.response?.status ?? e?.statusCode
+  return !status || status >= 500 || status === 401 || status === 409 || status === 429
+}
+
+export function useOfflineJournal() {
+  const isOnline = useOnline()
+  const toast = useToast()
+  const { trackJob } = useJobs()
+  const { incrementJournalEntryCount } = useSubscription()
+  const { logEvent } = useAnalytics()
+
+  const pendingCount = computed(() => queuedEntries.value.filter(e => !e.error).length)
+  const failedCount = computed(() => queuedEntries.value.filter(e => e.error).length)
+
+  async function refreshQueue() {
+    if (!queueUserId.value || !isOfflineQueueSupported()) return
+    queuedEntries.value = await listQueuedJournalEntries(queueUserId.value)
+  }
+
+  /**
+   * Save an entry to submit once the connection is back. Pass the key an
+   * online submit already used as `id` so the retry can't duplicate it.
+   */
+  async function enqueue(entry: Omit<QueuedJournalEntry, 'id' | 'userId' | 'createdAt' | 'attempts' | 'error'> & { id?: string }) {
+    if (!queueUserId.value) throw new Error('Sign in to save entries for later')
+    if (!isOfflineQueueSupported()) throw new Error('This browser can\'t save entries offline')
+
+    await putQueuedJournalEntry({
+      ...entry,
+      id: entry.id ?? crypto.randomUUID(),
+      userId: queueUserId.value,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      error: null
+    })
+    await refreshQueue()
+    logEvent('journal_entry_queued_offline', { hasAudio: !!entry.audio })
+  }
+
+  async function syncEntry(entry: QueuedJournalEntry) {
+    // Transcribe first and persist the text, so a failed submit doesn't
+    // transcribe (and bill) the same recording again.
+    if (entry.audio) {
+      const formData = new FormData()
+      formData.append('audio', entry.audio, audioFileName(entry.audio.type))
+      const { transcript } = await $fetch<{ transcript: string }>('/api/transcribe', {
+        method: 'POST',
+        body: formData
+      })
+      const text = transcript?.trim()
+      entry = {
+        ...entry,
+        eventText: [entry.eventText.trim(), text].filter(Boolean).join('\n\n'),
+        audio: null
+      }
+      await putQueuedJournalEntry(entry)
+    }
+
+    if (!entry.eventText.trim()) {
+      throw Object.assign(new Error('Nothing was transcribed from the recording'), { statusCode: 400 })
+    }
+
+    const result = await $fetch<JournalSubmitResponse>('/api/journal/submit', {
+      method: 'POST',
+      headers: { 'Idempotency-Key': entry.id },
+      body: {
+        eventText: entry.eventText.trim(),
+        referenceDate: entry.referenceDate,
+        timezone: entry.timezone,
+        evidenceIds: [],
+        gapFill: entry.gapFill
+      }
+    })
+
+    await deleteQueuedJournalEntry(entry.id)
+    trackJob({ id: result.jobId, type: 'journal_extraction', journal_entry_id: result.journalEntryId })
+    incrementJournalEntryCount()
+  }
+
+  /** Submit queued entries oldest first; stops at the first retryable failure. */
+  async function syncNow() {
+    if (isSyncing.value || !navigator.onLine || !queueUserId.value || !isOfflineQueueSupported()) return
+    isSyncing.value = true
+
+    let synced = 0
+    try {
+      for (const entry of await listQueuedJournalEntries(queueUserId.value)) {
+        if (entry.error) continue
+        try {
+          await syncEntry(entry)
+          synced++
+        } catch (err: unknown) {
+          console.error('[offline-journal] Sync failed:', err)
+          const e = err as SyncError | undefined
+          const latest = (await listQueuedJournalEntries(queueUserId.value)).find(q => q.id === entry.id) ?? entry
+          const retryable = isRetryable(e)
+          await putQueuedJournalEntry({
+            ...latest,
+            attempts: latest.attempts + 1,
+            error: retryable ? null : (e?.data?.statusMessage || e?.message || 'Could not submit this entry')
+          })
+          if (retryable) break
+        }
+      }
+    } finally {
+      await refreshQueue()
+      isSyncing.value = false
+    }
+
+    if (synced > 0) {
+      logEvent('journal_offline_queue_synced', { synced })
+      toast.add({
+        title: `${synced} saved ${synced === 1 ? 'entry' : 'entries'} submitted`,
+        description: 'Entries written offline are now processing.',
+        icon: 'i-lucide-cloud-upload',
+        color: 'info'
+      })
+    }
+  }
+
+  /** Put a rejected entry back in line, e.g. after upgrading past the free limit. */
+  async function retry(id: string) {
+    const entry = queuedEntries.value.find(e => e.id === id)
+    if (!entry) return
+    await putQueuedJournalEntry({ ...toRaw(entry), error: null })
+    await refreshQueue()
+    await syncNow()
+  }
+
+  async function discard(id: string) {
+    await deleteQueuedJournalEntry(id)
+    await refreshQueue()
+  }
+
+  /**
+   * Load the signed-in user's queue and sync it now and whenever the
+   * browser comes back online. Call once on app mount.
+   */
+  async function startOfflineSync(userId: string) {
+    if (!isOfflineQueueSupported()) return
+    queueUserId.value = userId
+
+    if (!listening) {
+      listening = true
+      window.addEventListener('online', () => syncNow())
+    }
+
+    try {
+      await refreshQueue()
+      await syncNow()
+    } catch (e) {
+      console.error('[offline-journal] Failed to load queue:', e)
+    }
+  }
+
+  return {
+    queuedEntries: readonly(queuedEntries),
+    pendingCount,
+    failedCount,
+    isSyncing: readonly(isSyncing),
+    isOnline,
+    enqueue,
+    syncNow,
+    retry,
+    discard,
+    startOfflineSync
+  }
+}
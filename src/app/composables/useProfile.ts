@@ -12,6 +12,13 @@ interface Profile {
   full_name: string | null
   email: string | null
   timezone: string | null
+  email_reminders: boolean
+  journal_nudge_enabled: boolean
+  /** HH:MM:SS local, as Postgres returns `time`. */
+  journal_nudge_time: string
+  journal_nudge_days: number[]
+  quiet_hours_start: string | null
+  quiet_hours_end: string | null
   avatar_url: string | null
   onboarding_completed_at: string | null
   created_at: string
@@ -58,7 +65,7 @@ export function useProfile() {
   }
 
   // Update profile
-  async function updateProfile(updates: Partial<Pick<Profile, 'full_name' | 'timezone' | 'avatar_url' | 'onboarding_completed_at'>>): Promise<Profile | null> {
+  async function updateProfile(updates: Partial<Pick<Profile, 'full_name' | 'timezone' | 'email_reminders' | 'journal_nudge_enabled' | 'journal_nudge_time' | 'journal_nudge_days' | 'quiet_hours_start' | 'quiet_hours_end' | 'avatar_url' | 'onboarding_completed_at'>>): Promise<Profile | null> {
     if (!getUserId()) return null
 
     isLoading.value = true
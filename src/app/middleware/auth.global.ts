@@ -17,7 +17,9 @@ export default defineNuxtRouteMiddleware(async (to, from) => {
     '/privacy',               // Privacy policy page
     '/terms',                 // Terms and conditions page
     '/security',              // Security page
-    '/help'                   // Help & FAQ page
+    '/help',                  // Help & FAQ page
+    // Collaborator invite landing (accepting requires sign-in)
+    '/invite'
   ]
   
   // Check if the current route is public
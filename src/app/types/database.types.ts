@@ -152,6 +152,106 @@ export type Database = {
         }
         Relationships: []
       }
+      case_collaborators: {
+        Row: {
+          accepted_at: string | null
+          case_id: string
+          email: string
+          id: string
+          invite_token: string
+          invited_at: string
+          invited_by: string
+          last_seen_at: string | null
+          revoked_at: string | null
+          role: string
+          user_id: string | null
+        }
+        Insert: {
+          accepted_at?: string | null
+          case_id: string
+          email: string
+          id?: string
+          invite_token: string
+          invited_at?: string
+          invited_by: string
+          last_seen_at?: string | null
+          revoked_at?: string | null
+          role?: string
+          user_id?: string | null
+        }
+        Update: {
+          accepted_at?: string | null
+          case_id?: string
+          email?: string
+          id?: string
+          invite_token?: string
+          invited_at?: string
+          invited_by?: string
+          last_seen_at?: string | null
+          revoked_at?: string | null
+          role?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "case_collaborators_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      case_deadlines: {
+        Row: {
+          case_id: string
+          created_at: string
+          id: string
+          location: string | null
+          notes: string | null
+          reminder_days: number[]
+          starts_at: string
+          title: string
+          type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          case_id: string
+          created_at?: string
+          id?: string
+          location?: string | null
+          notes?: string | null
+          reminder_days?: number[]
+          starts_at: string
+          title: string
+          type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          case_id?: string
+          created_at?: string
+          id?: string
+          location?: string | null
+          notes?: string | null
+          reminder_days?: number[]
+          starts_at?: string
+          title?: string
+          type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "case_deadlines_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cases: {
         Row: {
           case_numbers: string[]
@@ -164,6 +264,7 @@ export type Database = {
           id: string
           jurisdiction_county: string | null
           jurisdiction_state: string | null
+          last_court_date: string | null
           lawyer_email: string | null
           lawyer_name: string | null
           next_court_date: string | null
@@ -189,6 +290,7 @@ export type Database = {
           id?: string
           jurisdiction_county?: string | null
           jurisdiction_state?: string | null
+          last_court_date?: string | null
           lawyer_email?: string | null
           lawyer_name?: string | null
           next_court_date?: string | null
@@ -214,6 +316,7 @@ export type Database = {
           id?: string
           jurisdiction_county?: string | null
           jurisdiction_state?: string | null
+          last_court_date?: string | null
           lawyer_email?: string | null
           lawyer_name?: string | null
           next_court_date?: string | null
@@ -355,6 +458,50 @@ export type Database = {
           },
         ]
       }
+      embeddings: {
+        Row: {
+          case_id: string
+          content_hash: string
+          created_at: string
+          embedding: string
+          id: string
+          kind: string
+          model: string
+          record_id: string
+          updated_at: string
+        }
+        Insert: {
+          case_id: string
+          content_hash: string
+          created_at?: string
+          embedding: string
+          id?: string
+          kind: string
+          model: string
+          record_id: string
+          updated_at?: string
+        }
+        Update: {
+          case_id?: string
+          content_hash?: string
+          created_at?: string
+          embedding?: string
+          id?: string
+          kind?: string
+          model?: string
+          record_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "embeddings_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       event_evidence: {
         Row: {
           created_at: string
@@ -622,6 +769,7 @@ export type Database = {
           created_at: string
           extraction_raw: Json | null
           id: string
+          message_id: string | null
           mime_type: string | null
           original_filename: string | null
           source_type: Database["public"]["Enums"]["evidence_source_type"]
@@ -637,6 +785,7 @@ export type Database = {
           created_at?: string
           extraction_raw?: Json | null
           id?: string
+          message_id?: string | null
           mime_type?: string | null
           original_filename?: string | null
           source_type: Database["public"]["Enums"]["evidence_source_type"]
@@ -652,6 +801,7 @@ export type Database = {
           created_at?: string
           extraction_raw?: Json | null
           id?: string
+          message_id?: string | null
           mime_type?: string | null
           original_filename?: string | null
           source_type?: Database["public"]["Enums"]["evidence_source_type"]
@@ -670,6 +820,13 @@ export type Database = {
             referencedRelation: "cases"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "evidence_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
         ]
       }
       evidence_mentions: {
@@ -677,8 +834,9 @@ export type Database = {
           case_id: string | null
           created_at: string
           description: string
-          event_id: string
+          event_id: string | null
           id: string
+          message_id: string | null
           status: Database["public"]["Enums"]["evidence_mention_status"]
           type: Database["public"]["Enums"]["evidence_source_type"]
           user_id: string
@@ -687,8 +845,9 @@ export type Database = {
           case_id?: string | null
           created_at?: string
           description: string
-          event_id: string
+          event_id?: string | null
           id?: string
+          message_id?: string | null
           status: Database["public"]["Enums"]["evidence_mention_status"]
           type: Database["public"]["Enums"]["evidence_source_type"]
           user_id: string
@@ -697,8 +856,9 @@ export type Database = {
           case_id?: string | null
           created_at?: string
           description?: string
-          event_id?: string
+          event_id?: string | null
           id?: string
+          message_id?: string | null
           status?: Database["public"]["Enums"]["evidence_mention_status"]
           type?: Database["public"]["Enums"]["evidence_source_type"]
           user_id?: string
@@ -718,11 +878,122 @@ export type Database = {
             referencedRelation: "events"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "evidence_mentions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      expense_messages: {
+        Row: {
+          created_at: string
+          expense_id: string
+          message_id: string
+        }
+        Insert: {
+          created_at?: string
+          expense_id: string
+          message_id: string
+        }
+        Update: {
+          created_at?: string
+          expense_id?: string
+          message_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expense_messages_expense_id_fkey"
+            columns: ["expense_id"]
+            isOneToOne: false
+            referencedRelation: "expenses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expense_messages_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      expenses: {
+        Row: {
+          amount_cents: number
+          case_id: string
+          category: string
+          created_at: string
+          description: string
+          id: string
+          incurred_on: string
+          notes: string | null
+          paid_by: string
+          receipt_evidence_id: string | null
+          reimbursement_paid_on: string | null
+          reimbursement_requested_on: string | null
+          split_percent: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount_cents: number
+          case_id: string
+          category: string
+          created_at?: string
+          description: string
+          id?: string
+          incurred_on: string
+          notes?: string | null
+          paid_by: string
+          receipt_evidence_id?: string | null
+          reimbursement_paid_on?: string | null
+          reimbursement_requested_on?: string | null
+          split_percent?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount_cents?: number
+          case_id?: string
+          category?: string
+          created_at?: string
+          description?: string
+          id?: string
+          incurred_on?: string
+          notes?: string | null
+          paid_by?: string
+          receipt_evidence_id?: string | null
+          reimbursement_paid_on?: string | null
+          reimbursement_requested_on?: string | null
+          split_percent?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "expenses_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "expenses_receipt_evidence_id_fkey"
+            columns: ["receipt_evidence_id"]
+            isOneToOne: false
+            referencedRelation: "evidence"
+            referencedColumns: ["id"]
+          },
         ]
       }
       exports: {
         Row: {
+          case_id: string | null
           created_at: string
+          docx_snapshot: Json | null
           focus: string
           id: string
           markdown_content: string
@@ -732,7 +1003,9 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          case_id?: string | null
           created_at?: string
+          docx_snapshot?: Json | null
           focus?: string
           id?: string
           markdown_content: string
@@ -742,7 +1015,9 @@ export type Database = {
           user_id: string
         }
         Update: {
+          case_id?: string | null
           created_at?: string
+          docx_snapshot?: Json | null
           focus?: string
           id?: string
           markdown_content?: string
@@ -751,6 +1026,95 @@ export type Database = {
           updated_at?: string
           user_id?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "exports_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hearing_exhibits: {
+        Row: {
+          case_id: string
+          created_at: string
+          evidence_id: string
+          id: string
+          note: string | null
+          position: number
+          user_id: string
+        }
+        Insert: {
+          case_id: string
+          created_at?: string
+          evidence_id: string
+          id?: string
+          note?: string | null
+          position?: number
+          user_id: string
+        }
+        Update: {
+          case_id?: string
+          created_at?: string
+          evidence_id?: string
+          id?: string
+          note?: string | null
+          position?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hearing_exhibits_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hearing_exhibits_evidence_id_fkey"
+            columns: ["evidence_id"]
+            isOneToOne: false
+            referencedRelation: "evidence"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      idempotency_keys: {
+        Row: {
+          created_at: string
+          expires_at: string
+          key: string
+          request_fingerprint: string
+          response_body: Json | null
+          response_status: number | null
+          scope: string
+          status: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          key: string
+          request_fingerprint: string
+          response_body?: Json | null
+          response_status?: number | null
+          scope: string
+          status?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          key?: string
+          request_fingerprint?: string
+          response_body?: Json | null
+          response_status?: number | null
+          scope?: string
+          status?: string
+          user_id?: string
+        }
         Relationships: []
       }
       jobs: {
@@ -812,6 +1176,7 @@ export type Database = {
           extraction_job_id: string | null
           extraction_raw: Json | null
           id: string
+          idempotency_key: string | null
           processed_at: string | null
           processing_error: string | null
           reference_date: string | null
@@ -828,6 +1193,7 @@ export type Database = {
           extraction_job_id?: string | null
           extraction_raw?: Json | null
           id?: string
+          idempotency_key?: string | null
           processed_at?: string | null
           processing_error?: string | null
           reference_date?: string | null
@@ -844,6 +1210,7 @@ export type Database = {
           extraction_job_id?: string | null
           extraction_raw?: Json | null
           id?: string
+          idempotency_key?: string | null
           processed_at?: string | null
           processing_error?: string | null
           reference_date?: string | null
@@ -914,6 +1281,138 @@ export type Database = {
           },
         ]
       }
+      message_classifications: {
+        Row: {
+          case_id: string
+          classification_version: number
+          created_at: string
+          flags: string[]
+          message_id: string
+          model: string | null
+          thread_id: string | null
+          tone: Database["public"]["Enums"]["thread_tone"]
+          updated_at: string
+        }
+        Insert: {
+          case_id: string
+          classification_version?: number
+          created_at?: string
+          flags?: string[]
+          message_id: string
+          model?: string | null
+          thread_id?: string | null
+          tone: Database["public"]["Enums"]["thread_tone"]
+          updated_at?: string
+        }
+        Update: {
+          case_id?: string
+          classification_version?: number
+          created_at?: string
+          flags?: string[]
+          message_id?: string
+          model?: string | null
+          thread_id?: string | null
+          tone?: Database["public"]["Enums"]["thread_tone"]
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_classifications_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_classifications_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: true
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_thread_segments: {
+        Row: {
+          case_id: string
+          created_at: string
+          first_message_id: string | null
+          first_sent_at: string | null
+          flags: string[]
+          id: string
+          last_message_id: string | null
+          last_sent_at: string | null
+          message_count: number
+          message_thread_id: string
+          model: string | null
+          search_anchors: Json
+          segment_fts: unknown
+          segment_index: number
+          summary: string | null
+          summary_version: number
+          thread_id: string
+          tone: Database["public"]["Enums"]["thread_tone"] | null
+          updated_at: string
+        }
+        Insert: {
+          case_id: string
+          created_at?: string
+          first_message_id?: string | null
+          first_sent_at?: string | null
+          flags?: string[]
+          id?: string
+          last_message_id?: string | null
+          last_sent_at?: string | null
+          message_count?: number
+          message_thread_id: string
+          model?: string | null
+          search_anchors?: Json
+          segment_fts?: unknown
+          segment_index: number
+          summary?: string | null
+          summary_version?: number
+          thread_id: string
+          tone?: Database["public"]["Enums"]["thread_tone"] | null
+          updated_at?: string
+        }
+        Update: {
+          case_id?: string
+          created_at?: string
+          first_message_id?: string | null
+          first_sent_at?: string | null
+          flags?: string[]
+          id?: string
+          last_message_id?: string | null
+          last_sent_at?: string | null
+          message_count?: number
+          message_thread_id?: string
+          model?: string | null
+          search_anchors?: Json
+          segment_fts?: unknown
+          segment_index?: number
+          summary?: string | null
+          summary_version?: number
+          thread_id?: string
+          tone?: Database["public"]["Enums"]["thread_tone"] | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_thread_segments_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_thread_segments_message_thread_id_fkey"
+            columns: ["message_thread_id"]
+            isOneToOne: false
+            referencedRelation: "message_threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       message_threads: {
         Row: {
           case_id: string
@@ -1001,6 +1500,7 @@ export type Database = {
           body: string
           case_id: string
           created_at: string
+          dedupe_key: string | null
           evidence_id: string
           first_viewed_at: string | null
           id: string
@@ -1009,6 +1509,7 @@ export type Database = {
           sender: string
           sent_at: string
           sequence_number: number
+          source: string
           subject: string | null
           thread_id: string | null
           user_id: string
@@ -1019,6 +1520,7 @@ export type Database = {
           body: string
           case_id: string
           created_at?: string
+          dedupe_key?: string | null
           evidence_id: string
           first_viewed_at?: string | null
           id?: string
@@ -1027,6 +1529,7 @@ export type Database = {
           sender: string
           sent_at: string
           sequence_number: number
+          source?: string
           subject?: string | null
           thread_id?: string | null
           user_id: string
@@ -1037,6 +1540,7 @@ export type Database = {
           body?: string
           case_id?: string
           created_at?: string
+          dedupe_key?: string | null
           evidence_id?: string
           first_viewed_at?: string | null
           id?: string
@@ -1045,6 +1549,7 @@ export type Database = {
           sender?: string
           sent_at?: string
           sequence_number?: number
+          source?: string
           subject?: string | null
           thread_id?: string | null
           user_id?: string
@@ -1067,6 +1572,62 @@ export type Database = {
           },
         ]
       }
+      parenting_schedules: {
+        Row: {
+          anchor_custodian: string
+          anchor_date: string
+          case_id: string
+          created_at: string
+          custom_cycle: string[] | null
+          exchange_location: string | null
+          exchange_time: string | null
+          grace_minutes: number
+          holidays: Json
+          id: string
+          rotation: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          anchor_custodian: string
+          anchor_date: string
+          case_id: string
+          created_at?: string
+          custom_cycle?: string[] | null
+          exchange_location?: string | null
+          exchange_time?: string | null
+          grace_minutes?: number
+          holidays?: Json
+          id?: string
+          rotation: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          anchor_custodian?: string
+          anchor_date?: string
+          case_id?: string
+          created_at?: string
+          custom_cycle?: string[] | null
+          exchange_location?: string | null
+          exchange_time?: string | null
+          grace_minutes?: number
+          holidays?: Json
+          id?: string
+          rotation?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "parenting_schedules_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: true
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       patterns: {
         Row: {
           created_at: string
@@ -1097,13 +1658,19 @@ export type Database = {
           avatar_url: string | null
           created_at: string
           email: string | null
+          email_reminders: boolean
           full_name: string | null
           gclid: string | null
           gclid_captured_at: string | null
           id: string
           is_employee: boolean | null
           is_test_user: boolean
+          journal_nudge_days: number[]
+          journal_nudge_enabled: boolean
+          journal_nudge_time: string
           onboarding_completed_at: string | null
+          quiet_hours_end: string | null
+          quiet_hours_start: string | null
           timezone: string | null
           updated_at: string
         }
@@ -1112,13 +1679,19 @@ export type Database = {
           avatar_url?: string | null
           created_at?: string
           email?: string | null
+          email_reminders?: boolean
           full_name?: string | null
           gclid?: string | null
           gclid_captured_at?: string | null
           id: string
           is_employee?: boolean | null
           is_test_user?: boolean
+          journal_nudge_days?: number[]
+          journal_nudge_enabled?: boolean
+          journal_nudge_time?: string
           onboarding_completed_at?: string | null
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
           timezone?: string | null
           updated_at?: string
         }
@@ -1127,13 +1700,19 @@ export type Database = {
           avatar_url?: string | null
           created_at?: string
           email?: string | null
+          email_reminders?: boolean
           full_name?: string | null
           gclid?: string | null
           gclid_captured_at?: string | null
           id?: string
           is_employee?: boolean | null
           is_test_user?: boolean
+          journal_nudge_days?: number[]
+          journal_nudge_enabled?: boolean
+          journal_nudge_time?: string
           onboarding_completed_at?: string | null
+          quiet_hours_end?: string | null
+          quiet_hours_start?: string | null
           timezone?: string | null
           updated_at?: string
         }
@@ -1147,6 +1726,87 @@ export type Database = {
           },
         ]
       }
+      reminder_deliveries: {
+        Row: {
+          channel: string
+          delivered_at: string
+          reminder_key: string
+          user_id: string
+        }
+        Insert: {
+          channel: string
+          delivered_at?: string
+          reminder_key: string
+          user_id: string
+        }
+        Update: {
+          channel?: string
+          delivered_at?: string
+          reminder_key?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      schedule_violations: {
+        Row: {
+          case_id: string
+          detected_at: string
+          event_ids: string[]
+          expected_custodian: string
+          id: string
+          kind: string
+          message_ids: string[]
+          pattern_id: string | null
+          reasons: string[]
+          summary: string
+          user_id: string
+          violation_date: string
+        }
+        Insert: {
+          case_id: string
+          detected_at?: string
+          event_ids?: string[]
+          expected_custodian: string
+          id?: string
+          kind: string
+          message_ids?: string[]
+          pattern_id?: string | null
+          reasons?: string[]
+          summary: string
+          user_id: string
+          violation_date: string
+        }
+        Update: {
+          case_id?: string
+          detected_at?: string
+          event_ids?: string[]
+          expected_custodian?: string
+          id?: string
+          kind?: string
+          message_ids?: string[]
+          pattern_id?: string | null
+          reasons?: string[]
+          summary?: string
+          user_id?: string
+          violation_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_violations_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_violations_pattern_id_fkey"
+            columns: ["pattern_id"]
+            isOneToOne: false
+            referencedRelation: "patterns"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       subscriptions: {
         Row: {
           billing_interval: Database["public"]["Enums"]["billing_interval"]
@@ -1195,6 +1855,168 @@ export type Database = {
         }
         Relationships: []
       }
+      thread_summary_dry_run_items: {
+        Row: {
+          created_at: string
+          dry_run_id: string
+          error_message: string | null
+          id: string
+          message_count: number
+          message_thread_id: string
+          new_flags: string[]
+          new_retrieval_blurb: string | null
+          new_search_anchors: Json
+          new_segment_count: number
+          new_summary: string | null
+          new_tone: Database["public"]["Enums"]["thread_tone"] | null
+          old_flags: string[]
+          old_summary: string | null
+          old_summary_version: number | null
+          old_tone: Database["public"]["Enums"]["thread_tone"] | null
+          subject: string | null
+          thread_id: string
+        }
+        Insert: {
+          created_at?: string
+          dry_run_id: string
+          error_message?: string | null
+          id?: string
+          message_count?: number
+          message_thread_id: string
+          new_flags?: string[]
+          new_retrieval_blurb?: string | null
+          new_search_anchors?: Json
+          new_segment_count?: number
+          new_summary?: string | null
+          new_tone?: Database["public"]["Enums"]["thread_tone"] | null
+          old_flags?: string[]
+          old_summary?: string | null
+          old_summary_version?: number | null
+          old_tone?: Database["public"]["Enums"]["thread_tone"] | null
+          subject?: string | null
+          thread_id: string
+        }
+        Update: {
+          created_at?: string
+          dry_run_id?: string
+          error_message?: string | null
+          id?: string
+          message_count?: number
+          message_thread_id?: string
+          new_flags?: string[]
+          new_retrieval_blurb?: string | null
+          new_search_anchors?: Json
+          new_segment_count?: number
+          new_summary?: string | null
+          new_tone?: Database["public"]["Enums"]["thread_tone"] | null
+          old_flags?: string[]
+          old_summary?: string | null
+          old_summary_version?: number | null
+          old_tone?: Database["public"]["Enums"]["thread_tone"] | null
+          subject?: string | null
+          thread_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "thread_summary_dry_run_items_dry_run_id_fkey"
+            columns: ["dry_run_id"]
+            isOneToOne: false
+            referencedRelation: "thread_summary_dry_runs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "thread_summary_dry_run_items_message_thread_id_fkey"
+            columns: ["message_thread_id"]
+            isOneToOne: false
+            referencedRelation: "message_threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      thread_summary_dry_runs: {
+        Row: {
+          approved_at: string | null
+          approved_by: string | null
+          case_id: string
+          completed_at: string | null
+          created_at: string
+          enqueued_count: number | null
+          error_message: string | null
+          id: string
+          requested_by: string | null
+          sample_size: number
+          status: string
+          summary_version: number
+        }
+        Insert: {
+          approved_at?: string | null
+          approved_by?: string | null
+          case_id: string
+          completed_at?: string | null
+          created_at?: string
+          enqueued_count?: number | null
+          error_message?: string | null
+          id?: string
+          requested_by?: string | null
+          sample_size: number
+          status?: string
+          summary_version: number
+        }
+        Update: {
+          approved_at?: string | null
+          approved_by?: string | null
+          case_id?: string
+          completed_at?: string | null
+          created_at?: string
+          enqueued_count?: number | null
+          error_message?: string | null
+          id?: string
+          requested_by?: string | null
+          sample_size?: number
+          status?: string
+          summary_version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "thread_summary_dry_runs_case_id_fkey"
+            columns: ["case_id"]
+            isOneToOne: false
+            referencedRelation: "cases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "thread_summary_dry_runs_summary_version_fkey"
+            columns: ["summary_version"]
+            isOneToOne: false
+            referencedRelation: "thread_summary_versions"
+            referencedColumns: ["version"]
+          },
+        ]
+      }
+      thread_summary_versions: {
+        Row: {
+          created_at: string
+          model: string | null
+          notes: string | null
+          prompt_fingerprint: string | null
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          model?: string | null
+          notes?: string | null
+          prompt_fingerprint?: string | null
+          version: number
+        }
+        Update: {
+          created_at?: string
+          model?: string | null
+          notes?: string | null
+          prompt_fingerprint?: string | null
+          version?: number
+        }
+        Relationships: []
+      }
       voice_recordings: {
         Row: {
           created_at: string
@@ -1252,6 +2074,13 @@ export type Database = {
           thread_id: string
         }[]
       }
+      case_threads_needing_classification: {
+        Args: { p_case_id: string; p_version: number }
+        Returns: {
+          pending_count: number
+          thread_id: string
+        }[]
+      }
       evidence_thread_ids: {
         Args: { p_case_id: string; p_evidence_id: string }
         Returns: {
@@ -1259,6 +2088,19 @@ export type Database = {
         }[]
       }
       jsonb_string_array_to_text: { Args: { p: Json }; Returns: string }
+      match_case_embeddings: {
+        Args: {
+          p_case_id: string
+          p_kinds?: string[]
+          p_match_count?: number
+          p_query_embedding: string
+        }
+        Returns: {
+          kind: string
+          record_id: string
+          similarity: number
+        }[]
+      }
       message_threads_fts: {
         Args: {
           p_anchors: Json
@@ -1269,6 +2111,30 @@ export type Database = {
         }
         Returns: unknown
       }
+      save_expense: {
+        Args: { p_expense: Json; p_expense_id: string | null; p_message_ids: string[] }
+        Returns: {
+          amount_cents: number
+          case_id: string
+          category: string
+          created_at: string
+          description: string
+          id: string
+          incurred_on: string
+          notes: string | null
+          paid_by: string
+          receipt_evidence_id: string | null
+          reimbursement_paid_on: string | null
+          reimbursement_requested_on: string | null
+          split_percent: number
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      user_can_access_case: {
+        Args: { check_case_id: string }
+        Returns: boolean
+      }
     }
     Enums: {
       action_priority: "urgent" | "high" | "normal" | "low"
@@ -1312,7 +2178,14 @@ export type Database = {
         | "completed"
         | "failed"
         | "pending_confirmation"
-      job_type: "journal_extraction" | "evidence_processing" | "ofw_ingest"
+      job_type:
+        | "journal_extraction"
+        | "evidence_processing"
+        | "ofw_ingest"
+        | "chat_import"
+        | "email_import"
+        | "schedule_check"
+        | "journal_import"
       journal_entry_status:
         | "draft"
         | "processing"
@@ -1512,7 +2385,15 @@ export const Constants = {
         "failed",
         "pending_confirmation",
       ],
-      job_type: ["journal_extraction", "evidence_processing", "ofw_ingest"],
+      job_type: [
+        "journal_extraction",
+        "evidence_processing",
+        "ofw_ingest",
+        "chat_import",
+        "email_import",
+        "schedule_check",
+        "journal_import",
+      ],
       journal_entry_status: [
         "draft",
         "processing",
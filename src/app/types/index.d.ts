@@ -99,6 +99,344 @@ export type TimelineItem =
   | ({ kind: 'event' } & TimelineEvent)
   | ({ kind: 'message' } & TimelineMessage)
 
+export interface CalendarDay {
+  date: string // YYYY-MM-DD in the user's time zone
+  /** Who should have the children per the parenting schedule; null without one or before it starts. */
+  scheduled: 'you' | 'coparent' | null
+  /** Shading for the day: the schedule when there is one, otherwise logged parenting time. */
+  custodian: 'you' | 'coparent' | null
+  source: 'schedule' | 'events' | null
+  holiday: string | null
+  exchange: boolean
+  loggedParentingTime: boolean
+}
+
+export interface CalendarEvent {
+  id: string
+  date: string
+  time: string | null // HH:MM when the event has an exact time
+  extractionType: ExtractionEventType
+  title: string
+}
+
+export interface CalendarViolation {
+  date: string
+  kind: 'late_exchange' | 'missed_visit' | 'overhold'
+  summary: string
+}
+
+export interface CalendarResponse {
+  hasSchedule: boolean
+  days: CalendarDay[]
+  events: CalendarEvent[]
+  violations: CalendarViolation[]
+}
+
+export interface OvernightTally {
+  you: number
+  coparent: number
+  youPercent: number
+  coparentPercent: number
+}
+
+export interface OvernightPeriod {
+  period: string // 'YYYY-MM', 'YYYY' or 'total'
+  from: string
+  to: string
+  nights: number
+  ordered: OvernightTally
+  actual: OvernightTally
+  deviations: number
+}
+
+/** A documented night that went to the other parent than the schedule says. */
+export interface OvernightDeviation {
+  date: string
+  kind: 'late_exchange' | 'missed_visit' | 'overhold'
+  summary: string
+  ordered: 'you' | 'coparent'
+  actual: 'you' | 'coparent'
+  eventIds: string[]
+  messageIds: string[]
+}
+
+export interface OvernightCitationEvent {
+  id: string
+  title: string
+  date: string | null
+}
+
+export interface OvernightCitationMessage {
+  id: string
+  source: string
+  sender: string
+  sentAt: string
+  messageNumber: number | null
+  sequenceNumber: number
+}
+
+export interface OvernightReportResponse {
+  /** Null until the case has a parenting schedule. */
+  report: {
+    from: string
+    to: string
+    months: OvernightPeriod[]
+    years: OvernightPeriod[]
+    total: OvernightPeriod
+    deviations: OvernightDeviation[]
+  } | null
+  events: Record<string, OvernightCitationEvent>
+  messages: Record<string, OvernightCitationMessage>
+}
+
+/** One sender's messages in a period. View metrics are OFW-only. */
+export interface CommunicationSenderMetrics {
+  sender: string
+  messagesSent: number
+  viewTracked: number
+  medianMinutesToFirstView: number | null
+  neverViewed: number
+  replies: number
+  medianReplyMinutes: number | null
+  informationRequests: number
+  unansweredInformationRequests: number
+}
+
+export interface CommunicationMetricsPeriod {
+  period: string // 'YYYY-MM' or 'total'
+  senders: CommunicationSenderMetrics[]
+}
+
+export interface UnansweredInformationRequest {
+  id: string
+  sender: string
+  source: string
+  sentAt: string
+  subject: string | null
+  messageNumber: number | null
+  sequenceNumber: number
+}
+
+export interface CommunicationMetricsResponse {
+  /** Null when the case has no messages in the range. */
+  report: {
+    from: string | null
+    to: string | null
+    months: CommunicationMetricsPeriod[]
+    total: CommunicationMetricsPeriod
+    unansweredRequests: UnansweredInformationRequest[]
+  } | null
+}
+
+export type ExpenseCategory = 'medical' | 'education' | 'activities' | 'childcare' | 'clothing' | 'travel' | 'child_support' | 'other'
+
+export type ExpenseStatus = 'not_shared' | 'open' | 'requested' | 'reimbursed'
+
+export interface ExpenseLinkedMessage {
+  id: string
+  source: string
+  sender: string
+  subject: string | null
+  sentAt: string
+  messageNumber: number | null
+  sequenceNumber: number
+}
+
+export interface ExpenseItem {
+  id: string
+  description: string
+  category: ExpenseCategory
+  amountCents: number
+  incurredOn: string
+  paidBy: 'you' | 'coparent'
+  /** Percent of the amount the parent who didn't pay owes back. */
+  splitPercent: number
+  /** That share in cents. */
+  shareCents: number
+  status: ExpenseStatus
+  receiptEvidenceId: string | null
+  receipt: { id: string, originalName: string | null } | null
+  reimbursementRequestedOn: string | null
+  reimbursementPaidOn: string | null
+  notes: string | null
+  messages: ExpenseLinkedMessage[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ExpenseBalance {
+  owedToYouCents: number
+  owedByYouCents: number
+  /** Positive: the co-parent owes you on balance. */
+  netCents: number
+  outstandingCount: number
+  requestedCount: number
+  oldestRequestedOn: string | null
+}
+
+export interface ExpensesResponse {
+  expenses: ExpenseItem[]
+  balance: ExpenseBalance
+}
+
+/** An expense read off a receipt, bill or invoice image, awaiting confirmation. */
+export interface ExpenseProposal {
+  caseId: string
+  kind: 'receipt' | 'medical_bill' | 'school_invoice'
+  vendor: string | null
+  childName: string | null
+  currency: string
+  lineItems: Array<{ description: string, amountCents: number | null }>
+  expense: {
+    description: string
+    category: ExpenseCategory
+    amountCents: number | null
+    incurredOn: string | null
+    receiptEvidenceId: string
+  }
+}
+
+export type CaseDeadlineType = 'hearing' | 'mediation' | 'discovery' | 'filing' | 'gal_interview' | 'evaluation' | 'other'
+
+export interface CaseDeadline {
+  id: string
+  type: CaseDeadlineType
+  title: string
+  startsAt: string
+  location: string | null
+  notes: string | null
+  /** Days before startsAt to send a reminder, largest first; 0 = the day of. */
+  reminderDays: number[]
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CaseDeadlinesResponse {
+  deadlines: CaseDeadline[]
+}
+
+export interface JournalStreak {
+  /** Consecutive logged days ending today, or yesterday while today is still open. */
+  current: number
+  longest: number
+  loggedToday: boolean
+  lastLoggedDay: string | null
+  recentDays: Array<{ day: string, logged: boolean }>
+}
+
+export interface JournalGap {
+  type: ExtractionEventType
+  lastDay: string | null
+  daysSince: number | null
+  message: string
+}
+
+export interface JournalNudgeSettings {
+  enabled: boolean
+  time: string // HH:MM local
+  days: number[] // 0 = Sunday … 6 = Saturday
+  quietHours: { start: string, end: string } | null
+}
+
+export interface JournalHabitsResponse {
+  today: string
+  streak: JournalStreak
+  gaps: JournalGap[]
+  nudge: JournalNudgeSettings | null
+}
+
+export interface JournalGapFillEvidence {
+  id: string
+  name: string
+  summary: string | null
+  sourceType: string
+  day: string
+}
+
+export interface JournalGapFillRange {
+  start: string
+  end: string
+  /** Only the days with messages or evidence, oldest first. */
+  days: Array<{ day: string, messageCount: number, evidenceCount: number }>
+  messageCount: number
+  evidenceCount: number
+  evidence: JournalGapFillEvidence[]
+}
+
+export interface JournalGapsResponse {
+  gaps: JournalGapFillRange[]
+}
+
+export type ActionItemStatus = 'open' | 'in_progress' | 'done' | 'cancelled'
+
+export interface HearingWindow {
+  hearingDate: string
+  hearingDay: string // YYYY-MM-DD in the user's time zone
+  daysUntil: number
+  /** Inside the prep window before the hearing. */
+  active: boolean
+  /** The previous hearing; null means the period covers the whole record. */
+  periodStart: string | null
+}
+
+export interface HearingChecklistItem {
+  id: string
+  description: string
+  type: 'document' | 'contact' | 'file' | 'obtain' | 'other'
+  priority: 'urgent' | 'high' | 'normal' | 'low'
+  status: ActionItemStatus
+  deadline: string | null
+  eventId: string | null
+  done: boolean
+  dueBeforeHearing: boolean
+  overdue: boolean
+}
+
+export interface HearingDigestEvent {
+  id: string
+  title: string
+  timestamp: string
+  extractionType: ExtractionEventType
+  safetyConcern: boolean
+  agreementViolation: boolean
+}
+
+export interface HearingDigestThread {
+  threadId: string
+  subject: string | null
+  messageCount: number
+  firstSentAt: string | null
+  lastSentAt: string | null
+  tone: string | null
+  summary: string | null
+}
+
+export interface HearingExhibit {
+  evidenceId: string
+  name: string
+  summary: string | null
+  sourceType: string
+  note: string | null
+  position: number
+  createdAt: string
+}
+
+export interface HearingPrepResponse {
+  caseTitle: string | null
+  nextCourtDate: string | null
+  lastCourtDate: string | null
+  hearing: HearingWindow | null
+  checklist: HearingChecklistItem[]
+  digest: {
+    eventCount: number
+    byType: Array<{ type: ExtractionEventType, count: number }>
+    flaggedCount: number
+    events: HearingDigestEvent[]
+    threads: HearingDigestThread[]
+  } | null
+  exhibits: HearingExhibit[]
+}
+
 export type EvidenceSourceType = 'text' | 'email' | 'photo' | 'document' | 'ofw_export'
 
 export interface EvidenceItem {
@@ -153,13 +491,13 @@ export interface InsightItem {
   evidenceIds: number[]
 }
 
-export type ExportFocus = 'full-timeline' | 'incidents-only' | 'positive-parenting' | 'complete-record'
+export type ExportFocus = 'full-timeline' | 'incidents-only' | 'positive-parenting' | 'complete-record' | 'exhibit-packet' | 'hearing-bundle'
 
 // Background job types
 // `pending_confirmation` is used by ofw-ingest to pause for user input when an
 // upload's thread set drifts >50% from the case's existing threads.
 export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'pending_confirmation'
-export type JobType = 'journal_extraction' | 'evidence_processing' | 'ofw_ingest'
+export type JobType = 'journal_extraction' | 'evidence_processing' | 'ofw_ingest' | 'chat_import' | 'email_import' | 'schedule_check' | 'journal_import'
 
 export interface JobResultSummary {
   events_created: number
@@ -189,6 +527,33 @@ export interface JournalSubmitResponse {
   message: string
 }
 
+export interface ImportedJournalEntry {
+  referenceDate: string
+  /** Heading text after the date, if any. */
+  title: string | null
+  text: string
+}
+
+export interface JournalImportPreviewResponse {
+  fileName: string
+  entries: ImportedJournalEntry[]
+  /** Text before the first date heading; not imported. */
+  skippedText: string | null
+}
+
+export interface JournalImportResponse {
+  jobId: string
+  entryCount: number
+  message: string
+}
+
+export interface JournalImportResultSummary {
+  entries_total: number
+  entries_completed: number
+  entries_failed: number
+  events_created: number
+}
+
 // Billing / Subscription types (Stripe-ready structure)
 export type SubscriptionStatus = 'active' | 'trialing' | 'past_due' | 'canceled' | 'incomplete' | 'incomplete_expired' | 'unpaid' | 'paused'
 export type PlanTier = 'free' | 'alpha' | 'starter' | 'pro' | 'enterprise'
@@ -249,10 +614,30 @@ export interface ExportMetadata {
   include_overview?: boolean
   include_ai_summary?: boolean
   include_messages?: boolean
+  include_overnights?: boolean
+  include_expenses?: boolean
+  include_communication_metrics?: boolean
   events_count?: number
   evidence_count?: number
   messages_count?: number
   ai_summary_included?: boolean
+  exhibit_count?: number
+  exhibits?: ExportExhibitIndexEntry[]
+  /** `hearing-bundle` exports: the hearing day and the start of the period covered. */
+  hearing_date?: string
+  period_start?: string
+}
+
+/** One lettered exhibit in an `exhibit-packet` export. */
+export interface ExportExhibitIndexEntry {
+  letter: string
+  thread_id: string
+  subject: string
+  message_count: number
+  line_count: number
+  evidence_ids: string[]
+  /** message id → cite string, e.g. `[Ex. A, ln 47]` */
+  cites: Record<string, string>
 }
 
 export interface SavedExport {
@@ -0,0 +1,49 @@
+import type { CaseDeadline, CaseDeadlineType } from '~/types'
+
+export interface CaseDeadlineTypeOption {
+  value: CaseDeadlineType
+  label: string
+  icon: string
+}
+
+export const caseDeadlineTypeOptions: CaseDeadlineTypeOption[] = [
+  { value: 'hearing', label: 'Hearing', icon: 'i-lucide-gavel' },
+  { value: 'mediation', label: 'Mediation', icon: 'i-lucide-handshake' },
+  { value: 'discovery', label: 'Discovery deadline', icon: 'i-lucide-file-search' },
+  { value: 'filing', label: 'Filing deadline', icon: 'i-lucide-file-text' },
+  { value: 'gal_interview', label: 'GAL interview', icon: 'i-lucide-user-round-search' },
+  { value: 'evaluation', label: 'Evaluation', icon: 'i-lucide-clipboard-list' },
+  { value: 'other', label: 'Other', icon: 'i-lucide-calendar-clock' }
+]
+
+export const caseDeadlineTypeLabels: Record<CaseDeadlineType, string> = Object.fromEntries(
+  caseDeadlineTypeOptions.map(o => [o.value, o.label])
+) as Record<CaseDeadlineType, string>
+
+export const caseDeadlineTypeIcons: Record<CaseDeadlineType, string> = Object.fromEntries(
+  caseDeadlineTypeOptions.map(o => [o.value, o.icon])
+) as Record<CaseDeadlineType, string>
+
+export const reminderDayOptions = [
+  { label: 'Day of', value: 0 },
+  { label: '1 day before', value: 1 },
+  { label: '3 days before', value: 3 },
+  { label: '1 week before', value: 7 },
+  { label: '2 weeks before', value: 14 },
+  { label: '30 days before', value: 30 }
+]
+
+export function formatReminderDays(days: number[]): string {
+  if (!days.length) return 'No reminders'
+  return days
+    .map(d => (d === 0 ? 'day of' : d === 1 ? '1 day' : `${d} days`))
+    .join(', ')
+}
+
+/** Deadlines that haven't passed yet, soonest first. */
+export function upcomingCaseDeadlines(deadlines: CaseDeadline[], now = new Date()): CaseDeadline[] {
+  const nowMs = now.getTime()
+  return deadlines
+    .filter(d => Date.parse(d.startsAt) >= nowMs)
+    .sort((a, b) => Date.parse(a.startsAt) - Date.parse(b.startsAt))
+}
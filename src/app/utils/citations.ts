@@ -0,0 +1,21 @@
+const MESSAGE_SOURCE_LABELS: Record<string, string> = {
+  ofw: 'OFW',
+  sms: 'SMS',
+  whatsapp: 'WhatsApp',
+  email: 'Email'
+}
+
+/**
+ * Same shape as the export timeline's message citations, labelled by source,
+ * e.g. [OFW msg #12, sent 2025-03-10 17:45].
+ */
+export function formatLinkedMessageCitation(msg: {
+  source: string
+  messageNumber: number | null
+  sequenceNumber: number
+  sentAt: string
+}): string {
+  const label = MESSAGE_SOURCE_LABELS[msg.source] ?? 'Msg'
+  const num = msg.messageNumber ?? msg.sequenceNumber
+  return `[${label} msg #${num}, sent ${msg.sentAt.replace('T', ' ').slice(0, 16)}]`
+}
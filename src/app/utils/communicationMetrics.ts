@@ -0,0 +1,65 @@
+import type { CommunicationMetricsPeriod, CommunicationMetricsResponse } from '~/types'
+import { formatLinkedMessageCitation } from '~/utils/citations'
+import { formatOvernightPeriod } from '~/utils/overnights'
+
+/** 95 → '1h 35m', 3000 → '2d 2h'; null → '—'. */
+export function formatResponseMinutes(minutes: number | null): string {
+  if (minutes === null) return '—'
+  if (minutes < 60) return `${minutes}m`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`
+  const days = Math.floor(hours / 24)
+  return hours % 24 ? `${days}d ${hours % 24}h` : `${days}d`
+}
+
+function tableRows(periods: CommunicationMetricsPeriod[], firstColumn: string): string[] {
+  const rows: string[] = [
+    `| ${firstColumn} | Sender | Sent | Median time until read | Never read | Median reply time | Info requests unanswered |`,
+    '| --- | --- | ---: | ---: | ---: | ---: | ---: |'
+  ]
+  for (const p of periods) {
+    for (const s of p.senders) {
+      rows.push(
+        `| ${formatOvernightPeriod(p.period)} | ${s.sender} | ${s.messagesSent} | ${formatResponseMinutes(s.medianMinutesToFirstView)} | ${s.viewTracked ? `${s.neverViewed} of ${s.viewTracked}` : '—'} | ${formatResponseMinutes(s.medianReplyMinutes)} (${s.replies}) | ${s.unansweredInformationRequests} of ${s.informationRequests} |`
+      )
+    }
+  }
+  return rows
+}
+
+/**
+ * Markdown section for exports: per-sender responsiveness in total and by
+ * month, then each information request that never got a reply, cited.
+ */
+export function buildCommunicationMetricsMarkdown(data: CommunicationMetricsResponse): string[] {
+  const report = data.report
+  if (!report) return []
+
+  const lines: string[] = ['## Communication & responsiveness', '']
+  const range = report.from || report.to
+    ? ` from ${report.from ?? 'the first message'} through ${report.to ?? 'the latest message'}`
+    : ''
+  lines.push(
+    `_Messages${range}, by sender. "Time until read" is how long the recipient took to first open the sender's message, and "never read" counts messages the recipient never opened (Our Family Wizard records views; other sources don't). "Reply time" is how long the sender took to answer the other parent in the same thread, with the number of replies in brackets. Information requests are messages asking the other parent for information._`,
+    ''
+  )
+
+  lines.push('### Overall', '')
+  lines.push(...tableRows([report.total], 'Period'), '')
+
+  lines.push('### By month', '')
+  lines.push(...tableRows(report.months, 'Month'), '')
+
+  lines.push('### Unanswered information requests', '')
+  if (!report.unansweredRequests.length) {
+    lines.push('_Every information request in this period got a reply._', '')
+    return lines
+  }
+  report.unansweredRequests.forEach((r, index) => {
+    const subject = r.subject ? ` — "${r.subject}"` : ''
+    lines.push(`${index + 1}. ${r.sentAt.slice(0, 10)}, from ${r.sender}${subject} ${formatLinkedMessageCitation(r)}`)
+  })
+  lines.push('')
+
+  return lines
+}
@@ -1,4 +1,4 @@
-import type { ExtractionEventType } from '~/types'
+import type { EventType, ExtractionEventType } from '~/types'
 
 export type ExtractionEventColor = 'success' | 'error' | 'info' | 'warning' | 'neutral' | 'primary'
 
@@ -70,6 +70,16 @@ export const extractionTypeOptions: ExtractionTypeOption[] = [
   }
 ]
 
+/** Extraction type for events saved before type_v2, which only carry the legacy type. */
+export const legacyToExtractionTypeMap: Record<EventType, ExtractionEventType> = {
+  positive: 'parenting_time',
+  incident: 'coparent_conflict',
+  medical: 'medical',
+  school: 'school',
+  communication: 'communication',
+  legal: 'legal'
+}
+
 /** Quick lookup: extraction type -> icon class */
 export const extractionTypeIcons: Record<ExtractionEventType, string> = Object.fromEntries(
   extractionTypeOptions.map(o => [o.value, o.icon])
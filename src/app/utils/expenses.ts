@@ -0,0 +1,124 @@
+import type { ExpenseCategory, ExpenseItem, ExpenseStatus, ExpensesResponse } from '~/types'
+import { formatLinkedMessageCitation } from '~/utils/citations'
+import type { PdfExpenseSummary } from '~/utils/generate-pdf'
+
+export interface ExpenseCategoryOption {
+  value: ExpenseCategory
+  label: string
+  icon: string
+}
+
+export const expenseCategoryOptions: ExpenseCategoryOption[] = [
+  { value: 'medical', label: 'Medical', icon: 'i-lucide-stethoscope' },
+  { value: 'education', label: 'Education', icon: 'i-lucide-graduation-cap' },
+  { value: 'activities', label: 'Activities', icon: 'i-lucide-trophy' },
+  { value: 'childcare', label: 'Childcare', icon: 'i-lucide-baby' },
+  { value: 'clothing', label: 'Clothing', icon: 'i-lucide-shirt' },
+  { value: 'travel', label: 'Travel', icon: 'i-lucide-car' },
+  { value: 'child_support', label: 'Child support', icon: 'i-lucide-landmark' },
+  { value: 'other', label: 'Other', icon: 'i-lucide-receipt' }
+]
+
+export const expenseCategoryLabels: Record<ExpenseCategory, string> = Object.fromEntries(
+  expenseCategoryOptions.map(o => [o.value, o.label])
+) as Record<ExpenseCategory, string>
+
+export const expenseCategoryIcons: Record<ExpenseCategory, string> = Object.fromEntries(
+  expenseCategoryOptions.map(o => [o.value, o.icon])
+) as Record<ExpenseCategory, string>
+
+export const expenseStatusLabels: Record<ExpenseStatus, string> = {
+  not_shared: 'Not shared',
+  open: 'Not requested',
+  requested: 'Requested',
+  reimbursed: 'Reimbursed'
+}
+
+export const expenseStatusColors: Record<ExpenseStatus, 'neutral' | 'warning' | 'error' | 'success'> = {
+  not_shared: 'neutral',
+  open: 'warning',
+  requested: 'error',
+  reimbursed: 'success'
+}
+
+const currency = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' })
+
+export function formatCents(cents: number): string {
+  return currency.format(cents / 100)
+}
+
+/** Who owes the outstanding share of an expense, from the user's side. */
+export function expenseDirectionLabel(expense: Pick<ExpenseItem, 'paidBy'>): string {
+  return expense.paidBy === 'you' ? 'Co-parent owes you' : 'You owe co-parent'
+}
+
+function outstandingExpenses(data: ExpensesResponse): ExpenseItem[] {
+  return data.expenses
+    .filter(e => e.status === 'open' || e.status === 'requested')
+    .sort((a, b) => a.incurredOn.localeCompare(b.incurredOn))
+}
+
+function netBalanceLabel(netCents: number): string {
+  return `${netCents >= 0 ? 'co-parent owes you' : 'you owe co-parent'} ${formatCents(Math.abs(netCents))}`
+}
+
+/**
+ * Markdown section for exports: the balance and a table of every expense
+ * still awaiting reimbursement, with citations to the linked messages.
+ */
+export function buildOutstandingExpensesMarkdown(data: ExpensesResponse): string[] {
+  const outstanding = outstandingExpenses(data)
+  if (!outstanding.length) return []
+
+  const { balance } = data
+  const lines: string[] = ['## Outstanding expenses & reimbursements', '']
+  lines.push(`**Owed to you:** ${formatCents(balance.owedToYouCents)}`)
+  lines.push(`**You owe:** ${formatCents(balance.owedByYouCents)}`)
+  lines.push(`**Net balance:** ${netBalanceLabel(balance.netCents)}`, '')
+
+  lines.push(
+    '| Date | Expense | Category | Amount | Paid by | Share owed | Requested |',
+    '| --- | --- | --- | ---: | --- | ---: | --- |'
+  )
+  for (const e of outstanding) {
+    const description = e.description.replace(/\|/g, '/')
+    lines.push(
+      `| ${e.incurredOn} | ${description} | ${expenseCategoryLabels[e.category]} | ${formatCents(e.amountCents)} | ${e.paidBy === 'you' ? 'You' : 'Co-parent'} | ${formatCents(e.shareCents)} (${e.splitPercent}%) | ${e.reimbursementRequestedOn ?? 'Not yet'} |`
+    )
+  }
+  lines.push('')
+
+  const cited = outstanding.filter(e => e.messages.length)
+  if (cited.length) {
+    lines.push('### Reimbursement requests', '')
+    cited.forEach((e, index) => {
+      lines.push(`${index + 1}. ${e.incurredOn} — **${e.description}** (${formatCents(e.shareCents)})`)
+      lines.push(`   - Sources: ${e.messages.map(formatLinkedMessageCitation).join(' ')}`)
+    })
+    lines.push('')
+  }
+
+  return lines
+}
+
+/** The same section for the structured PDF report; null when nothing is outstanding. */
+export function buildOutstandingExpensesPdf(data: ExpensesResponse): PdfExpenseSummary | null {
+  const outstanding = outstandingExpenses(data)
+  if (!outstanding.length) return null
+
+  return {
+    owedToYou: formatCents(data.balance.owedToYouCents),
+    owedByYou: formatCents(data.balance.owedByYouCents),
+    net: netBalanceLabel(data.balance.netCents),
+    items: outstanding.map(e => ({
+      date: e.incurredOn,
+      description: e.description,
+      category: expenseCategoryLabels[e.category],
+      amount: formatCents(e.amountCents),
+      paidBy: e.paidBy === 'you' ? 'You' : 'Co-parent',
+      share: `${formatCents(e.shareCents)} (${e.splitPercent}%)`,
+      requestedOn: e.reimbursementRequestedOn,
+      citations: e.messages.map(formatLinkedMessageCitation)
+    }))
+  }
+}
@@ -0,0 +1,470 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Footer,
+  PageNumber,
+  Paragraph,
+  Table,
+  TableCell,
+  TableRow,
+  TabStopPosition,
+  TabStopType,
+  TextRun,
+  WidthType
+} from 'docx'
+import type { PdfEvent, PdfExportOptions } from './generate-pdf'
+
+// ─── Types ───────────────────────────────────────────────
+
+export interface DocxRenderOptions {
+  // IANA zone for event timestamps. Server-side renders have no browser locale
+  // to fall back on, so callers pass the user's profile timezone.
+  timeZone?: string
+  /** Shown in the meta block, e.g. when the document was rebuilt from current data. */
+  note?: string
+}
+
+/**
+ * A report section that exists only as saved export markdown (overnights,
+ * outstanding expenses, communication metrics). Rendered after the overview,
+ * where the markdown export puts it.
+ */
+export interface DocxMarkdownSection {
+  title: string
+  /** The section's markdown below its `## ` heading. */
+  markdown: string
+}
+
+export interface DocxExportOptions extends PdfExportOptions {
+  sections?: DocxMarkdownSection[]
+}
+
+// ─── Design tokens ───────────────────────────────────────
+// Mirrors the jsPDF palette so both downloads read as the same document.
+
+const COLORS = {
+  primary: '0E4C6E', // sky-900
+  title: '0F172A', // slate-900
+  body: '1E293B', // slate-800
+  secondary: '64748B', // slate-500
+  muted: '94A3B8', // slate-400
+  rule: 'CBD5E1', // slate-300
+  ruleLight: 'E2E8F0', // slate-200
+  flag: '991B1B' // red-900
+}
+
+const SERIF = 'Times New Roman'
+const SANS = 'Arial'
+
+// Word measures font size in half-points and indents/spacing in twips (1/20 pt).
+const pt = (size: number) => size * 2
+const twips = (points: number) => points * 20
+
+// ─── Helpers ─────────────────────────────────────────────
+
+function formatDate(value: string | undefined, timeZone?: string) {
+  if (!value) return ''
+  return new Date(value).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone
+  })
+}
+
+function formatFullDate(value: string | undefined, timeZone?: string) {
+  if (!value) return 'Unknown date'
+  return new Date(value).toLocaleString('en-US', {
+    weekday: 'long',
+    month: 'long',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone
+  })
+}
+
+function eventFlags(event: PdfEvent): string[] {
+  const flags: string[] = []
+  if (event.safetyConcern) flags.push('SAFETY CONCERN')
+  if (event.agreementViolation) flags.push('AGREEMENT VIOLATION')
+  if (event.childInvolved) flags.push('CHILD INVOLVED')
+  return flags
+}
+
+function body(text: string, opts: { indent?: number, italics?: boolean, color?: string, size?: number } = {}) {
+  // Preserve the author's line breaks — overview notes and summaries are often
+  // multi-paragraph.
+  return text.split(/\r?\n/).map(line => new Paragraph({
+    indent: opts.indent ? { left: twips(opts.indent) } : undefined,
+    spacing: { after: twips(4) },
+    children: [new TextRun({
+      text: line,
+      font: SERIF,
+      size: pt(opts.size ?? 11),
+      color: opts.color ?? COLORS.body,
+      italics: opts.italics
+    })]
+  }))
+}
+
+function metaRow(label: string, value: string) {
+  return new Paragraph({
+    spacing: { after: twips(3) },
+    tabStops: [{ type: TabStopType.LEFT, position: twips(90) }],
+    children: [
+      new TextRun({ text: label.toUpperCase(), font: SANS, size: pt(8.5), bold: true, color: COLORS.secondary }),
+      new TextRun({ text: `\t${value}`, font: SERIF, size: pt(10), color: COLORS.body })
+    ]
+  })
+}
+
+function sectionHeading(title: string) {
+  return new Paragraph({
+    spacing: { before: twips(16), after: twips(10) },
+    keepNext: true,
+    border: { bottom: { style: BorderStyle.SINGLE, size: 12, color: COLORS.primary, space: 2 } },
+    children: [new TextRun({ text: title, font: SERIF, size: pt(15), bold: true, color: COLORS.primary })]
+  })
+}
+
+function subLabel(text: string, indent: number) {
+  return new Paragraph({
+    indent: { left: twips(indent) },
+    spacing: { before: twips(4), after: twips(2) },
+    keepNext: true,
+    children: [new TextRun({ text, font: SANS, size: pt(8), bold: true, color: COLORS.secondary })]
+  })
+}
+
+function bulletLine(text: string, indent: number) {
+  return new Paragraph({
+    indent: { left: twips(indent + 12), hanging: twips(10) },
+    spacing: { after: twips(2) },
+    children: [new TextRun({ text: `•  ${text}`, font: SERIF, size: pt(9.5), color: COLORS.body })]
+  })
+}
+
+function flagLine(flags: string[], indent = 0) {
+  return new Paragraph({
+    indent: indent ? { left: twips(indent) } : undefined,
+    spacing: { after: twips(2) },
+    children: [new TextRun({ text: flags.join('     '), font: SANS, size: pt(7.5), bold: true, color: COLORS.flag })]
+  })
+}
+
+function divider(color = COLORS.ruleLight) {
+  return new Paragraph({
+    spacing: { after: twips(10) },
+    border: { bottom: { style: BorderStyle.SINGLE, size: 4, color, space: 4 } },
+    children: []
+  })
+}
+
+// ─── Timeline (summary) events ───────────────────────────
+
+function renderTimelineEvents(events: PdfEvent[], timeZone?: string): Paragraph[] {
+  const indent = 24
+  const out: Paragraph[] = []
+
+  events.forEach((event, idx) => {
+    out.push(new Paragraph({
+      indent: { left: twips(indent), hanging: twips(indent) },
+      tabStops: [{ type: TabStopType.LEFT, position: twips(indent) }],
+      keepNext: true,
+      children: [
+        new TextRun({ text: `${idx + 1}`, font: SANS, size: pt(9), bold: true, color: COLORS.secondary }),
+        new TextRun({ text: `\t${event.title}`, font: SERIF, size: pt(11), bold: true, color: COLORS.title })
+      ]
+    }))
+
+    const meta: string[] = [formatDate(event.timestamp, timeZone)]
+    if (event.type) meta.push(event.type)
+    if (event.location) meta.push(event.location)
+    if (event.participants?.length) meta.push(event.participants.join(', '))
+    if (event.evidenceSummary) meta.push(event.evidenceSummary)
+
+    out.push(new Paragraph({
+      indent: { left: twips(indent) },
+      children: [new TextRun({ text: meta.join('  ·  '), font: SANS, size: pt(8), color: COLORS.secondary })]
+    }))
+
+    const flags = eventFlags(event)
+    if (flags.length) out.push(flagLine(flags, indent))
+
+    if (event.description) {
+      out.push(...body(event.description, { indent, size: 10 }))
+    }
+
+    if (idx < events.length - 1) out.push(divider())
+  })
+
+  return out
+}
+
+// ─── Full (complete record) events ───────────────────────
+
+function renderFullEvents(events: PdfEvent[], timeZone?: string): Paragraph[] {
+  const indent = 12
+  const out: Paragraph[] = []
+
+  events.forEach((event, idx) => {
+    out.push(new Paragraph({
+      keepNext: true,
+      spacing: { after: twips(2) },
+      children: [new TextRun({ text: `${idx + 1}.  ${event.title}`, font: SERIF, size: pt(12), bold: true, color: COLORS.title })]
+    }))
+
+    const dateParts = [formatFullDate(event.timestamp, timeZone), event.type]
+    if (event.location) dateParts.push(event.location)
+    if (event.participants?.length) dateParts.push(event.participants.join(', '))
+    if (event.durationMinutes) dateParts.push(`${event.durationMinutes} min`)
+
+    out.push(new Paragraph({
+      spacing: { after: twips(2) },
+      children: [new TextRun({ text: dateParts.join('   |   '), font: SANS, size: pt(8), color: COLORS.secondary })]
+    }))
+
+    const flags = eventFlags(event)
+    if (flags.length) out.push(flagLine(flags))
+
+    if (event.description) out.push(...body(event.description, { size: 10 }))
+
+    if (event.coparentInteraction) {
+      const ci = event.coparentInteraction
+      const ciParts: string[] = []
+      if (ci.your_tone) ciParts.push(`Your tone: ${ci.your_tone}`)
+      if (ci.their_tone) ciParts.push(`Their tone: ${ci.their_tone}`)
+      if (ci.your_response_appropriate !== null && ci.your_response_appropriate !== undefined) {
+        ciParts.push(ci.your_response_appropriate ? 'Response appropriate' : 'Response could improve')
+      }
+      if (ciParts.length) {
+        out.push(subLabel('Co-parent interaction', indent))
+        out.push(...body(ciParts.join('   |   '), { indent, size: 9.5 }))
+      }
+    }
+
+    if (event.childStatements?.length) {
+      out.push(subLabel('Child statements', indent))
+      for (const s of event.childStatements) {
+        const concern = s.concerning ? '  [CONCERNING]' : ''
+        out.push(...body(`“${s.statement}”${concern}`, { indent, italics: true, size: 9.5 }))
+        if (s.context) {
+          out.push(...body(`Context: ${s.context}`, { indent: indent + 4, size: 8.5, color: COLORS.secondary }))
+        }
+      }
+    }
+
+    if (event.welfareCategory || event.welfareDirection || event.welfareSeverity) {
+      const wParts: string[] = []
+      if (event.welfareCategory) wParts.push(event.welfareCategory)
+      if (event.welfareDirection) wParts.push(event.welfareDirection)
+      if (event.welfareSeverity) wParts.push(`${event.welfareSeverity} severity`)
+      out.push(new Paragraph({
+        indent: { left: twips(indent) },
+        spacing: { before: twips(2), after: twips(2) },
+        children: [new TextRun({ text: `Welfare impact: ${wParts.join(' / ')}`, font: SANS, size: pt(8), color: COLORS.secondary })]
+      }))
+    }
+
+    if (event.evidenceDetails?.length) {
+      out.push(subLabel('Evidence', indent))
+      for (const e of event.evidenceDetails) {
+        out.push(bulletLine(`${e.originalName || 'Untitled'} (${e.sourceType})${e.summary ? ' — ' + e.summary : ''}`, indent))
+      }
+    }
+
+    if (event.actionItems?.length) {
+      out.push(subLabel('Action items', indent))
+      for (const a of event.actionItems) {
+        const deadline = a.deadline ? ` (due ${formatDate(a.deadline, timeZone)})` : ''
+        out.push(bulletLine(`[${a.status}] ${a.description}${deadline} — ${a.priority} priority`, indent))
+      }
+    }
+
+    if (event.communications?.length) {
+      out.push(subLabel('Communications', indent))
+      for (const c of event.communications) {
+        const when = c.sentAt ? ` on ${formatDate(c.sentAt, timeZone)}` : ''
+        out.push(bulletLine(`${c.direction} ${c.medium}${when}: ${c.summary}`, indent))
+      }
+    }
+
+    out.push(divider())
+  })
+
+  return out
+}
+
+// ─── Saved markdown sections ─────────────────────────────
+
+/** `**bold**` spans → bold runs; everything else is plain text. */
+function inlineRuns(text: string, size: number): TextRun[] {
+  // split() leaves the bold spans at odd indexes.
+  return text.split('**').flatMap((part, i) => part
+    ? [new TextRun({ text: part, font: SERIF, size: pt(size), color: COLORS.body, bold: i % 2 === 1 })]
+    : [])
+}
+
+function tableCells(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim())
+}
+
+function markdownTable(lines: string[]): Table {
+  const rows = lines.filter(line => !/^\|[\s:|-]+\|$/.test(line.trim())).map(tableCells)
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: rows.map((cells, rowIndex) => new TableRow({
+      tableHeader: rowIndex === 0,
+      children: cells.map(cell => new TableCell({
+        children: [new Paragraph({
+          children: [new TextRun({
+            text: cell,
+            font: rowIndex === 0 ? SANS : SERIF,
+            size: pt(rowIndex === 0 ? 7.5 : 9),
+            bold: rowIndex === 0,
+            color: rowIndex === 0 ? COLORS.secondary : COLORS.body
+          })]
+        })]
+      }))
+    }))
+  })
+}
+
+/**
+ * The markdown the export builder writes for these sections: `###` headings,
+ * italic notes, `**Label:**` lines, pipe tables and numbered lists with
+ * indented source lines.
+ */
+function renderMarkdownSection(markdown: string): (Paragraph | Table)[] {
+  const out: (Paragraph | Table)[] = []
+  const lines = markdown.split(/\r?\n/)
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!
+    const trimmed = line.trim()
+    if (!trimmed) continue
+
+    if (trimmed.startsWith('|')) {
+      const table = [line]
+      while (lines[i + 1]?.trim().startsWith('|')) table.push(lines[++i]!)
+      out.push(markdownTable(table), new Paragraph({ spacing: { after: twips(6) }, children: [] }))
+    } else if (trimmed.startsWith('### ')) {
+      out.push(subLabel(trimmed.slice(4).toUpperCase(), 0))
+    } else if (/^_.*_$/.test(trimmed)) {
+      out.push(...body(trimmed.slice(1, -1), { italics: true, color: COLORS.secondary, size: 9.5 }))
+    } else if (/^- /.test(trimmed) && line.startsWith(' ')) {
+      out.push(bulletLine(trimmed.slice(2), 12))
+    } else {
+      out.push(new Paragraph({ spacing: { after: twips(3) }, children: inlineRuns(trimmed, 10) }))
+    }
+  }
+  return out
+}
+
+// ─── Main export: structured data → DOCX ─────────────────
+
+/**
+ * Build an editable Word document from the same model `generateExportPdf`
+ * renders, plus any saved markdown `sections`. Returns the `docx` Document;
+ * pack it with `Packer.toBuffer` on the server or `Packer.toBlob` in the
+ * browser.
+ */
+export function buildExportDocx(options: DocxExportOptions, render: DocxRenderOptions = {}): Document {
+  const { timeZone, note } = render
+  const children: (Paragraph | Table)[] = []
+
+  // ─── Title ───
+  children.push(new Paragraph({
+    spacing: { after: twips(12) },
+    border: { bottom: { style: BorderStyle.SINGLE, size: 16, color: COLORS.primary, space: 4 } },
+    children: [new TextRun({
+      text: options.isCompleteRecord ? 'Complete Case Record' : 'Case Timeline Report',
+      font: SERIF,
+      size: pt(22),
+      bold: true,
+      color: COLORS.title
+    })]
+  }))
+
+  // ─── Meta block ───
+  if (options.caseTitle) children.push(metaRow('Case', options.caseTitle))
+  if (options.courtName) children.push(metaRow('Court', options.courtName))
+  if (options.recipient) children.push(metaRow('Prepared for', options.recipient))
+  children.push(metaRow('Generated', new Date().toLocaleString('en-US', { timeZone })))
+  if (note) children.push(metaRow('Note', note))
+  if (options.isCompleteRecord) {
+    children.push(metaRow('Total events', String(options.events.length)))
+  }
+  children.push(divider(COLORS.rule))
+
+  // ─── AI Summary ───
+  if (options.aiSummary) {
+    children.push(sectionHeading('Executive Summary'))
+    children.push(...body(options.aiSummary))
+  }
+
+  // ─── Overview ───
+  if (options.overviewNotes) {
+    children.push(sectionHeading('Overview'))
+    children.push(...body(options.overviewNotes))
+  }
+
+  // ─── Overnights, expenses, communication metrics ───
+  for (const section of options.sections ?? []) {
+    children.push(sectionHeading(section.title))
+    children.push(...renderMarkdownSection(section.markdown))
+  }
+
+  // ─── Events ───
+  children.push(sectionHeading(options.isCompleteRecord ? 'Events' : 'Timeline'))
+
+  if (!options.events.length) {
+    children.push(...body('No events recorded.', { italics: true, color: COLORS.muted, size: 10 }))
+  } else if (options.isCompleteRecord) {
+    children.push(...renderFullEvents(options.events, timeZone))
+  } else {
+    children.push(...renderTimelineEvents(options.events, timeZone))
+  }
+
+  // ─── Footer ───
+  const footer = new Footer({
+    children: [new Paragraph({
+      alignment: AlignmentType.LEFT,
+      tabStops: [{ type: TabStopType.RIGHT, position: TabStopPosition.MAX }],
+      border: { top: { style: BorderStyle.SINGLE, size: 4, color: COLORS.ruleLight, space: 4 } },
+      children: [
+        new TextRun({ text: 'daylight.legal', font: SANS, size: pt(7.5), color: COLORS.muted }),
+        new TextRun({
+          children: ['\tPage ', PageNumber.CURRENT, ' of ', PageNumber.TOTAL_PAGES],
+          font: SANS,
+          size: pt(7.5),
+          color: COLORS.muted
+        })
+      ]
+    })]
+  })
+
+  return new Document({
+    creator: 'Daylight',
+    title: options.isCompleteRecord ? 'Complete Case Record' : 'Case Timeline Report',
+    styles: {
+      default: {
+        document: { run: { font: SERIF, size: pt(10), color: COLORS.body } }
+      }
+    },
+    sections: [{
+      properties: {
+        page: {
+          // US Letter with the same 60pt margins as the PDF.
+          size: { width: twips(612), height: twips(792) },
+          margin: { top: twips(60), right: twips(60), bottom: twips(60), left: twips(60) }
+        }
+      },
+      footers: { default: footer },
+      children
+    }]
+  })
+}
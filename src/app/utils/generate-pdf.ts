@@ -45,6 +45,25 @@ export interface PdfEvent {
   }>
 }
 
+/** An unreimbursed expense, with amounts already formatted for display. */
+export interface PdfExpense {
+  date: string
+  description: string
+  category: string
+  amount: string
+  paidBy: string
+  share: string
+  requestedOn?: string | null
+  citations?: string[]
+}
+
+export interface PdfExpenseSummary {
+  owedToYou: string
+  owedByYou: string
+  net: string
+  items: PdfExpense[]
+}
+
 export interface PdfExportOptions {
   caseTitle?: string
   courtName?: string
@@ -53,6 +72,7 @@ export interface PdfExportOptions {
   events: PdfEvent[]
   isCompleteRecord?: boolean
   aiSummary?: string | null
+  expenses?: PdfExpenseSummary | null
 }
 
 // ─── Design tokens ───────────────────────────────────────
@@ -183,6 +203,30 @@ class PdfWriter {
     this.y += 15
   }
 
+  /** One row of a markdown pipe table, columns sized evenly across the page. */
+  tableRow(cells: string[], header = false) {
+    const colWidth = this.contentWidth / cells.length
+    const size = header ? 8 : 9
+    this.doc.setFont('helvetica', header ? 'bold' : 'normal')
+    this.doc.setFontSize(size)
+    const wrapped = cells.map(cell => this.doc.splitTextToSize(cell, colWidth - 6) as string[])
+    const height = Math.max(...wrapped.map(lines => lines.length)) * (size + 3) + 6
+    this.ensureSpace(height)
+
+    if (header) {
+      this.doc.setFillColor(...COLORS.labelBg)
+      this.doc.rect(MARGIN, this.y - size - 2, this.contentWidth, height, 'F')
+    }
+    const color = header ? COLORS.secondary : COLORS.body
+    this.doc.setTextColor(color[0], color[1], color[2])
+    wrapped.forEach((lines, i) => {
+      this.doc.text(lines, MARGIN + i * colWidth + 3, this.y)
+    })
+    this.y += height - size - 2
+    this.rule(COLORS.ruleLight, 0.4)
+    this.y += size + 1
+  }
+
   sectionHeading(title: string) {
     this.ensureSpace(50)
     this.y += 8
@@ -286,6 +330,12 @@ export async function generateExportPdf(options: PdfExportOptions) {
     renderTimelineEvents(w, options.events)
   }
 
+  // ─── Outstanding expenses ───
+  if (options.expenses?.items.length) {
+    w.gap(12)
+    renderOutstandingExpenses(w, options.expenses)
+  }
+
   // ─── Footer ───
   w.addFooters()
 
@@ -579,6 +629,42 @@ function renderFullEvents(w: PdfWriter, events: PdfEvent[]) {
   })
 }
 
+// ─── Outstanding expenses ────────────────────────────────
+
+function renderOutstandingExpenses(w: PdfWriter, expenses: PdfExpenseSummary) {
+  w.sectionHeading('Outstanding Expenses')
+
+  w.metaRow('Owed to you', expenses.owedToYou)
+  w.metaRow('You owe', expenses.owedByYou)
+  w.metaRow('Net balance', expenses.net)
+  w.gap(8)
+
+  w.tableRow(['Date', 'Expense', 'Category', 'Amount', 'Paid by', 'Share owed', 'Requested'], true)
+  for (const item of expenses.items) {
+    w.tableRow([
+      item.date,
+      item.description,
+      item.category,
+      item.amount,
+      item.paidBy,
+      item.share,
+      item.requestedOn || 'Not yet'
+    ])
+  }
+
+  const cited = expenses.items.filter(item => item.citations?.length)
+  if (!cited.length) return
+
+  w.gap(10)
+  w.text('Reimbursement requests', { font: 'helvetica', style: 'bold', size: 9, color: COLORS.secondary })
+  w.gap(2)
+  cited.forEach((item, idx) => {
+    w.text(`${idx + 1}. ${item.date} — ${item.description} (${item.share})`, { size: 10, lineHeight: 14 })
+    w.text(item.citations!.join(' '), { size: 9, color: COLORS.secondary, x: MARGIN + 14, maxWidth: w.contentWidth - 14, lineHeight: 12 })
+    w.gap(4)
+  })
+}
+
 // ─── Markdown → PDF (for saved exports) ──────────────────
 
 export async function generateMarkdownPdf(markdown: string, filename: string) {
@@ -590,6 +676,7 @@ export async function generateMarkdownPdf(markdown: string, filename: string) {
   const rawLines = markdown.split('\n')
   let lastWasHeading = false
   let lastWasBlank = false
+  let inTable = false
 
   for (const raw of rawLines) {
     const line = raw.trimEnd()
@@ -598,6 +685,7 @@ export async function generateMarkdownPdf(markdown: string, filename: string) {
     if (!line.trim()) {
       if (!lastWasBlank && !lastWasHeading) w.gap(10)
       lastWasBlank = true
+      inTable = false
       continue
     }
     lastWasBlank = false
@@ -629,6 +717,16 @@ export async function generateMarkdownPdf(markdown: string, filename: string) {
     }
     lastWasHeading = false
 
+    // Pipe table: first row is the header, the |---| separator row is skipped
+    if (line.trim().startsWith('|')) {
+      const cells = line.trim().replace(/^\||\|$/g, '').split('|').map(c => stripInline(c.trim()))
+      if (cells.every(c => /^:?-{3,}:?$/.test(c))) continue
+      w.tableRow(cells, !inTable)
+      inTable = true
+      continue
+    }
+    inTable = false
+
     // Horizontal rule
     if (/^(-{3,}|\*{3,}|_{3,})$/.test(line.trim())) {
       w.gap(8)
@@ -0,0 +1,74 @@
+/**
+ * IndexedDB store for journal entries captured while offline. Entries (and
+ * any voice recording, kept as a Blob) wait here until useOfflineJournal
+ * syncs them. Each entry's id doubles as its Idempotency-Key, so a submit
+ * retried after a dropped response can't create a second journal entry.
+ */
+
+export interface QueuedJournalEntry {
+  id: string
+  /** Entries only sync for the account that captured them. */
+  userId: string
+  eventText: string
+  referenceDate: string
+  timezone: string
+  gapFill: boolean
+  /** Recorded but not yet transcribed; transcribed and appended during sync. */
+  audio: Blob | null
+  createdAt: string
+  attempts: number
+  /** Set when the server rejected the entry; it stays queued until discarded. */
+  error: string | null
+}
+
+const DB_NAME = 'daylight-offline'
+const DB_VERSION = 1
+const STORE = 'journal-queue'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE, { keyPath: 'id' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+async function run<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const request = fn(db.transaction(STORE, mode).objectStore(STORE))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export function isOfflineQueueSupported(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
+/** Queued entries for a user, oldest first. */
+export async function listQueuedJournalEntries(userId: string): Promise<QueuedJournalEntry[]> {
+  const all = await run<QueuedJournalEntry[]>('readonly', store => store.getAll())
+  return all
+    .filter(entry => entry.userId === userId)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+}
+
+export async function putQueuedJournalEntry(entry: QueuedJournalEntry): Promise<void> {
+  await run('readwrite', store => store.put(entry))
+}
+
+export async function deleteQueuedJournalEntry(id: string): Promise<void> {
+  await run('readwrite', store => store.delete(id))
+}
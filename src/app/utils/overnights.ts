@@ -0,0 +1,73 @@
+import type { OvernightPeriod, OvernightReportResponse } from '~/types'
+import { formatLinkedMessageCitation } from '~/utils/citations'
+
+function parentLabel(custodian: 'you' | 'coparent'): string {
+  return custodian === 'you' ? 'you' : 'co-parent'
+}
+
+/** 'YYYY-MM' → 'March 2025'; years and 'total' pass through. */
+export function formatOvernightPeriod(period: string): string {
+  if (period === 'total') return 'Total'
+  if (!/^\d{4}-\d{2}$/.test(period)) return period
+  return new Intl.DateTimeFormat('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+    .format(new Date(`${period}-01T00:00:00Z`))
+}
+
+function tableRows(periods: OvernightPeriod[], total: OvernightPeriod | null, firstColumn: string): string[] {
+  const row = (p: OvernightPeriod) =>
+    `| ${formatOvernightPeriod(p.period)} | ${p.nights} | ${p.ordered.you} / ${p.ordered.coparent} | ${p.actual.you} / ${p.actual.coparent} | ${p.ordered.youPercent}% | ${p.actual.youPercent}% | ${p.deviations} |`
+  return [
+    `| ${firstColumn} | Nights | Ordered (you / co-parent) | Actual (you / co-parent) | Ordered % you | Actual % you | Deviations |`,
+    '| --- | ---: | ---: | ---: | ---: | ---: | ---: |',
+    ...periods.map(row),
+    ...(total ? [row(total)] : [])
+  ]
+}
+
+/**
+ * Markdown section for exports: overnight tables by year and by month, then
+ * each documented deviation with citations back to its events and messages.
+ */
+export function buildOvernightsMarkdown(data: OvernightReportResponse): string[] {
+  const report = data.report
+  if (!report) return []
+
+  const lines: string[] = ['## Parenting time & overnights', '']
+  lines.push(
+    `_Overnights from ${report.from} through ${report.to}. Ordered nights follow the parenting schedule; actual nights apply the documented deviations listed below._`,
+    ''
+  )
+
+  lines.push('### By year', '')
+  lines.push(...tableRows(report.years, report.years.length > 1 ? report.total : null, 'Year'), '')
+
+  lines.push('### By month', '')
+  lines.push(...tableRows(report.months, null, 'Month'), '')
+
+  lines.push('### Documented deviations', '')
+  if (!report.deviations.length) {
+    lines.push('_No documented deviations from the schedule in this period._', '')
+    return lines
+  }
+
+  report.deviations.forEach((d, index) => {
+    const citations = [
+      ...d.eventIds.map((id) => {
+        const e = data.events[id]
+        return e ? `[Event: "${e.title}"${e.date ? `, ${e.date}` : ''}]` : null
+      }),
+      ...d.messageIds.map((id) => {
+        const m = data.messages[id]
+        return m ? formatLinkedMessageCitation(m) : null
+      })
+    ].filter((c): c is string => !!c)
+
+    lines.push(
+      `${index + 1}. ${d.date} — **${d.summary}** (scheduled with ${parentLabel(d.ordered)}, stayed with ${parentLabel(d.actual)})`
+    )
+    if (citations.length) lines.push(`   - Sources: ${citations.join(' ')}`)
+  })
+  lines.push('')
+
+  return lines
+}
@@ -30,11 +30,12 @@ export default defineEventHandler(async (event) => {
       console.error('[Usage] Error counting journal entries:', journalError)
     }
 
-    // Count evidence uploads
+    // Count evidence uploads (same rule as canUploadEvidence)
     const { count: evidenceUploads, error: evidenceError } = await supabase
       .from('evidence')
       .select('*', { count: 'exact', head: true })
       .eq('user_id', userId)
+      .is('message_id', null)
 
     if (evidenceError) {
       console.error('[Usage] Error counting evidence:', evidenceError)
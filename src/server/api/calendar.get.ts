@@ -0,0 +1,134 @@
+import type { CalendarDay, CalendarEvent, CalendarResponse, CalendarViolation, ExtractionEventType } from '~/types'
+import type { Database } from '~/types/database.types'
+import { legacyToExtractionTypeMap } from '~/utils/eventTypes'
+import { serverSupabaseClient } from '#supabase/server'
+import { requireUserId } from '../utils/auth'
+import { getActiveCaseIdOrNull } from '../utils/cases'
+import { readDate, shiftDate } from '../utils/date-params'
+import { toWallClock } from '../utils/message-sources'
+import { scheduleDays, scheduleFromRow } from '../utils/parenting-schedule'
+import { getDateStringInTimezone, getTimezoneWithProfileFallback } from '../utils/timezone'
+
+// A six-week month grid is 42 days; leave room for a little more.
+const MAX_RANGE_DAYS = 62
+const EVENT_LIMIT = 1000
+
+function lastOfMonth(date: string): string {
+  const [y, m] = date.split('-').map(Number)
+  return new Date(Date.UTC(y!, m!, 0)).toISOString().slice(0, 10)
+}
+
+/**
+ * GET /api/calendar?from=YYYY-MM-DD&to=YYYY-MM-DD[&caseId=…]
+ *
+ * One entry per day with who had (or should have had) the children, plus the
+ * events and schedule violations on each date. Days are shaded from the
+ * case's parenting schedule when one exists, otherwise from logged
+ * parenting_time events. Defaults to the current month in the user's time
+ * zone.
+ */
+export default defineEventHandler(async (event): Promise<CalendarResponse | null> => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const query = getQuery(event)
+  const overrideCaseId = typeof query.caseId === 'string' ? query.caseId : null
+  const caseId = await getActiveCaseIdOrNull(supabase, userId, overrideCaseId)
+  if (!caseId) return null
+
+  const timeZone = await getTimezoneWithProfileFallback(event, supabase, userId)
+  const today = getDateStringInTimezone(new Date(), timeZone)
+  const from = readDate(query.from, 'from') ?? `${today.slice(0, 8)}01`
+  const to = readDate(query.to, 'to') ?? lastOfMonth(from)
+  if (to < from) {
+    throw createError({ statusCode: 400, statusMessage: 'to must not be before from' })
+  }
+  if (shiftDate(from, MAX_RANGE_DAYS) <= to) {
+    throw createError({ statusCode: 400, statusMessage: `Date range is limited to ${MAX_RANGE_DAYS} days` })
+  }
+
+  const [
+    { data: scheduleRow, error: scheduleError },
+    { data: eventRows, error: eventsError },
+    { data: violationRows, error: violationsError }
+  ] = await Promise.all([
+    supabase
+      .from('parenting_schedules')
+      .select('*')
+      .eq('case_id', caseId)
+      .maybeSingle(),
+    // Pad a day either side in UTC; rows are bucketed by local date below.
+    supabase
+      .from('events')
+      .select('id, type, type_v2, title, primary_timestamp, timestamp_precision')
+      .eq('case_id', caseId)
+      .gte('primary_timestamp', `${shiftDate(from, -1)}T00:00:00Z`)
+      .lt('primary_timestamp', `${shiftDate(to, 2)}T00:00:00Z`)
+      .order('primary_timestamp', { ascending: true })
+      .limit(EVENT_LIMIT),
+    supabase
+      .from('schedule_violations')
+      .select('kind, violation_date, summary')
+      .eq('case_id', caseId)
+      .gte('violation_date', from)
+      .lte('violation_date', to)
+      .order('violation_date', { ascending: true })
+  ])
+
+  const error = scheduleError ?? eventsError ?? violationsError
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+
+  const events: CalendarEvent[] = []
+  for (const row of eventRows ?? []) {
+    const local = toWallClock(new Date(row.primary_timestamp!), timeZone)
+    const date = local.slice(0, 10)
+    if (date < from || date > to) continue
+    events.push({
+      id: row.id,
+      date,
+      time: row.timestamp_precision === 'exact' ? local.slice(11, 16) : null,
+      extractionType: (row.type_v2 as ExtractionEventType | null) ?? legacyToExtractionTypeMap[row.type] ?? 'parenting_time',
+      title: row.title
+    })
+  }
+
+  const parentingDates = new Set(events.filter(e => e.extractionType === 'parenting_time').map(e => e.date))
+  const schedule = scheduleRow ? scheduleFromRow(scheduleRow) : null
+
+  let days: CalendarDay[]
+  if (schedule) {
+    days = scheduleDays(schedule, from, to).map(d => ({
+      date: d.date,
+      scheduled: d.custodian,
+      custodian: d.custodian,
+      source: d.custodian ? 'schedule' : null,
+      holiday: d.holiday,
+      exchange: d.exchange,
+      loggedParentingTime: parentingDates.has(d.date)
+    }))
+  } else {
+    days = []
+    for (let date = from; date <= to; date = shiftDate(date, 1)) {
+      const logged = parentingDates.has(date)
+      days.push({
+        date,
+        scheduled: null,
+        custodian: logged ? 'you' : null,
+        source: logged ? 'events' : null,
+        holiday: null,
+        exchange: false,
+        loggedParentingTime: logged
+      })
+    }
+  }
+
+  const violations: CalendarViolation[] = (violationRows ?? []).map(v => ({
+    date: v.violation_date,
+    kind: v.kind as CalendarViolation['kind'],
+    summary: v.summary
+  }))
+
+  return { hasSchedule: !!schedule, days, events, violations }
+})
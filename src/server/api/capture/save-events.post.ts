@@ -2,6 +2,7 @@ import { serverSupabaseClient, serverSupabaseUser } from '#supabase/server'
 import type { Json, TablesInsert } from '~/types/database.types'
 import { canCreateJournalEntry } from '../../utils/subscription'
 import { getActiveCaseId } from '../../utils/cases'
+import { withIdempotency } from '../../utils/idempotency'
 
 /**
  * POST /api/capture/save-events
@@ -151,292 +152,306 @@ export default defineEventHandler(async (event) => {
     })
   }
 
-  // Check if user can create journal entries (feature gating)
-  const journalCheck = await canCreateJournalEntry(event, userId)
-  if (!journalCheck.allowed) {
-    throw createError({
-      statusCode: 403,
-      statusMessage: journalCheck.reason || 'Journal entry limit reached. Please upgrade to Pro.'
-    })
-  }
-
   const body = await readBody<SaveEventsBody>(event)
-  const events = body?.extraction?.events || []
-  const actionItems = body?.extraction?.action_items || []
-  const evidenceIds = body?.evidenceIds || []
-  const eventText = body?.eventText
-  const referenceDate = body?.referenceDate
-  const referenceTimeDescription = body?.referenceTimeDescription
-
-  if (!events.length) {
-    throw createError({
-      statusCode: 400,
-      statusMessage: 'No events to save.'
-    })
-  }
 
-  try {
-    const caseId = await getActiveCaseId(supabase, userId)
+  // Saving the same review twice (double click, retried request) with one
+  // Idempotency-Key returns the first save instead of duplicating its events
+  return withIdempotency(event, { supabase, userId, scope: 'POST /api/capture/save-events', payload: body }, async () => {
+    // Check if user can create journal entries (feature gating)
+    const journalCheck = await canCreateJournalEntry(event, userId)
+    if (!journalCheck.allowed) {
+      throw createError({
+        statusCode: 403,
+        statusMessage: journalCheck.reason || 'Journal entry limit reached. Please upgrade to Pro.'
+      })
+    }
 
-    // Create a journal entry record to preserve the original narrative
-    let journalEntryId: string | null = null
-    if (eventText) {
-      const { data: entryData, error: entryError } = await supabase
-        .from('journal_entries')
-        .insert({
-          user_id: userId,
-          case_id: caseId,
-          event_text: eventText,
-          reference_date: referenceDate || null,
-          reference_time_description: referenceTimeDescription || null,
-          status: 'completed',
-          extraction_raw: body.extraction as Json,
-          processed_at: new Date().toISOString(),
-          completed_at: new Date().toISOString()
-        })
-        .select('id')
-        .single()
+    const events = body?.extraction?.events || []
+    const actionItems = body?.extraction?.action_items || []
+    const evidenceIds = body?.evidenceIds || []
+    const eventText = body?.eventText
+    const referenceDate = body?.referenceDate
+    const referenceTimeDescription = body?.referenceTimeDescription
 
-      if (entryError) {
-        console.error('Failed to create journal entry record:', entryError)
-        // Don't fail the whole operation, just log
-      } else {
-        journalEntryId = entryData?.id || null
-      }
+    if (!events.length) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'No events to save.'
+      })
+    }
 
-      // Link evidence to the journal entry record
-      if (journalEntryId && evidenceIds.length) {
-        const currentJournalEntryId = journalEntryId
-        const entryEvidenceLinks = evidenceIds.map((evidenceId, index) => ({
-          journal_entry_id: currentJournalEntryId,
-          evidence_id: evidenceId,
-          sort_order: index,
-          is_processed: true,
-          processed_at: new Date().toISOString()
-        }))
+    try {
+      const caseId = await getActiveCaseId(supabase, userId)
 
-        const { error: entryLinkError } = await supabase
-          .from('journal_entry_evidence')
-          .insert(entryEvidenceLinks)
+      // Create a journal entry record to preserve the original narrative
+      let journalEntryId: string | null = null
+      if (eventText) {
+        const { data: entryData, error: entryError } = await supabase
+          .from('journal_entries')
+          .insert({
+            user_id: userId,
+            case_id: caseId,
+            event_text: eventText,
+            reference_date: referenceDate || null,
+            reference_time_description: referenceTimeDescription || null,
+            status: 'completed',
+            extraction_raw: body.extraction as Json,
+            processed_at: new Date().toISOString(),
+            completed_at: new Date().toISOString()
+          })
+          .select('id')
+          .single()
+
+        if (entryError) {
+          console.error('Failed to create journal entry record:', entryError)
+          // Don't fail the whole operation, just log
+        } else {
+          journalEntryId = entryData?.id || null
+        }
 
-        if (entryLinkError) {
-          console.error('Failed to link evidence to journal entry:', entryLinkError)
+        // Link evidence to the journal entry record
+        if (journalEntryId && evidenceIds.length) {
+          const currentJournalEntryId = journalEntryId
+          const entryEvidenceLinks = evidenceIds.map((evidenceId, index) => ({
+            journal_entry_id: currentJournalEntryId,
+            evidence_id: evidenceId,
+            sort_order: index,
+            is_processed: true,
+            processed_at: new Date().toISOString()
+          }))
+
+          const { error: entryLinkError } = await supabase
+            .from('journal_entry_evidence')
+            .insert(entryEvidenceLinks)
+
+          if (entryLinkError) {
+            console.error('Failed to link evidence to journal entry:', entryLinkError)
+          }
         }
       }
-    }
 
-    // Insert events (dual-write to legacy and new schema columns)
-    const eventsToInsert: TablesInsert<'events'>[] = events.map((e) => {
-      const welfareImpact = e.custody_relevance?.welfare_impact
+      // Insert events (dual-write to legacy and new schema columns)
+      const eventsToInsert: TablesInsert<'events'>[] = events.map((e) => {
+        const welfareImpact = e.custody_relevance?.welfare_impact
 
-      return {
-        user_id: userId,
-        case_id: caseId,
-        recording_id: null,
-        // New granular type column
-        type_v2: e.type,
-        // Legacy type column for backward compatibility
-        type: mapNewToLegacyType(e.type),
-        title: e.title || 'Untitled event',
-        description: e.description,
-        primary_timestamp: e.primary_timestamp ?? null,
-        timestamp_precision: e.timestamp_precision ?? 'unknown',
-        duration_minutes: e.duration_minutes ?? null,
-        location: e.location ?? null,
-        child_involved: e.child_involved ?? false,
-        agreement_violation: e.custody_relevance?.agreement_violation ?? null,
-        safety_concern: e.custody_relevance?.safety_concern ?? null,
-        // New structured welfare impact columns
-        welfare_category: welfareImpact?.category ?? null,
-        welfare_direction: welfareImpact?.direction ?? null,
-        welfare_severity: welfareImpact?.severity ?? null,
-        // Legacy welfare_impact enum for backward compatibility
-        welfare_impact: mapNewToLegacyWelfare(welfareImpact) ?? 'unknown',
-        // New JSONB enrichment fields
-        child_statements: (e.child_statements ?? []) as unknown as Json,
-        coparent_interaction: (e.coparent_interaction ?? null) as Json | null,
-        patterns_noted_v2: (e.patterns_noted ?? []) as unknown as Json
+        return {
+          user_id: userId,
+          case_id: caseId,
+          recording_id: null,
+          // New granular type column
+          type_v2: e.type,
+          // Legacy type column for backward compatibility
+          type: mapNewToLegacyType(e.type),
+          title: e.title || 'Untitled event',
+          description: e.description,
+          primary_timestamp: e.primary_timestamp ?? null,
+          timestamp_precision: e.timestamp_precision ?? 'unknown',
+          duration_minutes: e.duration_minutes ?? null,
+          location: e.location ?? null,
+          child_involved: e.child_involved ?? false,
+          agreement_violation: e.custody_relevance?.agreement_violation ?? null,
+          safety_concern: e.custody_relevance?.safety_concern ?? null,
+          // New structured welfare impact columns
+          welfare_category: welfareImpact?.category ?? null,
+          welfare_direction: welfareImpact?.direction ?? null,
+          welfare_severity: welfareImpact?.severity ?? null,
+          // Legacy welfare_impact enum for backward compatibility
+          welfare_impact: mapNewToLegacyWelfare(welfareImpact) ?? 'unknown',
+          // New JSONB enrichment fields
+          child_statements: (e.child_statements ?? []) as unknown as Json,
+          coparent_interaction: (e.coparent_interaction ?? null) as Json | null,
+          patterns_noted_v2: (e.patterns_noted ?? []) as unknown as Json
+        }
+      })
+
+      const { data: insertedEvents, error: insertEventsError } = await supabase
+        .from('events')
+        .insert(eventsToInsert)
+        .select('id')
+
+      if (insertEventsError) {
+        console.error('Failed to insert events:', insertEventsError)
+        // Undo the journal entry so a retry with the same Idempotency-Key
+        // (released on throw) doesn't save the narrative twice.
+        if (journalEntryId) {
+          const { error: cleanupError } = await supabase
+            .from('journal_entries')
+            .delete()
+            .eq('id', journalEntryId)
+          if (cleanupError) console.error('Failed to remove journal entry after events insert failed:', cleanupError)
+        }
+        throw createError({
+          statusCode: 500,
+          statusMessage: 'Failed to save events.'
+        })
       }
-    })
 
-    const { data: insertedEvents, error: insertEventsError } = await supabase
-      .from('events')
-      .insert(eventsToInsert)
-      .select('id')
+      const createdEventIds = (insertedEvents ?? []).map((row: any) => row.id as string)
 
-    if (insertEventsError) {
-      console.error('Failed to insert events:', insertEventsError)
-      throw createError({
-        statusCode: 500,
-        statusMessage: 'Failed to save events.'
-      })
-    }
+      // Insert participants and evidence mentions
+      const participantsToInsert: {
+        user_id: string
+        event_id: string
+        role: 'primary' | 'witness' | 'professional'
+        label: string
+      }[] = []
 
-    const createdEventIds = (insertedEvents ?? []).map((row: any) => row.id as string)
-
-    // Insert participants and evidence mentions
-    const participantsToInsert: {
-      user_id: string
-      event_id: string
-      role: 'primary' | 'witness' | 'professional'
-      label: string
-    }[] = []
-
-    const evidenceMentionsToInsert: {
-      user_id: string
-      case_id: string
-      event_id: string
-      type: ExtractionEvidenceMention['type']
-      description: string
-      status: ExtractionEvidenceMention['status']
-    }[] = []
-
-    createdEventIds.forEach((eventId, index) => {
-      const source = events[index]
-      if (!source) return
-
-      if (source.participants) {
-        source.participants.primary?.forEach((label) => {
-          if (!label) return
-          participantsToInsert.push({
-            user_id: userId,
-            event_id: eventId,
-            role: 'primary',
-            label
+      const evidenceMentionsToInsert: {
+        user_id: string
+        case_id: string
+        event_id: string
+        type: ExtractionEvidenceMention['type']
+        description: string
+        status: ExtractionEvidenceMention['status']
+      }[] = []
+
+      createdEventIds.forEach((eventId, index) => {
+        const source = events[index]
+        if (!source) return
+
+        if (source.participants) {
+          source.participants.primary?.forEach((label) => {
+            if (!label) return
+            participantsToInsert.push({
+              user_id: userId,
+              event_id: eventId,
+              role: 'primary',
+              label
+            })
           })
-        })
 
-        source.participants.witnesses?.forEach((label) => {
-          if (!label) return
-          participantsToInsert.push({
-            user_id: userId,
-            event_id: eventId,
-            role: 'witness',
-            label
+          source.participants.witnesses?.forEach((label) => {
+            if (!label) return
+            participantsToInsert.push({
+              user_id: userId,
+              event_id: eventId,
+              role: 'witness',
+              label
+            })
           })
-        })
 
-        source.participants.professionals?.forEach((label) => {
-          if (!label) return
-          participantsToInsert.push({
+          source.participants.professionals?.forEach((label) => {
+            if (!label) return
+            participantsToInsert.push({
+              user_id: userId,
+              event_id: eventId,
+              role: 'professional',
+              label
+            })
+          })
+        }
+
+        source.evidence_mentioned?.forEach((mention) => {
+          if (!mention?.description) return
+          evidenceMentionsToInsert.push({
             user_id: userId,
+            case_id: caseId,
             event_id: eventId,
-            role: 'professional',
-            label
+            type: mention.type,
+            description: mention.description,
+            status: mention.status
           })
         })
-      }
-
-      source.evidence_mentioned?.forEach((mention) => {
-        if (!mention?.description) return
-        evidenceMentionsToInsert.push({
-          user_id: userId,
-          case_id: caseId,
-          event_id: eventId,
-          type: mention.type,
-          description: mention.description,
-          status: mention.status
-        })
       })
-    })
 
-    if (participantsToInsert.length) {
-      const { error: participantsError } = await supabase
-        .from('event_participants')
-        .insert(participantsToInsert)
+      if (participantsToInsert.length) {
+        const { error: participantsError } = await supabase
+          .from('event_participants')
+          .insert(participantsToInsert)
 
-      if (participantsError) {
-        console.error('Failed to insert participants:', participantsError)
+        if (participantsError) {
+          console.error('Failed to insert participants:', participantsError)
+        }
       }
-    }
 
-    if (evidenceMentionsToInsert.length) {
-      const { error: mentionsError } = await supabase
-        .from('evidence_mentions')
-        .insert(evidenceMentionsToInsert)
+      if (evidenceMentionsToInsert.length) {
+        const { error: mentionsError } = await supabase
+          .from('evidence_mentions')
+          .insert(evidenceMentionsToInsert)
 
-      if (mentionsError) {
-        console.error('Failed to insert evidence mentions:', mentionsError)
+        if (mentionsError) {
+          console.error('Failed to insert evidence mentions:', mentionsError)
+        }
       }
-    }
 
-    // Link evidence to events via event_evidence junction table.
-    // IMPORTANT: Avoid a cartesian product (all evidence -> all events), which makes evidence appear
-    // "attached to everything" and creates confusing UI relationships.
-    //
-    // We only auto-link when there is exactly one created event; otherwise we keep evidence scoped to
-    // the journal entry (journal_entry_evidence) and allow explicit linking later.
-    if (evidenceIds.length && createdEventIds.length === 1) {
-      const eventEvidenceLinks: {
-        event_id: string
-        evidence_id: string
-        is_primary: boolean
-      }[] = []
+      // Link evidence to events via event_evidence junction table.
+      // IMPORTANT: Avoid a cartesian product (all evidence -> all events), which makes evidence appear
+      // "attached to everything" and creates confusing UI relationships.
+      //
+      // We only auto-link when there is exactly one created event; otherwise we keep evidence scoped to
+      // the journal entry (journal_entry_evidence) and allow explicit linking later.
+      if (evidenceIds.length && createdEventIds.length === 1) {
+        const eventEvidenceLinks: {
+          event_id: string
+          evidence_id: string
+          is_primary: boolean
+        }[] = []
+
+        const eventId = createdEventIds[0]!
+        for (let i = 0; i < evidenceIds.length; i++) {
+          const evidenceId = evidenceIds[i]
+          if (!evidenceId) continue
+
+          eventEvidenceLinks.push({
+            event_id: eventId,
+            evidence_id: evidenceId,
+            is_primary: i === 0 // First evidence is primary
+          })
+        }
 
-      const eventId = createdEventIds[0]!
-      for (let i = 0; i < evidenceIds.length; i++) {
-        const evidenceId = evidenceIds[i]
-        if (!evidenceId) continue
+        const { error: linkError } = await supabase
+          .from('event_evidence')
+          .insert(eventEvidenceLinks)
 
-        eventEvidenceLinks.push({
-          event_id: eventId,
-          evidence_id: evidenceId,
-          is_primary: i === 0 // First evidence is primary
-        })
+        if (linkError) {
+          console.error('Failed to link evidence to events:', linkError)
+        }
+      } else if (evidenceIds.length && createdEventIds.length > 1) {
+        console.info(
+          `[capture/save-events] Skipping auto-linking ${evidenceIds.length} evidence item(s) to ${createdEventIds.length} events to avoid over-linking.`
+        )
       }
 
-      const { error: linkError } = await supabase
-        .from('event_evidence')
-        .insert(eventEvidenceLinks)
+      // Insert action items if any
+      if (actionItems.length) {
+        const actionItemsToInsert = actionItems.map((item) => ({
+          user_id: userId,
+          case_id: caseId,
+          event_id: createdEventIds[0] ?? null, // Link to first event
+          priority: item.priority,
+          type: item.type,
+          description: item.description,
+          deadline: item.deadline ?? null,
+          status: 'open' as const
+        }))
+
+        const { error: actionItemsError } = await supabase
+          .from('action_items')
+          .insert(actionItemsToInsert)
 
-      if (linkError) {
-        console.error('Failed to link evidence to events:', linkError)
+        if (actionItemsError) {
+          console.error('Failed to insert action items:', actionItemsError)
+        }
       }
-    } else if (evidenceIds.length && createdEventIds.length > 1) {
-      console.info(
-        `[capture/save-events] Skipping auto-linking ${evidenceIds.length} evidence item(s) to ${createdEventIds.length} events to avoid over-linking.`
-      )
-    }
 
-    // Insert action items if any
-    if (actionItems.length) {
-      const actionItemsToInsert = actionItems.map((item) => ({
-        user_id: userId,
-        case_id: caseId,
-        event_id: createdEventIds[0] ?? null, // Link to first event
-        priority: item.priority,
-        type: item.type,
-        description: item.description,
-        deadline: item.deadline ?? null,
-        status: 'open' as const
-      }))
-
-      const { error: actionItemsError } = await supabase
-        .from('action_items')
-        .insert(actionItemsToInsert)
-
-      if (actionItemsError) {
-        console.error('Failed to insert action items:', actionItemsError)
+      return {
+        createdEventIds,
+        linkedEvidenceCount: evidenceIds.length,
+        journalEntryId
       }
-    }
+    } catch (error: any) {
+      console.error('Save events error:', error)
 
-    return {
-      createdEventIds,
-      linkedEvidenceCount: evidenceIds.length,
-      journalEntryId
-    }
-  } catch (error: any) {
-    console.error('Save events error:', error)
+      if (error.statusCode) {
+        throw error
+      }
 
-    if (error.statusCode) {
-      throw error
+      throw createError({
+        statusCode: 500,
+        statusMessage: 'Failed to save events. Please try again.'
+      })
     }
-
-    throw createError({
-      statusCode: 500,
-      statusMessage: 'Failed to save events. Please try again.'
-    })
-  }
+  })
 })
 
 function mapNewToLegacyType(newType: ExtractionEventType): 'incident' | 'positive' | 'medical' | 'school' | 'communication' | 'legal' {
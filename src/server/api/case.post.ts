@@ -1,4 +1,5 @@
 import { serverSupabaseClient, serverSupabaseUser } from '#supabase/server'
+import { requireCaseAccess } from '../utils/cases'
 
 interface CasePayload {
   id?: string
@@ -19,6 +20,7 @@ interface CasePayload {
   riskFlags?: string[] | null
   notes?: string | null
   nextCourtDate?: string | null
+  lastCourtDate?: string | null
   lawyerName?: string | null
   lawyerEmail?: string | null
 }
@@ -65,6 +67,7 @@ export default defineEventHandler(async (event) => {
     risk_flags: body.riskFlags ?? [],
     notes: body.notes ?? null,
     next_court_date: body.nextCourtDate ?? null,
+    last_court_date: body.lastCourtDate ?? null,
     lawyer_name: body.lawyerName ?? null,
     lawyer_email: body.lawyerEmail ?? null
   }
@@ -72,6 +75,8 @@ export default defineEventHandler(async (event) => {
   let result
 
   if (body.id) {
+    await requireCaseAccess(supabase, userId, body.id, { write: true })
+
     const { data, error } = await supabase
       .from('cases')
       .update(payload)
@@ -1,4 +1,7 @@
 import { serverSupabaseClient, serverSupabaseUser } from '#supabase/server'
+import { getActiveCaseIdOrNull, getCaseRole } from '../utils/cases'
+import type { CaseRole } from '../utils/cases'
+import { getServiceClient } from '../utils/service-client'
 
 interface CaseRow {
   id: string
@@ -19,6 +22,7 @@ interface CaseRow {
   risk_flags: string[] | null
   notes: string | null
   next_court_date: string | null
+  last_court_date: string | null
   lawyer_name: string | null
   lawyer_email: string | null
   created_at: string
@@ -39,6 +43,11 @@ export default eventHandler(async (event) => {
     })
   }
 
+  const caseId = await getActiveCaseIdOrNull(supabase, userId)
+  if (!caseId) {
+    return { case: null, role: null }
+  }
+
   const { data, error } = await supabase
     .from('cases')
     .select(
@@ -61,15 +70,14 @@ export default eventHandler(async (event) => {
         'risk_flags',
         'notes',
         'next_court_date',
+        'last_court_date',
         'lawyer_name',
         'lawyer_email',
         'created_at',
         'updated_at'
       ].join(', ')
     )
-    .eq('user_id', userId)
-    .order('created_at', { ascending: false })
-    .limit(1)
+    .eq('id', caseId)
     .maybeSingle()
 
   if (error && error.code !== 'PGRST116') {
@@ -82,9 +90,26 @@ export default eventHandler(async (event) => {
   }
 
   const row = (data ?? null) as CaseRow | null
+  const role: CaseRole | null = row ? await getCaseRole(supabase, userId, row.id) : null
+
+  if (row && role === 'collaborator') {
+    // Collaborators can only read their own row, so bump last_seen_at with the
+    // service client. Best-effort: the owner's collaborator list is informational.
+    const { error: seenError } = await getServiceClient()
+      .from('case_collaborators')
+      .update({ last_seen_at: new Date().toISOString() })
+      .eq('case_id', row.id)
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+    if (seenError) {
+      // eslint-disable-next-line no-console
+      console.error('Failed to update collaborator last_seen_at:', seenError)
+    }
+  }
 
   return {
-    case: row
+    case: row,
+    role
   }
 })
 
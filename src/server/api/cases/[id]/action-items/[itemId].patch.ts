@@ -0,0 +1,49 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import { requireUserId } from '../../../../utils/auth'
+import { requireCaseAccess } from '../../../../utils/cases'
+
+type ActionStatus = Database['public']['Enums']['action_status']
+
+const ACTION_STATUSES: ActionStatus[] = ['open', 'in_progress', 'done', 'cancelled']
+
+/**
+ * PATCH /api/cases/:id/action-items/:itemId
+ *
+ * Owner-only. Sets an action item's status, e.g. ticking it off the hearing
+ * prep checklist.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  const itemId = getRouterParam(event, 'itemId')
+  if (!caseId || !itemId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id and action item id are required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId, { write: true })
+
+  const body = await readBody<{ status?: string }>(event)
+  const status = body?.status as ActionStatus
+  if (!ACTION_STATUSES.includes(status)) {
+    throw createError({ statusCode: 400, statusMessage: `status must be one of: ${ACTION_STATUSES.join(', ')}` })
+  }
+
+  const { data, error } = await supabase
+    .from('action_items')
+    .update({ status })
+    .eq('id', itemId)
+    .eq('case_id', caseId)
+    .select('id, status, updated_at')
+    .maybeSingle()
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+  if (!data) {
+    throw createError({ statusCode: 404, statusMessage: 'Action item not found' })
+  }
+
+  return { actionItem: { id: data.id, status: data.status, updatedAt: data.updated_at } }
+})
@@ -0,0 +1,62 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import { requireUserId } from '../../../utils/auth'
+import { requireCaseAccess } from '../../../utils/cases'
+import { buildInviteUrl, collaboratorStatus } from '../../../utils/collaborators'
+import type { CollaboratorStatus } from '../../../utils/collaborators'
+
+interface CollaboratorListItem {
+  id: string
+  email: string
+  role: string
+  status: CollaboratorStatus
+  invitedAt: string
+  acceptedAt: string | null
+  lastSeenAt: string | null
+  revokedAt: string | null
+  // Only present while the invite is pending, so the owner can re-share the link.
+  inviteUrl: string | null
+}
+
+/**
+ * GET /api/cases/:id/collaborators
+ *
+ * Owner-only. Lists everyone invited to the case, including revoked rows.
+ */
+export default defineEventHandler(async (event): Promise<{ collaborators: CollaboratorListItem[] }> => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  if (!caseId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id is required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId, { write: true })
+
+  const { data, error } = await supabase
+    .from('case_collaborators')
+    .select('id, email, role, invite_token, invited_at, accepted_at, last_seen_at, revoked_at')
+    .eq('case_id', caseId)
+    .order('invited_at', { ascending: false })
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+
+  return {
+    collaborators: (data ?? []).map((row) => {
+      const status = collaboratorStatus(row)
+      return {
+        id: row.id,
+        email: row.email,
+        role: row.role,
+        status,
+        invitedAt: row.invited_at,
+        acceptedAt: row.accepted_at,
+        lastSeenAt: row.last_seen_at,
+        revokedAt: row.revoked_at,
+        inviteUrl: status === 'invited' ? buildInviteUrl(row.invite_token) : null
+      }
+    })
+  }
+})
@@ -0,0 +1,48 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import { requireUserId } from '../../../../utils/auth'
+import { requireCaseAccess } from '../../../../utils/cases'
+import { daysBetween } from '../../../../utils/collaborators'
+import { logAnalyticsEvent } from '../../../../utils/analytics'
+
+/**
+ * DELETE /api/cases/:id/collaborators/:collabId
+ *
+ * Owner-only soft revoke. The row is kept (revoked_at set) so the audit trail
+ * survives; user_can_access_case() stops granting access immediately.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  const collabId = getRouterParam(event, 'collabId')
+  if (!caseId || !collabId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id and collaborator id are required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId, { write: true })
+
+  const { data, error } = await supabase
+    .from('case_collaborators')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', collabId)
+    .eq('case_id', caseId)
+    .is('revoked_at', null)
+    .select('id, accepted_at')
+    .maybeSingle()
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+  if (!data) {
+    throw createError({ statusCode: 404, statusMessage: 'Collaborator not found' })
+  }
+
+  await logAnalyticsEvent(event, 'collaborator_revoked', {
+    caseId,
+    daysActive: data.accepted_at ? daysBetween(data.accepted_at) : null
+  })
+
+  setResponseStatus(event, 204)
+  return null
+})
@@ -0,0 +1,37 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import type { CommunicationMetricsResponse } from '~/types'
+import { requireUserId } from '../../../utils/auth'
+import { requireCaseAccess } from '../../../utils/cases'
+import { readDate } from '../../../utils/date-params'
+import { loadCommunicationMetrics } from '../../../utils/communication-metrics-data'
+
+/**
+ * GET /api/cases/:id/communication-metrics?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *
+ * Responsiveness per sender, by month and in total: median time until the
+ * recipient first viewed their messages, messages never viewed (OFW only),
+ * median reply time within threads, and information requests that never got
+ * a reply. Unanswered requests are listed so exports can cite them. Both
+ * dates are optional; the default is every message in the case.
+ */
+export default defineEventHandler(async (event): Promise<CommunicationMetricsResponse> => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  if (!caseId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id is required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId)
+
+  const query = getQuery(event)
+  const from = readDate(query.from, 'from')
+  const to = readDate(query.to, 'to')
+  if (from && to && to < from) {
+    throw createError({ statusCode: 400, statusMessage: 'to must not be before from' })
+  }
+
+  const report = await loadCommunicationMetrics(supabase, caseId, from, to)
+  return { report: report.total.senders.length ? report : null }
+})
@@ -0,0 +1,35 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import type { CaseDeadlinesResponse } from '~/types'
+import { requireUserId } from '../../../utils/auth'
+import { requireCaseAccess } from '../../../utils/cases'
+import { caseDeadlineFromRow } from '../../../utils/case-deadlines'
+
+/**
+ * GET /api/cases/:id/deadlines
+ *
+ * Every court date and deadline on the case, soonest first. Readable by
+ * collaborators.
+ */
+export default defineEventHandler(async (event): Promise<CaseDeadlinesResponse> => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  if (!caseId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id is required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId)
+
+  const { data, error } = await supabase
+    .from('case_deadlines')
+    .select('*')
+    .eq('case_id', caseId)
+    .order('starts_at', { ascending: true })
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+
+  return { deadlines: (data ?? []).map(caseDeadlineFromRow) }
+})
@@ -0,0 +1,47 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import { requireUserId } from '../../../utils/auth'
+import { requireCaseAccess } from '../../../utils/cases'
+import { caseDeadlineFromRow, caseDeadlineToRow, parseCaseDeadlineInput } from '../../../utils/case-deadlines'
+import { logAnalyticsEvent } from '../../../utils/analytics'
+
+/**
+ * POST /api/cases/:id/deadlines
+ *
+ * Owner-only. Adds a court date or deadline to the case.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  if (!caseId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id is required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId, { write: true })
+
+  let input
+  try {
+    input = parseCaseDeadlineInput(await readBody(event))
+  } catch (e) {
+    throw createError({ statusCode: 400, statusMessage: (e as Error).message })
+  }
+
+  const { data, error } = await supabase
+    .from('case_deadlines')
+    .insert(caseDeadlineToRow(input, caseId, userId))
+    .select('*')
+    .single()
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+
+  await logAnalyticsEvent(event, 'case_deadline_created', {
+    caseId,
+    type: input.type,
+    reminders: input.reminderDays.length
+  })
+
+  return { deadline: caseDeadlineFromRow(data) }
+})
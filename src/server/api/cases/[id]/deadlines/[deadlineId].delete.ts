@@ -0,0 +1,38 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import { requireUserId } from '../../../../utils/auth'
+import { requireCaseAccess } from '../../../../utils/cases'
+
+/**
+ * DELETE /api/cases/:id/deadlines/:deadlineId
+ *
+ * Owner-only.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  const deadlineId = getRouterParam(event, 'deadlineId')
+  if (!caseId || !deadlineId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id and deadline id are required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId, { write: true })
+
+  const { data, error } = await supabase
+    .from('case_deadlines')
+    .delete()
+    .eq('id', deadlineId)
+    .eq('case_id', caseId)
+    .select('id')
+    .maybeSingle()
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+  if (!data) {
+    throw createError({ statusCode: 404, statusMessage: 'Deadline not found' })
+  }
+
+  return { success: true }
+})
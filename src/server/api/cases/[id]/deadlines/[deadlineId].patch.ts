@@ -0,0 +1,48 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import { requireUserId } from '../../../../utils/auth'
+import { requireCaseAccess } from '../../../../utils/cases'
+import { caseDeadlineFromRow, caseDeadlineToRow, parseCaseDeadlineInput } from '../../../../utils/case-deadlines'
+
+/**
+ * PATCH /api/cases/:id/deadlines/:deadlineId
+ *
+ * Owner-only. Replaces the deadline's fields with the body (the full form is
+ * sent, as on create).
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  const deadlineId = getRouterParam(event, 'deadlineId')
+  if (!caseId || !deadlineId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id and deadline id are required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId, { write: true })
+
+  let input
+  try {
+    input = parseCaseDeadlineInput(await readBody(event))
+  } catch (e) {
+    throw createError({ statusCode: 400, statusMessage: (e as Error).message })
+  }
+
+  const { case_id: _caseId, user_id: _userId, ...fields } = caseDeadlineToRow(input, caseId, userId)
+  const { data, error } = await supabase
+    .from('case_deadlines')
+    .update(fields)
+    .eq('id', deadlineId)
+    .eq('case_id', caseId)
+    .select('*')
+    .maybeSingle()
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+  if (!data) {
+    throw createError({ statusCode: 404, statusMessage: 'Deadline not found' })
+  }
+
+  return { deadline: caseDeadlineFromRow(data) }
+})
@@ -0,0 +1,61 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import type { ExpenseItem, ExpenseLinkedMessage, ExpensesResponse } from '~/types'
+import { requireUserId } from '../../../utils/auth'
+import { requireCaseAccess } from '../../../utils/cases'
+import { expenseFromRow, expenseShareCents, expenseStatus, summarizeExpenseBalance } from '../../../utils/expenses'
+
+/**
+ * GET /api/cases/:id/expenses
+ *
+ * Every expense on the case, newest first, with its receipt and linked
+ * messages, plus the balance owed between the parents across unsettled
+ * items. Readable by collaborators.
+ */
+export default defineEventHandler(async (event): Promise<ExpensesResponse> => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  if (!caseId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id is required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId)
+
+  const { data: rows, error } = await supabase
+    .from('expenses')
+    .select('*, receipt:evidence(id, original_filename), expense_messages(message:messages(id, source, sender, subject, sent_at, message_number, sequence_number))')
+    .eq('case_id', caseId)
+    .order('incurred_on', { ascending: false })
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+
+  const expenses: ExpenseItem[] = (rows ?? []).map((row) => {
+    const expense = expenseFromRow(row)
+    const messages: ExpenseLinkedMessage[] = (row.expense_messages ?? [])
+      .map(link => link.message)
+      .filter((m): m is NonNullable<typeof m> => !!m)
+      .map(m => ({
+        id: m.id,
+        source: m.source,
+        sender: m.sender,
+        subject: m.subject,
+        sentAt: m.sent_at,
+        messageNumber: m.message_number,
+        sequenceNumber: m.sequence_number
+      }))
+      .sort((a, b) => a.sentAt.localeCompare(b.sentAt))
+    return {
+      ...expense,
+      shareCents: expenseShareCents(expense),
+      status: expenseStatus(expense),
+      receipt: row.receipt ? { id: row.receipt.id, originalName: row.receipt.original_filename } : null,
+      messages
+    }
+  })
+
+  return { expenses, balance: summarizeExpenseBalance(expenses) }
+})
@@ -0,0 +1,46 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import { requireUserId } from '../../../utils/auth'
+import { requireCaseAccess } from '../../../utils/cases'
+import { saveExpense, verifyExpenseLinks } from '../../../utils/expense-links'
+import { expenseFromRow, expenseToRow, parseExpenseInput } from '../../../utils/expenses'
+import { logAnalyticsEvent } from '../../../utils/analytics'
+
+/**
+ * POST /api/cases/:id/expenses
+ *
+ * Owner-only. Records an expense, optionally with a receipt (evidence id) and
+ * the messages where reimbursement was requested.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  if (!caseId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id is required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId, { write: true })
+
+  let input
+  try {
+    input = parseExpenseInput(await readBody(event))
+  } catch (e) {
+    throw createError({ statusCode: 400, statusMessage: (e as Error).message })
+  }
+  await verifyExpenseLinks(supabase, caseId, input)
+
+  const data = await saveExpense(supabase, null, expenseToRow(input, caseId, userId), input.messageIds)
+  if (!data) {
+    throw createError({ statusCode: 500, statusMessage: 'Expense was not saved' })
+  }
+
+  await logAnalyticsEvent(event, 'expense_created', {
+    caseId,
+    category: input.category,
+    hasReceipt: !!input.receiptEvidenceId,
+    linkedMessages: input.messageIds.length
+  })
+
+  return { expense: { ...expenseFromRow(data), messageIds: input.messageIds } }
+})
@@ -0,0 +1,39 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import { requireUserId } from '../../../../utils/auth'
+import { requireCaseAccess } from '../../../../utils/cases'
+
+/**
+ * DELETE /api/cases/:id/expenses/:expenseId
+ *
+ * Owner-only. Linked messages are unlinked by cascade; the receipt evidence
+ * stays.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  const expenseId = getRouterParam(event, 'expenseId')
+  if (!caseId || !expenseId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id and expense id are required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId, { write: true })
+
+  const { data, error } = await supabase
+    .from('expenses')
+    .delete()
+    .eq('id', expenseId)
+    .eq('case_id', caseId)
+    .select('id')
+    .maybeSingle()
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+  if (!data) {
+    throw createError({ statusCode: 404, statusMessage: 'Expense not found' })
+  }
+
+  return { success: true }
+})
@@ -0,0 +1,39 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import { requireUserId } from '../../../../utils/auth'
+import { requireCaseAccess } from '../../../../utils/cases'
+import { saveExpense, verifyExpenseLinks } from '../../../../utils/expense-links'
+import { expenseFromRow, expenseToRow, parseExpenseInput } from '../../../../utils/expenses'
+
+/**
+ * PATCH /api/cases/:id/expenses/:expenseId
+ *
+ * Owner-only. Replaces the expense's fields and linked messages with the body
+ * (the full form is sent, as on create).
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  const expenseId = getRouterParam(event, 'expenseId')
+  if (!caseId || !expenseId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id and expense id are required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId, { write: true })
+
+  let input
+  try {
+    input = parseExpenseInput(await readBody(event))
+  } catch (e) {
+    throw createError({ statusCode: 400, statusMessage: (e as Error).message })
+  }
+  await verifyExpenseLinks(supabase, caseId, input)
+
+  const data = await saveExpense(supabase, expenseId, expenseToRow(input, caseId, userId), input.messageIds)
+  if (!data) {
+    throw createError({ statusCode: 404, statusMessage: 'Expense not found' })
+  }
+
+  return { expense: { ...expenseFromRow(data), messageIds: input.messageIds } }
+})
@@ -0,0 +1,72 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import { requireUserId } from '../../../utils/auth'
+import { requireCaseAccess } from '../../../utils/cases'
+
+interface PinExhibitBody {
+  evidenceId?: string
+  note?: string | null
+}
+
+/**
+ * POST /api/cases/:id/hearing-exhibits
+ *
+ * Owner-only. Pins an evidence item from the case as a key exhibit for the
+ * upcoming hearing, at the end of the list. Pinning an already-pinned item
+ * updates its note and moves it to the end.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  if (!caseId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id is required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId, { write: true })
+
+  const body = await readBody<PinExhibitBody>(event)
+  const evidenceId = typeof body?.evidenceId === 'string' ? body.evidenceId.trim() : ''
+  if (!evidenceId) {
+    throw createError({ statusCode: 400, statusMessage: 'evidenceId is required' })
+  }
+  const note = typeof body?.note === 'string' && body.note.trim() ? body.note.trim() : null
+
+  const [{ data: evidence, error: evidenceError }, { data: last, error: lastError }] = await Promise.all([
+    supabase
+      .from('evidence')
+      .select('id')
+      .eq('id', evidenceId)
+      .eq('case_id', caseId)
+      .maybeSingle(),
+    supabase
+      .from('hearing_exhibits')
+      .select('position')
+      .eq('case_id', caseId)
+      .order('position', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+  ])
+
+  if (evidenceError || lastError) {
+    throw createError({ statusCode: 500, statusMessage: (evidenceError ?? lastError)!.message })
+  }
+  if (!evidence) {
+    throw createError({ statusCode: 400, statusMessage: 'Key exhibits must be evidence from this case' })
+  }
+
+  const { data, error } = await supabase
+    .from('hearing_exhibits')
+    .upsert(
+      { case_id: caseId, user_id: userId, evidence_id: evidenceId, note, position: (last?.position ?? -1) + 1 },
+      { onConflict: 'case_id,evidence_id' }
+    )
+    .select('evidence_id, note, position')
+    .single()
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+
+  return { exhibit: { evidenceId: data.evidence_id, note: data.note, position: data.position } }
+})
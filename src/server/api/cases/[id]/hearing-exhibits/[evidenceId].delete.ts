@@ -0,0 +1,38 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import { requireUserId } from '../../../../utils/auth'
+import { requireCaseAccess } from '../../../../utils/cases'
+
+/**
+ * DELETE /api/cases/:id/hearing-exhibits/:evidenceId
+ *
+ * Owner-only. Unpins a key exhibit; the evidence itself stays.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  const evidenceId = getRouterParam(event, 'evidenceId')
+  if (!caseId || !evidenceId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id and evidence id are required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId, { write: true })
+
+  const { data, error } = await supabase
+    .from('hearing_exhibits')
+    .delete()
+    .eq('case_id', caseId)
+    .eq('evidence_id', evidenceId)
+    .select('id')
+    .maybeSingle()
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+  if (!data) {
+    throw createError({ statusCode: 404, statusMessage: 'Exhibit not found' })
+  }
+
+  return { success: true }
+})
@@ -0,0 +1,58 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import { requireUserId } from '../../../../utils/auth'
+import { requireCaseAccess } from '../../../../utils/cases'
+
+interface UpdateExhibitBody {
+  note?: string | null
+  position?: number
+}
+
+/**
+ * PATCH /api/cases/:id/hearing-exhibits/:evidenceId
+ *
+ * Owner-only. Updates a pinned exhibit's note and/or position.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  const evidenceId = getRouterParam(event, 'evidenceId')
+  if (!caseId || !evidenceId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id and evidence id are required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId, { write: true })
+
+  const body = await readBody<UpdateExhibitBody>(event)
+  const update: Database['public']['Tables']['hearing_exhibits']['Update'] = {}
+  if (body && 'note' in body) {
+    update.note = typeof body.note === 'string' && body.note.trim() ? body.note.trim() : null
+  }
+  if (body?.position !== undefined) {
+    if (!Number.isInteger(body.position) || body.position < 0) {
+      throw createError({ statusCode: 400, statusMessage: 'position must be a non-negative integer' })
+    }
+    update.position = body.position
+  }
+  if (!Object.keys(update).length) {
+    throw createError({ statusCode: 400, statusMessage: 'Nothing to update' })
+  }
+
+  const { data, error } = await supabase
+    .from('hearing_exhibits')
+    .update(update)
+    .eq('case_id', caseId)
+    .eq('evidence_id', evidenceId)
+    .select('evidence_id, note, position')
+    .maybeSingle()
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+  if (!data) {
+    throw createError({ statusCode: 404, statusMessage: 'Exhibit not found' })
+  }
+
+  return { exhibit: { evidenceId: data.evidence_id, note: data.note, position: data.position } }
+})
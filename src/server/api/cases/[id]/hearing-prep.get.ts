@@ -0,0 +1,27 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import { requireUserId } from '../../../utils/auth'
+import { requireCaseAccess } from '../../../utils/cases'
+import { loadHearingPrep } from '../../../utils/hearing-prep-data'
+import { getTimezoneWithProfileFallback } from '../../../utils/timezone'
+
+/**
+ * GET /api/cases/:id/hearing-prep
+ *
+ * The hearing prep workspace: countdown to the next hearing, a checklist from
+ * the case's action items, a digest of events and message threads since the
+ * previous hearing, and the pinned key exhibits. Readable by collaborators.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  if (!caseId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id is required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId)
+
+  const timezone = await getTimezoneWithProfileFallback(event, supabase, userId)
+  return loadHearingPrep(supabase, caseId, timezone)
+})
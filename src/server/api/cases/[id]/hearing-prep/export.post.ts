@@ -0,0 +1,85 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database, Json } from '~/types/database.types'
+import type { ExportMetadata } from '~/types'
+import { requireUserId } from '../../../../utils/auth'
+import { requireCaseAccess } from '../../../../utils/cases'
+import { canExport } from '../../../../utils/subscription'
+import { logAnalyticsEvent } from '../../../../utils/analytics'
+import { buildHearingBundleMarkdown } from '../../../../utils/hearing-prep'
+import { loadHearingPrep } from '../../../../utils/hearing-prep-data'
+import { getTimezoneWithProfileFallback } from '../../../../utils/timezone'
+
+/**
+ * POST /api/cases/:id/hearing-prep/export
+ *
+ * Owner-only. Saves the hearing bundle — open checklist, key exhibits and
+ * everything recorded since the previous hearing — as an `exports` row with
+ * focus `hearing-bundle`.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  if (!caseId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id is required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId, { write: true })
+
+  const exportCheck = await canExport(event, userId)
+  if (!exportCheck.allowed) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: exportCheck.reason || 'Exports are a Pro feature. Please upgrade to create court-ready documents.'
+    })
+  }
+
+  const timezone = await getTimezoneWithProfileFallback(event, supabase, userId)
+  const prep = await loadHearingPrep(supabase, caseId, timezone)
+  if (!prep.hearing || !prep.digest) {
+    throw createError({ statusCode: 400, statusMessage: 'Set the next court date on your case to build a hearing bundle' })
+  }
+
+  const markdown = buildHearingBundleMarkdown({
+    caseTitle: prep.caseTitle,
+    hearing: prep.hearing,
+    checklist: prep.checklist,
+    digest: prep.digest,
+    exhibits: prep.exhibits
+  })
+
+  const metadata: ExportMetadata = {
+    case_title: prep.caseTitle ?? undefined,
+    events_count: prep.digest.eventCount,
+    evidence_count: prep.exhibits.length,
+    hearing_date: prep.hearing.hearingDay,
+    period_start: prep.hearing.periodStart ?? undefined
+  }
+
+  const { data, error } = await supabase
+    .from('exports')
+    .insert({
+      user_id: userId,
+      case_id: caseId,
+      title: `Hearing bundle — ${prep.hearing.hearingDay}`,
+      markdown_content: markdown,
+      focus: 'hearing-bundle',
+      metadata: metadata as unknown as Json
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('[HearingPrep] Failed to save hearing bundle:', error)
+    throw createError({ statusCode: 500, statusMessage: 'Failed to save export' })
+  }
+
+  await logAnalyticsEvent(event, 'export_created', {
+    exportId: data.id,
+    focus: data.focus,
+    eventsCount: prep.digest.eventCount,
+    exhibitCount: prep.exhibits.length
+  })
+
+  return { export: data }
+})
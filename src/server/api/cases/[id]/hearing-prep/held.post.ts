@@ -0,0 +1,46 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import { requireUserId } from '../../../../utils/auth'
+import { requireCaseAccess } from '../../../../utils/cases'
+
+/**
+ * POST /api/cases/:id/hearing-prep/held
+ *
+ * Owner-only. Marks the next hearing as held: it becomes the previous hearing
+ * (starting the next prep period) and the next court date is cleared.
+ * Pinned exhibits are kept; the user unpins what no longer applies.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  if (!caseId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id is required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId, { write: true })
+
+  const { data: caseRow, error: caseError } = await supabase
+    .from('cases')
+    .select('next_court_date')
+    .eq('id', caseId)
+    .maybeSingle()
+
+  if (caseError) {
+    throw createError({ statusCode: 500, statusMessage: caseError.message })
+  }
+  if (!caseRow?.next_court_date) {
+    throw createError({ statusCode: 400, statusMessage: 'This case has no upcoming hearing to mark as held' })
+  }
+
+  const { error: updateError } = await supabase
+    .from('cases')
+    .update({ last_court_date: caseRow.next_court_date, next_court_date: null })
+    .eq('id', caseId)
+
+  if (updateError) {
+    throw createError({ statusCode: 500, statusMessage: updateError.message })
+  }
+
+  return { lastCourtDate: caseRow.next_court_date }
+})
@@ -0,0 +1,84 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import { requireUserId } from '../../../utils/auth'
+import { requireCaseAccess } from '../../../utils/cases'
+import { COLLABORATOR_ROLES, buildInviteUrl, generateInviteToken } from '../../../utils/collaborators'
+import type { CollaboratorRole } from '../../../utils/collaborators'
+import { logAnalyticsEvent } from '../../../utils/analytics'
+
+interface Body {
+  email?: string
+  role?: CollaboratorRole
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+/**
+ * POST /api/cases/:id/invite
+ *
+ * Owner-only. Creates a pending `case_collaborators` row and returns the invite
+ * link. There is no outbound email yet, so the owner shares the link themselves.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  if (!caseId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id is required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId, { write: true })
+
+  const body = await readBody<Body>(event)
+  const email = body?.email?.trim().toLowerCase() ?? ''
+  const role = body?.role ?? 'attorney_readonly'
+
+  if (!EMAIL_PATTERN.test(email)) {
+    throw createError({ statusCode: 400, statusMessage: 'A valid email address is required' })
+  }
+  if (!COLLABORATOR_ROLES.includes(role)) {
+    throw createError({ statusCode: 400, statusMessage: `Unsupported role: ${role}` })
+  }
+
+  const { data: ownerProfile } = await supabase
+    .from('profiles')
+    .select('email')
+    .eq('id', userId)
+    .maybeSingle()
+  if (ownerProfile?.email?.toLowerCase() === email) {
+    throw createError({ statusCode: 400, statusMessage: 'You already own this case' })
+  }
+
+  const inviteToken = generateInviteToken()
+
+  const { data, error } = await supabase
+    .from('case_collaborators')
+    .insert({
+      case_id: caseId,
+      email,
+      role,
+      invite_token: inviteToken,
+      invited_by: userId
+    })
+    .select('id')
+    .single()
+
+  if (error) {
+    // uniq_collab_case_email: one live invite per (case, email).
+    if (error.code === '23505') {
+      throw createError({ statusCode: 409, statusMessage: 'This person has already been invited to the case' })
+    }
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+
+  await logAnalyticsEvent(event, 'collaborator_invited', {
+    caseId,
+    role,
+    inviteId: data.id
+  })
+
+  return {
+    collaboratorId: data.id,
+    inviteUrl: buildInviteUrl(inviteToken)
+  }
+})
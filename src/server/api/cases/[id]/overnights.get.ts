@@ -0,0 +1,130 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import type { OvernightCitationEvent, OvernightCitationMessage, OvernightReportResponse } from '~/types'
+import { chunk } from '../../../utils/arrays'
+import { requireUserId } from '../../../utils/auth'
+import { requireCaseAccess } from '../../../utils/cases'
+import { readDate, shiftDate } from '../../../utils/date-params'
+import { toWallClock } from '../../../utils/message-sources'
+import { computeOvernightReport } from '../../../utils/overnights'
+import { scheduleFromRow } from '../../../utils/parenting-schedule'
+import type { ViolationKind } from '../../../utils/parenting-schedule'
+import { getDateStringInTimezone, getTimezoneWithProfileFallback } from '../../../utils/timezone'
+
+// Room for a few years of custody history; the report walks every night.
+const MAX_RANGE_DAYS = 5 * 366
+const ID_CHUNK_SIZE = 200
+
+/**
+ * GET /api/cases/:id/overnights?from=YYYY-MM-DD&to=YYYY-MM-DD
+ *
+ * Ordered vs. actual overnights and parenting-time percentages per parent,
+ * by month and by year, from the parenting schedule plus the deviations the
+ * last schedule check documented. Each deviation carries the events and
+ * messages behind it so exports can cite them. Defaults to the schedule's
+ * start (at most MAX_RANGE_DAYS back) through today; `report` is null until
+ * the case has a schedule.
+ */
+export default defineEventHandler(async (event): Promise<OvernightReportResponse> => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  if (!caseId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id is required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId)
+
+  const query = getQuery(event)
+  const from = readDate(query.from, 'from')
+  const timeZone = await getTimezoneWithProfileFallback(event, supabase, userId)
+  const to = readDate(query.to, 'to') ?? getDateStringInTimezone(new Date(), timeZone)
+
+  const { data: row, error } = await supabase
+    .from('parenting_schedules')
+    .select('*')
+    .eq('case_id', caseId)
+    .maybeSingle()
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+  if (!row) return { report: null, events: {}, messages: {} }
+
+  const schedule = scheduleFromRow(row)
+  const earliest = shiftDate(to, -(MAX_RANGE_DAYS - 1))
+  const start = from ?? (schedule.anchorDate < earliest ? earliest : schedule.anchorDate)
+  if (to < start) {
+    throw createError({ statusCode: 400, statusMessage: 'to must not be before from' })
+  }
+  if (shiftDate(start, MAX_RANGE_DAYS) <= to) {
+    throw createError({ statusCode: 400, statusMessage: `Date range is limited to ${MAX_RANGE_DAYS} days` })
+  }
+
+  const { data: violations, error: violationsError } = await supabase
+    .from('schedule_violations')
+    .select('kind, violation_date, summary, event_ids, message_ids')
+    .eq('case_id', caseId)
+    .gte('violation_date', start)
+    .lte('violation_date', to)
+    .order('violation_date', { ascending: true })
+
+  if (violationsError) {
+    throw createError({ statusCode: 500, statusMessage: violationsError.message })
+  }
+
+  const report = computeOvernightReport(
+    schedule,
+    (violations ?? []).map(v => ({
+      date: v.violation_date,
+      kind: v.kind as ViolationKind,
+      summary: v.summary,
+      eventIds: v.event_ids,
+      messageIds: v.message_ids
+    })),
+    start,
+    to
+  )
+
+  // Only the rows cited by deviations that actually moved a night.
+  const events: Record<string, OvernightCitationEvent> = {}
+  for (const ids of chunk([...new Set(report.deviations.flatMap(d => d.eventIds))], ID_CHUNK_SIZE)) {
+    const { data, error: eventsError } = await supabase
+      .from('events')
+      .select('id, title, primary_timestamp')
+      .in('id', ids)
+    if (eventsError) {
+      throw createError({ statusCode: 500, statusMessage: eventsError.message })
+    }
+    for (const e of data ?? []) {
+      events[e.id] = {
+        id: e.id,
+        title: e.title,
+        date: e.primary_timestamp ? toWallClock(new Date(e.primary_timestamp), timeZone).slice(0, 10) : null
+      }
+    }
+  }
+
+  const messages: Record<string, OvernightCitationMessage> = {}
+  for (const ids of chunk([...new Set(report.deviations.flatMap(d => d.messageIds))], ID_CHUNK_SIZE)) {
+    const { data, error: messagesError } = await supabase
+      .from('messages')
+      .select('id, source, sender, sent_at, message_number, sequence_number')
+      .in('id', ids)
+    if (messagesError) {
+      throw createError({ statusCode: 500, statusMessage: messagesError.message })
+    }
+    for (const m of data ?? []) {
+      messages[m.id] = {
+        id: m.id,
+        source: m.source,
+        sender: m.sender,
+        sentAt: m.sent_at,
+        messageNumber: m.message_number,
+        sequenceNumber: m.sequence_number
+      }
+    }
+  }
+
+  return { report, events, messages }
+})
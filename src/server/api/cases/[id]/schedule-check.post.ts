@@ -0,0 +1,62 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import { requireUserId } from '../../../utils/auth'
+import { requireCaseAccess } from '../../../utils/cases'
+import { inngest } from '../../../inngest/client'
+
+/**
+ * POST /api/cases/:id/schedule-check
+ *
+ * Owner-only. Queues a schedule_check job that re-runs violation detection
+ * for the case. Returns the job id for useJobs to track.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  if (!caseId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id is required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId, { write: true })
+
+  const { data: schedule, error: scheduleError } = await supabase
+    .from('parenting_schedules')
+    .select('id')
+    .eq('case_id', caseId)
+    .maybeSingle()
+
+  if (scheduleError) {
+    throw createError({ statusCode: 500, statusMessage: scheduleError.message })
+  }
+  if (!schedule) {
+    throw createError({ statusCode: 400, statusMessage: 'Set up a parenting schedule before checking it.' })
+  }
+
+  const { data: jobRow, error: jobError } = await supabase
+    .from('jobs')
+    .insert({
+      user_id: userId,
+      type: 'schedule_check',
+      status: 'pending'
+    })
+    .select('id')
+    .single()
+
+  if (jobError || !jobRow) {
+    console.error('[schedule-check] Failed to create schedule_check job:', jobError)
+    throw createError({ statusCode: 500, statusMessage: 'Failed to queue schedule check.' })
+  }
+
+  try {
+    await inngest.send({
+      name: 'schedule/check.requested',
+      data: { caseId, userId, jobId: jobRow.id }
+    })
+  } catch (sendError) {
+    console.error('[schedule-check] Failed to enqueue Inngest job:', sendError)
+    throw createError({ statusCode: 500, statusMessage: 'Failed to queue schedule check.' })
+  }
+
+  return { jobId: jobRow.id }
+})
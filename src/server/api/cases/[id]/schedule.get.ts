@@ -0,0 +1,76 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import { requireUserId } from '../../../utils/auth'
+import { requireCaseAccess } from '../../../utils/cases'
+import { scheduleFromRow } from '../../../utils/parenting-schedule'
+import type { Custodian, ParentingSchedule, ViolationKind } from '../../../utils/parenting-schedule'
+
+interface ScheduleViolationItem {
+  id: string
+  kind: ViolationKind
+  date: string
+  expectedCustodian: Custodian
+  summary: string
+  reasons: string[]
+  eventIds: string[]
+  messageIds: string[]
+  detectedAt: string
+}
+
+/**
+ * GET /api/cases/:id/schedule
+ *
+ * The structured parenting schedule (null until the owner sets one) and the
+ * violations the last schedule check found, newest first. Readable by
+ * collaborators.
+ */
+export default defineEventHandler(async (event): Promise<{
+  schedule: ParentingSchedule | null
+  updatedAt: string | null
+  violations: ScheduleViolationItem[]
+}> => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  if (!caseId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id is required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId)
+
+  const { data: row, error } = await supabase
+    .from('parenting_schedules')
+    .select('*')
+    .eq('case_id', caseId)
+    .maybeSingle()
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+
+  const { data: violations, error: violationsError } = await supabase
+    .from('schedule_violations')
+    .select('id, kind, violation_date, expected_custodian, summary, reasons, event_ids, message_ids, detected_at')
+    .eq('case_id', caseId)
+    .order('violation_date', { ascending: false })
+
+  if (violationsError) {
+    throw createError({ statusCode: 500, statusMessage: violationsError.message })
+  }
+
+  return {
+    schedule: row ? scheduleFromRow(row) : null,
+    updatedAt: row?.updated_at ?? null,
+    violations: (violations ?? []).map(v => ({
+      id: v.id,
+      kind: v.kind as ViolationKind,
+      date: v.violation_date,
+      expectedCustodian: v.expected_custodian as Custodian,
+      summary: v.summary,
+      reasons: v.reasons,
+      eventIds: v.event_ids,
+      messageIds: v.message_ids,
+      detectedAt: v.detected_at
+    }))
+  }
+})
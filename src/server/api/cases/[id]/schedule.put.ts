@@ -0,0 +1,52 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import { requireUserId } from '../../../utils/auth'
+import { requireCaseAccess } from '../../../utils/cases'
+import { parseParentingSchedule, scheduleFromRow, scheduleToRow } from '../../../utils/parenting-schedule'
+import { logAnalyticsEvent } from '../../../utils/analytics'
+
+/**
+ * PUT /api/cases/:id/schedule
+ *
+ * Owner-only. Creates or replaces the case's structured parenting schedule.
+ * The free-text `cases.parenting_schedule` is left alone. Violations are not
+ * recomputed here; the client follows up with POST /schedule-check.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = getRouterParam(event, 'id')
+  if (!caseId) {
+    throw createError({ statusCode: 400, statusMessage: 'Case id is required' })
+  }
+  await requireCaseAccess(supabase, userId, caseId, { write: true })
+
+  let schedule
+  try {
+    schedule = parseParentingSchedule(await readBody(event))
+  } catch (e) {
+    throw createError({ statusCode: 400, statusMessage: (e as Error).message })
+  }
+
+  const { data, error } = await supabase
+    .from('parenting_schedules')
+    .upsert(scheduleToRow(schedule, caseId, userId), { onConflict: 'case_id' })
+    .select('*')
+    .single()
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+
+  await logAnalyticsEvent(event, 'parenting_schedule_saved', {
+    caseId,
+    rotation: schedule.rotation,
+    holidays: schedule.holidays.length
+  })
+
+  return {
+    schedule: scheduleFromRow(data),
+    updatedAt: data.updated_at
+  }
+})
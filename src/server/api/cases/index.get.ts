@@ -10,6 +10,8 @@ interface CaseListItem {
 
 interface ResponseShape {
   cases: CaseListItem[]
+  // Cases another user has shared with this user via case_collaborators (read-only).
+  sharedCases: CaseListItem[]
   activeCaseId: string | null
 }
 
@@ -17,12 +19,19 @@ export default defineEventHandler(async (event): Promise<ResponseShape> => {
   const supabase = await serverSupabaseClient<Database>(event)
   const userId = await requireUserId(event, supabase)
 
-  const [casesResult, profileResult] = await Promise.all([
+  const [casesResult, sharedResult, profileResult] = await Promise.all([
     supabase
       .from('cases')
       .select('id, title, created_at')
       .eq('user_id', userId)
       .order('created_at', { ascending: false }),
+    supabase
+      .from('case_collaborators')
+      .select('case_id, accepted_at, cases(id, title)')
+      .eq('user_id', userId)
+      .not('accepted_at', 'is', null)
+      .is('revoked_at', null)
+      .order('accepted_at', { ascending: false }),
     supabase
       .from('profiles')
       .select('active_case_id')
@@ -33,16 +42,32 @@ export default defineEventHandler(async (event): Promise<ResponseShape> => {
   if (casesResult.error) {
     throw createError({ statusCode: 500, statusMessage: casesResult.error.message })
   }
+  if (sharedResult.error) {
+    throw createError({ statusCode: 500, statusMessage: sharedResult.error.message })
+  }
 
   const cases = casesResult.data ?? []
+  const ownedIds = new Set(cases.map(c => c.id))
+  const shared = (sharedResult.data ?? [])
+    .map(row => row.cases)
+    .filter((c): c is { id: string, title: string } => !!c && !ownedIds.has(c.id))
+
   const persistedActive = profileResult.data?.active_case_id ?? null
-  // If the persisted pointer doesn't exist or is stale, fall back to the most-recent case.
-  const validActive = cases.find((c) => c.id === persistedActive)?.id
+  // If the persisted pointer doesn't exist or is stale, fall back to the most-recent
+  // owned case, then the most-recently accepted shared case.
+  const validActive = cases.find(c => c.id === persistedActive)?.id
+    ?? shared.find(c => c.id === persistedActive)?.id
     ?? cases[0]?.id
+    ?? shared[0]?.id
     ?? null
 
   return {
-    cases: cases.map((c) => ({
+    cases: cases.map(c => ({
+      id: c.id,
+      title: c.title,
+      isActive: c.id === validActive
+    })),
+    sharedCases: shared.map(c => ({
       id: c.id,
       title: c.title,
       isActive: c.id === validActive
@@ -402,12 +402,12 @@ export default eventHandler(async (event): Promise<EventDetailResponse | { succe
     }
   }
 
-  // Fetch the (possibly updated) event
+  // Fetch the (possibly updated) event. Not filtered by user_id: RLS
+  // (events_select_collab) also admits read-only collaborators on the case.
   const { data: eventRow, error: eventError } = await supabase
     .from('events')
     .select('*')
     .eq('id', eventId)
-    .eq('user_id', userId)
     .single()
 
   if (eventError || !eventRow) {
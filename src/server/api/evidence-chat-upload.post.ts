@@ -0,0 +1,166 @@
+import { readFiles } from 'h3-formidable'
+import fs from 'fs/promises'
+import { serverSupabaseClient } from '#supabase/server'
+import { canUploadEvidence } from '../utils/subscription'
+import { requireUserId } from '../utils/auth'
+import { logAnalyticsEvent } from '../utils/analytics'
+import { getActiveCaseId, requireCaseAccess } from '../utils/cases'
+import { inngest } from '../inngest/client'
+
+const MAX_CHAT_BYTES = 100 * 1024 * 1024 // 100 MB — SMS backups with MMS parts get big.
+
+/**
+ * POST /api/evidence-chat-upload
+ *
+ * Multipart upload of a phone chat export: a WhatsApp "Export chat" `.txt`
+ * (without media) or an Android "SMS Backup & Restore" `.xml`. Inserts an
+ * evidence row with source_type='text', creates a chat_import job, and fires
+ * `evidence/chat_export.uploaded` for the chat-import worker to parse and
+ * insert messages. The worker sniffs the content; the extension check here is
+ * only a gate.
+ *
+ * Same Vercel payload caveat as /api/evidence-ofw-upload.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient(event)
+  const userId = await requireUserId(event, supabase, 'Unauthorized - Please log in')
+
+  const evidenceCheck = await canUploadEvidence(event, userId)
+  if (!evidenceCheck.allowed) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: evidenceCheck.reason || 'Evidence upload limit reached. Please upgrade to Pro.'
+    })
+  }
+
+  let tempFilePath: string | undefined
+
+  try {
+    const { files, fields } = await readFiles(event, { maxFileSize: MAX_CHAT_BYTES })
+    const file = files.file?.[0]
+
+    if (!file) {
+      throw createError({ statusCode: 400, statusMessage: 'No file provided.' })
+    }
+
+    tempFilePath = file.filepath
+
+    const originalName = file.originalFilename || 'chat-export.txt'
+    const lowerName = originalName.toLowerCase()
+    const isXml = lowerName.endsWith('.xml')
+
+    if (!isXml && !lowerName.endsWith('.txt')) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Chat exports must be a WhatsApp .txt file or an SMS Backup & Restore .xml file.'
+      })
+    }
+    const contentType = isXml ? 'application/xml' : 'text/plain'
+
+    const buffer = await fs.readFile(file.filepath)
+
+    const sanitizedName = originalName
+      .replace(/\s+/g, '_')
+      .replace(/[^a-zA-Z0-9._-]/g, '')
+    const timestamp = Date.now()
+    const bucket = 'daylight-files'
+    const storagePath = `evidence/${userId}/chats/${timestamp}-${sanitizedName}`
+
+    const { error: uploadError } = await supabase.storage
+      .from(bucket)
+      .upload(storagePath, buffer, {
+        contentType,
+        upsert: false
+      })
+
+    if (uploadError) {
+      console.error('[evidence-chat-upload] Storage upload error:', uploadError)
+      throw createError({ statusCode: 500, statusMessage: 'Failed to store chat export.' })
+    }
+
+    let overrideCaseId: string | null = null
+    const rawCaseId = (fields as Record<string, unknown>)?.caseId
+    if (typeof rawCaseId === 'string') {
+      overrideCaseId = rawCaseId.trim() || null
+    } else if (Array.isArray(rawCaseId) && typeof rawCaseId[0] === 'string') {
+      overrideCaseId = rawCaseId[0].trim() || null
+    }
+
+    const caseId = await getActiveCaseId(supabase, userId, overrideCaseId)
+    await requireCaseAccess(supabase, userId, caseId)
+
+    const { data: evidenceRow, error: insertError } = await supabase
+      .from('evidence')
+      .insert({
+        user_id: userId,
+        case_id: caseId,
+        source_type: 'text',
+        storage_path: storagePath,
+        original_filename: originalName,
+        mime_type: contentType,
+        summary: `${isXml ? 'SMS backup' : 'WhatsApp chat export'}: ${originalName}`,
+        tags: []
+      })
+      .select('id, created_at')
+      .single()
+
+    if (insertError || !evidenceRow) {
+      console.error('[evidence-chat-upload] Failed to insert evidence row:', insertError)
+      throw createError({ statusCode: 500, statusMessage: 'Failed to record chat evidence.' })
+    }
+
+    const { data: jobRow, error: jobError } = await supabase
+      .from('jobs')
+      .insert({
+        user_id: userId,
+        type: 'chat_import',
+        status: 'pending'
+      })
+      .select('id')
+      .single()
+
+    if (jobError || !jobRow) {
+      console.error('[evidence-chat-upload] Failed to create chat_import job:', jobError)
+      throw createError({ statusCode: 500, statusMessage: 'Failed to queue parsing job.' })
+    }
+
+    try {
+      await inngest.send({
+        name: 'evidence/chat_export.uploaded',
+        data: {
+          evidenceId: evidenceRow.id,
+          caseId,
+          userId,
+          jobId: jobRow.id
+        }
+      })
+    } catch (sendError) {
+      console.error('[evidence-chat-upload] Failed to enqueue Inngest job:', sendError)
+      throw createError({ statusCode: 500, statusMessage: 'Failed to queue background parsing.' })
+    }
+
+    await logAnalyticsEvent(event, 'chat_export_uploaded', {
+      evidenceId: evidenceRow.id,
+      jobId: jobRow.id,
+      sizeBytes: buffer.length,
+      filename: originalName,
+      format: isXml ? 'sms_xml' : 'whatsapp_txt'
+    })
+
+    return {
+      evidenceId: evidenceRow.id,
+      jobId: jobRow.id,
+      message: 'Parsing started'
+    }
+  } catch (error) {
+    if (error && typeof error === 'object' && 'statusCode' in error) {
+      throw error
+    }
+    console.error('[evidence-chat-upload] Unexpected error:', error)
+    throw createError({ statusCode: 500, statusMessage: 'Failed to upload chat export.' })
+  } finally {
+    if (tempFilePath) {
+      await fs.unlink(tempFilePath).catch(() => {})
+    }
+  }
+})
@@ -0,0 +1,162 @@
+import { readFiles } from 'h3-formidable'
+import fs from 'fs/promises'
+import { serverSupabaseClient } from '#supabase/server'
+import { canUploadEvidence } from '../utils/subscription'
+import { requireUserId } from '../utils/auth'
+import { logAnalyticsEvent } from '../utils/analytics'
+import { getActiveCaseId, requireCaseAccess } from '../utils/cases'
+import { inngest } from '../inngest/client'
+
+const MAX_EMAIL_BYTES = 100 * 1024 * 1024 // 100 MB — mailboxes with attachments get big.
+
+/**
+ * POST /api/evidence-email-upload
+ *
+ * Multipart upload of a single `.eml` message or an `.mbox` mailbox (Gmail
+ * Takeout, Thunderbird, Apple Mail export). Inserts an evidence row with
+ * source_type='email', creates an email_import job, and fires
+ * `evidence/email_export.uploaded` for the email-import worker to insert
+ * messages and attachment evidence.
+ *
+ * Same Vercel payload caveat as /api/evidence-ofw-upload.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient(event)
+  const userId = await requireUserId(event, supabase, 'Unauthorized - Please log in')
+
+  const evidenceCheck = await canUploadEvidence(event, userId)
+  if (!evidenceCheck.allowed) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: evidenceCheck.reason || 'Evidence upload limit reached. Please upgrade to Pro.'
+    })
+  }
+
+  let tempFilePath: string | undefined
+
+  try {
+    const { files, fields } = await readFiles(event, { maxFileSize: MAX_EMAIL_BYTES })
+    const file = files.file?.[0]
+
+    if (!file) {
+      throw createError({ statusCode: 400, statusMessage: 'No file provided.' })
+    }
+
+    tempFilePath = file.filepath
+
+    const originalName = file.originalFilename || 'email.eml'
+    const lowerName = originalName.toLowerCase()
+    const isMbox = lowerName.endsWith('.mbox') || lowerName.endsWith('.mbx')
+
+    if (!isMbox && !lowerName.endsWith('.eml')) {
+      throw createError({ statusCode: 400, statusMessage: 'Email uploads must be .eml or .mbox files.' })
+    }
+    const contentType = isMbox ? 'application/mbox' : 'message/rfc822'
+
+    const buffer = await fs.readFile(file.filepath)
+
+    const sanitizedName = originalName
+      .replace(/\s+/g, '_')
+      .replace(/[^a-zA-Z0-9._-]/g, '')
+    const timestamp = Date.now()
+    const bucket = 'daylight-files'
+    const storagePath = `evidence/${userId}/email/uploads/${timestamp}-${sanitizedName}`
+
+    const { error: uploadError } = await supabase.storage
+      .from(bucket)
+      .upload(storagePath, buffer, {
+        contentType,
+        upsert: false
+      })
+
+    if (uploadError) {
+      console.error('[evidence-email-upload] Storage upload error:', uploadError)
+      throw createError({ statusCode: 500, statusMessage: 'Failed to store email upload.' })
+    }
+
+    let overrideCaseId: string | null = null
+    const rawCaseId = (fields as Record<string, unknown>)?.caseId
+    if (typeof rawCaseId === 'string') {
+      overrideCaseId = rawCaseId.trim() || null
+    } else if (Array.isArray(rawCaseId) && typeof rawCaseId[0] === 'string') {
+      overrideCaseId = rawCaseId[0].trim() || null
+    }
+
+    const caseId = await getActiveCaseId(supabase, userId, overrideCaseId)
+    await requireCaseAccess(supabase, userId, caseId)
+
+    const { data: evidenceRow, error: insertError } = await supabase
+      .from('evidence')
+      .insert({
+        user_id: userId,
+        case_id: caseId,
+        source_type: 'email',
+        storage_path: storagePath,
+        original_filename: originalName,
+        mime_type: contentType,
+        summary: `${isMbox ? 'Mailbox export' : 'Email'}: ${originalName}`,
+        tags: []
+      })
+      .select('id, created_at')
+      .single()
+
+    if (insertError || !evidenceRow) {
+      console.error('[evidence-email-upload] Failed to insert evidence row:', insertError)
+      throw createError({ statusCode: 500, statusMessage: 'Failed to record email evidence.' })
+    }
+
+    const { data: jobRow, error: jobError } = await supabase
+      .from('jobs')
+      .insert({
+        user_id: userId,
+        type: 'email_import',
+        status: 'pending'
+      })
+      .select('id')
+      .single()
+
+    if (jobError || !jobRow) {
+      console.error('[evidence-email-upload] Failed to create email_import job:', jobError)
+      throw createError({ statusCode: 500, statusMessage: 'Failed to queue parsing job.' })
+    }
+
+    try {
+      await inngest.send({
+        name: 'evidence/email_export.uploaded',
+        data: {
+          evidenceId: evidenceRow.id,
+          caseId,
+          userId,
+          jobId: jobRow.id
+        }
+      })
+    } catch (sendError) {
+      console.error('[evidence-email-upload] Failed to enqueue Inngest job:', sendError)
+      throw createError({ statusCode: 500, statusMessage: 'Failed to queue background parsing.' })
+    }
+
+    await logAnalyticsEvent(event, 'email_export_uploaded', {
+      evidenceId: evidenceRow.id,
+      jobId: jobRow.id,
+      sizeBytes: buffer.length,
+      filename: originalName,
+      format: isMbox ? 'mbox' : 'eml'
+    })
+
+    return {
+      evidenceId: evidenceRow.id,
+      jobId: jobRow.id,
+      message: 'Parsing started'
+    }
+  } catch (error) {
+    if (error && typeof error === 'object' && 'statusCode' in error) {
+      throw error
+    }
+    console.error('[evidence-email-upload] Unexpected error:', error)
+    throw createError({ statusCode: 500, statusMessage: 'Failed to upload email.' })
+  } finally {
+    if (tempFilePath) {
+      await fs.unlink(tempFilePath).catch(() => {})
+    }
+  }
+})
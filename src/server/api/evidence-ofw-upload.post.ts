@@ -9,10 +9,24 @@ import { inngest } from '../inngest/client'
 
 const MAX_OFW_BYTES = 100 * 1024 * 1024 // 100 MB — OFW exports can be large.
 
+/** Accepted export types. The ingest worker sniffs the content, so this is only a gate. */
+const OFW_CONTENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  csv: 'text/csv',
+  txt: 'text/plain'
+}
+
+function ofwExtension(filename: string, mimeType: string): string | null {
+  const ext = filename.toLowerCase().split('.').pop() ?? ''
+  if (ext in OFW_CONTENT_TYPES) return ext
+  return Object.keys(OFW_CONTENT_TYPES).find(k => OFW_CONTENT_TYPES[k] === mimeType) ?? null
+}
+
 /**
  * POST /api/evidence-ofw-upload
  *
- * Multipart upload of an OFW (Our Family Wizard) "Message Report" PDF.
+ * Multipart upload of an OFW (Our Family Wizard) export: the "Message
+ * Report" PDF, a CSV export, or report text pasted into a .txt file.
  * Inserts an evidence row with source_type='ofw_export', creates an
  * ofw_ingest job, and fires `evidence/ofw_export.uploaded` for the
  * Inngest worker to parse + upsert messages.
@@ -47,11 +61,12 @@ export default defineEventHandler(async (event) => {
     tempFilePath = file.filepath
 
     const originalName = file.originalFilename || 'ofw-export.pdf'
-    const mimeType = file.mimetype || 'application/pdf'
+    const ext = ofwExtension(originalName, file.mimetype || '')
 
-    if (!originalName.toLowerCase().endsWith('.pdf') && mimeType !== 'application/pdf') {
-      throw createError({ statusCode: 400, statusMessage: 'OFW exports must be PDF files.' })
+    if (!ext) {
+      throw createError({ statusCode: 400, statusMessage: 'OFW exports must be PDF, CSV or plain-text files.' })
     }
+    const contentType = OFW_CONTENT_TYPES[ext]!
 
     const buffer = await fs.readFile(file.filepath)
 
@@ -65,7 +80,7 @@ export default defineEventHandler(async (event) => {
     const { error: uploadError } = await supabase.storage
       .from(bucket)
       .upload(storagePath, buffer, {
-        contentType: 'application/pdf',
+        contentType,
         upsert: false
       })
 
@@ -94,8 +109,8 @@ export default defineEventHandler(async (event) => {
         source_type: 'ofw_export',
         storage_path: storagePath,
         original_filename: originalName,
-        mime_type: 'application/pdf',
-        summary: `OFW Message Report: ${originalName}`,
+        mime_type: contentType,
+        summary: `${ext === 'pdf' ? 'OFW Message Report' : 'OFW export'}: ${originalName}`,
         tags: []
       })
       .select('id, created_at')
@@ -3,6 +3,9 @@ import { zodTextFormat } from 'openai/helpers/zod'
 import { z } from 'zod'
 import { serverSupabaseClient } from '#supabase/server'
 import { requireUserId } from '../utils/auth'
+import { buildExpenseProposal } from '../utils/expense-proposal'
+import type { BillingDocumentKind } from '../utils/expense-proposal'
+import { EXPENSE_CATEGORIES } from '../utils/expenses'
 
 interface PhotoDescribeBody {
   /**
@@ -10,6 +13,11 @@ interface PhotoDescribeBody {
    * The server will look up storage_path and create a signed URL for the model.
    */
   evidenceId: string
+  /**
+   * Only read the image for an expense proposal; leave the evidence row's
+   * summary and tags as they are. Used by "Read receipt" on existing evidence.
+   */
+  proposeExpenseOnly?: boolean
 }
 
 const PhotoDescriptionSchema = z.object({
@@ -21,9 +29,34 @@ const PhotoDescriptionSchema = z.object({
     .describe('1–3 sentence neutral, factual description of what the image shows.'),
   suggested_tags: z
     .array(z.string())
-    .describe('Suggested tags for the evidence.tags array, such as "photo", "injury", "location".')
+    .describe('Suggested tags for the evidence.tags array, such as "photo", "injury", "location".'),
+  document_kind: z
+    .enum(['photo', 'receipt', 'medical_bill', 'school_invoice', 'other_document'])
+    .describe('What the image is. Use receipt / medical_bill / school_invoice only for documents showing an amount paid or owed.'),
+  billing: z
+    .object({
+      vendor: z.string().nullable().describe('Business, provider or school that issued the document.'),
+      document_date: z.string().nullable().describe('Date of service or purchase as YYYY-MM-DD, or null if not legible.'),
+      total: z.number().nullable().describe('Total paid or due, as a plain number (e.g. 45.50), or null if not legible.'),
+      currency: z.string().nullable().describe('ISO currency code such as USD.'),
+      line_items: z
+        .array(z.object({
+          description: z.string(),
+          amount: z.number().nullable()
+        }))
+        .describe('Individual charges as printed, in order.'),
+      child_name: z.string().nullable().describe('Name of the child the charge is for, only if printed on the document.'),
+      category: z
+        .enum(EXPENSE_CATEGORIES as [string, ...string[]])
+        .nullable()
+        .describe('Best-fitting expense category.')
+    })
+    .nullable()
+    .describe('Structured reading of a receipt, bill or invoice; null for any other image.')
 })
 
+const BILLING_KINDS: BillingDocumentKind[] = ['receipt', 'medical_bill', 'school_invoice']
+
 const ExtractionSchema = z.object({
   extraction: PhotoDescriptionSchema
 })
@@ -125,7 +158,7 @@ export default defineEventHandler(async (event) => {
     // Look up the evidence row to get storage_path and enforce ownership.
     const { data: evidenceRow, error: evidenceError } = await supabase
       .from('evidence')
-      .select('id, user_id, storage_path, original_filename, mime_type, summary, tags')
+      .select('id, user_id, case_id, storage_path, original_filename, mime_type, summary, tags')
       .eq('id', evidenceId)
       .eq('user_id', userId)
       .single()
@@ -168,8 +201,8 @@ export default defineEventHandler(async (event) => {
 
     /**
      * Use the Responses API with structured output parsing via Zod schemas.
-     * This keeps the output aligned with our evidence.summary/tags fields while
-     * avoiding full OCR for simple photo evidence.
+     * This keeps the output aligned with our evidence.summary/tags fields, and
+     * reads receipts and bills into structured fields in the same call.
      */
     const response = await openai.responses.parse({
       model: 'gpt-5.4-mini',
@@ -199,7 +232,13 @@ export default defineEventHandler(async (event) => {
                 '- Do not provide legal, medical, or psychological opinions.',
                 '- Prefer concrete observations (e.g., "a bruise on the left forearm") over interpretations.',
                 '- If something is unclear, simply omit it from the description instead of speculating.',
-                '- If there is no visible text in the image, do not mention the absence of text; just describe what the image shows.'
+                '- If there is no visible text in the image, do not mention the absence of text; just describe what the image shows.',
+                '',
+                'Receipts, bills and invoices:',
+                '- If the image is a receipt, medical or dental bill, or school/activity invoice, set document_kind accordingly and fill billing.',
+                '- Copy vendor, dates, amounts and line items exactly as printed; use null for anything not legible rather than estimating.',
+                '- Only set child_name when a child\'s name is printed on the document.',
+                '- For any other image set billing to null.'
               ].join('\n')
             }
           ]
@@ -231,27 +270,44 @@ export default defineEventHandler(async (event) => {
       })
     }
 
-    const { suggested_title, suggested_summary, suggested_tags } = extraction.extraction
+    const { suggested_title, suggested_summary, suggested_tags, document_kind, billing } = extraction.extraction
 
-    const { data: updatedEvidence, error: updateError } = await supabase
-      .from('evidence')
-      .update({
-        // Preserve existing summary/tags if the model produced empty values (should be rare).
-        summary: suggested_summary || evidenceRow.summary || null,
-        tags: (suggested_tags && suggested_tags.length > 0 ? suggested_tags : evidenceRow.tags) ?? []
-      })
-      .eq('id', evidenceRow.id)
-      .eq('user_id', userId)
-      .select('id, summary, tags')
-      .single()
+    // Receipts and bills come back with a proposed expense for the user to
+    // confirm; nothing is written to the ledger here.
+    const kind = document_kind as BillingDocumentKind
+    const expenseProposal = BILLING_KINDS.includes(kind) && billing && evidenceRow.case_id
+      ? { caseId: evidenceRow.case_id, ...buildExpenseProposal(kind, billing, evidenceRow.id) }
+      : null
 
-    if (updateError) {
-      // eslint-disable-next-line no-console
-      console.error('Failed to update evidence with photo description:', updateError)
-      throw createError({
-        statusCode: 500,
-        statusMessage: 'Failed to save photo description to evidence.'
-      })
+    let updatedEvidence: { id: string, summary: string | null, tags: string[] } = {
+      id: evidenceRow.id,
+      summary: evidenceRow.summary,
+      tags: evidenceRow.tags ?? []
+    }
+
+    if (!body.proposeExpenseOnly) {
+      const { data: updated, error: updateError } = await supabase
+        .from('evidence')
+        .update({
+          // Preserve existing summary/tags if the model produced empty values (should be rare).
+          summary: suggested_summary || evidenceRow.summary || null,
+          tags: (suggested_tags && suggested_tags.length > 0 ? suggested_tags : evidenceRow.tags) ?? []
+        })
+        .eq('id', evidenceRow.id)
+        .eq('user_id', userId)
+        .select('id, summary, tags')
+        .single()
+
+      if (updateError || !updated) {
+        // eslint-disable-next-line no-console
+        console.error('Failed to update evidence with photo description:', updateError)
+        throw createError({
+          statusCode: 500,
+          statusMessage: 'Failed to save photo description to evidence.'
+        })
+      }
+
+      updatedEvidence = updated
     }
 
     let payload: any = {
@@ -261,7 +317,8 @@ export default defineEventHandler(async (event) => {
         title: suggested_title,
         summary: suggested_summary,
         tags: suggested_tags
-      }
+      },
+      expenseProposal
     }
 
     payload._usage = usage
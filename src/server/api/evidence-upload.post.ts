@@ -5,6 +5,7 @@ import { canUploadEvidence } from '../utils/subscription'
 import { requireUserId } from '../utils/auth'
 import { logAnalyticsEvent } from '../utils/analytics'
 import { getActiveCaseId } from '../utils/cases'
+import { withIdempotency } from '../utils/idempotency'
 
 /**
  * POST /api/evidence-upload
@@ -17,15 +18,6 @@ export default defineEventHandler(async (event) => {
 
   const userId = await requireUserId(event, supabase, 'Unauthorized - Please log in')
 
-  // Check if user can upload evidence (feature gating)
-  const evidenceCheck = await canUploadEvidence(event, userId)
-  if (!evidenceCheck.allowed) {
-    throw createError({
-      statusCode: 403,
-      statusMessage: evidenceCheck.reason || 'Evidence upload limit reached. Please upgrade to Pro.'
-    })
-  }
-
   let tempFilePath: string | undefined
 
   try {
@@ -44,44 +36,6 @@ export default defineEventHandler(async (event) => {
     const buffer = await fs.readFile(file.filepath)
     const mimeType = file.mimetype || 'application/octet-stream'
     const originalName = file.originalFilename || 'evidence-upload'
-    
-    // Sanitize filename for Supabase Storage (no spaces or special chars)
-    const sanitizedName = originalName
-      .replace(/\s+/g, '_')           // Replace spaces with underscores
-      .replace(/[^a-zA-Z0-9._-]/g, '') // Remove other special characters
-    
-    const timestamp = Date.now()
-
-    const bucket = 'daylight-files'
-    const storagePath = `evidence/${userId}/${timestamp}-${sanitizedName}`
-
-    const { error: uploadError } = await supabase.storage
-      .from(bucket)
-      .upload(storagePath, buffer, {
-        contentType: mimeType,
-        upsert: false
-      })
-
-    if (uploadError) {
-      // eslint-disable-next-line no-console
-      console.error('Supabase storage upload error (evidence):', uploadError)
-      throw createError({
-        statusCode: 500,
-        statusMessage: 'Failed to store evidence file.'
-      })
-    }
-
-    // Basic heuristic for evidence source type
-    let sourceType: 'text' | 'email' | 'photo' | 'document' | 'recording' | 'other' = 'document'
-    if (mimeType.startsWith('image/')) {
-      sourceType = 'photo'
-    } else if (mimeType.startsWith('audio/')) {
-      sourceType = 'recording'
-    } else if (mimeType === 'message/rfc822') {
-      sourceType = 'email'
-    } else if (mimeType.startsWith('text/')) {
-      sourceType = 'text'
-    }
 
     // Optional user-provided annotation from the upload form
     let annotation: string | null = null
@@ -101,57 +55,115 @@ export default defineEventHandler(async (event) => {
       overrideCaseId = rawCaseId[0].trim() || null
     }
 
-    const caseId = await getActiveCaseId(supabase, userId, overrideCaseId)
-
-    const { data, error: insertError } = await supabase
-      .from('evidence')
-      .insert({
-        user_id: userId,
-        case_id: caseId,
-        source_type: sourceType,
-        storage_path: storagePath,
-        original_filename: originalName,  // Keep original name for display
-        mime_type: mimeType,
-        summary: `Uploaded file: ${originalName}`,
-        user_annotation: annotation,
-        tags: []
-      })
-      .select('id, source_type, storage_path, original_filename, summary, tags, created_at')
-      .limit(1)
+    // Uploading the same file again with one Idempotency-Key (double click,
+    // retried mobile request) returns the first upload and uses no quota
+    return await withIdempotency(event, {
+      supabase,
+      userId,
+      scope: 'POST /api/evidence-upload',
+      payload: { file: buffer, originalName, mimeType, annotation, caseId: overrideCaseId }
+    }, async () => {
+      // Check if user can upload evidence (feature gating)
+      const evidenceCheck = await canUploadEvidence(event, userId)
+      if (!evidenceCheck.allowed) {
+        throw createError({
+          statusCode: 403,
+          statusMessage: evidenceCheck.reason || 'Evidence upload limit reached. Please upgrade to Pro.'
+        })
+      }
+    
+      // Sanitize filename for Supabase Storage (no spaces or special chars)
+      const sanitizedName = originalName
+        .replace(/\s+/g, '_')           // Replace spaces with underscores
+        .replace(/[^a-zA-Z0-9._-]/g, '') // Remove other special characters
+    
+      const timestamp = Date.now()
+
+      const bucket = 'daylight-files'
+      const storagePath = `evidence/${userId}/${timestamp}-${sanitizedName}`
+
+      const { error: uploadError } = await supabase.storage
+        .from(bucket)
+        .upload(storagePath, buffer, {
+          contentType: mimeType,
+          upsert: false
+        })
+
+      if (uploadError) {
+        // eslint-disable-next-line no-console
+        console.error('Supabase storage upload error (evidence):', uploadError)
+        throw createError({
+          statusCode: 500,
+          statusMessage: 'Failed to store evidence file.'
+        })
+      }
 
-    if (insertError) {
-      // eslint-disable-next-line no-console
-      console.error('Supabase insert evidence error:', insertError)
-      throw createError({
-        statusCode: 500,
-        statusMessage: 'Failed to save evidence metadata.'
-      })
-    }
+      // Basic heuristic for evidence source type
+      let sourceType: 'text' | 'email' | 'photo' | 'document' | 'recording' | 'other' = 'document'
+      if (mimeType.startsWith('image/')) {
+        sourceType = 'photo'
+      } else if (mimeType.startsWith('audio/')) {
+        sourceType = 'recording'
+      } else if (mimeType === 'message/rfc822') {
+        sourceType = 'email'
+      } else if (mimeType.startsWith('text/')) {
+        sourceType = 'text'
+      }
 
-    const row = data?.[0]
-    if (!row) {
-      throw createError({
-        statusCode: 500,
-        statusMessage: 'Evidence metadata was not returned after upload.'
+      const caseId = await getActiveCaseId(supabase, userId, overrideCaseId)
+
+      const { data, error: insertError } = await supabase
+        .from('evidence')
+        .insert({
+          user_id: userId,
+          case_id: caseId,
+          source_type: sourceType,
+          storage_path: storagePath,
+          original_filename: originalName,  // Keep original name for display
+          mime_type: mimeType,
+          summary: `Uploaded file: ${originalName}`,
+          user_annotation: annotation,
+          tags: []
+        })
+        .select('id, source_type, storage_path, original_filename, summary, tags, created_at')
+        .limit(1)
+
+      if (insertError) {
+        // eslint-disable-next-line no-console
+        console.error('Supabase insert evidence error:', insertError)
+        // Don't leave the stored file behind for the retry to duplicate.
+        await supabase.storage.from(bucket).remove([storagePath])
+        throw createError({
+          statusCode: 500,
+          statusMessage: 'Failed to save evidence metadata.'
+        })
+      }
+
+      const row = data?.[0]
+      if (!row) {
+        throw createError({
+          statusCode: 500,
+          statusMessage: 'Evidence metadata was not returned after upload.'
+        })
+      }
+
+      await logAnalyticsEvent(event, 'evidence_uploaded', {
+        evidenceId: row.id,
+        sourceType: row.source_type,
+        mimeType,
+        sizeBytes: buffer.length,
+        hasAnnotation: !!annotation
       })
-    }
 
-    await logAnalyticsEvent(event, 'evidence_uploaded', {
-      evidenceId: row.id,
-      sourceType: row.source_type,
-      mimeType,
-      sizeBytes: buffer.length,
-      hasAnnotation: !!annotation
+      return {
+        id: row.id,
+        sourceType: (row.source_type === 'recording' || row.source_type === 'other' ? 'document' : row.source_type),
+        originalName: row.original_filename || row.storage_path || 'Untitled',
+        createdAt: row.created_at,
+        summary: row.summary || '',
+        tags: row.tags || []
+      }
     })
-
-    return {
-      id: row.id,
-      sourceType: (row.source_type === 'recording' || row.source_type === 'other' ? 'document' : row.source_type),
-      originalName: row.original_filename || row.storage_path || 'Untitled',
-      createdAt: row.created_at,
-      summary: row.summary || '',
-      tags: row.tags || []
-    }
   } catch (error: any) {
     // eslint-disable-next-line no-console
     console.error('Evidence upload error:', error)
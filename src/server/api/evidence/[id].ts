@@ -1,6 +1,8 @@
 import type { EvidenceItem } from '~/types'
 import type { Tables } from '~/types/database.types'
 import { serverSupabaseClient, serverSupabaseUser } from '#supabase/server'
+import { requireCaseAccess } from '../../utils/cases'
+import { getServiceClient } from '../../utils/service-client'
 
 type EvidenceRow = Tables<'evidence'>
 type EventEvidenceRow = Tables<'event_evidence'>
@@ -191,12 +193,12 @@ export default eventHandler(async (event): Promise<EvidenceDetailResponse | { su
     return { success: true }
   }
 
-  // Fetch the evidence
+  // Fetch the evidence. Not filtered by user_id: RLS (evidence_select_collab)
+  // also admits read-only collaborators on the evidence's case.
   const { data: evidenceRow, error: evidenceError } = await supabase
     .from('evidence')
     .select('*')
     .eq('id', evidenceId)
-    .eq('user_id', userId)
     .single()
 
   if (evidenceError || !evidenceRow) {
@@ -207,6 +209,11 @@ export default eventHandler(async (event): Promise<EvidenceDetailResponse | { su
     })
   }
 
+  const isOwner = evidenceRow.user_id === userId
+  if (!isOwner) {
+    await requireCaseAccess(supabase, userId, evidenceRow.case_id)
+  }
+
   // Prepare signed URLs for the stored file (if any).
   // We keep these short-lived and scoped to this evidence row only.
   let imageUrl: string | undefined
@@ -215,7 +222,10 @@ export default eventHandler(async (event): Promise<EvidenceDetailResponse | { su
   if (evidenceRow.storage_path) {
     const bucket = 'daylight-files'
 
-    const { data: signed, error: signedError } = await supabase.storage
+    // Storage RLS only admits the uploader's own folder, so a collaborator's
+    // URL is signed with the service role once case access is checked above.
+    const storageClient = isOwner ? supabase : getServiceClient()
+    const { data: signed, error: signedError } = await storageClient.storage
       .from(bucket)
       .createSignedUrl(evidenceRow.storage_path, 60 * 15)
 
@@ -231,7 +241,8 @@ export default eventHandler(async (event): Promise<EvidenceDetailResponse | { su
     }
   }
 
-  // Fetch all related data in parallel
+  // Fetch all related data in parallel. RLS scopes the joined events to
+  // cases the user can access.
   const [
     { data: eventEvidenceRows, error: eventEvidenceError },
     { data: communicationsRows, error: communicationsError }
@@ -248,14 +259,13 @@ export default eventHandler(async (event): Promise<EvidenceDetailResponse | { su
           created_at
         )
       `)
-      .eq('evidence_id', evidenceId)
-      .eq('events.user_id', userId),
+      .eq('evidence_id', evidenceId),
     
     supabase
       .from('communications')
       .select('*')
       .eq('evidence_id', evidenceId)
-      .eq('user_id', userId)
+      .eq('user_id', evidenceRow.user_id)
   ])
 
   // Log any errors but don't fail the request
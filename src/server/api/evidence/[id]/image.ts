@@ -1,4 +1,6 @@
 import { serverSupabaseClient, serverSupabaseUser } from '#supabase/server'
+import { requireCaseAccess } from '../../../utils/cases'
+import { getServiceClient } from '../../../utils/service-client'
 
 /**
  * Serves a signed URL redirect for evidence images.
@@ -31,12 +33,12 @@ export default eventHandler(async (event) => {
     })
   }
 
-  // Fetch the evidence record to get storage path and verify ownership
+  // Fetch the evidence record to get storage path. Not filtered by user_id:
+  // RLS (evidence_select_collab) also admits read-only collaborators.
   const { data: evidenceRow, error: evidenceError } = await supabase
     .from('evidence')
-    .select('storage_path, mime_type, user_id')
+    .select('storage_path, mime_type, user_id, case_id')
     .eq('id', evidenceId as string)
-    .eq('user_id', userId)
     .single()
 
   if (evidenceError || !evidenceRow) {
@@ -46,6 +48,11 @@ export default eventHandler(async (event) => {
     })
   }
 
+  const isOwner = evidenceRow.user_id === userId
+  if (!isOwner) {
+    await requireCaseAccess(supabase, userId, evidenceRow.case_id)
+  }
+
   if (!evidenceRow.storage_path) {
     throw createError({
       statusCode: 404,
@@ -62,8 +69,11 @@ export default eventHandler(async (event) => {
   }
 
   // Generate a signed URL for the image
+  // Storage RLS only admits the uploader's own folder, so a collaborator's
+  // URL is signed with the service role once case access is checked above.
   const bucket = 'daylight-files'
-  const { data: signed, error: signedError } = await supabase.storage
+  const storageClient = isOwner ? supabase : getServiceClient()
+  const { data: signed, error: signedError } = await storageClient.storage
     .from(bucket)
     .createSignedUrl(evidenceRow.storage_path, 60 * 15) // 15 minutes
 
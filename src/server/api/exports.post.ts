@@ -1,6 +1,11 @@
 import { serverSupabaseClient, serverSupabaseUser } from '#supabase/server'
+import type { Json } from '~/types/database.types'
+import type { ExportMetadata } from '~/types'
 import { canExport } from '../utils/subscription'
 import { logAnalyticsEvent } from '../utils/analytics'
+import { getActiveCaseId } from '../utils/cases'
+import { EXPORT_COLUMNS, buildExportDocxOptions } from '../utils/export-docx'
+import { withIdempotency } from '../utils/idempotency'
 
 interface ExportCreateBody {
   title: string
@@ -32,62 +37,80 @@ export default defineEventHandler(async (event) => {
     })
   }
 
-  // Check if user can create exports (feature gating - Pro only)
-  const exportCheck = await canExport(event, userId)
-  if (!exportCheck.allowed) {
-    throw createError({
-      statusCode: 403,
-      statusMessage: exportCheck.reason || 'Exports are a Pro feature. Please upgrade to create court-ready documents.'
-    })
-  }
-
+  const supabase = await serverSupabaseClient(event)
   const body = await readBody<ExportCreateBody>(event)
 
-  if (!body?.title?.trim()) {
-    throw createError({
-      statusCode: 400,
-      statusMessage: 'Title is required'
-    })
-  }
+  // Retries with the same Idempotency-Key get the saved export back
+  return withIdempotency(event, { supabase, userId, scope: 'POST /api/exports', payload: body }, async () => {
+    // Check if user can create exports (feature gating - Pro only)
+    const exportCheck = await canExport(event, userId)
+    if (!exportCheck.allowed) {
+      throw createError({
+        statusCode: 403,
+        statusMessage: exportCheck.reason || 'Exports are a Pro feature. Please upgrade to create court-ready documents.'
+      })
+    }
 
-  if (!body?.markdown_content?.trim()) {
-    throw createError({
-      statusCode: 400,
-      statusMessage: 'Markdown content is required'
-    })
-  }
+    if (!body?.title?.trim()) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Title is required'
+      })
+    }
 
-  const supabase = await serverSupabaseClient(event)
+    if (!body?.markdown_content?.trim()) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Markdown content is required'
+      })
+    }
 
-  const { data, error } = await supabase
-    .from('exports')
-    .insert({
-      user_id: userId,
-      title: body.title.trim(),
-      markdown_content: body.markdown_content,
-      focus: body.focus || 'full-timeline',
-      metadata: body.metadata || {}
+    const caseId = await getActiveCaseId(supabase, userId)
+    const focus = body.focus || 'full-timeline'
+
+    const metadata: ExportMetadata = { ...body.metadata }
+    // Snapshot the structured report so the Word download renders the export
+    // as saved, not the case as it later stands.
+    const docxSnapshot = await buildExportDocxOptions(supabase, {
+      caseId,
+      focus,
+      metadata,
+      markdown: body.markdown_content,
+      createdBefore: new Date().toISOString()
     })
-    .select()
-    .single()
 
-  if (error) {
-    console.error('[Exports] Failed to create export:', error)
-    throw createError({
-      statusCode: 500,
-      statusMessage: 'Failed to save export'
+    const { data, error } = await supabase
+      .from('exports')
+      .insert({
+        user_id: userId,
+        case_id: caseId,
+        title: body.title.trim(),
+        markdown_content: body.markdown_content,
+        focus,
+        metadata: metadata as Json,
+        docx_snapshot: docxSnapshot as unknown as Json
+      })
+      .select(EXPORT_COLUMNS)
+      .single()
+
+    if (error) {
+      console.error('[Exports] Failed to create export:', error)
+      throw createError({
+        statusCode: 500,
+        statusMessage: 'Failed to save export'
+      })
+    }
+
+    await logAnalyticsEvent(event, 'export_created', {
+      exportId: data.id,
+      focus: data.focus,
+      eventsCount: body.metadata?.events_count ?? null,
+      evidenceCount: body.metadata?.evidence_count ?? null,
+      aiSummaryIncluded: !!body.metadata?.ai_summary_included
     })
-  }
 
-  await logAnalyticsEvent(event, 'export_created', {
-    exportId: data.id,
-    focus: data.focus,
-    eventsCount: body.metadata?.events_count ?? null,
-    evidenceCount: body.metadata?.evidence_count ?? null,
-    aiSummaryIncluded: !!body.metadata?.ai_summary_included
+    return { export: data }
   })
-
-  return { export: data }
 })
 
 
@@ -1,5 +1,6 @@
 import { serverSupabaseClient, serverSupabaseUser } from '#supabase/server'
 import type { Database } from '~/types/database.types'
+import { getActiveCaseIdOrNull } from '../utils/cases'
 
 export default eventHandler(async (event) => {
   // Protect exports behind authenticated sessions (cookie/JWT based)
@@ -15,12 +16,21 @@ export default eventHandler(async (event) => {
 
   const supabase = await serverSupabaseClient<Database>(event)
 
-  const { data: exports, error } = await supabase
+  const caseId = await getActiveCaseIdOrNull(supabase, userId)
+
+  let query = supabase
     .from('exports')
     .select('id, title, focus, metadata, created_at, updated_at')
-    .eq('user_id', userId)
     .order('created_at', { ascending: false })
 
+  // Scope to the active case (which may be shared with this user). Exports saved
+  // before exports.case_id existed stay visible to their author.
+  query = caseId
+    ? query.or(`case_id.eq.${caseId},and(case_id.is.null,user_id.eq.${userId})`)
+    : query.eq('user_id', userId)
+
+  const { data: exports, error } = await query
+
   if (error) {
     console.error('[Exports] Failed to fetch exports:', error)
     throw createError({
@@ -1,4 +1,5 @@
 import { serverSupabaseClient, serverSupabaseUser } from '#supabase/server'
+import { EXPORT_COLUMNS } from '../../utils/export-docx'
 
 interface ExportUpdateBody {
   title?: string
@@ -31,13 +32,13 @@ export default defineEventHandler(async (event) => {
   const supabase = await serverSupabaseClient(event)
   const method = event.method
 
-  // GET - Fetch single export
+  // GET - Fetch single export. RLS also grants case collaborators SELECT
+  // (exports_select_collab), so this is not filtered by user_id.
   if (method === 'GET') {
     const { data, error } = await supabase
       .from('exports')
-      .select('*')
+      .select(EXPORT_COLUMNS)
       .eq('id', id)
-      .eq('user_id', userId)
       .single()
 
     if (error || !data) {
@@ -82,7 +83,7 @@ export default defineEventHandler(async (event) => {
       .update(updateData)
       .eq('id', id)
       .eq('user_id', userId)
-      .select()
+      .select(EXPORT_COLUMNS)
       .single()
 
     if (error) {
@@ -0,0 +1,91 @@
+import { Packer } from 'docx'
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import type { ExportFocus, ExportMetadata } from '~/types'
+import { buildExportDocx } from '~/utils/generate-docx'
+import type { DocxExportOptions } from '~/utils/generate-docx'
+import type { PdfExportOptions } from '~/utils/generate-pdf'
+import { requireUserId } from '../../../utils/auth'
+import { getActiveCaseIdOrNull } from '../../../utils/cases'
+import { buildExportDocxOptions, extractMarkdownSections } from '../../../utils/export-docx'
+
+/**
+ * GET /api/exports/:id/docx
+ *
+ * Streams an editable Word version of a saved export, rendered from the
+ * `PdfExportOptions` snapshot stored in `exports.docx_snapshot` when the
+ * export was saved. Exports saved before snapshots existed are rebuilt from
+ * the case's current events (those created at or before `exports.created_at`)
+ * and say so in the document. The overnights, expenses and communication
+ * sections come from the saved markdown.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const id = getRouterParam(event, 'id')
+  if (!id) {
+    throw createError({ statusCode: 400, statusMessage: 'Export ID is required' })
+  }
+
+  // RLS admits the author and read-only collaborators on the export's case.
+  const { data: row, error } = await supabase
+    .from('exports')
+    .select('id, title, focus, metadata, markdown_content, case_id, created_at, docx_snapshot')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+  if (!row) {
+    throw createError({ statusCode: 404, statusMessage: 'Export not found' })
+  }
+
+  const focus = row.focus as ExportFocus
+  // Exhibit packets are built from message threads, not the event timeline;
+  // their line numbers only hold in the saved markdown / PDF.
+  if (focus === 'exhibit-packet') {
+    throw createError({ statusCode: 400, statusMessage: 'Word download is not available for exhibit packets' })
+  }
+  // Hearing bundles mix checklist, exhibits and threads; same story.
+  if (focus === 'hearing-bundle') {
+    throw createError({ statusCode: 400, statusMessage: 'Word download is not available for hearing bundles' })
+  }
+
+  const metadata = (row.metadata ?? {}) as ExportMetadata
+  const snapshot = row.docx_snapshot as PdfExportOptions | null
+  const pdfOptions = snapshot ?? await buildExportDocxOptions(supabase, {
+    caseId: row.case_id ?? await getActiveCaseIdOrNull(supabase, userId),
+    focus,
+    metadata,
+    markdown: row.markdown_content,
+    createdBefore: row.created_at
+  })
+
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('timezone')
+    .eq('id', userId)
+    .maybeSingle()
+
+  const options: DocxExportOptions = {
+    ...pdfOptions,
+    sections: extractMarkdownSections(row.markdown_content, metadata)
+  }
+
+  const buffer = await Packer.toBuffer(buildExportDocx(options, {
+    timeZone: profile?.timezone || undefined,
+    note: snapshot ? undefined : 'Rebuilt from current case data; events edited or deleted since this export was saved may differ.'
+  }))
+
+  const safeName = (row.title || 'daylight-export').replace(/[^a-z0-9]/gi, '-').toLowerCase()
+  setResponseHeaders(event, {
+    'Content-Type': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'Content-Disposition': `attachment; filename="${safeName}.docx"`,
+    'Content-Length': String(buffer.length),
+    'X-Docx-Source': snapshot ? 'saved' : 'regenerated'
+  })
+
+  return buffer
+})
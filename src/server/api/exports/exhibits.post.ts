@@ -0,0 +1,155 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database, Json } from '~/types/database.types'
+import type { ExportMetadata } from '~/types'
+import { requireUserId } from '../../utils/auth'
+import { canExport } from '../../utils/subscription'
+import { logAnalyticsEvent } from '../../utils/analytics'
+import { getActiveCaseId } from '../../utils/cases'
+import { buildExhibitPacket } from '../../utils/exhibits'
+import type { ExhibitMessageInput, ExhibitThreadInput } from '../../utils/exhibits'
+
+interface ExhibitPacketBody {
+  threadIds?: string[]
+  title?: string
+}
+
+const MAX_THREADS = 50
+// supabase-js caps responses at 1000 rows; page through long selections.
+const PAGE_SIZE = 1000
+
+/**
+ * POST /api/exports/exhibits
+ *
+ * Builds an exhibit packet from the selected OFW threads of the active case and
+ * saves it as an `exports` row with focus `exhibit-packet`. Threads are lettered
+ * in order of their first message. The exhibit index (letters, line ranges and
+ * per-message cites) is kept in `metadata.exhibits` so cites can be resolved
+ * without re-parsing the markdown.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const exportCheck = await canExport(event, userId)
+  if (!exportCheck.allowed) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: exportCheck.reason || 'Exports are a Pro feature. Please upgrade to create court-ready documents.'
+    })
+  }
+
+  const body = await readBody<ExhibitPacketBody>(event)
+  const threadIds = [...new Set((body?.threadIds ?? []).filter(id => typeof id === 'string' && id.length > 0))]
+
+  if (!threadIds.length) {
+    throw createError({ statusCode: 400, statusMessage: 'Select at least one message thread' })
+  }
+  if (threadIds.length > MAX_THREADS) {
+    throw createError({ statusCode: 400, statusMessage: `An exhibit packet can include at most ${MAX_THREADS} threads` })
+  }
+
+  const caseId = await getActiveCaseId(supabase, userId)
+
+  const [{ data: caseRow }, { data: threadRows, error: threadsError }] = await Promise.all([
+    supabase.from('cases').select('title').eq('id', caseId).maybeSingle(),
+    supabase
+      .from('message_threads')
+      .select('thread_id, subject, participants')
+      .eq('case_id', caseId)
+      .in('thread_id', threadIds)
+  ])
+
+  if (threadsError) {
+    console.error('[Exhibits] Failed to load threads:', threadsError)
+    throw createError({ statusCode: 500, statusMessage: 'Failed to load message threads' })
+  }
+
+  const messagesByThread = new Map<string, ExhibitMessageInput[]>()
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page, error: messagesError } = await supabase
+      .from('messages')
+      .select('id, thread_id, sender, recipient, subject, body, sent_at, first_viewed_at, evidence_id, message_number, sequence_number')
+      .eq('case_id', caseId)
+      .in('thread_id', threadIds)
+      .order('sent_at', { ascending: true })
+      .order('sequence_number', { ascending: true })
+      .order('id', { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (messagesError) {
+      console.error('[Exhibits] Failed to load messages:', messagesError)
+      throw createError({ statusCode: 500, statusMessage: 'Failed to load messages' })
+    }
+
+    for (const { thread_id, ...msg } of page ?? []) {
+      if (!thread_id) continue
+      const list = messagesByThread.get(thread_id) ?? []
+      list.push(msg)
+      messagesByThread.set(thread_id, list)
+    }
+
+    if (!page || page.length < PAGE_SIZE) break
+  }
+
+  if (!messagesByThread.size) {
+    throw createError({ statusCode: 404, statusMessage: 'No messages found for the selected threads' })
+  }
+
+  const threadMeta = new Map((threadRows ?? []).map(t => [t.thread_id, t]))
+  const threads: ExhibitThreadInput[] = [...messagesByThread.entries()]
+    .map(([threadId, messages]) => ({
+      threadId,
+      subject: threadMeta.get(threadId)?.subject ?? null,
+      participants: threadMeta.get(threadId)?.participants ?? [],
+      messages
+    }))
+    .sort((a, b) => (a.messages[0]!.sent_at < b.messages[0]!.sent_at ? -1 : 1))
+
+  const packet = buildExhibitPacket(threads, { caseTitle: caseRow?.title })
+  const messagesCount = packet.exhibits.reduce((sum, ex) => sum + ex.messages.length, 0)
+
+  const metadata: ExportMetadata = {
+    case_title: caseRow?.title ?? undefined,
+    messages_count: messagesCount,
+    exhibit_count: packet.exhibits.length,
+    exhibits: packet.exhibits.map(ex => ({
+      letter: ex.letter,
+      thread_id: ex.threadId,
+      subject: ex.subject,
+      message_count: ex.messages.length,
+      line_count: ex.lineCount,
+      evidence_ids: ex.evidenceIds,
+      cites: Object.fromEntries(ex.messages.map(m => [m.messageId, m.cite]))
+    }))
+  }
+
+  const title = body?.title?.trim()
+    || `Exhibit packet (${packet.exhibits.length} ${packet.exhibits.length === 1 ? 'thread' : 'threads'})`
+
+  const { data, error } = await supabase
+    .from('exports')
+    .insert({
+      user_id: userId,
+      case_id: caseId,
+      title,
+      markdown_content: packet.markdown,
+      focus: 'exhibit-packet',
+      metadata: metadata as unknown as Json
+    })
+    .select()
+    .single()
+
+  if (error) {
+    console.error('[Exhibits] Failed to save exhibit packet:', error)
+    throw createError({ statusCode: 500, statusMessage: 'Failed to save export' })
+  }
+
+  await logAnalyticsEvent(event, 'export_created', {
+    exportId: data.id,
+    focus: data.focus,
+    exhibitCount: packet.exhibits.length,
+    messagesCount
+  })
+
+  return { export: data }
+})
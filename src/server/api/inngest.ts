@@ -2,15 +2,39 @@ import { Inngest } from 'inngest'
 import { serve } from 'inngest/h3'
 import { eventHandler } from 'h3'
 import { inngest } from '../inngest/client'
-import { journalExtractionFunction, ofwIngestFunction, threadSummarizationFunction } from '../inngest/functions'
+import {
+  chatImportFunction,
+  emailImportFunction,
+  embeddingsBackfillFunction,
+  embeddingsSyncFunction,
+  idempotencyCleanupFunction,
+  journalExtractionFunction,
+  journalNudgeFunction,
+  messageClassificationFunction,
+  ofwIngestFunction,
+  remindersFunction,
+  scheduleCheckFunction,
+  threadSummarizationFunction,
+  threadSummaryDryRunFunction
+} from '../inngest/functions'
 
 // Create the Inngest serve handler
 const handler = serve({
   client: inngest,
   functions: [
+    chatImportFunction,
+    emailImportFunction,
+    embeddingsBackfillFunction,
+    embeddingsSyncFunction,
+    idempotencyCleanupFunction,
     journalExtractionFunction,
+    journalNudgeFunction,
+    messageClassificationFunction,
     ofwIngestFunction,
-    threadSummarizationFunction
+    remindersFunction,
+    scheduleCheckFunction,
+    threadSummarizationFunction,
+    threadSummaryDryRunFunction
   ]
 })
 
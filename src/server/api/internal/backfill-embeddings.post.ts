@@ -0,0 +1,70 @@
+import { serverSupabaseClient, serverSupabaseUser } from '#supabase/server'
+import { inngest } from '../../inngest/client'
+import { EMBEDDING_KINDS, type EmbeddingKind } from '../../utils/embeddings'
+import type { Database } from '~/types/database.types'
+
+interface BackfillBody {
+  /** When omitted, backfills only the calling user's cases. Employees can pass `allCases: true` to scan every case. */
+  caseId?: string
+  allCases?: boolean
+  /** Restrict to some record kinds. Defaults to all of them. */
+  kinds?: EmbeddingKind[]
+}
+
+/**
+ * Admin-gated. Enqueues one `embeddings/backfill.requested` event per case in
+ * scope; the embeddings-backfill function embeds missing or changed records
+ * and drops vectors for deleted ones. Idempotent — unchanged records are
+ * skipped by content hash, so re-running is cheap.
+ *
+ * Run this:
+ *   - once after 0061_embeddings ships, against existing cases
+ *   - after changing EMBEDDING_MODEL (truncate `embeddings` first)
+ */
+export default defineEventHandler(async (event) => {
+  const authUser = await serverSupabaseUser(event)
+  const userId = authUser?.sub || authUser?.id || null
+  if (!userId) throw createError({ statusCode: 404, statusMessage: 'Not Found' })
+
+  const client = await serverSupabaseClient<Database>(event)
+
+  const { data: profile } = await client
+    .from('profiles')
+    .select('is_employee')
+    .eq('id', userId)
+    .maybeSingle()
+  if (profile?.is_employee !== true) {
+    throw createError({ statusCode: 404, statusMessage: 'Not Found' })
+  }
+
+  const body = await readBody<BackfillBody>(event).catch(() => ({} as BackfillBody))
+  const kinds = (body.kinds ?? []).filter(k => EMBEDDING_KINDS.includes(k))
+
+  let caseIds: string[]
+  if (body.caseId) {
+    caseIds = [body.caseId]
+  } else if (body.allCases) {
+    const { data, error } = await client.from('cases').select('id')
+    if (error) throw createError({ statusCode: 500, statusMessage: error.message })
+    caseIds = (data ?? []).map(c => c.id)
+  } else {
+    const { data, error } = await client.from('cases').select('id').eq('user_id', userId)
+    if (error) throw createError({ statusCode: 500, statusMessage: error.message })
+    caseIds = (data ?? []).map(c => c.id)
+  }
+
+  if (caseIds.length) {
+    await inngest.send(caseIds.map(caseId => ({
+      name: 'embeddings/backfill.requested',
+      data: {
+        caseId,
+        kinds: kinds.length ? kinds : undefined
+      }
+    })))
+  }
+
+  return {
+    enqueued: caseIds.length,
+    kinds: kinds.length ? kinds : EMBEDDING_KINDS
+  }
+})
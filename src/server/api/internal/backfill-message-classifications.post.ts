@@ -0,0 +1,27 @@
+import { classifyThreadsMissing, type PendingThread } from '../../utils/message-classification'
+import { enqueueThreadBackfill } from '../../utils/thread-backfill'
+
+function pendingIn(threads: PendingThread[]): number {
+  return threads.reduce((sum, t) => sum + t.pendingCount, 0)
+}
+
+/**
+ * Admin-gated. For each case in scope, finds threads with messages that have
+ * no row in `message_classifications` at the current version and enqueues one
+ * `messages/thread.classify_requested` event per thread. Idempotent — the
+ * classifier only sends still-pending messages to the model.
+ *
+ * Run this:
+ *   - once after per-message classification ships, against existing imports
+ *   - whenever MESSAGE_CLASSIFICATION_VERSION bumps
+ */
+export default defineEventHandler(async (event) => {
+  const { enqueued, perCase } = await enqueueThreadBackfill(event, 'messages/thread.classify_requested', classifyThreadsMissing)
+
+  return {
+    enqueued,
+    pendingMessages: perCase.reduce((sum, c) => sum + pendingIn(c.threads), 0),
+    cases: perCase.length,
+    perCase: perCase.map(c => ({ caseId: c.caseId, enqueued: c.threads.length, pendingMessages: pendingIn(c.threads) }))
+  }
+})
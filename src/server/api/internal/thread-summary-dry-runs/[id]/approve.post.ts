@@ -0,0 +1,109 @@
+import { serverSupabaseClient, serverSupabaseUser } from '#supabase/server'
+import { inngest } from '../../../../inngest/client'
+import { SUMMARY_VERSION } from '../../../../inngest/functions/thread-summarization'
+import { getServiceClient } from '../../../../utils/service-client'
+import { threadsBelowSummaryVersion } from '../../../../utils/threads'
+import type { Database } from '~/types/database.types'
+
+/** inngest.send batches; keep each payload well under the event size limit. */
+const SEND_CHUNK_SIZE = 500
+
+/**
+ * POST /api/internal/thread-summary-dry-runs/:id/approve
+ *
+ * Employee-only. Approves a completed dry run with at least one successfully
+ * previewed thread and enqueues re-summarization of every thread in its case
+ * below SUMMARY_VERSION. This is the only path that rewrites existing
+ * message_threads rows for a version bump.
+ */
+export default defineEventHandler(async (event) => {
+  const authUser = await serverSupabaseUser(event)
+  const claims = authUser as { sub?: string, id?: string } | null
+  const userId = claims?.sub ?? claims?.id ?? null
+  if (!userId) throw createError({ statusCode: 404, statusMessage: 'Not Found' })
+
+  const client = await serverSupabaseClient<Database>(event)
+  const { data: profile } = await client
+    .from('profiles')
+    .select('is_employee')
+    .eq('id', userId)
+    .maybeSingle()
+  if (profile?.is_employee !== true) {
+    throw createError({ statusCode: 404, statusMessage: 'Not Found' })
+  }
+
+  const id = getRouterParam(event, 'id')
+  if (!id) throw createError({ statusCode: 400, statusMessage: 'Dry run id is required' })
+
+  const service = getServiceClient()
+
+  const { data: run, error } = await service
+    .from('thread_summary_dry_runs')
+    .select('id, case_id, status, summary_version')
+    .eq('id', id)
+    .maybeSingle()
+  if (error) throw createError({ statusCode: 500, statusMessage: error.message })
+  if (!run) throw createError({ statusCode: 404, statusMessage: 'Dry run not found' })
+  if (run.status !== 'completed') {
+    throw createError({ statusCode: 409, statusMessage: `Only a completed dry run can be approved (this one is ${run.status})` })
+  }
+  if (run.summary_version !== SUMMARY_VERSION) {
+    throw createError({ statusCode: 409, statusMessage: `This dry run previewed version ${run.summary_version}; the current version is ${SUMMARY_VERSION}. Start a new dry run.` })
+  }
+
+  // Runs completed before all-error runs were marked failed can have nothing to review.
+  const { count: previewed, error: itemsError } = await service
+    .from('thread_summary_dry_run_items')
+    .select('id', { count: 'exact', head: true })
+    .eq('dry_run_id', id)
+    .is('error_message', null)
+  if (itemsError) throw createError({ statusCode: 500, statusMessage: itemsError.message })
+  if (!previewed) {
+    throw createError({ statusCode: 409, statusMessage: 'No thread in this dry run was summarized. Start a new dry run.' })
+  }
+
+  // Claim the approval first so a double click can't enqueue twice.
+  const { data: claimed, error: claimError } = await service
+    .from('thread_summary_dry_runs')
+    .update({ status: 'approved', approved_by: userId, approved_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'completed')
+    .select('id')
+  if (claimError) throw createError({ statusCode: 500, statusMessage: claimError.message })
+  if (!claimed?.length) throw createError({ statusCode: 409, statusMessage: 'This dry run was already approved' })
+
+  let threadIds: string[]
+  try {
+    threadIds = await threadsBelowSummaryVersion(service, run.case_id, SUMMARY_VERSION)
+    for (let i = 0; i < threadIds.length; i += SEND_CHUNK_SIZE) {
+      await inngest.send(threadIds.slice(i, i + SEND_CHUNK_SIZE).map(threadId => ({
+        name: 'messages/thread.summarize_requested',
+        data: {
+          caseId: run.case_id,
+          userId,
+          evidenceId: null,
+          threadId
+        }
+      })))
+    }
+  } catch (err) {
+    // Release the claim so the approval can be retried. Threads from chunks
+    // that did go out are re-sent then; re-summarizing one is harmless.
+    const { error: releaseError } = await service
+      .from('thread_summary_dry_runs')
+      .update({ status: 'completed', approved_by: null, approved_at: null })
+      .eq('id', id)
+      .eq('status', 'approved')
+    if (releaseError) console.error('[thread-summary-dry-runs] Failed to release approval:', releaseError)
+    console.error('[thread-summary-dry-runs] Failed to enqueue re-summarization:', err)
+    throw createError({ statusCode: 502, statusMessage: 'Could not enqueue re-summarization. Approve again to retry.' })
+  }
+
+  const { error: countError } = await service
+    .from('thread_summary_dry_runs')
+    .update({ enqueued_count: threadIds.length })
+    .eq('id', id)
+  if (countError) console.error('[thread-summary-dry-runs] Failed to record enqueued count:', countError)
+
+  return { approved: true, enqueued: threadIds.length }
+})
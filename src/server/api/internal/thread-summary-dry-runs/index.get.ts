@@ -0,0 +1,65 @@
+import { serverSupabaseClient, serverSupabaseUser } from '#supabase/server'
+import { SUMMARY_VERSION } from '../../../inngest/functions/thread-summarization'
+import { getServiceClient } from '../../../utils/service-client'
+import type { Database } from '~/types/database.types'
+
+const MAX_RUNS = 10
+
+/**
+ * GET /api/internal/thread-summary-dry-runs?caseId=
+ *
+ * Employee-only. The recorded summary versions, how many of the case's
+ * threads are below the current one, and the case's recent dry runs with
+ * their old-vs-new items for review.
+ */
+export default defineEventHandler(async (event) => {
+  const authUser = await serverSupabaseUser(event)
+  const claims = authUser as { sub?: string, id?: string } | null
+  const userId = claims?.sub ?? claims?.id ?? null
+  if (!userId) throw createError({ statusCode: 404, statusMessage: 'Not Found' })
+
+  const client = await serverSupabaseClient<Database>(event)
+  const { data: profile } = await client
+    .from('profiles')
+    .select('is_employee')
+    .eq('id', userId)
+    .maybeSingle()
+  if (profile?.is_employee !== true) {
+    throw createError({ statusCode: 404, statusMessage: 'Not Found' })
+  }
+
+  const caseId = getQuery(event).caseId
+  if (typeof caseId !== 'string' || !caseId) {
+    throw createError({ statusCode: 400, statusMessage: 'caseId is required' })
+  }
+
+  const service = getServiceClient()
+
+  const [versionsResult, outdatedResult, runsResult] = await Promise.all([
+    service.from('thread_summary_versions').select('*').order('version', { ascending: false }),
+    service
+      .from('message_threads')
+      .select('id', { count: 'exact', head: true })
+      .eq('case_id', caseId)
+      .lt('summary_version', SUMMARY_VERSION),
+    service
+      .from('thread_summary_dry_runs')
+      .select('*, items:thread_summary_dry_run_items(*)')
+      .eq('case_id', caseId)
+      .order('created_at', { ascending: false })
+      .limit(MAX_RUNS)
+  ])
+  for (const result of [versionsResult, outdatedResult, runsResult]) {
+    if (result.error) throw createError({ statusCode: 500, statusMessage: result.error.message })
+  }
+
+  return {
+    currentVersion: SUMMARY_VERSION,
+    versions: versionsResult.data ?? [],
+    outdatedThreads: outdatedResult.count ?? 0,
+    runs: (runsResult.data ?? []).map(run => ({
+      ...run,
+      items: [...run.items].sort((a, b) => (a.subject ?? '').localeCompare(b.subject ?? ''))
+    }))
+  }
+})
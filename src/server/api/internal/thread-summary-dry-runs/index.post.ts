@@ -0,0 +1,86 @@
+import { serverSupabaseClient, serverSupabaseUser } from '#supabase/server'
+import { inngest } from '../../../inngest/client'
+import { SUMMARY_VERSION } from '../../../inngest/functions/thread-summarization'
+import { getServiceClient } from '../../../utils/service-client'
+import type { Database } from '~/types/database.types'
+
+const DEFAULT_SAMPLE_SIZE = 5
+const MAX_SAMPLE_SIZE = 20
+
+interface DryRunBody {
+  caseId?: string
+  sampleSize?: number
+}
+
+/**
+ * POST /api/internal/thread-summary-dry-runs
+ *
+ * Employee-only. Re-summarizes a random sample of the case's threads that are
+ * below SUMMARY_VERSION, without touching message_threads, so the new
+ * version can be reviewed before approving it for the whole case.
+ */
+export default defineEventHandler(async (event) => {
+  const authUser = await serverSupabaseUser(event)
+  const claims = authUser as { sub?: string, id?: string } | null
+  const userId = claims?.sub ?? claims?.id ?? null
+  if (!userId) throw createError({ statusCode: 404, statusMessage: 'Not Found' })
+
+  const client = await serverSupabaseClient<Database>(event)
+  const { data: profile } = await client
+    .from('profiles')
+    .select('is_employee')
+    .eq('id', userId)
+    .maybeSingle()
+  if (profile?.is_employee !== true) {
+    throw createError({ statusCode: 404, statusMessage: 'Not Found' })
+  }
+
+  const body = await readBody<DryRunBody>(event).catch(() => ({} as DryRunBody))
+  if (!body.caseId) {
+    throw createError({ statusCode: 400, statusMessage: 'caseId is required' })
+  }
+  const sampleSize = body.sampleSize ?? DEFAULT_SAMPLE_SIZE
+  if (!Number.isInteger(sampleSize) || sampleSize < 1 || sampleSize > MAX_SAMPLE_SIZE) {
+    throw createError({ statusCode: 400, statusMessage: `sampleSize must be between 1 and ${MAX_SAMPLE_SIZE}` })
+  }
+
+  const service = getServiceClient()
+
+  const { count, error: countError } = await service
+    .from('message_threads')
+    .select('id', { count: 'exact', head: true })
+    .eq('case_id', body.caseId)
+    .lt('summary_version', SUMMARY_VERSION)
+  if (countError) throw createError({ statusCode: 500, statusMessage: countError.message })
+  if (!count) {
+    throw createError({ statusCode: 409, statusMessage: `No threads in this case are below summary version ${SUMMARY_VERSION}` })
+  }
+
+  // The run references the version row, which the summarizer normally
+  // records on first use.
+  const { error: versionError } = await service
+    .from('thread_summary_versions')
+    .upsert({ version: SUMMARY_VERSION }, { onConflict: 'version', ignoreDuplicates: true })
+  if (versionError) throw createError({ statusCode: 500, statusMessage: versionError.message })
+
+  const { data: run, error } = await service
+    .from('thread_summary_dry_runs')
+    .insert({
+      case_id: body.caseId,
+      summary_version: SUMMARY_VERSION,
+      sample_size: Math.min(sampleSize, count),
+      requested_by: userId
+    })
+    .select('*')
+    .single()
+  if (error || !run) {
+    throw createError({ statusCode: 500, statusMessage: error?.message ?? 'Failed to create dry run' })
+  }
+
+  await inngest.send({
+    name: 'messages/thread.summary_dry_run_requested',
+    data: { dryRunId: run.id }
+  })
+
+  return { run }
+})
@@ -0,0 +1,54 @@
+import { getServiceClient } from '../../utils/service-client'
+import { collaboratorStatus } from '../../utils/collaborators'
+import type { CollaboratorStatus } from '../../utils/collaborators'
+
+interface InvitePreview {
+  caseTitle: string
+  inviterName: string | null
+  email: string
+  role: string
+  status: CollaboratorStatus
+}
+
+/**
+ * GET /api/invites/:token
+ *
+ * Public. Backs the /invite/:token landing page. Returns only what the invitee
+ * needs to decide whether to accept — never case content. Uses the service
+ * client because the invitee has no RLS access to the row until they accept.
+ */
+export default defineEventHandler(async (event): Promise<InvitePreview> => {
+  const token = getRouterParam(event, 'token')
+  if (!token) {
+    throw createError({ statusCode: 400, statusMessage: 'Invite token is required' })
+  }
+
+  const service = getServiceClient()
+
+  const { data: invite, error } = await service
+    .from('case_collaborators')
+    .select('email, role, invited_by, accepted_at, revoked_at, cases(title)')
+    .eq('invite_token', token)
+    .maybeSingle()
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+  if (!invite) {
+    throw createError({ statusCode: 404, statusMessage: 'Invite not found' })
+  }
+
+  const { data: inviter } = await service
+    .from('profiles')
+    .select('full_name, email')
+    .eq('id', invite.invited_by)
+    .maybeSingle()
+
+  return {
+    caseTitle: invite.cases?.title ?? 'Untitled case',
+    inviterName: inviter?.full_name || inviter?.email || null,
+    email: invite.email,
+    role: invite.role,
+    status: collaboratorStatus(invite)
+  }
+})
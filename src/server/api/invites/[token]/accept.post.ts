@@ -0,0 +1,83 @@
+import { serverSupabaseClient, serverSupabaseUser } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import { requireUserId } from '../../../utils/auth'
+import { setActiveCaseId } from '../../../utils/cases'
+import { daysBetween } from '../../../utils/collaborators'
+import { getServiceClient } from '../../../utils/service-client'
+import { logAnalyticsEvent } from '../../../utils/analytics'
+
+/**
+ * POST /api/invites/:token/accept
+ *
+ * Binds a pending invite to the signed-in user and makes the shared case their
+ * active case. The signed-in email must match the invited email
+ * (case-insensitive) so a forwarded link can't be redeemed by someone else.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const token = getRouterParam(event, 'token')
+  if (!token) {
+    throw createError({ statusCode: 400, statusMessage: 'Invite token is required' })
+  }
+
+  const service = getServiceClient()
+
+  const { data: invite, error } = await service
+    .from('case_collaborators')
+    .select('id, case_id, email, user_id, invited_at, accepted_at, revoked_at')
+    .eq('invite_token', token)
+    .maybeSingle()
+
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+  if (!invite || invite.revoked_at) {
+    throw createError({ statusCode: 404, statusMessage: 'This invite is no longer valid' })
+  }
+
+  if (invite.accepted_at) {
+    if (invite.user_id !== userId) {
+      throw createError({ statusCode: 409, statusMessage: 'This invite has already been accepted' })
+    }
+    await setActiveCaseId(supabase, userId, invite.case_id)
+    return { caseId: invite.case_id }
+  }
+
+  const authUser = await serverSupabaseUser(event)
+  const userEmail = authUser?.email?.trim().toLowerCase()
+  if (!userEmail || userEmail !== invite.email.toLowerCase()) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: `This invite was for ${invite.email}. Sign in with that address or ask the case owner to re-invite you.`
+    })
+  }
+
+  const { error: acceptError } = await service
+    .from('case_collaborators')
+    .update({ user_id: userId, accepted_at: new Date().toISOString() })
+    .eq('id', invite.id)
+    .is('accepted_at', null)
+
+  if (acceptError) {
+    throw createError({ statusCode: 500, statusMessage: acceptError.message })
+  }
+
+  await setActiveCaseId(supabase, userId, invite.case_id)
+
+  // Collaborators skip the parent onboarding flow — they land straight in the
+  // shared case.
+  await supabase
+    .from('profiles')
+    .update({ onboarding_completed_at: new Date().toISOString() })
+    .eq('id', userId)
+    .is('onboarding_completed_at', null)
+
+  await logAnalyticsEvent(event, 'collaborator_accepted', {
+    caseId: invite.case_id,
+    daysToAccept: daysBetween(invite.invited_at)
+  })
+
+  return { caseId: invite.case_id }
+})
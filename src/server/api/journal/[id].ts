@@ -63,8 +63,9 @@ async function getJournalEntry(
       processed_at,
       completed_at
     `)
+    // Not filtered by user_id: RLS (journal_entries_select_collab) also admits
+    // read-only collaborators on the entry's case.
     .eq('id', id)
-    .eq('user_id', userId)
     .single()
 
   if (entryError || !entry) {
@@ -125,7 +126,6 @@ async function getJournalEntry(
     .from('events')
     .select('id, type, title, description, primary_timestamp')
     .eq('journal_entry_id', id)
-    .eq('user_id', userId)
     .order('primary_timestamp', { ascending: true })
 
   if (eventsError) {
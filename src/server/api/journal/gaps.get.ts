@@ -0,0 +1,118 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import { requireUserId } from '../../utils/auth'
+import { getActiveCaseIdOrNull } from '../../utils/cases'
+import { findGapFillRanges, gapFillSince } from '../../utils/journal-gap-fill'
+import { getDateStringInTimezone, getTimezoneWithProfileFallback } from '../../utils/timezone'
+
+const PAGE_SIZE = 1000
+
+/** Evidence types that arrive as messages; their upload date says nothing about the days they cover. */
+const MESSAGE_EVIDENCE_TYPES = ['text', 'email', 'ofw_export']
+
+/**
+ * GET /api/journal/gaps
+ *
+ * Stretches of recent days in the active case with messages or evidence but
+ * no events and no journal entry dated to them, for the gap-fill flow in
+ * /journal/new. Each range lists the evidence uploaded on its days; the
+ * messages are loaded per day from /api/messages.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const caseId = await getActiveCaseIdOrNull(supabase, userId)
+  if (!caseId) return { gaps: [] }
+
+  const timezone = await getTimezoneWithProfileFallback(event, supabase, userId)
+  const today = getDateStringInTimezone(new Date(), timezone)
+  // A day of slack either side of the lookback absorbs timezone offsets.
+  const since = new Date(Date.parse(`${gapFillSince(today)}T00:00:00Z`) - 24 * 60 * 60 * 1000).toISOString()
+
+  const coveredDays: string[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('events')
+      .select('id, primary_timestamp')
+      .eq('case_id', caseId)
+      .gte('primary_timestamp', since)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) {
+      throw createError({ statusCode: 500, statusMessage: error.message })
+    }
+    for (const row of data ?? []) coveredDays.push(getDateStringInTimezone(new Date(row.primary_timestamp!), timezone))
+    if ((data?.length ?? 0) < PAGE_SIZE) break
+  }
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('journal_entries')
+      .select('id, reference_date')
+      .eq('case_id', caseId)
+      .neq('status', 'cancelled')
+      .gte('reference_date', since.slice(0, 10))
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) {
+      throw createError({ statusCode: 500, statusMessage: error.message })
+    }
+    for (const row of data ?? []) {
+      if (row.reference_date) coveredDays.push(row.reference_date)
+    }
+    if ((data?.length ?? 0) < PAGE_SIZE) break
+  }
+
+  const evidence: { id: string, name: string, summary: string | null, sourceType: string, day: string }[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('evidence')
+      .select('id, original_filename, summary, source_type, created_at')
+      .eq('case_id', caseId)
+      .not('source_type', 'in', `(${MESSAGE_EVIDENCE_TYPES.join(',')})`)
+      .gte('created_at', since)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) {
+      throw createError({ statusCode: 500, statusMessage: error.message })
+    }
+    for (const row of data ?? []) {
+      evidence.push({
+        id: row.id,
+        name: row.original_filename ?? 'Untitled evidence',
+        summary: row.summary,
+        sourceType: row.source_type,
+        day: getDateStringInTimezone(new Date(row.created_at), timezone)
+      })
+    }
+    if ((data?.length ?? 0) < PAGE_SIZE) break
+  }
+
+  const messageDays: string[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('sent_at')
+      .eq('case_id', caseId)
+      .gte('sent_at', since)
+      .order('sent_at')
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) {
+      throw createError({ statusCode: 500, statusMessage: error.message })
+    }
+    // sent_at is wall-clock time, so the date part is already the local day.
+    for (const row of data ?? []) messageDays.push(row.sent_at.slice(0, 10))
+    if ((data?.length ?? 0) < PAGE_SIZE) break
+  }
+
+  const ranges = findGapFillRanges({ coveredDays, messageDays, evidenceDays: evidence.map(e => e.day) }, today)
+
+  return {
+    gaps: ranges.map((range) => {
+      const days = new Set(range.days.map(d => d.day))
+      return { ...range, evidence: evidence.filter(e => days.has(e.day)) }
+    })
+  }
+})
@@ -0,0 +1,41 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import { requireUserId } from '../../utils/auth'
+import { getActiveCaseIdOrNull } from '../../utils/cases'
+import { describeJournalGap, nudgeSettingsFromProfile } from '../../utils/journal-habits'
+import { loadJournalHabits } from '../../utils/journal-habits-data'
+import { getTimezoneWithProfileFallback } from '../../utils/timezone'
+
+/**
+ * GET /api/journal/habits
+ *
+ * The journaling streak (days with at least one journal entry, in the user's
+ * timezone), gaps in the active case's parenting-time events, and whether the
+ * daily nudge is on.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const [caseId, timezone, { data: profile, error: profileError }] = await Promise.all([
+    getActiveCaseIdOrNull(supabase, userId),
+    getTimezoneWithProfileFallback(event, supabase, userId),
+    supabase
+      .from('profiles')
+      .select('journal_nudge_enabled, journal_nudge_time, journal_nudge_days, quiet_hours_start, quiet_hours_end')
+      .eq('id', userId)
+      .maybeSingle()
+  ])
+  if (profileError) {
+    throw createError({ statusCode: 500, statusMessage: profileError.message })
+  }
+
+  const habits = await loadJournalHabits(supabase, userId, caseId, timezone)
+
+  return {
+    today: habits.today,
+    streak: habits.streak,
+    gaps: habits.gaps.map(gap => ({ ...gap, message: describeJournalGap(gap) })),
+    nudge: profile ? nudgeSettingsFromProfile(profile) : null
+  }
+})
@@ -0,0 +1,122 @@
+import { serverSupabaseClient } from '#supabase/server'
+import { requireUserId } from '../../utils/auth'
+import { canCreateJournalEntry } from '../../utils/subscription'
+import { inngest } from '../../inngest/client'
+import { logAnalyticsEvent } from '../../utils/analytics'
+import { getActiveCaseId } from '../../utils/cases'
+import { parseJournalImportEntries } from '../../utils/journal-import'
+import { getTimezoneWithProfileFallback } from '../../utils/timezone'
+import type { JournalImportResponse } from '~/types'
+
+/** Spread extractions out so a large import does not hit OpenAI all at once. */
+const EXTRACTION_STAGGER_MS = 1000
+
+/**
+ * POST /api/journal/import
+ *
+ * Body: { entries: [{ referenceDate, eventText }], timezone?, caseId? } — the
+ * split confirmed from /api/journal/import/preview.
+ *
+ * Creates one journal_import job, one journal entry per item pointing at it
+ * (extraction_job_id), and one journal/extraction.requested event per entry.
+ * journal-extraction rolls the entries up into the job as they finish.
+ */
+export default defineEventHandler(async (event): Promise<JournalImportResponse> => {
+  const supabase = await serverSupabaseClient(event)
+  const userId = await requireUserId(event, supabase)
+
+  const body = await readBody<{ entries?: unknown, timezone?: string, caseId?: string }>(event)
+  let entries: ReturnType<typeof parseJournalImportEntries>
+  try {
+    entries = parseJournalImportEntries(body)
+  } catch (err) {
+    throw createError({ statusCode: 400, statusMessage: err instanceof Error ? err.message : 'Invalid import' })
+  }
+
+  // Feature gating: the whole import has to fit in what the plan allows
+  const check = await canCreateJournalEntry(event, userId)
+  if (!check.allowed) {
+    throw createError({ statusCode: 403, statusMessage: check.reason || 'Not allowed to create journal entries' })
+  }
+  if (check.remaining !== undefined && entries.length > check.remaining) {
+    throw createError({
+      statusCode: 403,
+      statusMessage: `Your plan allows ${check.remaining} more journal ${check.remaining === 1 ? 'entry' : 'entries'}; this import has ${entries.length}. Upgrade to Pro for unlimited entries.`
+    })
+  }
+
+  const caseId = await getActiveCaseId(supabase, userId, body?.caseId)
+  const timezone = body?.timezone || await getTimezoneWithProfileFallback(event, supabase, userId)
+
+  const { data: job, error: jobError } = await supabase
+    .from('jobs')
+    .insert({
+      user_id: userId,
+      type: 'journal_import',
+      status: 'pending',
+      result_summary: { entries_total: entries.length, entries_completed: 0, entries_failed: 0, events_created: 0 }
+    })
+    .select('id')
+    .single()
+
+  if (jobError || !job) {
+    console.error('[journal/import] Failed to create job:', jobError)
+    throw createError({ statusCode: 500, statusMessage: 'Failed to create import job' })
+  }
+
+  const { data: rows, error: entriesError } = await supabase
+    .from('journal_entries')
+    .insert(entries.map(entry => ({
+      user_id: userId,
+      case_id: caseId,
+      event_text: entry.eventText,
+      reference_date: entry.referenceDate,
+      status: 'processing' as const,
+      extraction_job_id: job.id
+    })))
+    .select('id, event_text, reference_date')
+
+  if (entriesError || !rows) {
+    console.error('[journal/import] Failed to create journal entries:', entriesError)
+    await supabase.from('jobs').update({ status: 'failed', error_message: 'Failed to create journal entries' }).eq('id', job.id)
+    throw createError({ statusCode: 500, statusMessage: 'Failed to create journal entries' })
+  }
+
+  const now = Date.now()
+  try {
+    await inngest.send(rows.map((row, i) => ({
+      name: 'journal/extraction.requested',
+      ts: now + i * EXTRACTION_STAGGER_MS,
+      data: {
+        jobId: job.id,
+        batch: true,
+        journalEntryId: row.id,
+        userId,
+        caseId,
+        eventText: row.event_text,
+        referenceDate: row.reference_date,
+        timezone,
+        evidenceIds: []
+      }
+    })))
+  } catch (error) {
+    console.error('[journal/import] Failed to enqueue Inngest jobs:', error)
+    await supabase.from('jobs').update({ status: 'failed', error_message: 'Failed to queue background processing' }).eq('id', job.id)
+    throw createError({
+      statusCode: 500,
+      statusMessage: 'Failed to queue background processing'
+    })
+  }
+
+  await logAnalyticsEvent(event, 'journal_import_submitted', {
+    jobId: job.id,
+    entryCount: entries.length,
+    totalTextLength: entries.reduce((sum, e) => sum + e.eventText.length, 0)
+  })
+
+  return {
+    jobId: job.id,
+    entryCount: rows.length,
+    message: 'Processing started'
+  }
+})
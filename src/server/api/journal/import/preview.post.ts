@@ -0,0 +1,85 @@
+import { readFiles } from 'h3-formidable'
+import fs from 'fs/promises'
+import { serverSupabaseClient } from '#supabase/server'
+import { requireUserId } from '../../../utils/auth'
+import {
+  IMPORT_EXTENSIONS,
+  MAX_IMPORT_BYTES,
+  MAX_IMPORT_ENTRIES,
+  extractDocxText,
+  splitJournalText
+} from '../../../utils/journal-import'
+import { getDateStringInTimezone, getTimezoneWithProfileFallback } from '../../../utils/timezone'
+
+/**
+ * POST /api/journal/import/preview
+ *
+ * Multipart upload of a notes export or diary (.txt, .md or .docx). Splits it
+ * into dated entries at date headings and returns the split for the user to
+ * check and edit. Nothing is stored; the confirmed entries are posted to
+ * /api/journal/import.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient(event)
+  const userId = await requireUserId(event, supabase, 'Unauthorized - Please log in')
+
+  let tempFilePath: string | undefined
+
+  try {
+    const { files } = await readFiles(event, { maxFileSize: MAX_IMPORT_BYTES })
+    const file = files.file?.[0]
+
+    if (!file) {
+      throw createError({ statusCode: 400, statusMessage: 'No file provided.' })
+    }
+
+    tempFilePath = file.filepath
+
+    const fileName = file.originalFilename || 'journal.txt'
+    const extension = fileName.toLowerCase().slice(fileName.lastIndexOf('.'))
+    if (!IMPORT_EXTENSIONS.includes(extension)) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'Journal imports must be a .txt, .md or .docx file.'
+      })
+    }
+
+    const buffer = await fs.readFile(file.filepath)
+    let text: string
+    try {
+      text = extension === '.docx'
+        ? extractDocxText(buffer)
+        : buffer.toString('utf8').replace(/^\uFEFF/, '')
+    } catch (err) {
+      throw createError({ statusCode: 400, statusMessage: err instanceof Error ? err.message : 'Could not read the file.' })
+    }
+
+    const timezone = await getTimezoneWithProfileFallback(event, supabase, userId)
+    const split = splitJournalText(text, getDateStringInTimezone(new Date(), timezone))
+
+    if (!split.entries.length) {
+      throw createError({
+        statusCode: 422,
+        statusMessage: 'No dated entries found. Start each entry with a date on its own line, like "March 3, 2025".'
+      })
+    }
+    if (split.entries.length > MAX_IMPORT_ENTRIES) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: `This file has ${split.entries.length} entries; import at most ${MAX_IMPORT_ENTRIES} at a time by splitting the file.`
+      })
+    }
+
+    return { fileName, ...split }
+  } catch (error) {
+    if (error && typeof error === 'object' && 'statusCode' in error) {
+      throw error
+    }
+    console.error('[journal/import/preview] Unexpected error:', error)
+    throw createError({ statusCode: 500, statusMessage: 'Failed to read journal file.' })
+  } finally {
+    if (tempFilePath) {
+      await fs.unlink(tempFilePath).catch(() => {})
+    }
+  }
+})
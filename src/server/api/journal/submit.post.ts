@@ -4,10 +4,49 @@ import { inngest } from '../../inngest/client'
 import { getTimezoneWithProfileFallback } from '../../utils/timezone'
 import { logAnalyticsEvent } from '../../utils/analytics'
 import { getActiveCaseId } from '../../utils/cases'
+import { isUniqueViolation, readIdempotencyKey, withIdempotency } from '../../utils/idempotency'
+import type { SupabaseClient } from '@supabase/supabase-js'
 import type { JournalSubmitResponse } from '~/types'
+import type { Database } from '~/types/database.types'
+
+/**
+ * A retry that finds its entry but no job waits this long for the first
+ * attempt to finish before taking over. Inside it, the first attempt may
+ * still be creating the job, so the retry gets a 409 and tries again later.
+ */
+const RESUME_AFTER_MS = 60 * 1000
+
+/**
+ * The entry created by an earlier submit with this Idempotency-Key, and its
+ * job if it got that far. A job still `pending` may never have been queued
+ * (the send failed after the job was inserted), so the caller sends again;
+ * the event id keeps that from running extraction twice.
+ */
+async function findPriorSubmit(supabase: SupabaseClient<Database>, userId: string, idempotencyKey: string) {
+  const { data: entry } = await supabase
+    .from('journal_entries')
+    .select('id, case_id, created_at')
+    .eq('user_id', userId)
+    .eq('idempotency_key', idempotencyKey)
+    .maybeSingle()
+  if (!entry) return null
+
+  const { data: job } = await supabase
+    .from('jobs')
+    .select('id, status')
+    .eq('journal_entry_id', entry.id)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (!job && Date.now() - Date.parse(entry.created_at) < RESUME_AFTER_MS) {
+    throw createError({ statusCode: 409, statusMessage: 'A submit with this Idempotency-Key is still in progress' })
+  }
+  return { entry, job: job ?? null }
+}
 
 export default defineEventHandler(async (event): Promise<JournalSubmitResponse> => {
-  const supabase = await serverSupabaseClient(event)
+  const supabase = await serverSupabaseClient<Database>(event)
   const user = await serverSupabaseUser(event)
   const userId = user?.sub || user?.id
 
@@ -15,103 +54,143 @@ export default defineEventHandler(async (event): Promise<JournalSubmitResponse>
     throw createError({ statusCode: 401, statusMessage: 'Unauthorized' })
   }
 
-  // Feature gating
-  const check = await canCreateJournalEntry(event, userId)
-  if (!check.allowed) {
-    throw createError({ statusCode: 403, statusMessage: check.reason || 'Not allowed to create journal entry' })
-  }
-
   const body = await readBody<{
     eventText: string
     referenceDate?: string
     timezone?: string
     evidenceIds?: string[]
     caseId?: string
+    /** Written from the gap-fill flow for a missed day. */
+    gapFill?: boolean
   }>(event)
 
-  if (!body.eventText?.trim()) {
-    throw createError({ statusCode: 400, statusMessage: 'Event text is required' })
-  }
-
-  const caseId = await getActiveCaseId(supabase, userId, body.caseId)
-
-  // 1. Create journal entry in 'processing' state
-  const { data: entry, error: entryError } = await supabase
-    .from('journal_entries')
-    .insert({
-      user_id: userId,
-      case_id: caseId,
-      event_text: body.eventText,
-      reference_date: body.referenceDate || null,
-      status: 'processing'
-    })
-    .select('id')
-    .single()
-
-  if (entryError || !entry) {
-    console.error('[journal/submit] Failed to create journal entry:', entryError)
-    throw createError({ statusCode: 500, statusMessage: 'Failed to create journal entry' })
-  }
-
-  // 2. Create job record
-  const { data: job, error: jobError } = await supabase
-    .from('jobs')
-    .insert({
-      user_id: userId,
-      type: 'journal_extraction',
-      status: 'pending',
-      journal_entry_id: entry.id
-    })
-    .select('id')
-    .single()
-
-  if (jobError || !job) {
-    console.error('[journal/submit] Failed to create job:', jobError)
-    throw createError({ statusCode: 500, statusMessage: 'Failed to create job' })
-  }
-
-  // 3. Resolve user's timezone (prefer body, fallback to profile, then UTC)
-  let timezone = body.timezone
-  if (!timezone) {
-    timezone = await getTimezoneWithProfileFallback(event, supabase, userId)
-  }
-
-  // 4. Fire background event
-  try {
-    await inngest.send({
-      name: 'journal/extraction.requested',
-      data: {
-        jobId: job.id,
-        journalEntryId: entry.id,
-        userId,
-        caseId,
-        eventText: body.eventText,
-        referenceDate: body.referenceDate || null,
-        timezone,
-        evidenceIds: body.evidenceIds || []
+  // A double click or retried request with the same Idempotency-Key gets the
+  // first response back; the entry-level key below covers a first attempt that
+  // created the entry but failed before answering.
+  return withIdempotency(event, { supabase, userId, scope: 'POST /api/journal/submit', payload: body }, async (): Promise<JournalSubmitResponse> => {
+    // A retried submit (offline sync) returns what the first attempt created
+    const idempotencyKey = readIdempotencyKey(event)
+    let prior = idempotencyKey ? await findPriorSubmit(supabase, userId, idempotencyKey) : null
+    if (prior?.job && prior.job.status !== 'pending') {
+      return { journalEntryId: prior.entry.id, jobId: prior.job.id, message: 'Already submitted' }
+    }
+
+    // Feature gating (a resumed submit already counted against the limit)
+    if (!prior) {
+      const check = await canCreateJournalEntry(event, userId)
+      if (!check.allowed) {
+        throw createError({ statusCode: 403, statusMessage: check.reason || 'Not allowed to create journal entry' })
       }
+    }
+
+    if (!body.eventText?.trim()) {
+      throw createError({ statusCode: 400, statusMessage: 'Event text is required' })
+    }
+
+    // 1. Create journal entry in 'processing' state, unless an earlier attempt
+    // with this key created it and stopped before queuing it
+    let entry: { id: string, case_id: string }
+    if (prior) {
+      entry = prior.entry
+    } else {
+      const caseId = await getActiveCaseId(supabase, userId, body.caseId)
+      const { data: inserted, error: entryError } = await supabase
+        .from('journal_entries')
+        .insert({
+          user_id: userId,
+          case_id: caseId,
+          event_text: body.eventText,
+          reference_date: body.referenceDate || null,
+          status: 'processing',
+          idempotency_key: idempotencyKey
+        })
+        .select('id, case_id')
+        .single()
+
+      if (idempotencyKey && isUniqueViolation(entryError)) {
+        // A concurrent attempt with the same key won the insert
+        prior = await findPriorSubmit(supabase, userId, idempotencyKey)
+        if (prior?.job && prior.job.status !== 'pending') {
+          return { journalEntryId: prior.entry.id, jobId: prior.job.id, message: 'Already submitted' }
+        }
+        throw createError({ statusCode: 409, statusMessage: 'A submit with this Idempotency-Key is still in progress' })
+      }
+      if (entryError || !inserted) {
+        console.error('[journal/submit] Failed to create journal entry:', entryError)
+        throw createError({ statusCode: 500, statusMessage: 'Failed to create journal entry' })
+      }
+      entry = inserted
+    }
+    const caseId = entry.case_id
+
+    // 2. Create job record, or reuse the pending one an earlier attempt left
+    let job = prior?.job ?? null
+    if (!job) {
+      const { data: insertedJob, error: jobError } = await supabase
+        .from('jobs')
+        .insert({
+          user_id: userId,
+          type: 'journal_extraction',
+          status: 'pending',
+          journal_entry_id: entry.id
+        })
+        .select('id, status')
+        .single()
+
+      if (jobError || !insertedJob) {
+        console.error('[journal/submit] Failed to create job:', jobError)
+        throw createError({ statusCode: 500, statusMessage: 'Failed to create job' })
+      }
+      job = insertedJob
+    }
+
+    // 3. Resolve user's timezone (prefer body, fallback to profile, then UTC)
+    let timezone = body.timezone
+    if (!timezone) {
+      timezone = await getTimezoneWithProfileFallback(event, supabase, userId)
+    }
+
+    // 4. Fire background event
+    try {
+      await inngest.send({
+        // Inngest drops a second event with the same id, so re-sending for a
+        // pending job is safe if the first send did get through.
+        id: `journal-extraction-${job.id}`,
+        name: 'journal/extraction.requested',
+        data: {
+          jobId: job.id,
+          journalEntryId: entry.id,
+          userId,
+          caseId,
+          eventText: body.eventText,
+          referenceDate: body.referenceDate || null,
+          timezone,
+          evidenceIds: body.evidenceIds || []
+        }
+      })
+    } catch (error: any) {
+      console.error('[journal/submit] Failed to enqueue Inngest job:', error)
+      throw createError({
+        statusCode: 500,
+        statusMessage: 'Failed to queue background processing'
+      })
+    }
+
+    await logAnalyticsEvent(event, 'journal_entry_submitted', {
+      journalEntryId: entry.id,
+      jobId: job.id,
+      hasReferenceDate: !!body.referenceDate,
+      gapFill: body.gapFill === true,
+      evidenceIdsCount: (body.evidenceIds ?? []).length,
+      idempotent: !!idempotencyKey,
+      resumed: !!prior,
+      eventTextLength: body.eventText.length
     })
-  } catch (error: any) {
-    console.error('[journal/submit] Failed to enqueue Inngest job:', error)
-    throw createError({
-      statusCode: 500,
-      statusMessage: 'Failed to queue background processing'
-    })
-  }
 
-  await logAnalyticsEvent(event, 'journal_entry_submitted', {
-    journalEntryId: entry.id,
-    jobId: job.id,
-    hasReferenceDate: !!body.referenceDate,
-    evidenceIdsCount: (body.evidenceIds ?? []).length,
-    eventTextLength: body.eventText.length
+    return {
+      journalEntryId: entry.id,
+      jobId: job.id,
+      message: 'Processing started'
+    }
   })
-
-  return {
-    journalEntryId: entry.id,
-    jobId: job.id,
-    message: 'Processing started'
-  }
 })
-
-
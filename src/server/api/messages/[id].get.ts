@@ -1,12 +1,16 @@
 import { serverSupabaseClient } from '#supabase/server'
 import { requireUserId } from '../../utils/auth'
+import { requireCaseAccess } from '../../utils/cases'
 
 /**
  * GET /api/messages/:id
  *
  * Returns the requested message plus its thread context (siblings sharing the
- * same thread_id within the same case, ordered ascending by sent_at). RLS
- * keeps the data scoped to the user's owned cases.
+ * same thread_id within the same case, ordered ascending by sent_at), the
+ * per-message tone / flags classifications for those messages, and the
+ * attachments extracted from OFW reports (evidence rows) or still to get
+ * (need_to_get evidence mentions). RLS keeps the data scoped to cases the
+ * user owns or collaborates on.
  */
 export default defineEventHandler(async (event) => {
   const supabase = await serverSupabaseClient(event)
@@ -32,10 +36,8 @@ export default defineEventHandler(async (event) => {
     throw createError({ statusCode: 404, statusMessage: 'Message not found.' })
   }
 
-  // RLS already enforces case ownership; this is belt-and-braces for clarity.
-  if (message.user_id !== userId) {
-    throw createError({ statusCode: 403, statusMessage: 'Forbidden.' })
-  }
+  // RLS already enforces case access; this is belt-and-braces for clarity.
+  await requireCaseAccess(supabase, userId, message.case_id)
 
   let thread: typeof message[] = []
   if (message.thread_id) {
@@ -53,5 +55,51 @@ export default defineEventHandler(async (event) => {
     }
   }
 
-  return { message, thread }
+  // Per-message tone / flags, keyed by message id. Messages the classifier
+  // hasn't reached yet are simply absent.
+  let classificationQuery = supabase
+    .from('message_classifications')
+    .select('message_id, tone, flags')
+    .eq('case_id', message.case_id)
+  classificationQuery = message.thread_id
+    ? classificationQuery.eq('thread_id', message.thread_id)
+    : classificationQuery.eq('message_id', message.id)
+  const { data: classificationRows, error: classificationError } = await classificationQuery
+  if (classificationError) {
+    console.error('[GET /api/messages/:id] classification lookup error:', classificationError)
+  }
+  const classifications = Object.fromEntries(
+    (classificationRows ?? []).map(c => [c.message_id, { tone: c.tone, flags: c.flags }])
+  )
+
+  // Attachments, keyed by message id like the classifications.
+  const messageIds = thread.length ? thread.map(m => m.id) : [message.id]
+  const [evidenceResult, mentionResult] = await Promise.all([
+    supabase
+      .from('evidence')
+      .select('id, message_id, original_filename, mime_type, source_type')
+      .in('message_id', messageIds)
+      .order('created_at', { ascending: true }),
+    supabase
+      .from('evidence_mentions')
+      .select('id, message_id, description, status')
+      .in('message_id', messageIds)
+      .eq('status', 'need_to_get')
+  ])
+  if (evidenceResult.error) {
+    console.error('[GET /api/messages/:id] attachment evidence lookup error:', evidenceResult.error)
+  }
+  if (mentionResult.error) {
+    console.error('[GET /api/messages/:id] attachment mention lookup error:', mentionResult.error)
+  }
+  const attachmentEvidence: Record<string, NonNullable<typeof evidenceResult.data>> = {}
+  for (const e of evidenceResult.data ?? []) {
+    if (e.message_id) (attachmentEvidence[e.message_id] ??= []).push(e)
+  }
+  const attachmentsToGet: Record<string, string[]> = {}
+  for (const m of mentionResult.data ?? []) {
+    if (m.message_id) (attachmentsToGet[m.message_id] ??= []).push(m.description)
+  }
+
+  return { message, thread, classifications, attachmentEvidence, attachmentsToGet }
 })
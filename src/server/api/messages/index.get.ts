@@ -4,6 +4,7 @@ import { getActiveCaseIdOrNull } from '../../utils/cases'
 
 const DEFAULT_LIMIT = 100
 const MAX_LIMIT = 500
+const MESSAGE_SOURCES = ['ofw', 'sms', 'whatsapp', 'email']
 
 /**
  * GET /api/messages
@@ -13,6 +14,7 @@ const MAX_LIMIT = 500
  *   - from     ISO date — sent_at >= from
  *   - to       ISO date — sent_at <= to
  *   - sender   exact match on sender field (multi-allowed: pass repeated ?sender=)
+ *   - source   ofw | sms | whatsapp | email
  *   - q        full-text search over body (Postgres FTS via to_tsvector)
  *   - limit    1..500, default 100
  *   - offset   pagination
@@ -35,6 +37,7 @@ export default defineEventHandler(async (event) => {
   const from = typeof query.from === 'string' ? query.from : null
   const to = typeof query.to === 'string' ? query.to : null
   const q = typeof query.q === 'string' ? query.q.trim() : ''
+  const source = typeof query.source === 'string' && MESSAGE_SOURCES.includes(query.source) ? query.source : null
   const sendersRaw = query.sender
   const senders: string[] = Array.isArray(sendersRaw)
     ? sendersRaw.filter((s): s is string => typeof s === 'string' && s.length > 0)
@@ -52,7 +55,7 @@ export default defineEventHandler(async (event) => {
   let builder = supabase
     .from('messages')
     .select(
-      'id, sent_at, first_viewed_at, sender, recipient, subject, body, thread_id, message_number, sequence_number, word_count, attachments, evidence_id',
+      'id, sent_at, first_viewed_at, sender, recipient, subject, body, thread_id, message_number, sequence_number, word_count, attachments, evidence_id, source',
       { count: 'exact' }
     )
     .eq('case_id', caseId)
@@ -62,6 +65,7 @@ export default defineEventHandler(async (event) => {
   if (from) builder = builder.gte('sent_at', from)
   if (to) builder = builder.lte('sent_at', to)
   if (senders.length) builder = builder.in('sender', senders)
+  if (source) builder = builder.eq('source', source)
   if (q) {
     // websearch_to_tsquery handles user-entered search syntax safely.
     builder = builder.textSearch('body', q, { config: 'english', type: 'websearch' })
@@ -0,0 +1,64 @@
+import { serverSupabaseClient } from '#supabase/server'
+import type { Database } from '~/types/database.types'
+import { requireUserId } from '../../utils/auth'
+import { getActiveCaseIdOrNull } from '../../utils/cases'
+
+export interface MessageThreadListItem {
+  threadId: string
+  subject: string | null
+  participants: string[]
+  messageCount: number
+  firstSentAt: string | null
+  lastSentAt: string | null
+}
+
+/**
+ * GET /api/messages/threads
+ *
+ * Lists every OFW thread in the active case (or ?caseId=) with its live message
+ * count. Subject / participants / date range come from message_threads when a
+ * summary row exists; threads that have not been summarized yet still appear.
+ * Ordered newest-first by last message.
+ */
+export default defineEventHandler(async (event) => {
+  const supabase = await serverSupabaseClient<Database>(event)
+  const userId = await requireUserId(event, supabase)
+
+  const query = getQuery(event)
+  const override = typeof query.caseId === 'string' ? query.caseId : null
+  const caseId = await getActiveCaseIdOrNull(supabase, userId, override)
+
+  if (!caseId) {
+    return { threads: [] as MessageThreadListItem[] }
+  }
+
+  const [{ data: counts, error: countsError }, { data: rows, error: rowsError }] = await Promise.all([
+    supabase.rpc('case_thread_message_counts', { p_case_id: caseId }),
+    supabase
+      .from('message_threads')
+      .select('thread_id, subject, participants, first_sent_at, last_sent_at')
+      .eq('case_id', caseId)
+  ])
+
+  if (countsError || rowsError) {
+    console.error('[GET /api/messages/threads] supabase error:', countsError ?? rowsError)
+    throw createError({ statusCode: 500, statusMessage: 'Failed to load message threads.' })
+  }
+
+  const meta = new Map((rows ?? []).map(r => [r.thread_id, r]))
+  const threads: MessageThreadListItem[] = (counts ?? []).map((c) => {
+    const row = meta.get(c.thread_id)
+    return {
+      threadId: c.thread_id,
+      subject: row?.subject ?? null,
+      participants: row?.participants ?? [],
+      messageCount: Number(c.message_count),
+      firstSentAt: row?.first_sent_at ?? null,
+      lastSentAt: row?.last_sent_at ?? null
+    }
+  })
+
+  threads.sort((a, b) => (b.lastSentAt ?? '').localeCompare(a.lastSentAt ?? ''))
+
+  return { threads }
+})
@@ -1,5 +1,9 @@
 import { serverSupabaseClient, serverSupabaseUser } from '#supabase/server'
 
+function isLocalTime(value: unknown): value is string {
+  return typeof value === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value)
+}
+
 export default defineEventHandler(async (event) => {
   const authUser = await serverSupabaseUser(event)
   
@@ -37,6 +41,63 @@ export default defineEventHandler(async (event) => {
   if (body.onboarding_completed_at !== undefined) {
     updateData.onboarding_completed_at = body.onboarding_completed_at
   }
+
+  if (body.email_reminders !== undefined) {
+    if (typeof body.email_reminders !== 'boolean') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'email_reminders must be true or false'
+      })
+    }
+    updateData.email_reminders = body.email_reminders
+  }
+
+  if (body.journal_nudge_enabled !== undefined) {
+    if (typeof body.journal_nudge_enabled !== 'boolean') {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'journal_nudge_enabled must be true or false'
+      })
+    }
+    updateData.journal_nudge_enabled = body.journal_nudge_enabled
+  }
+
+  if (body.journal_nudge_time !== undefined) {
+    if (!isLocalTime(body.journal_nudge_time)) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'journal_nudge_time must be HH:MM'
+      })
+    }
+    updateData.journal_nudge_time = body.journal_nudge_time
+  }
+
+  if (body.journal_nudge_days !== undefined) {
+    if (
+      !Array.isArray(body.journal_nudge_days)
+      || !body.journal_nudge_days.every((d: unknown) => Number.isInteger(d) && (d as number) >= 0 && (d as number) <= 6)
+    ) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'journal_nudge_days must be weekdays 0 (Sunday) to 6 (Saturday)'
+      })
+    }
+    updateData.journal_nudge_days = [...new Set(body.journal_nudge_days as number[])].sort((a, b) => a - b)
+  }
+
+  // Quiet hours are set or cleared together.
+  if (body.quiet_hours_start !== undefined || body.quiet_hours_end !== undefined) {
+    const start = body.quiet_hours_start ?? null
+    const end = body.quiet_hours_end ?? null
+    if ((start === null) !== (end === null) || (start !== null && (!isLocalTime(start) || !isLocalTime(end)))) {
+      throw createError({
+        statusCode: 400,
+        statusMessage: 'quiet_hours_start and quiet_hours_end must both be HH:MM or both be null'
+      })
+    }
+    updateData.quiet_hours_start = start
+    updateData.quiet_hours_end = end
+  }
   
   // Check if profile exists
   const { data: existingProfile } = await client
@@ -0,0 +1,208 @@
+import { inngest } from '../client'
+import { createServiceClient } from '../../utils/service-client'
+import { chunk } from '../../utils/arrays'
+import { failedEventData } from '../../utils/inngest-events'
+import { parseChatExport, type ChatImportMessage } from '../../utils/chat-import'
+import { loadExistingDedupeKeys, maxSequenceNumber } from '../../utils/message-sources'
+import { summarizeThreadMissing } from '../../utils/threads'
+import type { Database, Json } from '~/types/database.types'
+
+interface ChatImportEventData {
+  evidenceId: string
+  caseId: string
+  userId: string
+  jobId: string
+}
+
+const INSERT_CHUNK_SIZE = 500
+
+function toMessageRow(
+  msg: ChatImportMessage,
+  sequenceNumber: number,
+  caseId: string,
+  userId: string,
+  evidenceId: string
+): Database['public']['Tables']['messages']['Insert'] {
+  return {
+    case_id: caseId,
+    user_id: userId,
+    evidence_id: evidenceId,
+    source: msg.source,
+    dedupe_key: msg.dedupeKey,
+    sequence_number: sequenceNumber,
+    message_number: null,
+    sent_at: msg.sent,
+    first_viewed_at: null,
+    sender: msg.from,
+    recipient: msg.to,
+    subject: msg.subject,
+    body: msg.body,
+    thread_id: msg.threadId,
+    word_count: msg.wordCount,
+    attachments: msg.attachments as unknown as Json
+  }
+}
+
+/**
+ * Imports a WhatsApp `.txt` export or an SMS Backup & Restore `.xml` file
+ * into `messages`, then fans out thread summaries and embeddings the same way
+ * ofw-ingest does. Unlike OFW, there is no drift check: each chat export is
+ * one conversation history, not a snapshot of the whole case.
+ */
+export const chatImportFunction = inngest.createFunction(
+  {
+    id: 'chat-import',
+    retries: 2,
+    // Sequence numbers continue from the case's current max; two imports into
+    // one case must not read the same max and collide.
+    concurrency: { key: 'event.data.caseId', limit: 1 },
+    onFailure: async ({ event, error }) => {
+      try {
+        const supabase = createServiceClient()
+        const inner = failedEventData<ChatImportEventData>(event)
+        if (inner?.jobId) {
+          await supabase.from('jobs').update({
+            status: 'failed',
+            error_message: error?.message ?? 'Unknown import failure',
+            completed_at: new Date().toISOString()
+          }).eq('id', inner.jobId)
+        }
+      } catch (e) {
+        console.error('[chat-import] onFailure handler crashed:', e)
+      }
+    }
+  },
+  { event: 'evidence/chat_export.uploaded' },
+  async ({ event, step }) => {
+    const { evidenceId, caseId, userId, jobId } = event.data as ChatImportEventData
+    const supabase = createServiceClient()
+
+    await step.run('mark-processing', async () => {
+      const { error } = await supabase.from('jobs').update({
+        status: 'processing',
+        started_at: new Date().toISOString()
+      }).eq('id', jobId)
+      if (error) throw new Error(`Failed to mark job processing: ${error.message}`)
+    })
+
+    const context = await step.run('load-context', async () => {
+      const { data: evidence, error } = await supabase
+        .from('evidence')
+        .select('storage_path, original_filename')
+        .eq('id', evidenceId)
+        .single()
+      if (error || !evidence?.storage_path) {
+        throw new Error(`Evidence ${evidenceId} has no storage_path: ${error?.message ?? 'missing'}`)
+      }
+      // Outgoing SMS are labelled with the user's name, and SMS epoch
+      // timestamps are rendered in their zone to match OFW's wall-clock times.
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('full_name, timezone')
+        .eq('id', userId)
+        .maybeSingle()
+      return {
+        storagePath: evidence.storage_path,
+        filename: evidence.original_filename || evidence.storage_path,
+        selfName: profile?.full_name ?? undefined,
+        timeZone: profile?.timezone ?? undefined
+      }
+    })
+
+    // Download + parse in one step so the raw file never goes through step state.
+    const result = await step.run('download-and-parse', async () => {
+      const { data: blob, error } = await supabase.storage
+        .from('daylight-files')
+        .download(context.storagePath)
+      if (error || !blob) {
+        throw new Error(`Failed to download chat export: ${error?.message ?? 'no blob'}`)
+      }
+      const parsed = parseChatExport(await blob.text(), context.filename, {
+        selfName: context.selfName,
+        timeZone: context.timeZone
+      })
+      return {
+        source: parsed.metadata.source,
+        totalMessages: parsed.metadata.totalMessages,
+        conversationCount: parsed.metadata.conversationCount,
+        threadCount: parsed.metadata.threadCount,
+        senders: parsed.metadata.senders,
+        dateRange: parsed.metadata.dateRange,
+        messages: parsed.messages
+      }
+    })
+
+    const insertedIds = await step.run('insert-messages', async () => {
+      // Filter known dedupe keys first so sequence numbers are only handed to
+      // new rows. The unique (case_id, source, dedupe_key) constraint still
+      // backstops a concurrent import of the same file.
+      const existing = await loadExistingDedupeKeys(supabase, caseId, result.source)
+      const fresh = result.messages.filter(m => !existing.has(m.dedupeKey))
+      let next = await maxSequenceNumber(supabase, caseId, result.source)
+
+      const rows = fresh.map(m => toMessageRow(m, ++next, caseId, userId, evidenceId))
+      const ids: string[] = []
+      for (const c of chunk(rows, INSERT_CHUNK_SIZE)) {
+        const { data, error } = await supabase
+          .from('messages')
+          .upsert(c, { onConflict: 'case_id,source,dedupe_key', ignoreDuplicates: true })
+          .select('id')
+        if (error) throw new Error(`Failed to insert messages: ${error.message}`)
+        ids.push(...(data ?? []).map(r => r.id))
+      }
+      return ids
+    })
+    const inserted = insertedIds.length
+
+    await step.run('enqueue-embeddings', async () => {
+      if (!insertedIds.length) return { enqueued: 0 }
+      await inngest.send({
+        name: 'embeddings/sync.requested',
+        data: { caseId, kind: 'message', recordIds: insertedIds }
+      })
+      return { enqueued: insertedIds.length }
+    })
+
+    await step.run('enqueue-schedule-check', async () => {
+      if (!insertedIds.length) return { enqueued: false }
+      await inngest.send({ name: 'schedule/check.requested', data: { caseId, userId } })
+      return { enqueued: true }
+    })
+
+    await step.run('finalize', async () => {
+      const { error } = await supabase.from('jobs').update({
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+        result_summary: {
+          source_format: result.source,
+          messages_parsed: result.totalMessages,
+          messages_inserted: inserted,
+          conversation_count: result.conversationCount,
+          thread_count: result.threadCount,
+          date_range: result.dateRange,
+          senders: result.senders,
+          evidence_id: evidenceId,
+          case_id: caseId
+        }
+      }).eq('id', jobId)
+      if (error) throw new Error(`Failed to finalize job: ${error.message}`)
+    })
+
+    await step.run('enqueue-thread-summaries', async () => {
+      const deltas = await summarizeThreadMissing(supabase, caseId)
+      if (!deltas.length) return { enqueued: 0 }
+      await inngest.send(deltas.map(d => ({
+        name: 'messages/thread.summarize_requested',
+        data: {
+          caseId,
+          userId,
+          evidenceId,
+          threadId: d.threadId
+        }
+      })))
+      return { enqueued: deltas.length }
+    })
+
+    return { messagesParsed: result.totalMessages, messagesInserted: inserted }
+  }
+)
@@ -0,0 +1,307 @@
+import { createHash } from 'node:crypto'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { inngest } from '../client'
+import { createServiceClient } from '../../utils/service-client'
+import { chunk } from '../../utils/arrays'
+import { failedEventData } from '../../utils/inngest-events'
+import { assignEmailThreads, parseEmailExport, type EmailImportMessage } from '../../utils/email-import'
+import { loadExistingDedupeKeys, maxSequenceNumber } from '../../utils/message-sources'
+import { summarizeThreadMissing } from '../../utils/threads'
+import type { Database, Json } from '~/types/database.types'
+
+type PublicClient = SupabaseClient<Database, 'public'>
+
+interface EmailImportEventData {
+  evidenceId: string
+  caseId: string
+  userId: string
+  jobId: string
+}
+
+const INSERT_CHUNK_SIZE = 500
+const ID_CHUNK_SIZE = 200
+
+/** Message-ID → messages row id for email messages stored in the case. */
+async function loadMessageRowIds(supabase: PublicClient, caseId: string, keys: string[]): Promise<Map<string, string>> {
+  const rowIds = new Map<string, string>()
+  for (const keyChunk of chunk(keys, ID_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('id, dedupe_key')
+      .eq('case_id', caseId)
+      .eq('source', 'email')
+      .in('dedupe_key', keyChunk)
+    if (error) throw new Error(`Failed to load message ids: ${error.message}`)
+    for (const row of data ?? []) {
+      if (row.dedupe_key) rowIds.set(row.dedupe_key, row.id)
+    }
+  }
+  return rowIds
+}
+
+/** Message-ID → thread_id for ids already stored as email messages in the case. */
+async function loadKnownThreads(supabase: PublicClient, caseId: string, ids: string[]): Promise<Map<string, string>> {
+  const known = new Map<string, string>()
+  for (const idChunk of chunk([...new Set(ids)], ID_CHUNK_SIZE)) {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('dedupe_key, thread_id')
+      .eq('case_id', caseId)
+      .eq('source', 'email')
+      .in('dedupe_key', idChunk)
+    if (error) throw new Error(`Failed to load known threads: ${error.message}`)
+    for (const row of data ?? []) {
+      if (row.dedupe_key && row.thread_id) known.set(row.dedupe_key, row.thread_id)
+    }
+  }
+  return known
+}
+
+function toMessageRow(
+  msg: EmailImportMessage,
+  sequenceNumber: number,
+  caseId: string,
+  userId: string,
+  evidenceId: string
+): Database['public']['Tables']['messages']['Insert'] {
+  return {
+    case_id: caseId,
+    user_id: userId,
+    evidence_id: evidenceId,
+    source: 'email',
+    dedupe_key: msg.messageKey,
+    sequence_number: sequenceNumber,
+    message_number: null,
+    sent_at: msg.sent,
+    first_viewed_at: null,
+    sender: msg.from,
+    recipient: msg.to,
+    subject: msg.subject || null,
+    body: msg.body,
+    thread_id: msg.threadId,
+    word_count: msg.wordCount,
+    attachments: msg.attachments as unknown as Json
+  }
+}
+
+/**
+ * Imports an `.eml` or `.mbox` upload: each email becomes a `messages` row
+ * (source 'email') and each attachment its own `evidence` row. Then fans out
+ * thread summaries and embeddings like ofw-ingest.
+ */
+export const emailImportFunction = inngest.createFunction(
+  {
+    id: 'email-import',
+    retries: 2,
+    // Sequence numbers continue from the case's current max; two imports into
+    // one case must not read the same max and collide.
+    concurrency: { key: 'event.data.caseId', limit: 1 },
+    onFailure: async ({ event, error }) => {
+      try {
+        const supabase = createServiceClient()
+        const inner = failedEventData<EmailImportEventData>(event)
+        if (inner?.jobId) {
+          await supabase.from('jobs').update({
+            status: 'failed',
+            error_message: error?.message ?? 'Unknown import failure',
+            completed_at: new Date().toISOString()
+          }).eq('id', inner.jobId)
+        }
+      } catch (e) {
+        console.error('[email-import] onFailure handler crashed:', e)
+      }
+    }
+  },
+  { event: 'evidence/email_export.uploaded' },
+  async ({ event, step }) => {
+    const { evidenceId, caseId, userId, jobId } = event.data as EmailImportEventData
+    const supabase = createServiceClient()
+
+    await step.run('mark-processing', async () => {
+      const { error } = await supabase.from('jobs').update({
+        status: 'processing',
+        started_at: new Date().toISOString()
+      }).eq('id', jobId)
+      if (error) throw new Error(`Failed to mark job processing: ${error.message}`)
+    })
+
+    const context = await step.run('load-context', async () => {
+      const { data: evidence, error } = await supabase
+        .from('evidence')
+        .select('storage_path, original_filename')
+        .eq('id', evidenceId)
+        .single()
+      if (error || !evidence?.storage_path) {
+        throw new Error(`Evidence ${evidenceId} has no storage_path: ${error?.message ?? 'missing'}`)
+      }
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('timezone')
+        .eq('id', userId)
+        .maybeSingle()
+      return {
+        storagePath: evidence.storage_path,
+        filename: evidence.original_filename || evidence.storage_path,
+        timeZone: profile?.timezone ?? undefined
+      }
+    })
+
+    const download = async () => {
+      const { data: blob, error } = await supabase.storage
+        .from('daylight-files')
+        .download(context.storagePath)
+      if (error || !blob) {
+        throw new Error(`Failed to download email export: ${error?.message ?? 'no blob'}`)
+      }
+      return await parseEmailExport(new Uint8Array(await blob.arrayBuffer()), context.filename, {
+        timeZone: context.timeZone
+      })
+    }
+
+    // Attachment bytes stay out of step state: this step returns message
+    // metadata only, and store-attachments re-parses the file.
+    const result = await step.run('download-and-parse', async () => {
+      const parsed = await download()
+      return {
+        totalMessages: parsed.metadata.totalMessages,
+        skipped: parsed.metadata.skipped,
+        threadCount: parsed.metadata.threadCount,
+        attachmentCount: parsed.metadata.attachmentCount,
+        senders: parsed.metadata.senders,
+        dateRange: parsed.metadata.dateRange,
+        messages: parsed.messages
+      }
+    })
+
+    const insertedIds = await step.run('insert-messages', async () => {
+      const existing = await loadExistingDedupeKeys(supabase, caseId, 'email')
+      const fresh = result.messages.filter(m => !existing.has(m.messageKey))
+      if (!fresh.length) return []
+
+      // Re-thread against what is already stored so a reply in this upload
+      // lands in the thread its original was imported into.
+      const known = await loadKnownThreads(
+        supabase,
+        caseId,
+        result.messages.flatMap(m => [m.messageKey, ...m.references])
+      )
+      const threaded = assignEmailThreads(result.messages, known)
+        .filter(m => !existing.has(m.messageKey))
+
+      let next = await maxSequenceNumber(supabase, caseId, 'email')
+      const rows = threaded.map(m => toMessageRow(m, ++next, caseId, userId, evidenceId))
+      const ids: string[] = []
+      for (const c of chunk(rows, INSERT_CHUNK_SIZE)) {
+        const { data, error } = await supabase
+          .from('messages')
+          .upsert(c, { onConflict: 'case_id,source,dedupe_key', ignoreDuplicates: true })
+          .select('id')
+        if (error) throw new Error(`Failed to insert messages: ${error.message}`)
+        ids.push(...(data ?? []).map(r => r.id))
+      }
+      return ids
+    })
+    const inserted = insertedIds.length
+
+    // After insert-messages so each file can link to its message row.
+    const attachmentsStored = await step.run('store-attachments', async () => {
+      if (!result.attachmentCount) return 0
+      const parsed = await download()
+      const byKey = new Map(result.messages.map(m => [m.messageKey, m]))
+      const rowIds = await loadMessageRowIds(supabase, caseId, [...new Set(parsed.attachments.map(f => f.messageKey))])
+      let stored = 0
+
+      for (const file of parsed.attachments) {
+        // Keyed by case, Message-ID and part, not this upload, so re-importing
+        // an overlapping mailbox (or retrying this step) reuses the same rows,
+        // while the same email imported into another case gets its own file.
+        const folder = createHash('sha256').update(file.messageKey).digest('hex').slice(0, 16)
+        const safeName = file.filename.replace(/\s+/g, '_').replace(/[^a-zA-Z0-9._-]/g, '') || 'attachment'
+        const storagePath = `evidence/${userId}/email/${caseId}/${folder}/${file.index + 1}-${safeName}`
+
+        const { data: existing, error: existingError } = await supabase
+          .from('evidence')
+          .select('id')
+          .eq('case_id', caseId)
+          .eq('storage_path', storagePath)
+          .maybeSingle()
+        if (existingError) throw new Error(`Failed to check attachment ${file.filename}: ${existingError.message}`)
+        if (existing) continue
+
+        const { error: uploadError } = await supabase.storage
+          .from('daylight-files')
+          .upload(storagePath, file.content, { contentType: file.mimeType, upsert: true })
+        if (uploadError) throw new Error(`Failed to store attachment ${file.filename}: ${uploadError.message}`)
+
+        const msg = byKey.get(file.messageKey)
+        const { error: insertError } = await supabase.from('evidence').insert({
+          user_id: userId,
+          case_id: caseId,
+          message_id: rowIds.get(file.messageKey) ?? null,
+          source_type: file.mimeType.startsWith('image/') ? 'photo' : 'document',
+          storage_path: storagePath,
+          original_filename: file.filename,
+          mime_type: file.mimeType,
+          summary: msg
+            ? `Attachment to email "${msg.subject || '(no subject)'}" from ${msg.from}, ${msg.sent.slice(0, 10)}`
+            : 'Email attachment',
+          tags: ['email-attachment']
+        })
+        if (insertError) throw new Error(`Failed to record attachment ${file.filename}: ${insertError.message}`)
+        stored++
+      }
+      return stored
+    })
+
+    await step.run('enqueue-embeddings', async () => {
+      if (!insertedIds.length) return { enqueued: 0 }
+      await inngest.send({
+        name: 'embeddings/sync.requested',
+        data: { caseId, kind: 'message', recordIds: insertedIds }
+      })
+      return { enqueued: insertedIds.length }
+    })
+
+    await step.run('enqueue-schedule-check', async () => {
+      if (!insertedIds.length) return { enqueued: false }
+      await inngest.send({ name: 'schedule/check.requested', data: { caseId, userId } })
+      return { enqueued: true }
+    })
+
+    await step.run('finalize', async () => {
+      const { error } = await supabase.from('jobs').update({
+        status: 'completed',
+        completed_at: new Date().toISOString(),
+        result_summary: {
+          messages_parsed: result.totalMessages,
+          messages_inserted: inserted,
+          messages_skipped: result.skipped,
+          attachments_stored: attachmentsStored,
+          thread_count: result.threadCount,
+          date_range: result.dateRange,
+          senders: result.senders,
+          evidence_id: evidenceId,
+          case_id: caseId
+        }
+      }).eq('id', jobId)
+      if (error) throw new Error(`Failed to finalize job: ${error.message}`)
+    })
+
+    await step.run('enqueue-thread-summaries', async () => {
+      const deltas = await summarizeThreadMissing(supabase, caseId)
+      if (!deltas.length) return { enqueued: 0 }
+      await inngest.send(deltas.map(d => ({
+        name: 'messages/thread.summarize_requested',
+        data: {
+          caseId,
+          userId,
+          evidenceId,
+          threadId: d.threadId
+        }
+      })))
+      return { enqueued: deltas.length }
+    })
+
+    return { messagesParsed: result.totalMessages, messagesInserted: inserted, attachmentsStored }
+  }
+)
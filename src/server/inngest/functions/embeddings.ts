@@ -0,0 +1,88 @@
+import { inngest } from '../client'
+import { createServiceClient } from '../../utils/service-client'
+import { EMBEDDING_KINDS, syncEmbeddings, type EmbeddingKind } from '../../utils/embeddings'
+
+interface EmbeddingsSyncEventData {
+  caseId: string
+  kind: EmbeddingKind
+  /** Rows to (re-)embed. Omit to reconcile the whole kind for the case. */
+  recordIds?: string[]
+}
+
+interface EmbeddingsBackfillEventData {
+  caseId: string
+  kinds?: EmbeddingKind[]
+}
+
+function requireApiKey(): string {
+  const apiKey = process.env.OPENAI_API_KEY
+  if (!apiKey) throw new Error('OPENAI_API_KEY is not configured')
+  return apiKey
+}
+
+/**
+ * Incremental path. ofw-ingest and journal-extraction send
+ * `embeddings/sync.requested` with the ids they just wrote, so new records are
+ * searchable by the semantic_search chat tool within seconds of import.
+ */
+export const embeddingsSyncFunction = inngest.createFunction(
+  {
+    id: 'embeddings-sync',
+    retries: 2,
+    // Embedding calls are cheap but rate-limited per org; a large OFW import
+    // fans out one event per upload, so a small cap is enough.
+    concurrency: { limit: 5 }
+  },
+  { event: 'embeddings/sync.requested' },
+  async ({ event, step }) => {
+    const { caseId, kind, recordIds } = event.data as EmbeddingsSyncEventData
+
+    if (!caseId || !EMBEDDING_KINDS.includes(kind)) {
+      throw new Error('embeddings-sync requires caseId and a valid kind on the event payload')
+    }
+    if (recordIds && !recordIds.length) {
+      return { skipped: true, reason: 'no record ids' }
+    }
+
+    const supabase = createServiceClient()
+
+    const result = await step.run('sync', async () => {
+      return await syncEmbeddings(supabase, caseId, kind, requireApiKey(), recordIds)
+    })
+
+    return { caseId, kind, ...result }
+  }
+)
+
+/**
+ * Backfill path. Reconciles every kind for one case: embeds records that are
+ * missing or whose text changed, and deletes vectors for records that no
+ * longer exist. Enqueued per case by /api/internal/backfill-embeddings.
+ */
+export const embeddingsBackfillFunction = inngest.createFunction(
+  {
+    id: 'embeddings-backfill',
+    retries: 2,
+    concurrency: { limit: 2 }
+  },
+  { event: 'embeddings/backfill.requested' },
+  async ({ event, step }) => {
+    const { caseId, kinds } = event.data as EmbeddingsBackfillEventData
+
+    if (!caseId) {
+      throw new Error('embeddings-backfill requires caseId on the event payload')
+    }
+
+    const supabase = createServiceClient()
+    const perKind: Record<string, Awaited<ReturnType<typeof syncEmbeddings>>> = {}
+
+    for (const kind of kinds?.length ? kinds : EMBEDDING_KINDS) {
+      // One step per kind so a failure in messages does not redo events.
+      perKind[kind] = await step.run(`sync-${kind}`, async () => {
+        return await syncEmbeddings(supabase, caseId, kind, requireApiKey())
+      })
+    }
+
+    return { caseId, perKind }
+  }
+)
@@ -0,0 +1,24 @@
+import { inngest } from '../client'
+import { createServiceClient } from '../../utils/service-client'
+
+/**
+ * Daily sweep of expired Idempotency-Key records (see server/utils/idempotency.ts).
+ * Expired rows are already ignored by retries; this only keeps the table small.
+ */
+export const idempotencyCleanupFunction = inngest.createFunction(
+  { id: 'idempotency-cleanup', retries: 2 },
+  { cron: '30 3 * * *' },
+  async ({ step }) => {
+    const deleted = await step.run('delete-expired', async () => {
+      const supabase = createServiceClient()
+      const { count, error } = await supabase
+        .from('idempotency_keys')
+        .delete({ count: 'exact' })
+        .lt('expires_at', new Date().toISOString())
+      if (error) throw new Error(`Failed to delete expired idempotency keys: ${error.message}`)
+      return count ?? 0
+    })
+
+    return { deleted }
+  }
+)
@@ -1,5 +1,13 @@
 // Export all Inngest functions
+export { chatImportFunction } from './chat-import'
+export { embeddingsBackfillFunction, embeddingsSyncFunction } from './embeddings'
+export { emailImportFunction } from './email-import'
+export { idempotencyCleanupFunction } from './idempotency-cleanup'
 export { journalExtractionFunction } from './journal-extraction'
+export { journalNudgeFunction } from './journal-nudge'
+export { messageClassificationFunction } from './message-classification'
 export { ofwIngestFunction } from './ofw-ingest'
-export { threadSummarizationFunction } from './thread-summarization'
+export { remindersFunction } from './reminders'
+export { scheduleCheckFunction } from './schedule-check'
+export { threadSummarizationFunction, threadSummaryDryRunFunction } from './thread-summarization'
 
@@ -1,8 +1,10 @@
 import OpenAI from 'openai'
 import { zodTextFormat } from 'openai/helpers/zod'
 import { z } from 'zod'
-import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { inngest } from '../client'
+import { createServiceClient } from '../../utils/service-client'
+import { failedEventData } from '../../utils/inngest-events'
 import type { Database } from '~/types/database.types'
 import { getStateGuidance } from '../../utils/state-guidance'
 
@@ -12,6 +14,11 @@ interface JournalExtractionEvent {
   name: 'journal/extraction.requested'
   data: {
     jobId: string
+    /**
+     * jobId is the journal_import job shared by every entry of a bulk import:
+     * roll the entries up into it instead of completing it per entry.
+     */
+    batch?: boolean
     journalEntryId: string
     userId: string
     caseId: string
@@ -207,27 +214,6 @@ const ExtractionSchema = z.object({
 type ExtractionResult = z.infer<typeof ExtractionSchema>
 type ExtractionPayload = ExtractionResult['extraction']
 
-function createServiceClient(): PublicClient {
-  // Use process.env directly instead of useRuntimeConfig() because Inngest functions
-  // run in a webhook callback context where Nuxt's runtime config may not be available
-  const supabaseUrl = process.env.SUPABASE_URL
-  const supabaseServiceKey = process.env.SUPABASE_SECRET_KEY || process.env.SUPABASE_SERVICE_ROLE_KEY
-
-  if (!supabaseUrl || !supabaseServiceKey) {
-    throw new Error('Missing SUPABASE_URL or SUPABASE_SECRET_KEY environment variables')
-  }
-
-  return createClient<Database>(
-    supabaseUrl,
-    supabaseServiceKey,
-    {
-      auth: {
-        persistSession: false
-      }
-    }
-  )
-}
-
 async function processEvidenceItem(
   supabase: PublicClient,
   evidenceId: string,
@@ -838,6 +824,55 @@ async function saveExtractedEvents(
   }
 }
 
+/**
+ * Recount a bulk import's entries into its journal_import job, completing it
+ * once none is still processing. Every entry recounts, so the last one to
+ * finish closes the job whatever order they finish in. Only a running job is
+ * updated, so its closing summary is final.
+ */
+async function rollUpImportJob(supabase: PublicClient, jobId: string) {
+  const { data: entries, error } = await supabase
+    .from('journal_entries')
+    .select('id, status')
+    .eq('extraction_job_id', jobId)
+  if (error) throw new Error(`Failed to load import entries: ${error.message}`)
+
+  const total = entries?.length ?? 0
+  const completedIds = (entries ?? []).filter(e => e.status === 'completed').map(e => e.id)
+  const failed = (entries ?? []).filter(e => e.status === 'cancelled').length
+  const done = completedIds.length + failed === total
+
+  let eventsCreated = 0
+  if (done && completedIds.length) {
+    const { count } = await supabase
+      .from('events')
+      .select('id', { count: 'exact', head: true })
+      .in('journal_entry_id', completedIds)
+    eventsCreated = count ?? 0
+  }
+
+  await supabase
+    .from('jobs')
+    .update({
+      result_summary: {
+        entries_total: total,
+        entries_completed: completedIds.length,
+        entries_failed: failed,
+        events_created: eventsCreated
+      },
+      ...(done
+        ? {
+            status: completedIds.length ? 'completed' as const : 'failed' as const,
+            completed_at: new Date().toISOString(),
+            error_message: failed ? `${failed} of ${total} entries failed to process` : null
+          }
+        : {})
+    })
+    .eq('id', jobId)
+    // A slower recount must not overwrite the final counts once the job closed.
+    .in('status', ['pending', 'processing'])
+}
+
 export const journalExtractionFunction = inngest.createFunction(
   {
     id: 'journal-extraction',
@@ -845,16 +880,19 @@ export const journalExtractionFunction = inngest.createFunction(
     onFailure: async ({ event, error }) => {
       const supabase = createServiceClient()
 
-      const failedEvent = event as unknown as JournalExtractionEvent
-
-      // Mark job as failed
-      await (supabase as any)
-        .from('jobs')
-        .update({
-          status: 'failed',
-          error_message: error.message
-        })
-        .eq('id', failedEvent.data.jobId)
+      const failed = failedEventData<JournalExtractionEvent['data']>(event)
+      if (!failed?.jobId) return
+
+      // Mark job as failed; one failed entry does not fail a whole import
+      if (!failed.batch) {
+        await (supabase as any)
+          .from('jobs')
+          .update({
+            status: 'failed',
+            error_message: error.message
+          })
+          .eq('id', failed.jobId)
+      }
 
       // Also update journal entry status if possible
       await supabase
@@ -864,13 +902,17 @@ export const journalExtractionFunction = inngest.createFunction(
           processing_error: error.message,
           updated_at: new Date().toISOString()
         })
-        .eq('id', failedEvent.data.journalEntryId)
+        .eq('id', failed.journalEntryId)
+
+      if (failed.batch) {
+        await rollUpImportJob(supabase, failed.jobId)
+      }
     }
   },
   { event: 'journal/extraction.requested' },
   async ({ event, step }) => {
     const extractionEvent = event as unknown as JournalExtractionEvent
-    const { jobId, journalEntryId, userId, caseId, eventText, referenceDate, evidenceIds = [] } =
+    const { jobId, batch = false, journalEntryId, userId, caseId, eventText, referenceDate, evidenceIds = [] } =
       extractionEvent.data
 
     if (!caseId) {
@@ -881,13 +923,15 @@ export const journalExtractionFunction = inngest.createFunction(
 
     // Step 1: Mark processing
     await step.run('mark-processing', async () => {
-      await (supabase as any)
+      // An import's job starts with its first entry
+      const jobUpdate = supabase
         .from('jobs')
         .update({
           status: 'processing',
           started_at: new Date().toISOString()
         })
         .eq('id', jobId)
+      await (batch ? jobUpdate.eq('status', 'pending') : jobUpdate)
 
       await supabase
         .from('journal_entries')
@@ -948,6 +992,11 @@ export const journalExtractionFunction = inngest.createFunction(
         })
         .eq('id', journalEntryId)
 
+      if (batch) {
+        await rollUpImportJob(supabase, jobId)
+        return
+      }
+
       await (supabase as any)
         .from('jobs')
         .update({
@@ -958,6 +1007,27 @@ export const journalExtractionFunction = inngest.createFunction(
         .eq('id', jobId)
     })
 
+    // Step 6: Make the entry and its events findable by semantic_search
+    await step.run('enqueue-embeddings', async () => {
+      await inngest.send([
+        {
+          name: 'embeddings/sync.requested',
+          data: { caseId, kind: 'journal', recordIds: [journalEntryId] }
+        },
+        {
+          name: 'embeddings/sync.requested',
+          data: { caseId, kind: 'event', recordIds: savedSummary.event_ids }
+        }
+      ])
+    })
+
+    // Step 7: Re-check the parenting schedule against the new events
+    await step.run('enqueue-schedule-check', async () => {
+      if (!savedSummary.event_ids.length) return { enqueued: false }
+      await inngest.send({ name: 'schedule/check.requested', data: { caseId, userId } })
+      return { enqueued: true }
+    })
+
     return savedSummary
   }
 )
@@ -0,0 +1,118 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { inngest } from '../client'
+import { createServiceClient } from '../../utils/service-client'
+import { getActiveCaseIdOrNull } from '../../utils/cases'
+import { createNotifier } from '../../utils/notifier'
+import { journalNudgeDay, nudgeSettingsFromProfile, renderJournalNudgeMessage } from '../../utils/journal-habits'
+import { loadJournalHabits } from '../../utils/journal-habits-data'
+import { getDateStringInTimezone, getTimeInTimezone, isValidTimezone } from '../../utils/timezone'
+import type { Database } from '~/types/database.types'
+
+type PublicClient = SupabaseClient<Database, 'public'>
+
+interface NudgeRecipient {
+  id: string
+  email: string | null
+  name: string | null
+  timezone: string
+  /** Local day the nudge window started on. */
+  day: string
+}
+
+const PAGE_SIZE = 1000
+
+/**
+ * Opted-in users whose nudge window contains this run. Whether they have
+ * journaled today is checked per user in nudgeUser.
+ */
+async function findRecipients(supabase: PublicClient, now: Date): Promise<NudgeRecipient[]> {
+  const out: NudgeRecipient[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, email, full_name, timezone, journal_nudge_enabled, journal_nudge_time, journal_nudge_days, quiet_hours_start, quiet_hours_end')
+      .eq('journal_nudge_enabled', true)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(`Failed to load profiles: ${error.message}`)
+    for (const row of data ?? []) {
+      const timezone = row.timezone && isValidTimezone(row.timezone) ? row.timezone : 'UTC'
+      // Just after midnight this is the previous day, whose window is still open.
+      const day = journalNudgeDay(nudgeSettingsFromProfile(row), getDateStringInTimezone(now, timezone), getTimeInTimezone(now, timezone))
+      if (!day) continue
+      out.push({ id: row.id, email: row.email, name: row.full_name, timezone, day })
+    }
+    if ((data?.length ?? 0) < PAGE_SIZE) break
+  }
+  return out
+}
+
+/** Nudge one user unless they already journaled or were nudged on the window's day. Returns whether one was sent. */
+async function nudgeUser(supabase: PublicClient, recipient: NudgeRecipient, now: Date): Promise<boolean> {
+  const key = `journal_nudge:${recipient.day}`
+  const { data: sent, error: sentError } = await supabase
+    .from('reminder_deliveries')
+    .select('reminder_key')
+    .eq('user_id', recipient.id)
+    .eq('reminder_key', key)
+    .maybeSingle()
+  if (sentError) throw new Error(`Failed to load reminder deliveries: ${sentError.message}`)
+  if (sent) return false
+
+  const caseId = await getActiveCaseIdOrNull(supabase, recipient.id)
+  const habits = await loadJournalHabits(supabase, recipient.id, caseId, recipient.timezone, now, recipient.day)
+  if (habits.streak.loggedToday) return false
+
+  const notifier = createNotifier()
+  const message = renderJournalNudgeMessage(
+    { name: recipient.name, streak: habits.streak, gaps: habits.gaps },
+    { baseUrl: process.env.PUBLIC_BASE_URL || 'https://www.daylight.legal' }
+  )
+  const result = await notifier.send({ userId: recipient.id, email: recipient.email, ...message })
+  if (!result.delivered) {
+    console.warn(`[journal-nudge] skipped ${recipient.id}: ${result.skipped}`)
+    return false
+  }
+
+  const { error: recordError } = await supabase
+    .from('reminder_deliveries')
+    .upsert(
+      { user_id: recipient.id, reminder_key: key, channel: notifier.channel },
+      { onConflict: 'user_id,reminder_key', ignoreDuplicates: true }
+    )
+  if (recordError) throw new Error(`Failed to record reminder delivery: ${recordError.message}`)
+
+  return true
+}
+
+/**
+ * Every 15 minutes: nudge users who opted in and have not journaled today,
+ * at their chosen local time on their chosen weekdays, held back until the
+ * end of their quiet hours.
+ */
+export const journalNudgeFunction = inngest.createFunction(
+  {
+    id: 'journal-nudge',
+    retries: 2,
+    // Overlapping runs could both pass the dedupe check before either records.
+    concurrency: { limit: 1 }
+  },
+  { cron: '*/15 * * * *' },
+  async ({ step }) => {
+    const supabase = createServiceClient()
+
+    // Fix "now" in the first step so retries evaluate the same window.
+    const { nowIso, recipients } = await step.run('find-recipients', async () => {
+      const now = new Date()
+      return { nowIso: now.toISOString(), recipients: await findRecipients(supabase, now) }
+    })
+    const now = new Date(nowIso)
+
+    let sent = 0
+    for (const recipient of recipients) {
+      if (await step.run(`nudge-${recipient.id}`, () => nudgeUser(supabase, recipient, now))) sent++
+    }
+
+    return { recipients: recipients.length, sent }
+  }
+)
@@ -0,0 +1,263 @@
+import OpenAI from 'openai'
+import { zodTextFormat } from 'openai/helpers/zod'
+import { z } from 'zod'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { inngest } from '../client'
+import { createServiceClient } from '../../utils/service-client'
+import { segmentThreadMessages } from '../../utils/thread-segments'
+import {
+  CLASSIFY_BATCH_MAX_CHARS,
+  CLASSIFY_BATCH_MAX_MESSAGES,
+  MESSAGE_CLASSIFICATION_VERSION,
+  MESSAGE_FLAGS,
+  MESSAGE_TONES,
+  matchClassifications
+} from '../../utils/message-classification'
+import type { Database } from '~/types/database.types'
+
+type PublicClient = SupabaseClient<Database, 'public'>
+
+interface MessageClassificationEventData {
+  caseId: string
+  threadId: string
+}
+
+const MODEL = 'gpt-5.4-mini'
+
+/** Longest body excerpt sent for the message before a batch (context only). */
+const CONTEXT_BODY_CHARS = 1500
+
+const PAGE_SIZE = 1000
+
+const ClassificationBatchSchema = z.object({
+  classifications: z.array(
+    z.object({
+      ref: z.string().describe('The message ref from the input, e.g. "m3".'),
+      tone: z
+        .enum(MESSAGE_TONES)
+        .describe('Conversational temperature of this one message, not a verdict on its sender.'),
+      flags: z
+        .array(z.enum(MESSAGE_FLAGS))
+        .describe('Descriptive tags for what this message does. Multiple allowed. Empty array if none apply.')
+    })
+  )
+})
+
+type BatchMessage = Pick<Database['public']['Tables']['messages']['Row'], 'id' | 'sent_at' | 'sender' | 'recipient' | 'subject' | 'body'>
+
+/**
+ * Ids of the thread's messages that still need classifying, in batches for
+ * the classifier. Only ids leave this step; bodies are re-read per batch.
+ */
+async function findPendingBatches(supabase: PublicClient, caseId: string, threadId: string): Promise<string[][]> {
+  const messages: Pick<BatchMessage, 'id' | 'body'>[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page, error } = await supabase
+      .from('messages')
+      .select('id, body')
+      .eq('case_id', caseId)
+      .eq('thread_id', threadId)
+      .order('sent_at', { ascending: true })
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(`Failed to load thread messages: ${error.message}`)
+    messages.push(...(page ?? []))
+    if ((page?.length ?? 0) < PAGE_SIZE) break
+  }
+  if (!messages.length) return []
+
+  const existing: { message_id: string, classification_version: number }[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page, error } = await supabase
+      .from('message_classifications')
+      .select('message_id, classification_version')
+      .eq('case_id', caseId)
+      .eq('thread_id', threadId)
+      .order('message_id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(`Failed to load classifications: ${error.message}`)
+    existing.push(...(page ?? []))
+    if ((page?.length ?? 0) < PAGE_SIZE) break
+  }
+
+  const current = new Set(
+    existing
+      .filter(c => c.classification_version >= MESSAGE_CLASSIFICATION_VERSION)
+      .map(c => c.message_id)
+  )
+  const pending = messages.filter(m => !current.has(m.id))
+
+  return segmentThreadMessages(pending, {
+    maxMessages: CLASSIFY_BATCH_MAX_MESSAGES,
+    maxChars: CLASSIFY_BATCH_MAX_CHARS
+  }).map(range => pending.slice(range.start, range.end).map(m => m.id))
+}
+
+async function loadBatch(
+  supabase: PublicClient,
+  caseId: string,
+  threadId: string,
+  messageIds: string[]
+): Promise<{ messages: BatchMessage[], previous: BatchMessage | null }> {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('id, sent_at, sender, recipient, subject, body')
+    .eq('case_id', caseId)
+    .in('id', messageIds)
+    .order('sent_at', { ascending: true })
+  if (error) throw new Error(`Failed to load batch: ${error.message}`)
+  const messages = data ?? []
+  if (!messages.length) return { messages, previous: null }
+
+  // The message being answered often decides whether a reply is a refusal.
+  const { data: previous, error: previousError } = await supabase
+    .from('messages')
+    .select('id, sent_at, sender, recipient, subject, body')
+    .eq('case_id', caseId)
+    .eq('thread_id', threadId)
+    .lt('sent_at', messages[0]!.sent_at)
+    .order('sent_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (previousError) throw new Error(`Failed to load context message: ${previousError.message}`)
+
+  return { messages, previous }
+}
+
+function buildClassifierPrompt(messages: BatchMessage[], previous: BatchMessage | null): { system: string, user: string } {
+  const system = [
+    'You classify individual messages between two co-parents (OFW messages, emails or texts) for a custody case.',
+    'For every message marked with a ref (m1, m2, …) return its tone and flags. Classify each message on its own words; the earlier message is context only.',
+    '',
+    'Tone:',
+    '- cooperative: constructive, accommodating, appreciative.',
+    '- neutral: plain logistics or information.',
+    '- tense: curt, defensive, sarcastic or pressuring, without insults or threats.',
+    '- hostile: insults, threats, demeaning or accusatory language.',
+    '',
+    'Flags (descriptive of the message, never of a person):',
+    '- schedule_change_request: asks to swap, move, extend or cancel parenting time or a handoff.',
+    '- refusal: declines a request or withholds information or agreement.',
+    '- information_request: asks the other parent for information (whereabouts, appointments, records).',
+    '- child_related: about the child\'s needs, wellbeing, activities or care.',
+    '- agreement: agrees to or confirms a proposal.',
+    '- financial: money, expenses, reimbursement or support.',
+    '- medical: health, appointments, medication, therapy.',
+    '- school: school, teachers, homework, childcare programs.',
+    '- safety_concern: raises a concern about a child\'s or parent\'s safety.',
+    '',
+    'Do not diagnose, label, or speculate about intent. A short logistical message is neutral with at most one or two flags — do not manufacture conflict.'
+  ].join('\n')
+
+  const lines: string[] = []
+  if (previous) {
+    const body = previous.body.trim()
+    lines.push('Earlier message (context only, do not classify):')
+    lines.push(`[${previous.sent_at}] ${previous.sender} → ${previous.recipient}`)
+    lines.push(body.length > CONTEXT_BODY_CHARS ? `${body.slice(0, CONTEXT_BODY_CHARS)}…` : body)
+    lines.push('===')
+  }
+  messages.forEach((m, i) => {
+    lines.push(`ref: m${i + 1}`)
+    lines.push(`[${m.sent_at}] ${m.sender} → ${m.recipient}`)
+    if (m.subject) lines.push(`Subject: ${m.subject}`)
+    lines.push(m.body.trim())
+    lines.push('---')
+  })
+
+  const user = `Classify these ${messages.length} messages.\n\n${lines.join('\n')}`
+  return { system, user }
+}
+
+async function classifyBatch(messages: BatchMessage[], previous: BatchMessage | null) {
+  const apiKey = process.env.OPENAI_API_KEY
+  if (!apiKey) throw new Error('OPENAI_API_KEY is not configured')
+
+  const openai = new OpenAI({ apiKey })
+  const prompt = buildClassifierPrompt(messages, previous)
+
+  const response = await openai.responses.parse({
+    model: MODEL,
+    reasoning: { effort: 'low' },
+    text: { format: zodTextFormat(ClassificationBatchSchema, 'message_classifications') },
+    input: [
+      { role: 'system', content: [{ type: 'input_text', text: prompt.system }] },
+      { role: 'user', content: [{ type: 'input_text', text: prompt.user }] }
+    ]
+  })
+
+  const parsed = response.output_parsed
+  if (!parsed) throw new Error('message_classifications returned empty response')
+  return matchClassifications(messages.map(m => m.id), parsed.classifications)
+}
+
+/**
+ * Classify the tone and flags of each message in a thread, incrementally:
+ * only messages with no message_classifications row at the current
+ * MESSAGE_CLASSIFICATION_VERSION go to the model.
+ *
+ * Runs on every `messages/thread.summarize_requested` (the importers' per-thread
+ * fan-out) and on `messages/thread.classify_requested` from
+ * /api/internal/backfill-message-classifications for threads imported before
+ * classification existed.
+ */
+export const messageClassificationFunction = inngest.createFunction(
+  {
+    id: 'message-classification',
+    retries: 2,
+    // Capped on its own, like thread-summarization, which the same event
+    // also triggers; together they can run 10 OpenAI calls at once.
+    concurrency: { limit: 5 }
+  },
+  [
+    { event: 'messages/thread.summarize_requested' },
+    { event: 'messages/thread.classify_requested' }
+  ],
+  async ({ event, step }) => {
+    const { caseId, threadId } = event.data as MessageClassificationEventData
+
+    if (!caseId || !threadId) {
+      throw new Error('message-classification requires caseId and threadId on the event payload')
+    }
+
+    const supabase = createServiceClient()
+
+    const batches = await step.run('find-pending', async () => {
+      return await findPendingBatches(supabase, caseId, threadId)
+    })
+
+    if (!batches.length) {
+      return { caseId, threadId, classified: 0 }
+    }
+
+    // One step per batch: each writes its own rows, so a retry redoes only
+    // the batch that failed.
+    let classified = 0
+    for (const [i, messageIds] of batches.entries()) {
+      classified += await step.run(`classify-batch-${i}`, async () => {
+        const { messages, previous } = await loadBatch(supabase, caseId, threadId, messageIds)
+        if (!messages.length) return 0
+
+        const results = await classifyBatch(messages, previous)
+        if (!results.length) return 0
+
+        const { error } = await supabase
+          .from('message_classifications')
+          .upsert(results.map(r => ({
+            message_id: r.messageId,
+            case_id: caseId,
+            thread_id: threadId,
+            tone: r.tone,
+            flags: r.flags,
+            model: MODEL,
+            classification_version: MESSAGE_CLASSIFICATION_VERSION,
+            updated_at: new Date().toISOString()
+          })), { onConflict: 'message_id' })
+        if (error) throw new Error(`Failed to store classifications: ${error.message}`)
+        return results.length
+      })
+    }
+
+    return { caseId, threadId, batches: batches.length, classified }
+  }
+)
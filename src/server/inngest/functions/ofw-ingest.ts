@@ -1,6 +1,11 @@
-import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import { createHash } from 'node:crypto'
 import { inngest } from '../client'
-import { parseOFWPdf, type OFWMessage } from '../../utils/ofw-parser'
+import { createServiceClient } from '../../utils/service-client'
+import { chunk } from '../../utils/arrays'
+import { failedEventData } from '../../utils/inngest-events'
+import type { OFWMessage } from '../../utils/ofw-parser'
+import { parseOFWExport } from '../../utils/ofw-import'
+import { extractOFWAttachments, type OFWAttachmentFile } from '../../utils/ofw-attachments'
 import { diffThreadsForUpload, summarizeThreadMissing } from '../../utils/threads'
 import type { Database, Json } from '~/types/database.types'
 
@@ -12,8 +17,6 @@ import type { Database, Json } from '~/types/database.types'
  */
 const DRIFT_THRESHOLD = 0.5
 
-type PublicClient = SupabaseClient<Database, 'public'>
-
 interface OFWIngestEventData {
   evidenceId: string
   caseId: string
@@ -23,26 +26,7 @@ interface OFWIngestEventData {
 
 const UPSERT_CHUNK_SIZE = 500
 
-function createServiceClient(): PublicClient {
-  // Mirror journal-extraction: read process.env directly. Inngest runs in
-  // a webhook callback context where useRuntimeConfig() is unavailable.
-  const supabaseUrl = process.env.SUPABASE_URL
-  const supabaseServiceKey = process.env.SUPABASE_SECRET_KEY || process.env.SUPABASE_SERVICE_ROLE_KEY
-
-  if (!supabaseUrl || !supabaseServiceKey) {
-    throw new Error('Missing SUPABASE_URL or SUPABASE_SECRET_KEY environment variables')
-  }
-
-  return createClient<Database>(supabaseUrl, supabaseServiceKey, {
-    auth: { persistSession: false }
-  })
-}
-
-function chunk<T>(arr: T[], size: number): T[][] {
-  const out: T[][] = []
-  for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size))
-  return out
-}
+const IMAGE_FILENAME_RE = /\.(jpe?g|png|gif|heic|webp|bmp|tiff?)$/i
 
 function toMessageRow(
   msg: OFWMessage,
@@ -54,6 +38,7 @@ function toMessageRow(
     case_id: caseId,
     user_id: userId,
     evidence_id: evidenceId,
+    source: 'ofw',
     sequence_number: msg.id,
     message_number: msg.messageNumber,
     sent_at: msg.sent,
@@ -75,10 +60,7 @@ export const ofwIngestFunction = inngest.createFunction(
     onFailure: async ({ event, error }) => {
       try {
         const supabase = createServiceClient()
-        const data = event.data as { event?: { data?: OFWIngestEventData } } | OFWIngestEventData
-        // Inngest's onFailure event wraps the original event data.
-        const inner = (data as { event?: { data?: OFWIngestEventData } }).event?.data
-          ?? (data as OFWIngestEventData)
+        const inner = failedEventData<OFWIngestEventData>(event)
         if (inner?.jobId) {
           await supabase.from('jobs').update({
             status: 'failed',
@@ -117,18 +99,22 @@ export const ofwIngestFunction = inngest.createFunction(
       return data.storage_path
     })
 
-    // step.run results must be JSON-serializable, so we download + parse inside one step
-    // to avoid round-tripping a multi-MB buffer through Inngest's step state.
-    const result = await step.run('download-and-parse', async () => {
+    const download = async () => {
       const { data: blob, error } = await supabase.storage
         .from('daylight-files')
         .download(storagePath)
       if (error || !blob) {
-        throw new Error(`Failed to download OFW PDF: ${error?.message ?? 'no blob'}`)
+        throw new Error(`Failed to download OFW export: ${error?.message ?? 'no blob'}`)
       }
-      const arrayBuf = await blob.arrayBuffer()
-      const parsed = await parseOFWPdf(new Uint8Array(arrayBuf), storagePath)
+      return new Uint8Array(await blob.arrayBuffer())
+    }
+
+    // step.run results must be JSON-serializable, so we download + parse inside one step
+    // to avoid round-tripping a multi-MB buffer through Inngest's step state.
+    const result = await step.run('download-and-parse', async () => {
+      const parsed = await parseOFWExport(await download(), storagePath)
       return {
+        format: parsed.metadata.format ?? null,
         totalMessages: parsed.metadata.totalMessages,
         reportExpected: parsed.metadata.reportExpected,
         threadCount: parsed.metadata.threadCount,
@@ -138,24 +124,161 @@ export const ofwIngestFunction = inngest.createFunction(
       }
     })
 
-    const inserted = await step.run('upsert-messages', async () => {
-      // Dedup key is (case_id, sequence_number): OFW assigns a stable internal
-      // id per message, and a case has at most one OFW account behind it. So
-      // re-importing a later OFW report (which overlaps an earlier one) is a
-      // no-op for already-known messages instead of cloning every row under a
-      // new evidence_id. See migration 0056 for the matching unique constraint.
+    const insertedIds = await step.run('upsert-messages', async () => {
+      // Dedup key is (case_id, source, sequence_number): OFW assigns a stable
+      // internal id per message, and a case has at most one OFW account behind
+      // it. So re-importing a later OFW report (which overlaps an earlier one)
+      // is a no-op for already-known messages instead of cloning every row
+      // under a new evidence_id. See migrations 0056 and 0063 for the matching
+      // unique constraint.
       const rows = result.messages.map((m: OFWMessage) => toMessageRow(m, caseId, userId, evidenceId))
       const chunks = chunk(rows, UPSERT_CHUNK_SIZE)
-      let count = 0
+      const ids: string[] = []
       for (const c of chunks) {
         const { data, error } = await supabase
           .from('messages')
-          .upsert(c, { onConflict: 'case_id,sequence_number', ignoreDuplicates: true })
+          .upsert(c, { onConflict: 'case_id,source,sequence_number', ignoreDuplicates: true })
           .select('id')
         if (error) throw new Error(`Failed to upsert messages: ${error.message}`)
-        count += data?.length ?? 0
+        ids.push(...(data ?? []).map(r => r.id))
       }
-      return count
+      return ids
+    })
+    const inserted = insertedIds.length
+
+    // Files embedded in a PDF report become evidence linked to their message;
+    // listed files the report left out become need_to_get mentions. The
+    // report is downloaded again here to keep file bytes out of step state.
+    const attachments = await step.run('store-attachments', async () => {
+      const listing = result.messages.filter((m: OFWMessage) => m.attachments?.length)
+      if (!listing.length) return { stored: 0, needToGet: 0 }
+
+      // Keyed by OFW's sequence number; the row may predate this upload.
+      const rowIds = new Map<number, string>()
+      for (const c of chunk(listing.map((m: OFWMessage) => m.id), UPSERT_CHUNK_SIZE)) {
+        const { data, error } = await supabase
+          .from('messages')
+          .select('id, sequence_number')
+          .eq('case_id', caseId)
+          .eq('source', 'ofw')
+          .in('sequence_number', c)
+        if (error) throw new Error(`Failed to look up attachment messages: ${error.message}`)
+        for (const row of data ?? []) {
+          if (row.sequence_number !== null) rowIds.set(row.sequence_number, row.id)
+        }
+      }
+      const bySequence = new Map(listing.map((m: OFWMessage) => [m.id, m]))
+
+      let stored = 0
+      const storeFile = async (file: OFWAttachmentFile) => {
+        const messageRowId = rowIds.get(file.messageId)
+        const msg = bySequence.get(file.messageId)
+        if (!messageRowId || !msg) return
+
+        const ext = file.mimeType === 'image/png' ? '.png' : '.txt'
+        const safeName = file.filename.replace(/\s+/g, '_').replace(/[^a-zA-Z0-9._-]/g, '') || 'attachment'
+        // safeName drops non-ASCII, so two names can sanitize alike; the hash of
+        // the real name keeps their paths apart.
+        const nameHash = createHash('sha256').update(file.filename).digest('hex').slice(0, 12)
+        const path = `evidence/${userId}/ofw/${messageRowId}/${nameHash}-${safeName}${safeName.toLowerCase().endsWith(ext) ? '' : ext}`
+
+        const { data: existing, error: existingError } = await supabase
+          .from('evidence')
+          .select('id')
+          .eq('message_id', messageRowId)
+          .eq('original_filename', file.filename)
+          .limit(1)
+          .maybeSingle()
+        if (existingError) throw new Error(`Failed to check attachment ${file.filename}: ${existingError.message}`)
+        if (!existing) {
+          const { error: uploadError } = await supabase.storage
+            .from('daylight-files')
+            .upload(path, file.content, { contentType: file.mimeType, upsert: true })
+          if (uploadError) throw new Error(`Failed to store attachment ${file.filename}: ${uploadError.message}`)
+
+          const { error: insertError } = await supabase.from('evidence').insert({
+            user_id: userId,
+            case_id: caseId,
+            message_id: messageRowId,
+            source_type: file.mimeType.startsWith('image/') ? 'photo' : 'document',
+            storage_path: path,
+            original_filename: file.filename,
+            mime_type: file.mimeType,
+            summary: `Attachment to OFW message "${msg.subject || '(no subject)'}" from ${msg.from}, ${msg.sent.slice(0, 10)}`
+              + (file.mimeType === 'text/plain' ? ' (text of the attachment pages in the report)' : ''),
+            tags: ['ofw-attachment']
+          })
+          if (insertError) throw new Error(`Failed to record attachment ${file.filename}: ${insertError.message}`)
+          stored++
+        }
+
+        // An earlier report that only named this file left a need_to_get mention.
+        const { error: mentionError } = await supabase
+          .from('evidence_mentions')
+          .update({ status: 'have' })
+          .eq('message_id', messageRowId)
+          .eq('description', file.filename)
+          .eq('status', 'need_to_get')
+        if (mentionError) throw new Error(`Failed to update attachment mention: ${mentionError.message}`)
+      }
+
+      const missing = result.format === 'pdf_thread' || result.format === 'pdf_single'
+        ? (await extractOFWAttachments(await download(), listing, storeFile)).missing
+        : listing.flatMap((m: OFWMessage) => m.attachments!.map(filename => ({ messageId: m.id, filename })))
+
+      const missingRowIds = [...new Set(missing.map(m => rowIds.get(m.messageId)).filter((id): id is string => !!id))]
+      if (!missingRowIds.length) return { stored, needToGet: 0 }
+
+      // Skip files already mentioned, or already captured from another report.
+      const known = new Set<string>()
+      for (const c of chunk(missingRowIds, UPSERT_CHUNK_SIZE)) {
+        const [mentions, evidence] = await Promise.all([
+          supabase.from('evidence_mentions').select('message_id, description').in('message_id', c),
+          supabase.from('evidence').select('message_id, original_filename').in('message_id', c)
+        ])
+        if (mentions.error) throw new Error(`Failed to load attachment mentions: ${mentions.error.message}`)
+        if (evidence.error) throw new Error(`Failed to load attachment evidence: ${evidence.error.message}`)
+        for (const row of mentions.data ?? []) known.add(`${row.message_id}|${row.description}`)
+        for (const row of evidence.data ?? []) known.add(`${row.message_id}|${row.original_filename}`)
+      }
+
+      const mentionRows: Database['public']['Tables']['evidence_mentions']['Insert'][] = []
+      for (const m of missing) {
+        const messageRowId = rowIds.get(m.messageId)
+        const key = `${messageRowId}|${m.filename}`
+        if (!messageRowId || known.has(key)) continue
+        known.add(key)
+        mentionRows.push({
+          user_id: userId,
+          case_id: caseId,
+          message_id: messageRowId,
+          type: IMAGE_FILENAME_RE.test(m.filename) ? 'photo' : 'document',
+          description: m.filename,
+          status: 'need_to_get'
+        })
+      }
+      for (const c of chunk(mentionRows, UPSERT_CHUNK_SIZE)) {
+        const { error } = await supabase.from('evidence_mentions').insert(c)
+        if (error) throw new Error(`Failed to record missing attachments: ${error.message}`)
+      }
+      return { stored, needToGet: mentionRows.length }
+    })
+
+    // Only newly inserted rows — duplicates skipped above are already embedded.
+    await step.run('enqueue-embeddings', async () => {
+      if (!insertedIds.length) return { enqueued: 0 }
+      await inngest.send({
+        name: 'embeddings/sync.requested',
+        data: { caseId, kind: 'message', recordIds: insertedIds }
+      })
+      return { enqueued: insertedIds.length }
+    })
+
+    // New messages can show late exchanges, cancellations or overholds.
+    await step.run('enqueue-schedule-check', async () => {
+      if (!insertedIds.length) return { enqueued: false }
+      await inngest.send({ name: 'schedule/check.requested', data: { caseId, userId } })
+      return { enqueued: true }
     })
 
     const drift = await step.run('compute-thread-drift', async () => {
@@ -174,12 +297,15 @@ export const ofwIngestFunction = inngest.createFunction(
         status: needsConfirmation ? 'pending_confirmation' : 'completed',
         completed_at: needsConfirmation ? null : new Date().toISOString(),
         result_summary: {
+          source_format: result.format,
           messages_parsed: result.totalMessages,
           messages_inserted: inserted,
           report_expected: result.reportExpected,
           thread_count: result.threadCount,
           date_range: result.dateRange,
           senders: result.senders,
+          attachments_stored: attachments.stored,
+          attachments_need_to_get: attachments.needToGet,
           drift,
           // Stashed so the confirm-ofw-import endpoint can resolve the
           // pending upload without an extra job-shape change.
@@ -0,0 +1,160 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { inngest } from '../client'
+import { createServiceClient } from '../../utils/service-client'
+import { deliveryTime } from '../../utils/journal-habits'
+import { createNotifier } from '../../utils/notifier'
+import { REMINDER_LOCAL_HOUR, collectReminders, renderReminderMessage } from '../../utils/reminders'
+import { getHourInTimezone, isValidTimezone } from '../../utils/timezone'
+import type { Database } from '~/types/database.types'
+
+type PublicClient = SupabaseClient<Database, 'public'>
+
+interface ReminderRecipient {
+  id: string
+  email: string | null
+  name: string | null
+  timezone: string
+}
+
+const PAGE_SIZE = 1000
+/** Court deadlines can carry reminders up to 90 days out. */
+const DEADLINE_LOOKAHEAD_DAYS = 91
+/** Action items are reminded up to a day ahead. */
+const ACTION_ITEM_LOOKAHEAD_DAYS = 2
+
+function addDays(date: Date, days: number): string {
+  return new Date(date.getTime() + days * 24 * 60 * 60 * 1000).toISOString()
+}
+
+/**
+ * Users with email reminders on whose local clock is at REMINDER_LOCAL_HOUR,
+ * or at the end of their quiet hours when those cover it.
+ */
+async function findRecipients(supabase: PublicClient, now: Date): Promise<ReminderRecipient[]> {
+  const out: ReminderRecipient[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, email, full_name, timezone, quiet_hours_start, quiet_hours_end')
+      .eq('email_reminders', true)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(`Failed to load profiles: ${error.message}`)
+    for (const row of data ?? []) {
+      const timezone = row.timezone && isValidTimezone(row.timezone) ? row.timezone : 'UTC'
+      const quiet = row.quiet_hours_start && row.quiet_hours_end
+        ? { start: row.quiet_hours_start.slice(0, 5), end: row.quiet_hours_end.slice(0, 5) }
+        : null
+      // The cron runs on the hour, so quiet hours ending at 07:30 push reminders to 08:00.
+      const [h, m] = deliveryTime(`${String(REMINDER_LOCAL_HOUR).padStart(2, '0')}:00`, quiet).split(':').map(Number)
+      const hour = m! > 0 ? (h! + 1) % 24 : h!
+      if (getHourInTimezone(now, timezone) !== hour) continue
+      out.push({ id: row.id, email: row.email, name: row.full_name, timezone })
+    }
+    if ((data?.length ?? 0) < PAGE_SIZE) break
+  }
+  return out
+}
+
+/** Collect, dedupe and deliver one user's reminders. Returns how many were sent. */
+async function remindUser(supabase: PublicClient, recipient: ReminderRecipient, now: Date): Promise<number> {
+  // Reminders cover the cases the user owns; collaborators get their own
+  // reminders from the owner, not from Daylight.
+  const { data: cases, error: casesError } = await supabase
+    .from('cases')
+    .select('id, title, next_court_date')
+    .eq('user_id', recipient.id)
+  if (casesError) throw new Error(`Failed to load cases: ${casesError.message}`)
+  if (!cases?.length) return 0
+
+  const caseIds = cases.map(c => c.id)
+  const [{ data: actionItems, error: itemsError }, { data: deadlines, error: deadlinesError }] = await Promise.all([
+    supabase
+      .from('action_items')
+      .select('id, case_id, description, status, deadline, event_id')
+      .in('case_id', caseIds)
+      .in('status', ['open', 'in_progress'])
+      .not('deadline', 'is', null)
+      .lte('deadline', addDays(now, ACTION_ITEM_LOOKAHEAD_DAYS)),
+    supabase
+      .from('case_deadlines')
+      .select('id, case_id, title, starts_at, location, reminder_days')
+      .in('case_id', caseIds)
+      .gte('starts_at', addDays(now, -1))
+      .lte('starts_at', addDays(now, DEADLINE_LOOKAHEAD_DAYS))
+  ])
+  if (itemsError) throw new Error(`Failed to load action items: ${itemsError.message}`)
+  if (deadlinesError) throw new Error(`Failed to load deadlines: ${deadlinesError.message}`)
+
+  const candidates = collectReminders(
+    { cases, actionItems: actionItems ?? [], deadlines: deadlines ?? [] },
+    now,
+    recipient.timezone
+  )
+  if (!candidates.length) return 0
+
+  const { data: sent, error: sentError } = await supabase
+    .from('reminder_deliveries')
+    .select('reminder_key')
+    .eq('user_id', recipient.id)
+    .in('reminder_key', candidates.map(r => r.key))
+  if (sentError) throw new Error(`Failed to load reminder deliveries: ${sentError.message}`)
+
+  const alreadySent = new Set((sent ?? []).map(row => row.reminder_key))
+  const reminders = candidates.filter(r => !alreadySent.has(r.key))
+  if (!reminders.length) return 0
+
+  const notifier = createNotifier()
+  const message = renderReminderMessage(reminders, {
+    name: recipient.name,
+    baseUrl: process.env.PUBLIC_BASE_URL || 'https://www.daylight.legal'
+  })
+  const result = await notifier.send({ userId: recipient.id, email: recipient.email, ...message })
+  if (!result.delivered) {
+    console.warn(`[reminders] skipped ${recipient.id}: ${result.skipped}`)
+    return 0
+  }
+
+  const { error: recordError } = await supabase
+    .from('reminder_deliveries')
+    .upsert(
+      reminders.map(r => ({ user_id: recipient.id, reminder_key: r.key, channel: notifier.channel })),
+      { onConflict: 'user_id,reminder_key', ignoreDuplicates: true }
+    )
+  if (recordError) throw new Error(`Failed to record reminder deliveries: ${recordError.message}`)
+
+  return reminders.length
+}
+
+/**
+ * Hourly: for every user whose local time has just reached
+ * REMINDER_LOCAL_HOUR, send one message covering action items due today,
+ * tomorrow or overdue, and court dates and deadlines hitting a reminder day.
+ */
+export const remindersFunction = inngest.createFunction(
+  {
+    id: 'reminders',
+    retries: 2,
+    // Overlapping runs could both pass the dedupe check before either records.
+    concurrency: { limit: 1 }
+  },
+  { cron: '0 * * * *' },
+  async ({ step }) => {
+    const supabase = createServiceClient()
+
+    // Fix "now" in the first step so retries evaluate the same hour.
+    const { nowIso, recipients } = await step.run('find-recipients', async () => {
+      const now = new Date()
+      return { nowIso: now.toISOString(), recipients: await findRecipients(supabase, now) }
+    })
+    const now = new Date(nowIso)
+
+    let sent = 0
+    for (const recipient of recipients) {
+      // One step per user so a delivery failure does not resend to everyone before them.
+      sent += await step.run(`remind-${recipient.id}`, () => remindUser(supabase, recipient, now))
+    }
+
+    return { recipients: recipients.length, sent }
+  }
+)
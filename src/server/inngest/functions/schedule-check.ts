@@ -0,0 +1,298 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { inngest } from '../client'
+import { createServiceClient } from '../../utils/service-client'
+import { chunk } from '../../utils/arrays'
+import { failedEventData } from '../../utils/inngest-events'
+import {
+  VIOLATION_KINDS,
+  VIOLATION_PATTERNS,
+  detectScheduleViolations,
+  isCoparentSender,
+  scheduleFromRow,
+  type ScheduleEventInput,
+  type ScheduleMessageInput,
+  type ScheduleViolation,
+  type ViolationKind
+} from '../../utils/parenting-schedule'
+import { toWallClock } from '../../utils/message-sources'
+import type { Database } from '~/types/database.types'
+
+type PublicClient = SupabaseClient<Database, 'public'>
+
+interface ScheduleCheckEventData {
+  caseId: string
+  userId: string
+  /** Present when the user asked for the check; automatic runs have no job row. */
+  jobId?: string
+}
+
+const PAGE_SIZE = 1000
+const INSERT_CHUNK_SIZE = 500
+const ID_CHUNK_SIZE = 200
+
+/** parenting_time events on or after `since`, as local dates in `timeZone`. */
+async function loadParentingEvents(
+  supabase: PublicClient,
+  caseId: string,
+  since: string,
+  timeZone: string
+): Promise<ScheduleEventInput[]> {
+  const out: ScheduleEventInput[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    // Rows extracted before type_v2 existed only carry the legacy 'positive' type.
+    const { data, error } = await supabase
+      .from('events')
+      .select('id, title, description, primary_timestamp, timestamp_precision')
+      .eq('case_id', caseId)
+      .or('type_v2.eq.parenting_time,and(type_v2.is.null,type.eq.positive)')
+      .not('primary_timestamp', 'is', null)
+      .gte('primary_timestamp', since)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(`Failed to load events: ${error.message}`)
+    for (const row of data ?? []) {
+      const local = toWallClock(new Date(row.primary_timestamp!), timeZone)
+      out.push({
+        id: row.id,
+        date: local.slice(0, 10),
+        time: row.timestamp_precision === 'exact' ? local.slice(11, 16) : null,
+        title: row.title,
+        description: row.description
+      })
+    }
+    if ((data?.length ?? 0) < PAGE_SIZE) break
+  }
+  return out
+}
+
+/** Messages on or after `since`. sent_at is already wall-clock (see message-sources). */
+async function loadMessages(
+  supabase: PublicClient,
+  caseId: string,
+  since: string,
+  names: { selfName: string | null, coparentName: string | null }
+): Promise<ScheduleMessageInput[]> {
+  const out: ScheduleMessageInput[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('id, sent_at, sender, body')
+      .eq('case_id', caseId)
+      .gte('sent_at', since)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(`Failed to load messages: ${error.message}`)
+    for (const row of data ?? []) {
+      out.push({
+        id: row.id,
+        sentAt: row.sent_at,
+        sender: row.sender,
+        body: row.body,
+        fromCoparent: isCoparentSender(row.sender, names)
+      })
+    }
+    if ((data?.length ?? 0) < PAGE_SIZE) break
+  }
+  return out
+}
+
+/** The owner's `patterns` row per violation kind, created on first use. */
+async function ensurePatterns(supabase: PublicClient, ownerId: string): Promise<Record<ViolationKind, string>> {
+  const { data, error } = await supabase
+    .from('patterns')
+    .upsert(
+      VIOLATION_KINDS.map(kind => ({ user_id: ownerId, ...VIOLATION_PATTERNS[kind] })),
+      { onConflict: 'user_id,key' }
+    )
+    .select('id, key')
+  if (error) throw new Error(`Failed to upsert patterns: ${error.message}`)
+  const byKey = new Map((data ?? []).map(p => [p.key, p.id]))
+  return Object.fromEntries(
+    VIOLATION_KINDS.map(kind => [kind, byKey.get(VIOLATION_PATTERNS[kind].key)!])
+  ) as Record<ViolationKind, string>
+}
+
+/**
+ * Compares the case's parenting schedule against parenting_time events and
+ * messages, then rebuilds `schedule_violations` for the case and links the
+ * events behind each violation to its pattern (late_exchange, missed_visit,
+ * overhold) via event_patterns.
+ *
+ * Sent by POST /api/cases/:id/schedule-check (with a job row; the schedule
+ * card calls it after every save) and by the importers and journal
+ * extraction whenever new messages or events land. Cases without a schedule
+ * are a no-op.
+ */
+export const scheduleCheckFunction = inngest.createFunction(
+  {
+    id: 'schedule-check',
+    retries: 2,
+    // store-violations deletes and re-inserts; two runs for one case must not interleave.
+    concurrency: { key: 'event.data.caseId', limit: 1 },
+    onFailure: async ({ event, error }) => {
+      try {
+        const supabase = createServiceClient()
+        const inner = failedEventData<ScheduleCheckEventData>(event)
+        if (inner?.jobId) {
+          await supabase.from('jobs').update({
+            status: 'failed',
+            error_message: error?.message ?? 'Unknown schedule check failure',
+            completed_at: new Date().toISOString()
+          }).eq('id', inner.jobId)
+        }
+      } catch (e) {
+        console.error('[schedule-check] onFailure handler crashed:', e)
+      }
+    }
+  },
+  { event: 'schedule/check.requested' },
+  async ({ event, step }) => {
+    const { caseId, jobId } = event.data as ScheduleCheckEventData
+    const supabase = createServiceClient()
+
+    if (jobId) {
+      await step.run('mark-processing', async () => {
+        const { error } = await supabase.from('jobs').update({
+          status: 'processing',
+          started_at: new Date().toISOString()
+        }).eq('id', jobId)
+        if (error) throw new Error(`Failed to mark job processing: ${error.message}`)
+      })
+    }
+
+    // Load + detect in one step so message bodies never go through step state.
+    const detection = await step.run('detect-violations', async () => {
+      const { data: scheduleRow, error: scheduleError } = await supabase
+        .from('parenting_schedules')
+        .select('*')
+        .eq('case_id', caseId)
+        .maybeSingle()
+      if (scheduleError) throw new Error(`Failed to load schedule: ${scheduleError.message}`)
+      if (!scheduleRow) return null
+
+      const { data: caseRow, error: caseError } = await supabase
+        .from('cases')
+        .select('user_id, opposing_party_name')
+        .eq('id', caseId)
+        .single()
+      if (caseError || !caseRow) throw new Error(`Case ${caseId} not found: ${caseError?.message ?? 'missing'}`)
+
+      // Dates and names are the owner's, whoever asked for the check.
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('full_name, timezone')
+        .eq('id', caseRow.user_id)
+        .maybeSingle()
+      const timeZone = profile?.timezone || 'UTC'
+
+      const schedule = scheduleFromRow(scheduleRow)
+      const events = await loadParentingEvents(supabase, caseId, schedule.anchorDate, timeZone)
+      const messages = await loadMessages(supabase, caseId, schedule.anchorDate, {
+        selfName: profile?.full_name ?? null,
+        coparentName: caseRow.opposing_party_name
+      })
+
+      return {
+        ownerId: caseRow.user_id,
+        eventsChecked: events.length,
+        messagesChecked: messages.length,
+        violations: detectScheduleViolations(schedule, {
+          events,
+          messages,
+          through: toWallClock(new Date(), timeZone).slice(0, 10)
+        })
+      }
+    })
+
+    if (!detection) {
+      if (jobId) {
+        await step.run('finalize', async () => {
+          const { error } = await supabase.from('jobs').update({
+            status: 'completed',
+            completed_at: new Date().toISOString(),
+            result_summary: { violations_found: 0, no_schedule: true, case_id: caseId }
+          }).eq('id', jobId)
+          if (error) throw new Error(`Failed to finalize job: ${error.message}`)
+        })
+      }
+      return { skipped: true, reason: 'no schedule' }
+    }
+
+    const violations: ScheduleViolation[] = detection.violations
+
+    await step.run('store-violations', async () => {
+      const patternIds = await ensurePatterns(supabase, detection.ownerId)
+      const allPatternIds = Object.values(patternIds)
+
+      // Unlink events flagged by the previous run before rebuilding.
+      const { data: previous, error: previousError } = await supabase
+        .from('schedule_violations')
+        .select('event_ids')
+        .eq('case_id', caseId)
+      if (previousError) throw new Error(`Failed to load previous violations: ${previousError.message}`)
+      const previousEventIds = [...new Set((previous ?? []).flatMap(v => v.event_ids))]
+      for (const ids of chunk(previousEventIds, ID_CHUNK_SIZE)) {
+        const { error } = await supabase
+          .from('event_patterns')
+          .delete()
+          .in('event_id', ids)
+          .in('pattern_id', allPatternIds)
+        if (error) throw new Error(`Failed to unlink patterns: ${error.message}`)
+      }
+
+      const { error: deleteError } = await supabase
+        .from('schedule_violations')
+        .delete()
+        .eq('case_id', caseId)
+      if (deleteError) throw new Error(`Failed to clear violations: ${deleteError.message}`)
+
+      const rows = violations.map(v => ({
+        case_id: caseId,
+        user_id: detection.ownerId,
+        kind: v.kind,
+        violation_date: v.date,
+        expected_custodian: v.expectedCustodian,
+        summary: v.summary,
+        reasons: v.reasons,
+        event_ids: v.eventIds,
+        message_ids: v.messageIds,
+        pattern_id: patternIds[v.kind]
+      }))
+      for (const c of chunk(rows, INSERT_CHUNK_SIZE)) {
+        const { error } = await supabase.from('schedule_violations').insert(c)
+        if (error) throw new Error(`Failed to insert violations: ${error.message}`)
+      }
+
+      const links = violations.flatMap(v => v.eventIds.map(eventId => ({ event_id: eventId, pattern_id: patternIds[v.kind] })))
+      for (const c of chunk(links, INSERT_CHUNK_SIZE)) {
+        const { error } = await supabase
+          .from('event_patterns')
+          .upsert(c, { onConflict: 'event_id,pattern_id', ignoreDuplicates: true })
+        if (error) throw new Error(`Failed to link patterns: ${error.message}`)
+      }
+    })
+
+    const counts = Object.fromEntries(
+      VIOLATION_KINDS.map(kind => [kind, violations.filter(v => v.kind === kind).length])
+    ) as Record<ViolationKind, number>
+
+    if (jobId) {
+      await step.run('finalize', async () => {
+        const { error } = await supabase.from('jobs').update({
+          status: 'completed',
+          completed_at: new Date().toISOString(),
+          result_summary: {
+            violations_found: violations.length,
+            ...counts,
+            events_checked: detection.eventsChecked,
+            messages_checked: detection.messagesChecked,
+            case_id: caseId
+          }
+        }).eq('id', jobId)
+        if (error) throw new Error(`Failed to finalize job: ${error.message}`)
+      })
+    }
+
+    return { violationsFound: violations.length, ...counts }
+  }
+)
@@ -1,9 +1,13 @@
+import { createHash } from 'node:crypto'
 import OpenAI from 'openai'
 import { zodTextFormat } from 'openai/helpers/zod'
 import { z } from 'zod'
-import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { inngest } from '../client'
-import type { Database } from '~/types/database.types'
+import { createServiceClient } from '../../utils/service-client'
+import { failedEventData } from '../../utils/inngest-events'
+import { needsSegmenting, segmentThreadMessages, type ThreadSegmentRange } from '../../utils/thread-segments'
+import type { Database, Tables } from '~/types/database.types'
 
 type PublicClient = SupabaseClient<Database, 'public'>
 
@@ -14,25 +18,82 @@ interface ThreadSummarizationEventData {
   threadId: string
 }
 
+interface ThreadSummaryDryRunEventData {
+  dryRunId: string
+}
+
 const MODEL = 'gpt-5.4-mini'
+const PAGE_SIZE = 1000
 
 /**
  * Bumped when the prompt schema changes in a way that should regenerate
- * everything. The backfill endpoint reads message_threads.summary_version
- * to decide what to re-summarize. Bump deliberately, not casually.
+ * everything. Each version is recorded in thread_summary_versions the first
+ * time it runs. To roll a bump out to a case, start a dry run on /internal,
+ * review old vs. new summaries for a sample of threads, and approve it; that
+ * re-summarizes every thread below this version. Bump deliberately, not
+ * casually.
  *
  * v2 (2026-04-29): added `retrieval_blurb` — a behavioral-vocabulary synopsis
  * folded into summary_fts so keyword search hits user-frame verbs ("withheld",
  * "hostile", "blocked") that the neutral `summary` deliberately avoids.
+ *
+ * v3 (2026-10-18): long threads are summarized map-reduce over segments
+ * (message_thread_segments) instead of from their first 40 messages. Only
+ * threads with message_count > 40 change.
  */
-export const SUMMARY_VERSION = 2
-
-/**
- * Body cap when assembling the thread for the LLM. Most threads are well
- * under this; cases that exceed it are rare enough to head/tail later if it
- * matters. Keeps token budget predictable per run.
- */
-const MAX_MESSAGES_FOR_SUMMARY = 40
+export const SUMMARY_VERSION = 3
+
+const ToneSchema = z
+  .enum(['cooperative', 'neutral', 'tense', 'hostile', 'mixed'])
+  .describe(
+    "Overall conversational temperature of the thread, not a verdict on either parent. `mixed` covers genuinely-mixed and unclear cases."
+  )
+
+const FlagsSchema = z
+  .array(
+    z.enum([
+      'schedule_violation',
+      'gatekeeping',
+      'child_welfare_concern',
+      'agreement_reference',
+      'financial_dispute',
+      'medical_decision',
+      'school_decision',
+      'safety_concern',
+      'communication_breakdown',
+      'positive_coparenting'
+    ])
+  )
+  .describe(
+    'Descriptive (not adjudicative) tags. `gatekeeping` describes the act (info refused or sidestepped), not who is doing it. Multiple flags allowed. Empty array if none apply.'
+  )
+
+const SearchAnchorsSchema = z
+  .object({
+    proper_nouns: z
+      .array(z.string())
+      .max(12)
+      .describe(
+        'People, schools, providers, places named in the thread. Verbatim spelling — these are what the agent will keyword-search later.'
+      ),
+    topics: z
+      .array(z.string())
+      .max(8)
+      .describe(
+        'Concrete topics in the thread (e.g. "after-school pickup", "tuition payment"). 2–4 word noun phrases, lowercase. No editorial labels like "drama".'
+      ),
+    dates_mentioned: z
+      .array(z.string())
+      .max(8)
+      .describe('ISO dates referenced *in the bodies*, not the message timestamps.'),
+    numbers: z
+      .array(z.string())
+      .max(6)
+      .describe(
+        'Dollar amounts, durations, counts that appear in the bodies. Often the most distinctive token in a thread.'
+      )
+  })
+  .describe('Keyword retrieval handles for the chat agent. See chat_retrieval.md for philosophy.')
 
 const ThreadSummarySchema = z.object({
   summary: z
@@ -50,58 +111,29 @@ const ThreadSummarySchema = z.object({
       'Stay factual — no diagnosis, no labels, no characterization ("hostile in this exchange" OK; "narcissist" NOT). ' +
       'If the thread is purely logistical with no notable dynamic, write a short factual sentence — do not manufacture conflict.'
     ),
-  tone: z
-    .enum(['cooperative', 'neutral', 'tense', 'hostile', 'mixed'])
-    .describe(
-      "Overall conversational temperature of the thread, not a verdict on either parent. `mixed` covers genuinely-mixed and unclear cases."
-    ),
-  flags: z
-    .array(
-      z.enum([
-        'schedule_violation',
-        'gatekeeping',
-        'child_welfare_concern',
-        'agreement_reference',
-        'financial_dispute',
-        'medical_decision',
-        'school_decision',
-        'safety_concern',
-        'communication_breakdown',
-        'positive_coparenting'
-      ])
-    )
+  tone: ToneSchema,
+  flags: FlagsSchema,
+  search_anchors: SearchAnchorsSchema
+})
+
+/** Map step: one part of a long thread. */
+const SegmentSummarySchema = z.object({
+  summary: z
+    .string()
     .describe(
-      'Descriptive (not adjudicative) tags. `gatekeeping` describes the act (info refused or sidestepped), not who is doing it. Multiple flags allowed. Empty array if none apply.'
+      'One paragraph, plain English, 60–140 words. What happens in this part of the thread, in order, including any proposals, refusals, agreements and dates. Name participants by role ("the user", "the co-parent", "the school"). No editorializing, no diagnoses.'
     ),
-  search_anchors: z
-    .object({
-      proper_nouns: z
-        .array(z.string())
-        .max(12)
-        .describe(
-          'People, schools, providers, places named in the thread. Verbatim spelling — these are what the agent will keyword-search later.'
-        ),
-      topics: z
-        .array(z.string())
-        .max(8)
-        .describe(
-          'Concrete topics in the thread (e.g. "after-school pickup", "tuition payment"). 2–4 word noun phrases, lowercase. No editorial labels like "drama".'
-        ),
-      dates_mentioned: z
-        .array(z.string())
-        .max(8)
-        .describe('ISO dates referenced *in the bodies*, not the message timestamps.'),
-      numbers: z
-        .array(z.string())
-        .max(6)
-        .describe(
-          'Dollar amounts, durations, counts that appear in the bodies. Often the most distinctive token in a thread.'
-        )
-    })
-    .describe('Keyword retrieval handles for the chat agent. See chat_retrieval.md for philosophy.')
+  tone: ToneSchema,
+  flags: FlagsSchema,
+  search_anchors: SearchAnchorsSchema
 })
 
 type ThreadSummary = z.infer<typeof ThreadSummarySchema>
+type SegmentSummary = z.infer<typeof SegmentSummarySchema>
+
+interface SummarizedSegment extends ThreadSegmentRange {
+  summary: SegmentSummary
+}
 
 interface LoadedThread {
   threadId: string
@@ -112,6 +144,7 @@ interface LoadedThread {
   lastSentAt: string | null
   /** Chronological body excerpts used to build the LLM prompt. */
   messages: Array<{
+    id: string
     sentAt: string | null
     sender: string
     recipient: string
@@ -120,21 +153,6 @@ interface LoadedThread {
   }>
 }
 
-function createServiceClient(): PublicClient {
-  // Same pattern as journal-extraction / ofw-ingest: process.env directly
-  // because Inngest webhook callback context lacks useRuntimeConfig().
-  const supabaseUrl = process.env.SUPABASE_URL
-  const supabaseServiceKey = process.env.SUPABASE_SECRET_KEY || process.env.SUPABASE_SERVICE_ROLE_KEY
-
-  if (!supabaseUrl || !supabaseServiceKey) {
-    throw new Error('Missing SUPABASE_URL or SUPABASE_SECRET_KEY environment variables')
-  }
-
-  return createClient<Database>(supabaseUrl, supabaseServiceKey, {
-    auth: { persistSession: false }
-  })
-}
-
 function modeOrFirst(values: (string | null)[]): string | null {
   const counts = new Map<string, number>()
   for (const v of values) {
@@ -157,15 +175,22 @@ async function loadThread(
   caseId: string,
   threadId: string
 ): Promise<LoadedThread | null> {
-  const { data, error } = await supabase
-    .from('messages')
-    .select('sent_at, sender, recipient, subject, body')
-    .eq('case_id', caseId)
-    .eq('thread_id', threadId)
-    .order('sent_at', { ascending: true })
-
-  if (error) throw new Error(`loadThread failed: ${error.message}`)
-  if (!data || data.length === 0) return null
+  const data: Array<Pick<Tables<'messages'>, 'id' | 'sent_at' | 'sender' | 'recipient' | 'subject' | 'body'>> = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data: page, error } = await supabase
+      .from('messages')
+      .select('id, sent_at, sender, recipient, subject, body')
+      .eq('case_id', caseId)
+      .eq('thread_id', threadId)
+      .order('sent_at', { ascending: true })
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw new Error(`loadThread failed: ${error.message}`)
+    data.push(...(page ?? []))
+    if ((page?.length ?? 0) < PAGE_SIZE) break
+  }
+  if (data.length === 0) return null
 
   const senders = new Set<string>()
   for (const m of data) {
@@ -185,6 +210,7 @@ async function loadThread(
     firstSentAt,
     lastSentAt,
     messages: data.map(m => ({
+      id: m.id,
       sentAt: m.sent_at,
       sender: m.sender,
       recipient: m.recipient,
@@ -194,15 +220,12 @@ async function loadThread(
   }
 }
 
-function buildSummaryPrompt(thread: LoadedThread): { system: string; user: string } {
-  const system = [
+function buildSystemPrompt(thread: LoadedThread, task: string[]): string {
+  return [
     "You are a custody-case thread summarizer for Project Daylight.",
-    "You read OFW (Our Family Wizard) message threads between two co-parents and produce a structured summary used by a chat agent for retrieval.",
+    "You read message threads between two co-parents — OFW (Our Family Wizard) messages, email threads, or SMS / WhatsApp texts grouped by day — and produce a structured summary used by a chat agent for retrieval.",
     "",
-    "You produce TWO different views of the thread:",
-    "  1. `summary` — neutral digest for display. Roles, no names, no loaded language.",
-    "  2. `retrieval_blurb` — search-friendly synopsis. Names, behavioral verbs, the way a parent would describe the dynamic out loud.",
-    "Both are factual; only the voice differs. Read each field's description carefully — they have different rules.",
+    ...task,
     "",
     "Hard rules:",
     "- In `summary`: refer to participants by role ('the user', 'the co-parent', 'the child'), NOT by name.",
@@ -220,44 +243,87 @@ function buildSummaryPrompt(thread: LoadedThread): { system: string; user: strin
     `- Message count: ${thread.messageCount}`,
     `- Date range: ${thread.firstSentAt ?? '?'} → ${thread.lastSentAt ?? '?'}`
   ].join('\n')
+}
 
-  const cap = Math.min(thread.messages.length, MAX_MESSAGES_FOR_SUMMARY)
-  const truncated = thread.messages.length > MAX_MESSAGES_FOR_SUMMARY
+const THREAD_VIEWS = [
+  "You produce TWO different views of the thread:",
+  "  1. `summary` — neutral digest for display. Roles, no names, no loaded language.",
+  "  2. `retrieval_blurb` — search-friendly synopsis. Names, behavioral verbs, the way a parent would describe the dynamic out loud.",
+  "Both are factual; only the voice differs. Read each field's description carefully — they have different rules."
+]
+
+function formatMessages(messages: LoadedThread['messages']): string {
   const lines: string[] = []
-  for (let i = 0; i < cap; i++) {
-    const m = thread.messages[i]!
+  for (const m of messages) {
     lines.push(`[${m.sentAt ?? 'unknown'}] ${m.sender} → ${m.recipient}`)
     if (m.subject) lines.push(`Subject: ${m.subject}`)
     lines.push(m.body.trim())
     lines.push('---')
   }
-  if (truncated) {
-    lines.push(`(${thread.messages.length - cap} additional messages omitted from this prompt; you can still reference the thread as a whole.)`)
+  return lines.join('\n')
+}
+
+/** Single pass: the whole thread in one prompt. */
+function buildSummaryPrompt(thread: LoadedThread): { system: string, user: string } {
+  const system = buildSystemPrompt(thread, THREAD_VIEWS)
+  const user = `Summarize the following thread.\n\n${formatMessages(thread.messages)}`
+  return { system, user }
+}
+
+/** Map step: one segment of a long thread. */
+function buildSegmentPrompt(thread: LoadedThread, range: ThreadSegmentRange, segmentCount: number): { system: string, user: string } {
+  const system = buildSystemPrompt(thread, [
+    `This thread is long, so it is summarized in ${segmentCount} parts. You are summarizing part ${range.index + 1} of ${segmentCount} (messages ${range.start + 1}–${range.end}).`,
+    'Summarize only the messages you are given; the parts are combined into a thread summary afterwards. `tone`, `flags` and `search_anchors` describe this part only.',
+    'There is no `retrieval_blurb` for a part; the names rule for it does not apply here.'
+  ])
+  const user = `Summarize part ${range.index + 1} of ${segmentCount} of this thread.\n\n${formatMessages(thread.messages.slice(range.start, range.end))}`
+  return { system, user }
+}
+
+/** Reduce step: the thread summary from its segment summaries. */
+function buildReducePrompt(thread: LoadedThread, segments: SummarizedSegment[]): { system: string, user: string } {
+  const system = buildSystemPrompt(thread, [
+    ...THREAD_VIEWS,
+    '',
+    `This thread is too long to read at once, so you are given summaries of its ${segments.length} parts in order instead of the messages. Write the thread-level fields from them: how the conversation starts, how it develops and how it resolves (or does not).`,
+    '`tone` is for the thread as a whole (use `mixed` when parts genuinely differ). `flags` and `search_anchors` should keep what matters across all parts, not just the first ones.'
+  ])
+
+  const lines: string[] = []
+  for (const segment of segments) {
+    const first = thread.messages[segment.start]
+    const last = thread.messages[segment.end - 1]
+    const { summary, tone, flags, search_anchors: anchors } = segment.summary
+    lines.push(`## Part ${segment.index + 1} — messages ${segment.start + 1}–${segment.end}, ${first?.sentAt ?? '?'} → ${last?.sentAt ?? '?'}`)
+    lines.push(summary.trim())
+    lines.push(`Tone: ${tone}. Flags: ${flags.length ? flags.join(', ') : 'none'}.`)
+    lines.push(`Anchors: ${[...anchors.proper_nouns, ...anchors.topics, ...anchors.dates_mentioned, ...anchors.numbers].join('; ') || 'none'}`)
+    lines.push('')
   }
 
-  const user = `Summarize the following thread.\n\n${lines.join('\n')}`
+  const user = `Summarize the thread from these part summaries.\n\n${lines.join('\n')}`
   return { system, user }
 }
 
-async function summarizeThread(thread: LoadedThread): Promise<ThreadSummary> {
+async function parseStructured<T>(schema: z.ZodType<T>, name: string, prompt: { system: string, user: string }): Promise<T> {
   const apiKey = process.env.OPENAI_API_KEY
   if (!apiKey) throw new Error('OPENAI_API_KEY is not configured')
 
-  const { system, user } = buildSummaryPrompt(thread)
   const openai = new OpenAI({ apiKey })
 
   const response = await openai.responses.parse({
     model: MODEL,
     reasoning: { effort: 'low' },
-    text: { format: zodTextFormat(ThreadSummarySchema, 'thread_summary') },
+    text: { format: zodTextFormat(schema, name) },
     input: [
-      { role: 'system', content: [{ type: 'input_text', text: system }] },
-      { role: 'user', content: [{ type: 'input_text', text: user }] }
+      { role: 'system', content: [{ type: 'input_text', text: prompt.system }] },
+      { role: 'user', content: [{ type: 'input_text', text: prompt.user }] }
     ]
   })
 
-  const parsed = response.output_parsed as ThreadSummary | null
-  if (!parsed) throw new Error('Thread summarization returned empty response')
+  const parsed = response.output_parsed as T | null
+  if (!parsed) throw new Error(`${name} returned empty response`)
   return parsed
 }
 
@@ -267,7 +333,7 @@ async function upsertThreadSummary(
   evidenceId: string | null,
   thread: LoadedThread,
   summary: ThreadSummary
-): Promise<void> {
+): Promise<string> {
   const row = {
     case_id: caseId,
     evidence_id: evidenceId,
@@ -287,11 +353,137 @@ async function upsertThreadSummary(
     updated_at: new Date().toISOString()
   }
 
-  const { error } = await (supabase as any)
+  const { data, error } = await (supabase as any)
     .from('message_threads')
     .upsert(row, { onConflict: 'case_id,thread_id' })
+    .select('id')
+    .single()
 
   if (error) throw new Error(`upsertThreadSummary failed: ${error.message}`)
+  return data.id
+}
+
+/**
+ * Summarize a loaded thread: segments (if any), then the thread. Both the
+ * main function and the dry run call this inside a single step.
+ */
+async function summarizeLoadedThread(thread: LoadedThread): Promise<{ summary: ThreadSummary, segments: SummarizedSegment[] }> {
+  const segments: SummarizedSegment[] = []
+  if (needsSegmenting(thread.messages)) {
+    const ranges = segmentThreadMessages(thread.messages)
+    for (const range of ranges) {
+      const summary = await parseStructured(SegmentSummarySchema, 'thread_segment_summary', buildSegmentPrompt(thread, range, ranges.length))
+      segments.push({ ...range, summary })
+    }
+  }
+  const prompt = segments.length ? buildReducePrompt(thread, segments) : buildSummaryPrompt(thread)
+  return { summary: await parseStructured(ThreadSummarySchema, 'thread_summary', prompt), segments }
+}
+
+/**
+ * sha256 of everything about the prompt that isn't the thread itself: the
+ * system prompt for an empty thread and the output schemas.
+ */
+function promptFingerprint(): string {
+  const placeholder: LoadedThread = {
+    threadId: '',
+    subject: null,
+    participants: [],
+    messageCount: 0,
+    firstSentAt: null,
+    lastSentAt: null,
+    messages: []
+  }
+  return createHash('sha256')
+    .update(buildSystemPrompt(placeholder, THREAD_VIEWS))
+    .update(JSON.stringify(zodTextFormat(ThreadSummarySchema, 'thread_summary')))
+    .update(JSON.stringify(zodTextFormat(SegmentSummarySchema, 'thread_segment_summary')))
+    .digest('hex')
+}
+
+/**
+ * Make sure SUMMARY_VERSION has a thread_summary_versions row. Warns (but
+ * carries on) when the prompt changed without a version bump, since those
+ * summaries can't be told apart from the recorded version's.
+ */
+async function recordSummaryVersion(supabase: PublicClient): Promise<void> {
+  const fingerprint = promptFingerprint()
+  const { data: existing, error } = await supabase
+    .from('thread_summary_versions')
+    .select('model, prompt_fingerprint')
+    .eq('version', SUMMARY_VERSION)
+    .maybeSingle()
+  if (error) throw new Error(`recordSummaryVersion failed: ${error.message}`)
+
+  if (!existing) {
+    const { error: insertError } = await supabase
+      .from('thread_summary_versions')
+      .upsert({ version: SUMMARY_VERSION, model: MODEL, prompt_fingerprint: fingerprint }, { onConflict: 'version', ignoreDuplicates: true })
+    if (insertError) throw new Error(`recordSummaryVersion insert failed: ${insertError.message}`)
+    return
+  }
+
+  if (!existing.prompt_fingerprint) {
+    const { error: updateError } = await supabase
+      .from('thread_summary_versions')
+      .update({ model: MODEL, prompt_fingerprint: fingerprint })
+      .eq('version', SUMMARY_VERSION)
+    if (updateError) throw new Error(`recordSummaryVersion update failed: ${updateError.message}`)
+    return
+  }
+
+  if (existing.prompt_fingerprint !== fingerprint || existing.model !== MODEL) {
+    console.warn(`[thread-summarization] Prompt or model changed without bumping SUMMARY_VERSION (${SUMMARY_VERSION})`)
+  }
+}
+
+/**
+ * Write this run's segments and drop any left over from a previous run with
+ * more of them. A single-pass thread passes no segments and ends up with none.
+ */
+async function replaceThreadSegments(
+  supabase: PublicClient,
+  caseId: string,
+  messageThreadId: string,
+  thread: LoadedThread,
+  segments: SummarizedSegment[]
+): Promise<void> {
+  if (segments.length) {
+    const rows = segments.map((segment) => {
+      const first = thread.messages[segment.start]
+      const last = thread.messages[segment.end - 1]
+      return {
+        message_thread_id: messageThreadId,
+        case_id: caseId,
+        thread_id: thread.threadId,
+        segment_index: segment.index,
+        message_count: segment.end - segment.start,
+        first_message_id: first?.id ?? null,
+        last_message_id: last?.id ?? null,
+        first_sent_at: first?.sentAt ?? null,
+        last_sent_at: last?.sentAt ?? null,
+        summary: segment.summary.summary,
+        tone: segment.summary.tone,
+        flags: segment.summary.flags,
+        search_anchors: segment.summary.search_anchors,
+        model: MODEL,
+        summary_version: SUMMARY_VERSION,
+        updated_at: new Date().toISOString()
+      }
+    })
+
+    const { error } = await supabase
+      .from('message_thread_segments')
+      .upsert(rows, { onConflict: 'message_thread_id,segment_index' })
+    if (error) throw new Error(`replaceThreadSegments upsert failed: ${error.message}`)
+  }
+
+  const { error } = await supabase
+    .from('message_thread_segments')
+    .delete()
+    .eq('message_thread_id', messageThreadId)
+    .gte('segment_index', segments.length)
+  if (error) throw new Error(`replaceThreadSegments cleanup failed: ${error.message}`)
 }
 
 export const threadSummarizationFunction = inngest.createFunction(
@@ -312,30 +504,173 @@ export const threadSummarizationFunction = inngest.createFunction(
 
     const supabase = createServiceClient()
 
-    const thread = await step.run('load-thread', async () => {
-      return await loadThread(supabase, caseId, threadId)
+    // Load, summarize and write in one step: a long thread's messages never
+    // pass through step state, only the counts returned below.
+    const result = await step.run('summarize', async () => {
+      await recordSummaryVersion(supabase)
+      const thread = await loadThread(supabase, caseId, threadId)
+      if (!thread) return null
+
+      const { summary, segments } = await summarizeLoadedThread(thread)
+      const messageThreadId = await upsertThreadSummary(supabase, caseId, evidenceId, thread, summary)
+      await replaceThreadSegments(supabase, caseId, messageThreadId, thread, segments)
+      return {
+        messageCount: thread.messageCount,
+        segmentCount: segments.length,
+        tone: summary.tone,
+        flagCount: summary.flags.length
+      }
     })
 
-    if (!thread) {
+    if (!result) {
       // Thread vanished between fan-out and execution (race with delete /
       // cancel). No-op rather than fail.
       return { skipped: true, reason: 'thread not found' }
     }
 
-    const summary = await step.run('summarize', async () => {
-      return await summarizeThread(thread)
-    })
+    return { caseId, threadId, ...result }
+  }
+)
 
-    await step.run('upsert', async () => {
-      await upsertThreadSummary(supabase, caseId, evidenceId, thread, summary)
+/**
+ * Re-summarize a sample of a case's threads below SUMMARY_VERSION and store
+ * old vs. new side by side in thread_summary_dry_run_items. Never writes
+ * message_threads: that happens when the run is approved on /internal.
+ */
+export const threadSummaryDryRunFunction = inngest.createFunction(
+  {
+    id: 'thread-summary-dry-run',
+    retries: 2,
+    concurrency: { limit: 2 },
+    onFailure: async ({ event, error }) => {
+      try {
+        const supabase = createServiceClient()
+        const dryRunId = failedEventData<ThreadSummaryDryRunEventData>(event)?.dryRunId
+        if (dryRunId) {
+          await supabase.from('thread_summary_dry_runs').update({
+            status: 'failed',
+            error_message: error?.message ?? 'Unknown dry run failure',
+            completed_at: new Date().toISOString()
+          }).eq('id', dryRunId)
+        }
+      } catch (e) {
+        console.error('[thread-summary-dry-run] onFailure handler crashed:', e)
+      }
+    }
+  },
+  { event: 'messages/thread.summary_dry_run_requested' },
+  async ({ event, step }) => {
+    const { dryRunId } = event.data as ThreadSummaryDryRunEventData
+    if (!dryRunId) throw new Error('thread-summary-dry-run requires dryRunId on the event payload')
+
+    const supabase = createServiceClient()
+
+    const sample = await step.run('pick-sample', async () => {
+      const { data: run, error } = await supabase
+        .from('thread_summary_dry_runs')
+        .update({ status: 'running' })
+        .eq('id', dryRunId)
+        .select('case_id, summary_version, sample_size')
+        .single()
+      if (error || !run) throw new Error(`Dry run ${dryRunId} not found: ${error?.message ?? 'missing'}`)
+      if (run.summary_version !== SUMMARY_VERSION) {
+        throw new Error(`Dry run is for version ${run.summary_version} but this deploy summarizes at version ${SUMMARY_VERSION}`)
+      }
+
+      await recordSummaryVersion(supabase)
+
+      // Paged so the sample draws from every outdated thread, not the first 1000.
+      const shuffled: { id: string, thread_id: string }[] = []
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data: threads, error: threadsError } = await supabase
+          .from('message_threads')
+          .select('id, thread_id')
+          .eq('case_id', run.case_id)
+          .lt('summary_version', SUMMARY_VERSION)
+          .order('id')
+          .range(from, from + PAGE_SIZE - 1)
+        if (threadsError) throw new Error(`Failed to load threads: ${threadsError.message}`)
+        shuffled.push(...(threads ?? []))
+        if ((threads?.length ?? 0) < PAGE_SIZE) break
+      }
+
+      for (let i = shuffled.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1))
+        const swap = shuffled[i]!
+        shuffled[i] = shuffled[j]!
+        shuffled[j] = swap
+      }
+      return { caseId: run.case_id, threads: shuffled.slice(0, run.sample_size) }
     })
 
-    return {
-      caseId,
-      threadId,
-      messageCount: thread.messageCount,
-      tone: summary.tone,
-      flagCount: summary.flags.length
+    // One step per thread so a retry doesn't re-summarize the whole sample.
+    // A thread that can't be summarized is recorded with its error rather
+    // than failing the run.
+    for (const [i, sampled] of sample.threads.entries()) {
+      await step.run(`preview-${i}`, async () => {
+        const { data: old, error: oldError } = await supabase
+          .from('message_threads')
+          .select('subject, message_count, summary_version, summary, tone, flags')
+          .eq('id', sampled.id)
+          .maybeSingle()
+        if (oldError) throw new Error(`Failed to load thread summary: ${oldError.message}`)
+        if (!old) return
+
+        const item = {
+          dry_run_id: dryRunId,
+          message_thread_id: sampled.id,
+          thread_id: sampled.thread_id,
+          subject: old.subject,
+          message_count: old.message_count,
+          old_summary_version: old.summary_version,
+          old_summary: old.summary,
+          old_tone: old.tone,
+          old_flags: old.flags
+        }
+
+        let preview: Partial<Database['public']['Tables']['thread_summary_dry_run_items']['Insert']>
+        try {
+          const thread = await loadThread(supabase, sample.caseId, sampled.thread_id)
+          if (!thread) return
+          const { summary, segments } = await summarizeLoadedThread(thread)
+          preview = {
+            new_summary: summary.summary,
+            new_retrieval_blurb: summary.retrieval_blurb,
+            new_tone: summary.tone,
+            new_flags: summary.flags,
+            new_search_anchors: summary.search_anchors,
+            new_segment_count: segments.length,
+            error_message: null
+          }
+        } catch (e) {
+          preview = { error_message: e instanceof Error ? e.message : String(e) }
+        }
+
+        const { error } = await supabase
+          .from('thread_summary_dry_run_items')
+          .upsert({ ...item, ...preview }, { onConflict: 'dry_run_id,message_thread_id' })
+        if (error) throw new Error(`Failed to store dry run item: ${error.message}`)
+      })
     }
+
+    // A run with nothing to compare can't be approved: mark it failed.
+    await step.run('complete', async () => {
+      const { count, error: countError } = await supabase
+        .from('thread_summary_dry_run_items')
+        .select('id', { count: 'exact', head: true })
+        .eq('dry_run_id', dryRunId)
+        .is('error_message', null)
+      if (countError) throw new Error(`Failed to count dry run items: ${countError.message}`)
+
+      const { error } = await supabase
+        .from('thread_summary_dry_runs')
+        .update(count
+          ? { status: 'completed', completed_at: new Date().toISOString() }
+          : { status: 'failed', error_message: 'No thread in the sample could be summarized', completed_at: new Date().toISOString() })
+        .eq('id', dryRunId)
+      if (error) throw new Error(`Failed to complete dry run: ${error.message}`)
+    })
+
+    return { dryRunId, caseId: sample.caseId, sampled: sample.threads.length }
   }
 )
@@ -0,0 +1,6 @@
+/** `arr` split into consecutive slices of at most `size` items. */
+export function chunk<T>(arr: T[], size: number): T[][] {
+  const out: T[][] = []
+  for (let i = 0; i < arr.length; i += size) out.push(arr.slice(i, i + size))
+  return out
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { parseCaseDeadlineInput } from './case-deadlines'
+
+const valid = {
+  type: 'mediation',
+  title: 'Mediation with Dr. Ruiz',
+  startsAt: '2025-06-12T14:30:00.000Z'
+}
+
+describe('parseCaseDeadlineInput', () => {
+  it('normalizes a valid body and defaults reminders', () => {
+    const parsed = parseCaseDeadlineInput({ ...valid, title: '  Mediation with Dr. Ruiz ', location: ' ', notes: 'Bring calendar' })
+    expect(parsed).toEqual({
+      type: 'mediation',
+      title: 'Mediation with Dr. Ruiz',
+      startsAt: '2025-06-12T14:30:00.000Z',
+      location: null,
+      notes: 'Bring calendar',
+      reminderDays: [7, 1]
+    })
+
+    expect(parseCaseDeadlineInput({ ...valid, reminderDays: [1, 14, 1, 0] }).reminderDays).toEqual([14, 1, 0])
+    expect(parseCaseDeadlineInput({ ...valid, reminderDays: [] }).reminderDays).toEqual([])
+  })
+
+  it('rejects bad input', () => {
+    expect(() => parseCaseDeadlineInput({ ...valid, type: 'party' })).toThrow(/kind of date/)
+    expect(() => parseCaseDeadlineInput({ ...valid, title: ' ' })).toThrow(/title/)
+    expect(() => parseCaseDeadlineInput({ ...valid, startsAt: 'next week' })).toThrow(/date and time/)
+    expect(() => parseCaseDeadlineInput({ ...valid, reminderDays: [1.5] })).toThrow(/reminders/)
+    expect(() => parseCaseDeadlineInput({ ...valid, reminderDays: [120] })).toThrow(/reminders/)
+  })
+})
@@ -0,0 +1,117 @@
+/**
+ * Court dates and deadlines on a case.
+ *
+ * `cases.next_court_date` remains the single headline hearing that hearing
+ * prep counts down to; everything else on the court calendar — mediation,
+ * discovery cut-offs, GAL interviews, further hearings — lives here, each with
+ * its own reminder schedule (days before `startsAt`).
+ */
+
+import type { Database } from '~/types/database.types'
+import { optionalText } from './validation'
+
+type CaseDeadlineRow = Database['public']['Tables']['case_deadlines']['Row']
+type CaseDeadlineInsert = Database['public']['Tables']['case_deadlines']['Insert']
+
+export type CaseDeadlineType = 'hearing' | 'mediation' | 'discovery' | 'filing' | 'gal_interview' | 'evaluation' | 'other'
+
+export const CASE_DEADLINE_TYPES: CaseDeadlineType[] = [
+  'hearing',
+  'mediation',
+  'discovery',
+  'filing',
+  'gal_interview',
+  'evaluation',
+  'other'
+]
+
+export const DEFAULT_REMINDER_DAYS = [7, 1]
+
+export interface CaseDeadlineInput {
+  type: CaseDeadlineType
+  title: string
+  /** ISO timestamp. */
+  startsAt: string
+  location: string | null
+  notes: string | null
+  /** Days before startsAt to send a reminder, largest first; 0 = the day of. */
+  reminderDays: number[]
+}
+
+export interface CaseDeadline extends CaseDeadlineInput {
+  id: string
+  createdAt: string
+  updatedAt: string
+}
+
+const MAX_REMINDERS = 5
+const MAX_REMINDER_DAYS = 90
+
+/**
+ * Validate a deadline from a request body. Throws an Error with a message
+ * that is safe to show the user.
+ */
+export function parseCaseDeadlineInput(input: unknown): CaseDeadlineInput {
+  const body = (input ?? {}) as Record<string, unknown>
+
+  const type = body.type as CaseDeadlineType
+  if (!CASE_DEADLINE_TYPES.includes(type)) {
+    throw new Error('Choose what kind of date this is.')
+  }
+
+  const title = optionalText(body.title)
+  if (!title) {
+    throw new Error('Give the date a short title.')
+  }
+
+  const startsAtMs = typeof body.startsAt === 'string' ? Date.parse(body.startsAt) : Number.NaN
+  if (Number.isNaN(startsAtMs)) {
+    throw new Error('Enter a valid date and time.')
+  }
+
+  let reminderDays = DEFAULT_REMINDER_DAYS
+  if (body.reminderDays !== undefined) {
+    const raw = body.reminderDays
+    if (!Array.isArray(raw) || raw.length > MAX_REMINDERS
+      || !raw.every(d => Number.isInteger(d) && d >= 0 && d <= MAX_REMINDER_DAYS)) {
+      throw new Error(`Choose up to ${MAX_REMINDERS} reminders, each 0–${MAX_REMINDER_DAYS} days before.`)
+    }
+    reminderDays = [...new Set(raw as number[])].sort((a, b) => b - a)
+  }
+
+  return {
+    type,
+    title,
+    startsAt: new Date(startsAtMs).toISOString(),
+    location: optionalText(body.location),
+    notes: optionalText(body.notes),
+    reminderDays
+  }
+}
+
+export function caseDeadlineFromRow(row: CaseDeadlineRow): CaseDeadline {
+  return {
+    id: row.id,
+    type: row.type as CaseDeadlineType,
+    title: row.title,
+    startsAt: row.starts_at,
+    location: row.location,
+    notes: row.notes,
+    reminderDays: row.reminder_days,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+export function caseDeadlineToRow(input: CaseDeadlineInput, caseId: string, userId: string): CaseDeadlineInsert {
+  return {
+    case_id: caseId,
+    user_id: userId,
+    type: input.type,
+    title: input.title,
+    starts_at: input.startsAt,
+    location: input.location,
+    notes: input.notes,
+    reminder_days: input.reminderDays
+  }
+}
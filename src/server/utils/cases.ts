@@ -1,17 +1,62 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
 import type { Database } from '~/types/database.types'
 
+/**
+ * How the current user relates to a case. Owners have full access;
+ * collaborators (`case_collaborators`, accepted and not revoked) are read-only.
+ */
+export type CaseRole = 'owner' | 'collaborator'
+
+/**
+ * Resolve the user's role on a case, or `null` if they have no access.
+ * Ownership wins when a user is somehow both.
+ */
+export async function getCaseRole(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  caseId: string
+): Promise<CaseRole | null> {
+  const { data: owned, error } = await supabase
+    .from('cases')
+    .select('id')
+    .eq('id', caseId)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+  if (owned) return 'owner'
+
+  const { data: shared, error: sharedError } = await supabase
+    .from('case_collaborators')
+    .select('id')
+    .eq('case_id', caseId)
+    .eq('user_id', userId)
+    .not('accepted_at', 'is', null)
+    .is('revoked_at', null)
+    .limit(1)
+    .maybeSingle()
+  if (sharedError) {
+    throw createError({ statusCode: 500, statusMessage: sharedError.message })
+  }
+  return shared ? 'collaborator' : null
+}
+
 /**
  * Resolve the active case id for the current user, or `null` if the user has
  * no cases yet. Use this in **read** endpoints (timeline, journal, evidence,
  * home) — they should return empty results rather than 404 when the user
  * hasn't created a case yet.
  *
+ * Cases shared with the user via `case_collaborators` count as accessible, so
+ * an attorney who only collaborates resolves to their shared case.
+ *
  * Order of precedence:
  *   1. `override` arg (e.g. `?caseId=` query param or request body field)
  *   2. `profiles.active_case_id` (set by the sidebar CaseSwitcher; persistent across devices)
- *   3. The user's most-recently-created case
- *   4. `null` if none of the above resolve.
+ *   3. The user's most-recently-created owned case
+ *   4. The user's most-recently-accepted shared case
+ *   5. `null` if none of the above resolve.
  */
 export async function getActiveCaseIdOrNull(
   supabase: SupabaseClient<Database>,
@@ -21,13 +66,7 @@ export async function getActiveCaseIdOrNull(
   const candidate = override?.trim() || null
 
   if (candidate) {
-    const { data } = await supabase
-      .from('cases')
-      .select('id')
-      .eq('id', candidate)
-      .eq('user_id', userId)
-      .maybeSingle()
-    if (data?.id) return data.id
+    if (await getCaseRole(supabase, userId, candidate)) return candidate
     // override stale or pointed to a foreign case; fall through.
   }
 
@@ -38,13 +77,7 @@ export async function getActiveCaseIdOrNull(
     .maybeSingle()
 
   if (profile?.active_case_id) {
-    const { data: stored } = await supabase
-      .from('cases')
-      .select('id')
-      .eq('id', profile.active_case_id)
-      .eq('user_id', userId)
-      .maybeSingle()
-    if (stored?.id) return stored.id
+    if (await getCaseRole(supabase, userId, profile.active_case_id)) return profile.active_case_id
   }
 
   const { data, error } = await supabase
@@ -58,13 +91,29 @@ export async function getActiveCaseIdOrNull(
   if (error) {
     throw createError({ statusCode: 500, statusMessage: error.message })
   }
-  return data?.id ?? null
+  if (data?.id) return data.id
+
+  const { data: shared, error: sharedError } = await supabase
+    .from('case_collaborators')
+    .select('case_id')
+    .eq('user_id', userId)
+    .not('accepted_at', 'is', null)
+    .is('revoked_at', null)
+    .order('accepted_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (sharedError) {
+    throw createError({ statusCode: 500, statusMessage: sharedError.message })
+  }
+  return shared?.case_id ?? null
 }
 
 /**
  * Resolve the active case id, throwing 404 if the user has no cases.
  * Use this in **write** endpoints (journal/submit, evidence-upload, capture
- * paths) where a target case is required to insert a row.
+ * paths) where a target case is required to insert a row. Throws 403 when the
+ * resolved case is only shared with the user — collaborators are read-only.
  */
 export async function getActiveCaseId(
   supabase: SupabaseClient<Database>,
@@ -78,32 +127,29 @@ export async function getActiveCaseId(
       statusMessage: 'No case found for this user. Create one before continuing.'
     })
   }
+  await requireCaseAccess(supabase, userId, id, { write: true })
   return id
 }
 
 /**
- * Verify that the given user owns the given case. Throws 403 if not.
- *
- * Plan 03 will extend this to also accept users granted access via
- * `case_collaborators`. Until then, ownership === access.
+ * Verify that the given user can access the given case and return their role.
+ * Throws 403 if they have no access, or if `write` is set and they are only a
+ * collaborator.
  */
 export async function requireCaseAccess(
   supabase: SupabaseClient<Database>,
   userId: string,
-  caseId: string
-): Promise<void> {
-  const { data, error } = await supabase
-    .from('cases')
-    .select('id')
-    .eq('id', caseId)
-    .eq('user_id', userId)
-    .maybeSingle()
-  if (error) {
-    throw createError({ statusCode: 500, statusMessage: error.message })
-  }
-  if (!data) {
+  caseId: string,
+  options: { write?: boolean } = {}
+): Promise<CaseRole> {
+  const role = await getCaseRole(supabase, userId, caseId)
+  if (!role) {
     throw createError({ statusCode: 403, statusMessage: 'Forbidden' })
   }
+  if (options.write && role !== 'owner') {
+    throw createError({ statusCode: 403, statusMessage: 'Read-only access: only the case owner can make changes.' })
+  }
+  return role
 }
 
 /**
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { parseChatExport, parseSmsBackupXml, parseWhatsAppExport } from './chat-import'
+import { isOfwThreadId } from './message-sources'
+
+describe('parseWhatsAppExport', () => {
+  it('parses iOS exports with multi-line bodies, attachments and system notices', () => {
+    const text = [
+      '[1/2/24, 9:05:13 PM] Messages and calls are end-to-end encrypted.',
+      '[1/2/24, 9:05:13 PM] Alex Parent: Running late,',
+      'be there at 6',
+      '[1/3/24, 8:00:00 AM] Sam Parent: ‎<attached: 00000012-PHOTO-2024-01-03.jpg>'
+    ].join('\n')
+
+    const result = parseWhatsAppExport(text, 'WhatsApp Chat with Sam Parent.txt')
+    expect(result.messages).toHaveLength(2)
+    expect(result.messages[0]).toMatchObject({
+      sent: '2024-01-02T21:05:13',
+      from: 'Alex Parent',
+      to: 'Sam Parent',
+      subject: 'WhatsApp: Sam Parent',
+      body: 'Running late,\nbe there at 6',
+      threadId: 'whatsapp-sam-parent-2024-01-02'
+    })
+    expect(result.messages[1]!.attachments).toEqual(['00000012-PHOTO-2024-01-03.jpg'])
+    expect(result.metadata.threadCount).toBe(2)
+  })
+
+  it('detects day-first Android exports', () => {
+    const text = [
+      '13/02/2024, 21:05 - Alex: hi',
+      '02/03/2024, 07:30 - Sam: morning'
+    ].join('\n')
+
+    const result = parseWhatsAppExport(text, '_chat.txt')
+    expect(result.messages.map(m => m.sent)).toEqual(['2024-02-13T21:05:00', '2024-03-02T07:30:00'])
+  })
+})
+
+describe('parseSmsBackupXml', () => {
+  it('maps sent/received SMS and MMS onto one conversation, skipping drafts', () => {
+    const xml = `<?xml version='1.0' encoding='UTF-8' standalone='yes' ?>
+<smses count="4">
+  <sms protocol="0" address="+1 (555) 123-4567" date="1704247513000" type="1" body="Can you &amp; the kids be ready?" contact_name="Sam" />
+  <sms protocol="0" address="5551234567" date="1704247600000" type="2" body="Yes" contact_name="Sam" />
+  <sms protocol="0" address="5551234567" date="1704247700000" type="3" body="draft" contact_name="Sam" />
+  <mms date="1704247800000" msg_box="1" address="+15551234567" contact_name="Sam">
+    <parts>
+      <part ct="application/smil" text="&lt;smil /&gt;" />
+      <part ct="image/jpeg" name="IMG_1.jpg" />
+      <part ct="text/plain" text="Photo from today" />
+    </parts>
+    <addrs><addr address="+15551234567" type="137" /></addrs>
+  </mms>
+</smses>`
+
+    const result = parseSmsBackupXml(xml, 'sms.xml', { selfName: 'Alex', timeZone: 'America/Chicago' })
+    expect(result.metadata.conversationCount).toBe(1)
+    expect(result.messages).toHaveLength(3)
+    expect(result.messages[0]).toMatchObject({
+      sent: '2024-01-02T20:05:13',
+      from: 'Sam',
+      to: 'Alex',
+      body: 'Can you & the kids be ready?',
+      threadId: 'sms-5551234567-2024-01-02'
+    })
+    expect(result.messages[1]!.from).toBe('Alex')
+    expect(result.messages[2]).toMatchObject({ from: 'Sam', body: 'Photo from today', attachments: ['IMG_1.jpg'] })
+  })
+})
+
+describe('parseChatExport', () => {
+  it('gives identical dedupe keys on re-import and rejects unknown files', () => {
+    const text = '1/2/24, 9:05 PM - Alex: hi'
+    const a = parseChatExport(text, 'WhatsApp Chat with Sam.txt')
+    const b = parseChatExport(text, 'WhatsApp Chat with Sam.txt')
+    expect(a.messages[0]!.dedupeKey).toBe(b.messages[0]!.dedupeKey)
+    expect(isOfwThreadId(a.messages[0]!.threadId)).toBe(false)
+
+    expect(() => parseChatExport('just some notes', 'notes.txt')).toThrow(/Unrecognized chat export/)
+  })
+})
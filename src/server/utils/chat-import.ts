@@ -0,0 +1,334 @@
+/**
+ * Phone chat importers: WhatsApp `.txt` exports and Android "SMS Backup &
+ * Restore" XML. Both normalize to ChatImportMessage, which maps 1:1 onto a
+ * `messages` row with source 'whatsapp' or 'sms'.
+ *
+ * Threading: one thread per conversation per calendar day
+ * (`sms-5551234567-2024-01-02`, `whatsapp-sam-2024-01-02`). A chat has no
+ * subjects to group by, and one thread per conversation would hand the
+ * summarizer years of texts at once.
+ *
+ * Dedupe: dedupeKey hashes (source, conversation, sender, sent, body), so
+ * re-importing an overlapping export inserts only the new texts.
+ */
+
+import { createHash } from 'node:crypto'
+import { toWallClock } from './message-sources'
+
+export type ChatSource = 'sms' | 'whatsapp'
+
+export interface ChatImportMessage {
+  source: ChatSource
+  /** Local wall-clock ISO (`YYYY-MM-DDTHH:MM:SS`), same convention as the OFW parser. */
+  sent: string
+  from: string
+  to: string
+  subject: string
+  body: string
+  attachments: string[]
+  threadId: string
+  dedupeKey: string
+  wordCount: number
+}
+
+export interface ChatParseResult {
+  metadata: {
+    source: ChatSource
+    filename: string
+    totalMessages: number
+    conversationCount: number
+    threadCount: number
+    senders: string[]
+    dateRange: { start: string, end: string } | null
+  }
+  messages: ChatImportMessage[]
+}
+
+export interface ChatImportOptions {
+  /** Shown as the sender of outgoing SMS. The backup only records the other party. */
+  selfName?: string
+  /** IANA zone used to turn SMS epoch timestamps into wall-clock times. */
+  timeZone?: string
+}
+
+/** Before threading / hashing. */
+interface RawChatMessage {
+  conversationKey: string
+  conversationName: string
+  sent: string
+  from: string
+  to: string
+  body: string
+  attachments: string[]
+}
+
+// ── Shared ──
+
+function slugify(s: string): string {
+  return s.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'chat'
+}
+
+function hashKey(parts: string[]): string {
+  return createHash('sha256').update(parts.join('\u0000')).digest('hex')
+}
+
+function finalize(source: ChatSource, filename: string, raw: RawChatMessage[]): ChatParseResult {
+  const subjectPrefix = source === 'sms' ? 'Texts with' : 'WhatsApp:'
+  const seen = new Set<string>()
+  const messages: ChatImportMessage[] = []
+
+  for (const m of [...raw].sort((a, b) => a.sent.localeCompare(b.sent))) {
+    const dedupeKey = hashKey([source, m.conversationKey, m.from, m.sent, m.body])
+    if (seen.has(dedupeKey)) continue
+    seen.add(dedupeKey)
+    messages.push({
+      source,
+      sent: m.sent,
+      from: m.from,
+      to: m.to,
+      subject: `${subjectPrefix} ${m.conversationName}`,
+      body: m.body,
+      attachments: m.attachments,
+      threadId: `${source}-${slugify(m.conversationKey)}-${m.sent.slice(0, 10)}`,
+      dedupeKey,
+      wordCount: m.body.split(/\s+/).filter(Boolean).length
+    })
+  }
+
+  return {
+    metadata: {
+      source,
+      filename,
+      totalMessages: messages.length,
+      conversationCount: new Set(raw.map(m => m.conversationKey)).size,
+      threadCount: new Set(messages.map(m => m.threadId)).size,
+      senders: [...new Set(messages.map(m => m.from))],
+      dateRange: messages.length
+        ? { start: messages[0]!.sent, end: messages.at(-1)!.sent }
+        : null
+    },
+    messages
+  }
+}
+
+// ── WhatsApp ──
+
+// iOS:     [1/2/24, 9:05:13 PM] Sam Parent: text
+// Android: 1/2/24, 21:05 - Sam Parent: text
+const WA_TIMESTAMP = String.raw`(\d{1,2})[/.](\d{1,2})[/.](\d{2,4}),?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\s*([AaPp])\.?\s?[Mm]\.?)?`
+const WA_IOS_RE = new RegExp(String.raw`^\[${WA_TIMESTAMP}\]\s+(.*)$`)
+const WA_ANDROID_RE = new RegExp(String.raw`^${WA_TIMESTAMP}\s+[-–]\s+(.*)$`)
+const WA_SENDER_RE = /^([^:]{1,80}?):\s?([\s\S]*)$/
+const WA_ATTACHED_RE = /<attached:\s*([^>]+)>/gi
+
+function cleanWhatsAppLine(line: string): string {
+  // iOS sprinkles direction marks around names and uses narrow no-break
+  // spaces before AM/PM.
+  return line.replace(/[\u200E\u200F\u202A-\u202E]/g, '').replace(/[\u202F\u00A0]/g, ' ')
+}
+
+function matchWhatsAppHeader(line: string): RegExpMatchArray | null {
+  return line.match(WA_IOS_RE) ?? line.match(WA_ANDROID_RE)
+}
+
+/** WhatsApp follows the phone's locale: 2/1/24 can be either order. */
+function isDayFirst(headers: RegExpMatchArray[]): boolean {
+  return headers.some(h => +h[1]! > 12)
+}
+
+function whatsAppDate(h: RegExpMatchArray, dayFirst: boolean): string {
+  const [, a, b, yRaw, hRaw, mi, ss, ap] = h
+  const month = dayFirst ? b! : a!
+  const day = dayFirst ? a! : b!
+  const year = yRaw!.length === 2 ? `20${yRaw}` : yRaw!
+  let hour = parseInt(hRaw!, 10)
+  if (ap && /p/i.test(ap) && hour !== 12) hour += 12
+  if (ap && /a/i.test(ap) && hour === 12) hour = 0
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}T${String(hour).padStart(2, '0')}:${mi}:${ss ?? '00'}`
+}
+
+/** "WhatsApp Chat with Sam Parent.txt" → "Sam Parent". */
+function chatNameFromFilename(filename: string): string | null {
+  const base = filename.split('/').pop()!.replace(/\.txt$/i, '').replace(/^\d+-/, '')
+  const m = base.replace(/_/g, ' ').match(/WhatsApp Chat (?:with|-)\s*(.+)$/i)
+  return m?.[1]?.trim() || null
+}
+
+export function looksLikeWhatsApp(text: string): boolean {
+  const lines = text.split(/\r?\n/).slice(0, 20).map(cleanWhatsAppLine)
+  return lines.some(l => matchWhatsAppHeader(l) !== null)
+}
+
+export function parseWhatsAppExport(text: string, filename: string): ChatParseResult {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/).map(cleanWhatsAppLine)
+
+  const entries: { header: RegExpMatchArray, from: string | null, body: string[] }[] = []
+  for (const line of lines) {
+    const header = matchWhatsAppHeader(line)
+    if (header) {
+      const rest = header[8]!
+      const sender = rest.match(WA_SENDER_RE)
+      // Lines without "Name:" are system notices ("Messages are end-to-end
+      // encrypted", "Sam added Alex"). Keep them as entries so their
+      // continuation lines are not glued onto the previous message.
+      entries.push({ header, from: sender ? sender[1]!.trim() : null, body: [sender ? sender[2]! : rest] })
+      continue
+    }
+    const current = entries.at(-1)
+    if (current) current.body.push(line)
+  }
+
+  const dayFirst = isDayFirst(entries.map(e => e.header))
+  const participants = [...new Set(entries.map(e => e.from).filter((f): f is string => !!f))]
+  const chatName = chatNameFromFilename(filename) ?? (participants.join(', ') || 'Chat')
+
+  const raw: RawChatMessage[] = []
+  for (const e of entries) {
+    if (!e.from) continue
+    const text = e.body.join('\n')
+    const attachments = [...text.matchAll(WA_ATTACHED_RE)].map(m => m[1]!.trim())
+    const body = text.replace(WA_ATTACHED_RE, '').trim()
+    raw.push({
+      conversationKey: chatName,
+      conversationName: chatName,
+      sent: whatsAppDate(e.header, dayFirst),
+      from: e.from,
+      to: participants.filter(p => p !== e.from).join(', '),
+      body: body || (attachments.length ? '[Attachment]' : ''),
+      attachments
+    })
+  }
+
+  return finalize('whatsapp', filename, raw.filter(m => m.body))
+}
+
+// ── SMS Backup & Restore XML ──
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'' }
+
+function decodeXmlEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (all, ent: string) => {
+    if (ent[0] === '#') {
+      const code = ent[1] === 'x' || ent[1] === 'X' ? parseInt(ent.slice(2), 16) : parseInt(ent.slice(1), 10)
+      return Number.isFinite(code) ? String.fromCodePoint(code) : all
+    }
+    return XML_ENTITIES[ent.toLowerCase()] ?? all
+  })
+}
+
+function parseAttributes(s: string): Record<string, string> {
+  const attrs: Record<string, string> = {}
+  for (const m of s.matchAll(/([\w:-]+)="([^"]*)"/g)) attrs[m[1]!] = decodeXmlEntities(m[2]!)
+  return attrs
+}
+
+/** Last 10 digits, so "+1 (555) 123-4567" and "5551234567" are one contact. */
+function normalizeAddress(address: string): string {
+  const digits = address.replace(/\D/g, '')
+  return digits.length >= 10 ? digits.slice(-10) : (digits || address.trim().toLowerCase())
+}
+
+function usableName(name: string | undefined): string | null {
+  const n = name?.trim()
+  return n && n !== '(Unknown)' && n !== 'null' ? n : null
+}
+
+export function looksLikeSmsBackup(text: string): boolean {
+  return /<smses[\s>]/.test(text.slice(0, 4096))
+}
+
+export function parseSmsBackupXml(xml: string, filename: string, options: ChatImportOptions = {}): ChatParseResult {
+  const self = options.selfName?.trim() || 'Me'
+  const timeZone = options.timeZone || 'UTC'
+  const raw: RawChatMessage[] = []
+
+  // type / msg_box: 1 = received, 2 = sent. Drafts, outbox and failed sends
+  // never reached the other parent, so they are not imported.
+  for (const m of xml.matchAll(/<sms\b([^>]*?)\/?>/g)) {
+    const a = parseAttributes(m[1]!)
+    const date = Number(a.date)
+    if (!a.address || !Number.isFinite(date) || (a.type !== '1' && a.type !== '2')) continue
+    const contact = usableName(a.contact_name) ?? a.address
+    const body = (a.body ?? '').trim()
+    if (!body) continue
+    raw.push({
+      conversationKey: normalizeAddress(a.address),
+      conversationName: contact,
+      sent: toWallClock(date, timeZone),
+      from: a.type === '1' ? contact : self,
+      to: a.type === '1' ? self : contact,
+      body,
+      attachments: []
+    })
+  }
+
+  for (const m of xml.matchAll(/<mms\b([^>]*)>([\s\S]*?)<\/mms>/g)) {
+    const a = parseAttributes(m[1]!)
+    const date = Number(a.date)
+    if (!a.address || !Number.isFinite(date) || (a.msg_box !== '1' && a.msg_box !== '2')) continue
+
+    const texts: string[] = []
+    const attachments: string[] = []
+    for (const p of m[2]!.matchAll(/<part\b([^>]*?)\/?>/g)) {
+      const part = parseAttributes(p[1]!)
+      if (part.ct === 'application/smil') continue
+      if (part.ct === 'text/plain') {
+        if (part.text?.trim()) texts.push(part.text.trim())
+        continue
+      }
+      const name = usableName(part.name) ?? usableName(part.cl)
+      if (name) attachments.push(name)
+    }
+
+    // Group MMS: address is "a~b~c" and contact_name "A, B, C" in the same order.
+    const addresses = a.address.split('~').map(s => s.trim()).filter(Boolean)
+    const names = (a.contact_name ?? '').split(',').map(s => s.trim())
+    const nameFor = (addr: string) => {
+      const i = addresses.indexOf(addr)
+      return usableName(names[i]) ?? addr
+    }
+    const everyone = addresses.map(nameFor)
+    const fromAddr = [...(m[2]!.matchAll(/<addr\b([^>]*?)\/?>/g))]
+      .map(x => parseAttributes(x[1]!))
+      .find(x => x.type === '137')?.address
+    const sender = a.msg_box === '1'
+      ? (fromAddr ? nameFor(addresses.find(x => normalizeAddress(x) === normalizeAddress(fromAddr)) ?? fromAddr) : everyone[0]!)
+      : self
+
+    const body = texts.join('\n') || (attachments.length ? '[Attachment]' : '')
+    if (!body) continue
+    raw.push({
+      conversationKey: addresses.map(normalizeAddress).sort().join('-'),
+      conversationName: everyone.join(', '),
+      sent: toWallClock(date, timeZone),
+      from: sender,
+      to: [self, ...everyone].filter(p => p !== sender).join(', '),
+      body,
+      attachments
+    })
+  }
+
+  return finalize('sms', filename, raw)
+}
+
+// ── Entry point ──
+
+/**
+ * Detect and parse a chat export. Throws when the file is neither format or
+ * contains no importable messages.
+ */
+export function parseChatExport(text: string, filename: string, options: ChatImportOptions = {}): ChatParseResult {
+  let result: ChatParseResult
+  if (looksLikeSmsBackup(text)) {
+    result = parseSmsBackupXml(text, filename, options)
+  } else if (looksLikeWhatsApp(text)) {
+    result = parseWhatsAppExport(text, filename)
+  } else {
+    throw new Error('Unrecognized chat export. Upload a WhatsApp "Export chat" .txt file or an SMS Backup & Restore .xml file.')
+  }
+
+  if (!result.messages.length) {
+    throw new Error('No messages found in the chat export.')
+  }
+  return result
+}
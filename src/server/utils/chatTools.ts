@@ -5,15 +5,32 @@ import { zodTextFormat } from 'openai/helpers/zod'
 import type { SupabaseClient } from '@supabase/supabase-js'
 import type { Database } from '~/types/database.types'
 import type { CitationRegistry } from './citations'
+import { EMBEDDING_KINDS, searchEmbeddings } from './embeddings'
+import { MESSAGE_FLAGS, MESSAGE_TONES } from './message-classification'
+import { loadCommunicationMetrics } from './communication-metrics-data'
 
 type Client = SupabaseClient<Database>
 
 const MAX_RECORDS = 25
 const MAX_THREADS = 10
+/** Segment matches read per search_threads call, and shown per thread. */
+const MAX_SEGMENT_HITS = 40
+const MAX_SEGMENTS_PER_THREAD = 3
+
+interface SegmentHit {
+  thread_id: string
+  segment_index: number
+  message_count: number
+  first_sent_at: string | null
+  last_sent_at: string | null
+  summary: string | null
+}
 const MAX_THREADS_TO_RANK = 300
 const RANK_CHUNK_SIZE = 50
 const RANK_MODEL = 'gpt-5.4-mini'
 const BODY_PREVIEW_CHARS = 320
+/** Most recent months returned by get_communication_metrics. */
+const MAX_METRIC_MONTHS = 24
 
 // Regex retrieval — LLM generates POSIX patterns from the user's question;
 // Postgres applies them against retrieval_blurb. Uses higher reasoning than
@@ -47,9 +64,11 @@ const eventTypeEnum = z.enum([
 
 const toneEnum = z.enum(['cooperative', 'neutral', 'tense', 'hostile', 'mixed'])
 
+const deadlineTypeEnum = z.enum(['hearing', 'mediation', 'discovery', 'filing', 'gal_interview', 'evaluation', 'other'])
+
 interface ToolDeps {
   registry: CitationRegistry
-  /** OpenAI API key, used by find_relevant_threads to rank summaries. */
+  /** OpenAI API key, used by find_relevant_threads to rank summaries and by semantic_search to embed queries. */
   openaiApiKey: string
 }
 
@@ -172,6 +191,7 @@ export function createCaseTools(client: Client, caseId: string, deps: ToolDeps)
     search_threads: tool({
       description:
         'Search thread-level summaries for the active case. **Start here for any "what happened with X" question** — threads aggregate the full conversation so you do not have to read every message. Returns up to 10 threads with summary, tone, flags, participants, and search anchors. '
+        + 'Long threads are also searched part by part: `matchedSegments` says which part of the thread matched (with its dates and summary); pass its `segment` number to get_thread to read just those messages. '
         + 'QUERY RULES: pass 1–3 distinctive keywords (a name, a topic, a date), NOT a full sentence. Names beat verbs. Cite a thread via [thread:<id>]. To read individual messages in a thread, call get_thread next.',
       inputSchema: z.object({
         query: z.string().optional().describe('1–3 keywords. Names, topics, distinctive nouns. NOT a full sentence. Names of people mentioned in the bodies (e.g. "Katy") work here — they are indexed via the thread search anchors.'),
@@ -182,32 +202,67 @@ export function createCaseTools(client: Client, caseId: string, deps: ToolDeps)
       }),
       execute: async (args) => {
         try {
-          let q = (client as any)
-            .from('message_threads')
-            .select('id, thread_id, subject, summary, tone, flags, participants, message_count, first_sent_at, last_sent_at, search_anchors')
-            .eq('case_id', caseId)
-            .order('last_sent_at', { ascending: false, nullsFirst: false })
-            .limit(MAX_THREADS + 1)
-
-          if (args.from) q = q.gte('last_sent_at', args.from)
-          if (args.to) q = q.lte('last_sent_at', args.to)
-          if (args.tones?.length) q = q.in('tone', args.tones)
-          if (args.flags?.length) q = q.overlaps('flags', args.flags)
+          const query = args.query?.trim()
+          const threadQuery = () => {
+            let q = (client as any)
+              .from('message_threads')
+              .select('id, thread_id, subject, summary, tone, flags, participants, message_count, first_sent_at, last_sent_at, search_anchors')
+              .eq('case_id', caseId)
+              .order('last_sent_at', { ascending: false, nullsFirst: false })
+              .limit(MAX_THREADS + 1)
+            if (args.from) q = q.gte('last_sent_at', args.from)
+            if (args.to) q = q.lte('last_sent_at', args.to)
+            if (args.tones?.length) q = q.in('tone', args.tones)
+            if (args.flags?.length) q = q.overlaps('flags', args.flags)
+            return q
+          }
 
-          if (args.query?.trim()) {
+          let q = threadQuery()
+          if (query) {
             // summary_fts is a stored generated tsvector covering
             // summary + subject + participants. See 0053_message_threads.sql.
             // config: 'english' on the query side matches the column's
             // tokenization (otherwise queries fall back to `simple` and miss
             // stem-equivalent words).
-            q = q.textSearch('summary_fts', args.query.trim(), { config: 'english', type: 'websearch' })
+            q = q.textSearch('summary_fts', query, { config: 'english', type: 'websearch' })
           }
 
           const { data, error } = await q
           if (error) return { error: error.message }
 
-          const truncated = (data?.length ?? 0) > MAX_THREADS
-          const items = (data ?? []).slice(0, MAX_THREADS).map((t: any) => ({
+          // Segments of long threads (0076_message_thread_segments.sql): a hit
+          // here points at the part of the thread that matched, and finds
+          // threads whose overall summary is too coarse to mention the term.
+          const segmentsByThread = new Map<string, SegmentHit[]>()
+          if (query) {
+            let sq = client
+              .from('message_thread_segments')
+              .select('thread_id, segment_index, message_count, first_sent_at, last_sent_at, summary')
+              .eq('case_id', caseId)
+              .textSearch('segment_fts', query, { config: 'english', type: 'websearch' })
+              .order('first_sent_at', { ascending: true })
+              .limit(MAX_SEGMENT_HITS)
+            if (args.from) sq = sq.gte('last_sent_at', args.from)
+            if (args.to) sq = sq.lte('first_sent_at', args.to)
+            const { data: segments, error: segmentError } = await sq
+            if (segmentError) return { error: segmentError.message }
+            for (const segment of segments ?? []) {
+              const list = segmentsByThread.get(segment.thread_id) ?? []
+              list.push(segment)
+              segmentsByThread.set(segment.thread_id, list)
+            }
+          }
+
+          let rows = data ?? []
+          const segmentOnly = [...segmentsByThread.keys()].filter(id => !rows.some((t: { thread_id: string }) => t.thread_id === id))
+          if (segmentOnly.length && rows.length <= MAX_THREADS) {
+            const { data: extra, error: extraError } = await threadQuery().in('thread_id', segmentOnly)
+            if (extraError) return { error: extraError.message }
+            rows = [...rows, ...(extra ?? [])]
+          }
+
+          const truncated = rows.length > MAX_THREADS
+          const items = rows.slice(0, MAX_THREADS).map((t: any) => ({
             id: t.id,
             threadSlug: t.thread_id,
             subject: t.subject,
@@ -218,13 +273,24 @@ export function createCaseTools(client: Client, caseId: string, deps: ToolDeps)
             messageCount: t.message_count,
             firstSentAt: safeIso(t.first_sent_at),
             lastSentAt: safeIso(t.last_sent_at),
-            anchors: t.search_anchors
+            anchors: t.search_anchors,
+            ...(segmentsByThread.has(t.thread_id)
+              ? {
+                  matchedSegments: segmentsByThread.get(t.thread_id)!.slice(0, MAX_SEGMENTS_PER_THREAD).map(seg => ({
+                    segment: seg.segment_index,
+                    messageCount: seg.message_count,
+                    firstSentAt: safeIso(seg.first_sent_at),
+                    lastSentAt: safeIso(seg.last_sent_at),
+                    summary: seg.summary
+                  }))
+                }
+              : {})
           }))
           registry.recordMany(items.map((i: { id: string }) => i.id))
           // Active in-band escalation hint. The agent has shown a tendency to
           // permute keywords on 0-result rather than switch tools; this nudges
           // it toward find_relevant_threads when the question is intent-shaped.
-          if (items.length === 0 && args.query?.trim()) {
+          if (items.length === 0 && query) {
             return {
               items,
               count: 0,
@@ -241,9 +307,13 @@ export function createCaseTools(client: Client, caseId: string, deps: ToolDeps)
 
     get_thread: tool({
       description:
-        'Fetch a single thread summary plus its messages chronologically. Use after search_threads when you need direct quotes, message-level chronology, or the answer hinges on a specific message. Cite individual messages via [message:<id>] and the thread itself via [thread:<id>].',
-      inputSchema: z.object({ id: z.string() }),
-      execute: async ({ id }) => {
+        'Fetch a single thread summary plus its messages chronologically. Use after search_threads when you need direct quotes, message-level chronology, or the answer hinges on a specific message. Cite individual messages via [message:<id>] and the thread itself via [thread:<id>]. '
+        + 'Long threads come back with `segments` (a summary per part) and only their first 50 messages; pass `segment` to read the messages of one part instead.',
+      inputSchema: z.object({
+        id: z.string(),
+        segment: z.number().int().min(0).optional().describe('Part of a long thread to read, from matchedSegments in search_threads or `segments` here.')
+      }),
+      execute: async ({ id, segment }) => {
         try {
           const { data: t, error } = await (client as any)
             .from('message_threads')
@@ -254,11 +324,24 @@ export function createCaseTools(client: Client, caseId: string, deps: ToolDeps)
           if (error) return { error: error.message }
           if (!t) return { error: 'not found in this case' }
 
-          const { data: msgs, error: mErr } = await client
+          const { data: segments, error: sErr } = await client
+            .from('message_thread_segments')
+            .select('segment_index, message_count, first_sent_at, last_sent_at, summary')
+            .eq('message_thread_id', t.id)
+            .order('segment_index', { ascending: true })
+          if (sErr) return { error: sErr.message }
+
+          const selected = segment === undefined ? null : segments?.find(s => s.segment_index === segment)
+          if (segment !== undefined && !selected) return { error: `segment ${segment} not found in this thread` }
+
+          let mq = client
             .from('messages')
             .select('id, sent_at, sender, recipient, subject, body, message_number')
             .eq('case_id', caseId)
             .eq('thread_id', t.thread_id)
+          if (selected?.first_sent_at) mq = mq.gte('sent_at', selected.first_sent_at)
+          if (selected?.last_sent_at) mq = mq.lte('sent_at', selected.last_sent_at)
+          const { data: msgs, error: mErr } = await mq
             .order('sent_at', { ascending: true })
             .limit(51)
           if (mErr) return { error: mErr.message }
@@ -288,6 +371,18 @@ export function createCaseTools(client: Client, caseId: string, deps: ToolDeps)
             firstSentAt: safeIso(t.first_sent_at),
             lastSentAt: safeIso(t.last_sent_at),
             anchors: t.search_anchors,
+            ...(segments?.length
+              ? {
+                  segments: segments.map(s => ({
+                    segment: s.segment_index,
+                    messageCount: s.message_count,
+                    firstSentAt: safeIso(s.first_sent_at),
+                    lastSentAt: safeIso(s.last_sent_at),
+                    summary: s.summary
+                  }))
+                }
+              : {}),
+            ...(selected ? { segment: selected.segment_index } : {}),
             messages,
             truncated: (msgs?.length ?? 0) > 50
           }
@@ -572,22 +667,110 @@ export function createCaseTools(client: Client, caseId: string, deps: ToolDeps)
       }
     }),
 
+    semantic_search: tool({
+      description:
+        'Meaning-based search across individual OFW messages, timeline events, and journal entries. Unlike the keyword tools, '
+        + 'this matches paraphrases: "she would not let me talk to him on the phone" finds "calls are not a good idea tonight". '
+        + 'Pass the user\'s question (or a one-sentence restatement) as `query` — full sentences work here, unlike search_messages. '
+        + 'Returns up to 25 records, most similar first, each with `kind` and a `similarity` (0–1; below ~0.3 is usually noise). '
+        + 'Cite each record by kind: [message:<id>], [event:<id>], or [journal:<id>]. Records imported in the last minute may not be indexed yet.',
+      inputSchema: z.object({
+        query: z.string().min(3).describe('What to look for, in plain language. A sentence is fine.'),
+        kinds: z.array(z.enum(EMBEDDING_KINDS)).optional().describe('Restrict to some of "message", "event", "journal". Default: all.'),
+        limit: z.number().int().min(1).max(MAX_RECORDS).optional()
+      }),
+      execute: async (args) => {
+        try {
+          const matches = await searchEmbeddings(client, caseId, args.query, openaiApiKey, {
+            kinds: args.kinds,
+            limit: args.limit ?? MAX_RECORDS
+          })
+          if (!matches.length) {
+            return { items: [], count: 0, note: 'No indexed records in this case yet, or nothing similar. Fall back to the keyword tools.' }
+          }
+
+          const idsOf = (kind: string) => matches.filter(m => m.kind === kind).map(m => m.recordId)
+          const [messageIds, eventIds, journalIds] = [idsOf('message'), idsOf('event'), idsOf('journal')]
+
+          const [{ data: msgs }, { data: evs }, { data: entries }] = await Promise.all([
+            messageIds.length
+              ? client.from('messages').select('id, sent_at, sender, recipient, subject, body, thread_id').eq('case_id', caseId).in('id', messageIds)
+              : Promise.resolve({ data: [] as never[] }),
+            eventIds.length
+              ? client.from('events').select('id, title, description, primary_timestamp, type').eq('case_id', caseId).in('id', eventIds)
+              : Promise.resolve({ data: [] as never[] }),
+            journalIds.length
+              ? client.from('journal_entries').select('id, event_text, reference_date').eq('case_id', caseId).in('id', journalIds)
+              : Promise.resolve({ data: [] as never[] })
+          ])
+
+          const records = new Map<string, Record<string, unknown>>()
+          for (const m of msgs ?? []) {
+            records.set(m.id, {
+              timestamp: safeIso(m.sent_at),
+              sender: m.sender,
+              recipient: m.recipient,
+              subject: m.subject,
+              preview: (m.body ?? '').slice(0, BODY_PREVIEW_CHARS),
+              threadId: m.thread_id
+            })
+          }
+          for (const e of evs ?? []) {
+            records.set(e.id, {
+              timestamp: safeIso(e.primary_timestamp),
+              title: e.title,
+              type: e.type,
+              preview: (e.description ?? '').slice(0, BODY_PREVIEW_CHARS)
+            })
+          }
+          for (const j of entries ?? []) {
+            records.set(j.id, {
+              referenceDate: j.reference_date,
+              preview: (j.event_text ?? '').slice(0, BODY_PREVIEW_CHARS)
+            })
+          }
+
+          // Embeddings can briefly outlive a deleted record; drop those.
+          const items = matches
+            .filter(m => records.has(m.recordId))
+            .map(m => ({
+              kind: m.kind,
+              id: m.recordId,
+              similarity: Math.round(m.similarity * 1000) / 1000,
+              ...records.get(m.recordId)
+            }))
+          registry.recordMany(items.map(i => i.id))
+          return { items, count: items.length }
+        } catch (e) {
+          return { error: e instanceof Error ? e.message : 'unknown error' }
+        }
+      }
+    }),
+
     search_messages: tool({
       description:
         'Free-text search across INDIVIDUAL OFW messages. **Prefer search_threads first** — it covers conversations, not isolated messages. Use this only when you already know the thread or you are looking for one specific message. '
         + 'QUERY RULES: pass 1–3 distinctive keywords (a name, a place, an unusual noun). DO NOT pass a full sentence or the user\'s paraphrase — Postgres ANDs every stem and you will get zero hits. '
-        + 'Returns up to 25 matches with id, sent_at, sender, recipient, subject, body preview. Cite via [message:<id>].',
+        + 'Filter by per-message `tone` and `flags` (e.g. tone "hostile" + sender to find who sent which hostile message; flags ["refusal"] for refusals); `query` can be omitted when filtering. Messages not yet classified never match a tone/flags filter. '
+        + 'Returns up to 25 matches with id, sent_at, sender, recipient, subject, body preview, tone, flags. Cite via [message:<id>].',
       inputSchema: z.object({
         query: z.string().optional().describe('1–3 keywords. Names, places, distinctive nouns. NOT a full sentence.'),
         sender: z.string().optional(),
         from: z.string().optional(),
-        to: z.string().optional()
+        to: z.string().optional(),
+        tone: z.enum(MESSAGE_TONES).optional().describe('Only messages classified with this tone.'),
+        flags: z.array(z.enum(MESSAGE_FLAGS)).optional().describe('Only messages carrying ALL of these flags.')
       }),
       execute: async (args) => {
         try {
+          // Inner join only when filtering on the classification, so
+          // unclassified messages still show up in plain searches.
+          const filtersClassification = !!args.tone || !!args.flags?.length
           let q = client
             .from('messages')
-            .select('id, sent_at, sender, recipient, subject, body, thread_id, message_number')
+            .select(filtersClassification
+              ? 'id, sent_at, sender, recipient, subject, body, thread_id, message_number, message_classifications!inner(tone, flags)'
+              : 'id, sent_at, sender, recipient, subject, body, thread_id, message_number, message_classifications(tone, flags)')
             .eq('case_id', caseId)
             .order('sent_at', { ascending: false })
             .limit(MAX_RECORDS + 1)
@@ -598,6 +781,8 @@ export function createCaseTools(client: Client, caseId: string, deps: ToolDeps)
           if (args.query?.trim()) {
             q = q.textSearch('body', args.query.trim(), { config: 'english', type: 'websearch' })
           }
+          if (args.tone) q = q.eq('message_classifications.tone', args.tone)
+          if (args.flags?.length) q = q.contains('message_classifications.flags', args.flags)
 
           const { data, error } = await q
           if (error) return { error: error.message }
@@ -611,7 +796,9 @@ export function createCaseTools(client: Client, caseId: string, deps: ToolDeps)
             subject: m.subject,
             bodyPreview: (m.body ?? '').slice(0, BODY_PREVIEW_CHARS),
             threadId: m.thread_id,
-            messageNumber: m.message_number
+            messageNumber: m.message_number,
+            tone: m.message_classifications?.tone ?? null,
+            flags: m.message_classifications?.flags ?? []
           }))
           registry.recordMany(items.map(i => i.id))
           return { items, count: items.length, truncated }
@@ -622,13 +809,13 @@ export function createCaseTools(client: Client, caseId: string, deps: ToolDeps)
     }),
 
     get_message: tool({
-      description: 'Fetch a single message with full body and surrounding thread context (other messages in the same thread).',
+      description: 'Fetch a single message with full body, its tone/flags classification, and surrounding thread context (other messages in the same thread).',
       inputSchema: z.object({ id: z.string() }),
       execute: async ({ id }) => {
         try {
           const { data: m, error } = await client
             .from('messages')
-            .select('id, sent_at, sender, recipient, subject, body, thread_id, message_number, attachments')
+            .select('id, sent_at, sender, recipient, subject, body, thread_id, message_number, attachments, message_classifications(tone, flags)')
             .eq('id', id)
             .eq('case_id', caseId)
             .maybeSingle()
@@ -664,6 +851,8 @@ export function createCaseTools(client: Client, caseId: string, deps: ToolDeps)
             threadId: m.thread_id,
             messageNumber: m.message_number,
             attachments: m.attachments,
+            tone: m.message_classifications?.tone ?? null,
+            flags: m.message_classifications?.flags ?? [],
             thread
           }
         } catch (e) {
@@ -748,6 +937,58 @@ export function createCaseTools(client: Client, caseId: string, deps: ToolDeps)
       }
     }),
 
+    get_case_deadlines: tool({
+      description:
+        'List court dates and deadlines on the case (hearings, mediation, discovery and filing deadlines, GAL interviews, evaluations), '
+        + 'soonest first, plus the case\'s headline next court date. Defaults to upcoming dates only.',
+      inputSchema: z.object({
+        types: z.array(deadlineTypeEnum).optional(),
+        from: z.string().optional().describe('ISO date — starts_at >= from. Defaults to now unless includePast is set.'),
+        to: z.string().optional().describe('ISO date — starts_at <= to'),
+        includePast: z.boolean().optional()
+      }),
+      execute: async (args) => {
+        try {
+          let q = client
+            .from('case_deadlines')
+            .select('id, type, title, starts_at, location, notes')
+            .eq('case_id', caseId)
+            .order('starts_at', { ascending: true })
+            .limit(MAX_RECORDS + 1)
+
+          const from = args.from ?? (args.includePast ? undefined : new Date().toISOString())
+          if (from) q = q.gte('starts_at', from)
+          if (args.to) q = q.lte('starts_at', args.to)
+          if (args.types?.length) q = q.in('type', args.types)
+
+          const [{ data, error }, { data: caseRow, error: caseError }] = await Promise.all([
+            q,
+            client.from('cases').select('next_court_date').eq('id', caseId).maybeSingle()
+          ])
+          if (error) return { error: error.message }
+          if (caseError) return { error: caseError.message }
+
+          const truncated = (data?.length ?? 0) > MAX_RECORDS
+          const items = (data ?? []).slice(0, MAX_RECORDS).map(d => ({
+            id: d.id,
+            type: d.type,
+            title: d.title,
+            startsAt: safeIso(d.starts_at),
+            location: d.location,
+            notes: (d.notes ?? '').slice(0, BODY_PREVIEW_CHARS) || null
+          }))
+          return {
+            items,
+            count: items.length,
+            truncated,
+            nextCourtDate: safeIso(caseRow?.next_court_date)
+          }
+        } catch (e) {
+          return { error: e instanceof Error ? e.message : 'unknown error' }
+        }
+      }
+    }),
+
     get_timeline_summary: tool({
       description:
         'High-level stats for the case in an optional date range: counts by event type, message counts by sender, '
@@ -809,6 +1050,40 @@ export function createCaseTools(client: Client, caseId: string, deps: ToolDeps)
       }
     }),
 
+    get_communication_metrics: tool({
+      description:
+        'Responsiveness between the co-parents, per sender, in total and by month: median time until the recipient first viewed the sender\'s messages '
+        + '(OFW only), messages never viewed, median time the sender took to reply within a thread, and information requests the sender made that never got a reply. '
+        + 'Use for "does she ignore my messages", "how long does he take to answer", "how many of my questions went unanswered". '
+        + 'Durations are in minutes. Unanswered requests are returned as messages; cite via [message:<id>].',
+      inputSchema: z.object({
+        from: z.string().optional().describe('YYYY-MM-DD — only messages sent on or after this day.'),
+        to: z.string().optional().describe('YYYY-MM-DD — only messages sent on or before this day.')
+      }),
+      execute: async (args) => {
+        try {
+          const report = await loadCommunicationMetrics(client, caseId, args.from?.slice(0, 10) || null, args.to?.slice(0, 10) || null)
+          const unanswered = report.unansweredRequests.slice(-MAX_RECORDS).map(r => ({
+            id: r.id,
+            timestamp: safeIso(r.sentAt),
+            sender: r.sender,
+            subject: r.subject,
+            messageNumber: r.messageNumber
+          }))
+          registry.recordMany(unanswered.map(r => r.id))
+          return {
+            total: report.total.senders,
+            months: report.months.slice(-MAX_METRIC_MONTHS),
+            monthsTruncated: report.months.length > MAX_METRIC_MONTHS,
+            unansweredRequests: unanswered,
+            unansweredRequestCount: report.unansweredRequests.length
+          }
+        } catch (e) {
+          return { error: e instanceof Error ? e.message : 'unknown error' }
+        }
+      }
+    }),
+
     find_contradictions: tool({
       description:
         'Best-effort: given a claim or reference event id, surface messages and events that mention overlapping topics '
@@ -0,0 +1,34 @@
+import { randomBytes } from 'node:crypto'
+import type { Database } from '~/types/database.types'
+
+type CollaboratorRow = Database['public']['Tables']['case_collaborators']['Row']
+
+export type CollaboratorRole = 'attorney_readonly'
+
+export type CollaboratorStatus = 'invited' | 'accepted' | 'revoked'
+
+export const COLLABORATOR_ROLES: CollaboratorRole[] = ['attorney_readonly']
+
+/**
+ * 32-byte URL-safe random token for invite links.
+ */
+export function generateInviteToken(): string {
+  return randomBytes(32).toString('base64url')
+}
+
+export function buildInviteUrl(token: string): string {
+  const { public: { baseUrl } } = useRuntimeConfig()
+  return `${String(baseUrl).replace(/\/+$/, '')}/invite/${token}`
+}
+
+export function collaboratorStatus(
+  row: Pick<CollaboratorRow, 'accepted_at' | 'revoked_at'>
+): CollaboratorStatus {
+  if (row.revoked_at) return 'revoked'
+  if (row.accepted_at) return 'accepted'
+  return 'invited'
+}
+
+export function daysBetween(from: string, to: Date = new Date()): number {
+  return Math.max(0, Math.round((to.getTime() - new Date(from).getTime()) / 86_400_000))
+}
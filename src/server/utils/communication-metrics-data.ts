@@ -0,0 +1,62 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '~/types/database.types'
+import { computeCommunicationMetrics } from './communication-metrics'
+import type { CommunicationMetricsReport, MetricsMessage } from './communication-metrics'
+
+const PAGE_SIZE = 1000
+
+/**
+ * Communication metrics for a case between `from` and `to` (YYYY-MM-DD,
+ * inclusive, either may be null). Loads every message in the case so replies
+ * outside the range still count as answers. Works with the request client or
+ * the service client.
+ */
+export async function loadCommunicationMetrics(
+  supabase: SupabaseClient<Database>,
+  caseId: string,
+  from: string | null,
+  to: string | null
+): Promise<CommunicationMetricsReport> {
+  const informationRequests = new Set<string>()
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('message_classifications')
+      .select('message_id')
+      .eq('case_id', caseId)
+      .contains('flags', ['information_request'])
+      .order('message_id')
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (error) throw createError({ statusCode: 500, statusMessage: error.message })
+    for (const row of data ?? []) informationRequests.add(row.message_id)
+    if ((data?.length ?? 0) < PAGE_SIZE) break
+  }
+
+  const messages: MetricsMessage[] = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('id, thread_id, sender, source, sent_at, first_viewed_at, subject, message_number, sequence_number')
+      .eq('case_id', caseId)
+      .order('sent_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (error) throw createError({ statusCode: 500, statusMessage: error.message })
+    for (const m of data ?? []) {
+      messages.push({
+        id: m.id,
+        threadId: m.thread_id,
+        sender: m.sender,
+        source: m.source,
+        sentAt: m.sent_at,
+        firstViewedAt: m.first_viewed_at,
+        subject: m.subject,
+        messageNumber: m.message_number,
+        sequenceNumber: m.sequence_number,
+        isInformationRequest: informationRequests.has(m.id)
+      })
+    }
+    if ((data?.length ?? 0) < PAGE_SIZE) break
+  }
+
+  return computeCommunicationMetrics(messages, from, to)
+}
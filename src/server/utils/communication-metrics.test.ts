@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { computeCommunicationMetrics, type MetricsMessage } from './communication-metrics'
+
+let seq = 0
+function msg(sender: string, sentAt: string, extra: Partial<MetricsMessage> = {}): MetricsMessage {
+  seq++
+  return {
+    id: `m${seq}`,
+    threadId: 't1',
+    sender,
+    source: 'ofw',
+    sentAt,
+    firstViewedAt: null,
+    subject: null,
+    messageNumber: seq,
+    sequenceNumber: seq,
+    isInformationRequest: false,
+    ...extra
+  }
+}
+
+describe('computeCommunicationMetrics', () => {
+  it('measures time to first view and never-viewed messages per sender', () => {
+    const report = computeCommunicationMetrics([
+      msg('Alex', '2025-03-01T09:00:00', { firstViewedAt: '2025-03-01T10:00:00' }),
+      msg('Alex', '2025-03-02T09:00:00', { firstViewedAt: '2025-03-02T12:00:00' }),
+      msg('Alex', '2025-03-03T09:00:00'),
+      msg('Alex', '2025-03-04T09:00:00', { source: 'sms' })
+    ])
+    expect(report.total.senders).toEqual([expect.objectContaining({
+      sender: 'Alex',
+      messagesSent: 4,
+      viewTracked: 3,
+      medianMinutesToFirstView: 120,
+      neverViewed: 1
+    })])
+  })
+
+  it('times replies from the start of the other side\'s turn', () => {
+    const report = computeCommunicationMetrics([
+      msg('Alex', '2025-03-01T09:00:00'),
+      msg('Alex', '2025-03-01T09:30:00'),
+      msg('Sam', '2025-03-01T11:00:00'),
+      msg('Alex', '2025-03-01T11:10:00')
+    ])
+    const [alex, sam] = report.total.senders
+    expect(sam).toMatchObject({ replies: 1, medianReplyMinutes: 120 })
+    expect(alex).toMatchObject({ replies: 1, medianReplyMinutes: 10 })
+  })
+
+  it('lists information requests with no reply from the other side', () => {
+    const report = computeCommunicationMetrics([
+      msg('Alex', '2025-03-01T09:00:00', { isInformationRequest: true }),
+      msg('Sam', '2025-03-02T09:00:00'),
+      msg('Alex', '2025-04-01T09:00:00', { threadId: 't2', isInformationRequest: true }),
+      msg('Alex', '2025-04-02T09:00:00', { threadId: 't2' })
+    ])
+    expect(report.unansweredRequests.map(r => r.sentAt)).toEqual(['2025-04-01T09:00:00'])
+    expect(report.months.map(m => m.period)).toEqual(['2025-03', '2025-04'])
+    expect(report.months[1]!.senders[0]).toMatchObject({ informationRequests: 1, unansweredInformationRequests: 1 })
+    expect(report.total.senders[0]).toMatchObject({ informationRequests: 2, unansweredInformationRequests: 1 })
+  })
+
+  it('only counts messages in range but lets later replies answer them', () => {
+    const report = computeCommunicationMetrics([
+      msg('Alex', '2025-02-27T09:00:00', { isInformationRequest: true }),
+      msg('Alex', '2025-03-01T09:00:00', { isInformationRequest: true }),
+      msg('Sam', '2025-04-05T09:00:00')
+    ], '2025-03-01', '2025-03-31')
+    expect(report.months.map(m => m.period)).toEqual(['2025-03'])
+    expect(report.total.senders).toEqual([expect.objectContaining({ sender: 'Alex', messagesSent: 1, unansweredInformationRequests: 0 })])
+    expect(report.unansweredRequests).toEqual([])
+  })
+})
@@ -0,0 +1,214 @@
+/**
+ * Communication metrics: how responsive each co-parent is, month by month.
+ *
+ * Every row is keyed by sender and describes that person's messages:
+ *   - time until the recipient first viewed them, and how many were never
+ *     viewed (OFW only; other sources don't record views),
+ *   - how long the sender took to reply within a thread, measured from the
+ *     first message of the other side's turn they were answering,
+ *   - information requests they sent (per-message classification) that never
+ *     got a reply in the thread.
+ *
+ * Pure: callers load the messages (see communication-metrics-data.ts).
+ */
+
+export interface MetricsMessage {
+  id: string
+  threadId: string | null
+  sender: string
+  source: string
+  sentAt: string
+  firstViewedAt: string | null
+  subject: string | null
+  messageNumber: number | null
+  sequenceNumber: number
+  /** Classified with the `information_request` flag. */
+  isInformationRequest: boolean
+}
+
+export interface SenderMetrics {
+  sender: string
+  messagesSent: number
+  /** Sent messages whose source records views (OFW). */
+  viewTracked: number
+  /** Median minutes from sent to first viewed, over viewed messages. */
+  medianMinutesToFirstView: number | null
+  neverViewed: number
+  /** Replies this sender wrote to the other side's turn. */
+  replies: number
+  medianReplyMinutes: number | null
+  informationRequests: number
+  unansweredInformationRequests: number
+}
+
+export interface CommunicationMetricsPeriod {
+  /** 'YYYY-MM', or 'total' for the whole range. */
+  period: string
+  senders: SenderMetrics[]
+}
+
+export interface UnansweredRequest {
+  id: string
+  sender: string
+  source: string
+  sentAt: string
+  subject: string | null
+  messageNumber: number | null
+  sequenceNumber: number
+}
+
+export interface CommunicationMetricsReport {
+  from: string | null
+  to: string | null
+  months: CommunicationMetricsPeriod[]
+  total: CommunicationMetricsPeriod
+  unansweredRequests: UnansweredRequest[]
+}
+
+interface Tally {
+  messagesSent: number
+  viewTracked: number
+  viewMinutes: number[]
+  neverViewed: number
+  replyMinutes: number[]
+  informationRequests: number
+  unansweredInformationRequests: number
+}
+
+function median(values: number[]): number | null {
+  if (!values.length) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  const value = sorted.length % 2 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2
+  return Math.round(value)
+}
+
+function minutesBetween(from: string, to: string): number | null {
+  const ms = Date.parse(to) - Date.parse(from)
+  if (Number.isNaN(ms) || ms < 0) return null
+  return ms / 60000
+}
+
+/** Month of a stored timestamp. OFW times are stored as displayed, so no zone shift. */
+function monthOf(timestamp: string): string {
+  return timestamp.slice(0, 7)
+}
+
+function inRange(timestamp: string, from: string | null, to: string | null): boolean {
+  const day = timestamp.slice(0, 10)
+  return (!from || day >= from) && (!to || day <= to)
+}
+
+/**
+ * Per-sender metrics by month and in total for messages sent between `from`
+ * and `to` (YYYY-MM-DD, inclusive; null for open-ended). Pass every message
+ * in the case, not just the range: a reply after `to` still answers a
+ * request inside it.
+ */
+export function computeCommunicationMetrics(
+  messages: MetricsMessage[],
+  from: string | null = null,
+  to: string | null = null
+): CommunicationMetricsReport {
+  const byPeriod = new Map<string, Map<string, Tally>>()
+  const tally = (period: string, sender: string): Tally => {
+    let senders = byPeriod.get(period)
+    if (!senders) byPeriod.set(period, senders = new Map())
+    let t = senders.get(sender)
+    if (!t) {
+      senders.set(sender, t = {
+        messagesSent: 0,
+        viewTracked: 0,
+        viewMinutes: [],
+        neverViewed: 0,
+        replyMinutes: [],
+        informationRequests: 0,
+        unansweredInformationRequests: 0
+      })
+    }
+    return t
+  }
+  const both = (timestamp: string, sender: string) => [tally(monthOf(timestamp), sender), tally('total', sender)]
+
+  const sorted = [...messages].sort((a, b) => Date.parse(a.sentAt) - Date.parse(b.sentAt))
+
+  // Per-message: sent counts, views and information requests.
+  const threads = new Map<string, MetricsMessage[]>()
+  for (const m of sorted) {
+    if (m.threadId) {
+      const list = threads.get(m.threadId) ?? []
+      list.push(m)
+      threads.set(m.threadId, list)
+    }
+    if (!inRange(m.sentAt, from, to)) continue
+    for (const t of both(m.sentAt, m.sender)) {
+      t.messagesSent++
+      if (m.source === 'ofw') {
+        t.viewTracked++
+        if (!m.firstViewedAt) {
+          t.neverViewed++
+        } else {
+          const minutes = minutesBetween(m.sentAt, m.firstViewedAt)
+          if (minutes !== null) t.viewMinutes.push(minutes)
+        }
+      }
+      if (m.isInformationRequest) t.informationRequests++
+    }
+  }
+
+  // Per-thread: reply latency at each change of turn, and requests nobody
+  // on the other side ever answered.
+  const unansweredRequests: UnansweredRequest[] = []
+  for (const list of threads.values()) {
+    let turnStart: MetricsMessage | null = null
+    for (const m of list) {
+      if (turnStart && m.sender !== turnStart.sender && inRange(m.sentAt, from, to)) {
+        const minutes = minutesBetween(turnStart.sentAt, m.sentAt)
+        if (minutes !== null) {
+          for (const t of both(m.sentAt, m.sender)) t.replyMinutes.push(minutes)
+        }
+      }
+      if (!turnStart || m.sender !== turnStart.sender) turnStart = m
+    }
+
+    list.forEach((m, i) => {
+      if (!m.isInformationRequest || !inRange(m.sentAt, from, to)) return
+      if (list.slice(i + 1).some(later => later.sender !== m.sender)) return
+      for (const t of both(m.sentAt, m.sender)) t.unansweredInformationRequests++
+      unansweredRequests.push({
+        id: m.id,
+        sender: m.sender,
+        source: m.source,
+        sentAt: m.sentAt,
+        subject: m.subject,
+        messageNumber: m.messageNumber,
+        sequenceNumber: m.sequenceNumber
+      })
+    })
+  }
+
+  const toPeriod = (period: string): CommunicationMetricsPeriod => ({
+    period,
+    senders: [...(byPeriod.get(period) ?? new Map<string, Tally>()).entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([sender, t]) => ({
+        sender,
+        messagesSent: t.messagesSent,
+        viewTracked: t.viewTracked,
+        medianMinutesToFirstView: median(t.viewMinutes),
+        neverViewed: t.neverViewed,
+        replies: t.replyMinutes.length,
+        medianReplyMinutes: median(t.replyMinutes),
+        informationRequests: t.informationRequests,
+        unansweredInformationRequests: t.unansweredInformationRequests
+      }))
+  })
+
+  return {
+    from,
+    to,
+    months: [...byPeriod.keys()].filter(p => p !== 'total').sort().map(toPeriod),
+    total: toPeriod('total'),
+    unansweredRequests: unansweredRequests.sort((a, b) => Date.parse(a.sentAt) - Date.parse(b.sentAt))
+  }
+}
@@ -0,0 +1,18 @@
+/** Calendar-date (YYYY-MM-DD) query parameters for report routes. */
+
+export const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/** A YYYY-MM-DD query value, or null when absent. 400s on anything else. */
+export function readDate(value: unknown, label: string): string | null {
+  if (value === undefined || value === '') return null
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value) || Number.isNaN(Date.parse(`${value}T00:00:00Z`))) {
+    throw createError({ statusCode: 400, statusMessage: `${label} must be a YYYY-MM-DD date` })
+  }
+  return value
+}
+
+export function shiftDate(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { assignEmailThreads, parseEmailExport, splitMbox, stripQuotedReply } from './email-import'
+
+const encode = (s: string) => new TextEncoder().encode(s)
+
+const original = [
+  'From: Sam Parent <sam@example.com>',
+  'To: Alex Parent <alex@example.com>',
+  'Subject: Spring break',
+  'Date: Tue, 02 Jan 2024 21:05:00 -0600',
+  'Message-ID: <root@example.com>',
+  'Content-Type: text/plain; charset=utf-8',
+  '',
+  'Can we swap the first week?',
+  'From the calendar it looks open.',
+  ''
+].join('\r\n')
+
+const reply = [
+  'From: "Alex Parent" <alex@example.com>',
+  'To: sam@example.com',
+  'Subject: Re: Spring break',
+  'Date: Wed, 03 Jan 2024 08:00:00 -0600',
+  'Message-ID: <reply@example.com>',
+  'In-Reply-To: <root@example.com>',
+  'References: <root@example.com>',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="b1"',
+  '',
+  '--b1',
+  'Content-Type: text/plain; charset=utf-8',
+  '',
+  'That works.',
+  '',
+  'On Tue, Jan 2, 2024 at 9:05 PM Sam Parent <sam@example.com> wrote:',
+  '> Can we swap the first week?',
+  '--b1',
+  'Content-Type: application/pdf; name="calendar.pdf"',
+  'Content-Disposition: attachment; filename="calendar.pdf"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  'JVBERi0xLjQK',
+  '--b1--',
+  ''
+].join('\r\n')
+
+describe('splitMbox', () => {
+  it('splits on From_ lines and unescapes >From', () => {
+    const mbox = `From sam@example.com Tue Jan  2 21:05:00 2024\n${original.replace('From the calendar', '>From the calendar')}\nFrom alex@example.com Wed Jan  3 08:00:00 2024\n${reply}`
+    const parts = splitMbox(encode(mbox))
+    expect(parts).toHaveLength(2)
+    expect(new TextDecoder().decode(parts[0])).toContain('\nFrom the calendar')
+  })
+})
+
+describe('stripQuotedReply', () => {
+  it('cuts Gmail-style quotes, including a wrapped attribution line', () => {
+    expect(stripQuotedReply('Fine.\n\nOn Tue, Jan 2, 2024 at 9:05 PM Sam <\nsam@example.com> wrote:\n> old')).toBe('Fine.')
+    expect(stripQuotedReply('Fine.\n-----Original Message-----\nFrom: Sam')).toBe('Fine.')
+  })
+})
+
+describe('parseEmailExport', () => {
+  it('threads a reply to its original and extracts attachments', async () => {
+    const mbox = `From sam@example.com Tue Jan  2 21:05:00 2024\n${original}\nFrom alex@example.com Wed Jan  3 08:00:00 2024\n${reply}`
+    const result = await parseEmailExport(encode(mbox), 'mail.mbox', { timeZone: 'America/Chicago' })
+
+    expect(result.messages).toHaveLength(2)
+    expect(result.metadata.threadCount).toBe(1)
+    expect(result.messages[0]).toMatchObject({
+      messageKey: 'root@example.com',
+      sent: '2024-01-02T21:05:00',
+      from: 'Sam Parent',
+      to: 'Alex Parent'
+    })
+    expect(result.messages[1]).toMatchObject({
+      body: 'That works.',
+      attachments: ['calendar.pdf'],
+      references: ['root@example.com']
+    })
+    expect(result.attachments).toHaveLength(1)
+    expect(result.attachments[0]).toMatchObject({ messageKey: 'reply@example.com', index: 0, mimeType: 'application/pdf' })
+  })
+
+  it('joins an existing thread when a referenced id is already stored', async () => {
+    const result = await parseEmailExport(encode(reply), 'reply.eml')
+    const [m] = assignEmailThreads(result.messages, new Map([['root@example.com', 'email-existing']]))
+    expect(m!.threadId).toBe('email-existing')
+  })
+})
@@ -0,0 +1,326 @@
+/**
+ * Email importer: `.eml` files and `.mbox` mailboxes → `messages` rows with
+ * source 'email', plus attachment files for `evidence` rows.
+ *
+ * MIME decoding is postal-mime's job. This module handles the case-file side:
+ *  - mbox splitting (mboxrd `>From ` unescaping)
+ *  - bodies: text/plain preferred, HTML flattened, quoted reply history cut
+ *    so each row holds only what that email added (same as an OFW message)
+ *  - dedupe_key: the normalized Message-ID
+ *  - threads: Message-ID / In-Reply-To / References grouped into components;
+ *    a component joins an existing thread when any id in it is already stored
+ */
+
+import { createHash } from 'node:crypto'
+import PostalMime, { type Address, type Attachment } from 'postal-mime'
+import { toWallClock } from './message-sources'
+
+export interface EmailImportMessage {
+  /** Normalized Message-ID (or a content hash when the header is missing). Stored as dedupe_key. */
+  messageKey: string
+  /** Normalized ids from In-Reply-To and References, root first. */
+  references: string[]
+  /** Local wall-clock ISO (`YYYY-MM-DDTHH:MM:SS`), same convention as the OFW parser. */
+  sent: string
+  from: string
+  to: string
+  subject: string
+  body: string
+  attachments: string[]
+  threadId: string
+  wordCount: number
+}
+
+export interface EmailAttachmentFile {
+  messageKey: string
+  /** Position among the message's evidence attachments; tells same-named files apart. */
+  index: number
+  filename: string
+  mimeType: string
+  content: Uint8Array
+}
+
+export interface EmailParseResult {
+  metadata: {
+    filename: string
+    totalMessages: number
+    skipped: number
+    threadCount: number
+    attachmentCount: number
+    senders: string[]
+    dateRange: { start: string, end: string } | null
+  }
+  messages: EmailImportMessage[]
+  attachments: EmailAttachmentFile[]
+}
+
+export interface EmailImportOptions {
+  /** IANA zone for rendering Date headers as wall-clock times. */
+  timeZone?: string
+}
+
+// ── mbox ──
+
+function latin1(data: Uint8Array): string {
+  // One char per byte, so string offsets are byte offsets.
+  return new TextDecoder('latin1').decode(data)
+}
+
+function bytesFromLatin1(s: string): Uint8Array {
+  return Uint8Array.from(s, c => c.charCodeAt(0))
+}
+
+export function isMbox(data: Uint8Array, filename: string): boolean {
+  if (/\.(mbox|mbx)$/i.test(filename)) return true
+  return latin1(data.subarray(0, 5)) === 'From '
+}
+
+/**
+ * Split an mbox into raw RFC 822 messages. Separator lines start with
+ * "From " at the beginning of a line; body lines that did were escaped as
+ * ">From " (and ">>From " for already-escaped ones) on write.
+ */
+export function splitMbox(data: Uint8Array): Uint8Array[] {
+  const text = latin1(data).replace(/\r\n/g, '\n')
+  const out: Uint8Array[] = []
+  const separator = /^From [^\n]*\n/gm
+  const starts: number[] = []
+  const ends: number[] = []
+  for (const m of text.matchAll(separator)) {
+    if (starts.length) ends.push(m.index!)
+    starts.push(m.index! + m[0].length)
+  }
+  ends.push(text.length)
+  for (let i = 0; i < starts.length; i++) {
+    const raw = text.slice(starts[i], ends[i]).replace(/^>(>*From )/gm, '$1').replace(/\n+$/, '\n')
+    if (raw.trim()) out.push(bytesFromLatin1(raw))
+  }
+  return out
+}
+
+// ── Headers ──
+
+export function normalizeMessageId(id: string): string {
+  return id.trim().replace(/^<|>$/g, '').trim().toLowerCase()
+}
+
+function referenceIds(inReplyTo: string | undefined, references: string | undefined): string[] {
+  const ids: string[] = []
+  for (const header of [references, inReplyTo]) {
+    for (const m of (header ?? '').matchAll(/<([^>]+)>/g)) {
+      const id = normalizeMessageId(m[1]!)
+      if (id && !ids.includes(id)) ids.push(id)
+    }
+  }
+  return ids
+}
+
+function displayAddress(a: Address | undefined): string[] {
+  if (!a) return []
+  if (a.group) return a.group.map(m => m.name || m.address)
+  return [a.name || a.address]
+}
+
+// ── Bodies ──
+
+const HTML_ENTITIES: Record<string, string> = { nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'' }
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(style|script|head)\b[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|li|tr|h[1-6]|blockquote)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (all, ent: string) => {
+      if (ent[0] === '#') {
+        const code = ent[1] === 'x' || ent[1] === 'X' ? parseInt(ent.slice(2), 16) : parseInt(ent.slice(1), 10)
+        return Number.isFinite(code) ? String.fromCodePoint(code) : all
+      }
+      return HTML_ENTITIES[ent.toLowerCase()] ?? all
+    })
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+/**
+ * Drop the quoted history mail clients append to replies. Earlier messages in
+ * the thread are their own rows, so keeping the quote would duplicate them in
+ * search, summaries and exhibits.
+ */
+export function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n/g, '\n').split('\n')
+  let cut = lines.length
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]!.trim()
+    // Gmail / Apple Mail: "On Tue, Jan 2, 2024 at 9:05 PM Sam <sam@x.com> wrote:",
+    // sometimes wrapped onto a second line.
+    if (/^On\b.*\bwrote:$/.test(line) || (/^On\b/.test(line) && /\bwrote:$/.test(lines[i + 1]?.trim() ?? ''))) {
+      cut = i
+      break
+    }
+    // Outlook
+    if (/^-{2,}\s*Original Message\s*-{2,}$/i.test(line) || (/^From:\s/.test(line) && /^(Sent|Date):\s/.test(lines[i + 1]?.trim() ?? ''))) {
+      cut = i
+      break
+    }
+  }
+  return lines
+    .slice(0, cut)
+    .filter(l => !l.startsWith('>'))
+    .join('\n')
+    .trim()
+}
+
+// ── Threading ──
+
+export function emailThreadId(rootId: string): string {
+  return `email-${createHash('sha256').update(rootId).digest('hex').slice(0, 16)}`
+}
+
+/**
+ * Group messages into threads. Every Message-ID, In-Reply-To and References
+ * id joins one component. A component takes its thread from `known` (ids
+ * already stored for the case) when any member is there; otherwise the
+ * thread is named after the root: the first References id, which clients
+ * preserve as the original message, or the earliest message's own id.
+ */
+export function assignEmailThreads(
+  messages: EmailImportMessage[],
+  known: Map<string, string> = new Map()
+): EmailImportMessage[] {
+  const parent = new Map<string, string>()
+  const find = (x: string): string => {
+    let root = x
+    while (parent.has(root) && parent.get(root) !== root) root = parent.get(root)!
+    parent.set(x, root)
+    return root
+  }
+  const union = (a: string, b: string) => {
+    const ra = find(a)
+    const rb = find(b)
+    if (ra !== rb) parent.set(ra, rb)
+  }
+
+  for (const m of messages) {
+    find(m.messageKey)
+    for (const r of m.references) union(m.messageKey, r)
+  }
+
+  const members = new Map<string, string[]>()
+  for (const id of parent.keys()) {
+    const root = find(id)
+    members.set(root, [...(members.get(root) ?? []), id])
+  }
+
+  const threadByComponent = new Map<string, string>()
+  const sorted = [...messages].sort((a, b) => a.sent.localeCompare(b.sent))
+  for (const [component, ids] of members) {
+    const existing = ids.map(id => known.get(id)).find(Boolean)
+    if (existing) {
+      threadByComponent.set(component, existing)
+      continue
+    }
+    const inComponent = sorted.filter(m => find(m.messageKey) === component)
+    const rootId = inComponent.find(m => m.references.length)?.references[0] ?? inComponent[0]?.messageKey ?? component
+    threadByComponent.set(component, emailThreadId(rootId))
+  }
+
+  return messages.map(m => ({ ...m, threadId: threadByComponent.get(find(m.messageKey))! }))
+}
+
+// ── Entry point ──
+
+function isEvidenceAttachment(a: Attachment): boolean {
+  // Inline images referenced by the HTML (signature logos, tracking pixels)
+  // are not evidence.
+  if (a.related || (a.disposition === 'inline' && a.contentId && a.mimeType.startsWith('image/'))) return false
+  return a.disposition === 'attachment' || !!a.filename
+}
+
+function toBytes(content: Attachment['content']): Uint8Array {
+  if (typeof content === 'string') return new TextEncoder().encode(content)
+  return content instanceof Uint8Array ? content : new Uint8Array(content)
+}
+
+/**
+ * Parse an `.eml` or `.mbox`. Messages without a usable Date header are
+ * skipped (sent_at is required) and counted in metadata.skipped. Throws when
+ * nothing importable is left.
+ */
+export async function parseEmailExport(
+  data: Uint8Array,
+  filename: string,
+  options: EmailImportOptions = {}
+): Promise<EmailParseResult> {
+  const timeZone = options.timeZone || 'UTC'
+  const raws = isMbox(data, filename) ? splitMbox(data) : [data]
+
+  const messages: EmailImportMessage[] = []
+  const attachments: EmailAttachmentFile[] = []
+  const seen = new Set<string>()
+  let skipped = 0
+
+  for (const raw of raws) {
+    const email = await PostalMime.parse(raw)
+    const date = email.date ? new Date(email.date) : null
+    if (!date || Number.isNaN(date.getTime())) {
+      skipped++
+      continue
+    }
+
+    const from = displayAddress(email.from)[0] ?? '(unknown sender)'
+    const subject = email.subject?.trim() ?? ''
+    const fullBody = email.text?.trim() ? email.text : htmlToText(email.html ?? '')
+    const body = stripQuotedReply(fullBody) || fullBody.trim()
+    const messageKey = email.messageId
+      ? normalizeMessageId(email.messageId)
+      : `sha256:${createHash('sha256').update([from, date.toISOString(), subject, body].join('\u0000')).digest('hex')}`
+    if (seen.has(messageKey)) continue
+    seen.add(messageKey)
+
+    const files = email.attachments.filter(isEvidenceAttachment)
+    const names = files.map((a, i) => a.filename?.trim() || `attachment-${i + 1}`)
+    files.forEach((a, i) => attachments.push({
+      messageKey,
+      index: i,
+      filename: names[i]!,
+      mimeType: a.mimeType || 'application/octet-stream',
+      content: toBytes(a.content)
+    }))
+
+    messages.push({
+      messageKey,
+      references: referenceIds(email.inReplyTo, email.references).filter(id => id !== messageKey),
+      sent: toWallClock(date, timeZone),
+      from,
+      to: [...(email.to ?? []), ...(email.cc ?? [])].flatMap(displayAddress).join(', '),
+      subject,
+      body: body || (names.length ? '[Attachment]' : ''),
+      attachments: names,
+      threadId: '',
+      wordCount: body.split(/\s+/).filter(Boolean).length
+    })
+  }
+
+  if (!messages.length) {
+    throw new Error(skipped
+      ? 'No importable emails found — none of the messages had a readable Date header.'
+      : 'No emails found in the upload. Upload an .eml file or an .mbox mailbox export.')
+  }
+
+  const threaded = assignEmailThreads(messages).sort((a, b) => a.sent.localeCompare(b.sent))
+  return {
+    metadata: {
+      filename,
+      totalMessages: threaded.length,
+      skipped,
+      threadCount: new Set(threaded.map(m => m.threadId)).size,
+      attachmentCount: attachments.length,
+      senders: [...new Set(threaded.map(m => m.from))],
+      dateRange: { start: threaded[0]!.sent, end: threaded.at(-1)!.sent }
+    },
+    messages: threaded,
+    attachments
+  }
+}
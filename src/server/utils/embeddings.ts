@@ -0,0 +1,278 @@
+import { createHash } from 'node:crypto'
+import OpenAI from 'openai'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '~/types/database.types'
+import { chunk } from './arrays'
+
+type Client = SupabaseClient<Database>
+
+export const EMBEDDING_KINDS = ['message', 'event', 'journal'] as const
+
+export type EmbeddingKind = typeof EMBEDDING_KINDS[number]
+
+/**
+ * Changing the model or dimensions means every stored vector is incomparable
+ * with new queries. Bump both here and in 0061_embeddings.sql, truncate the
+ * table, and re-run /api/internal/backfill-embeddings.
+ */
+export const EMBEDDING_MODEL = 'text-embedding-3-small'
+export const EMBEDDING_DIMENSIONS = 1536
+
+/** ~2k tokens. Long OFW bodies are rare; the head carries the topic. */
+const MAX_EMBED_CHARS = 8000
+const EMBED_BATCH_SIZE = 100
+/** `.in('id', …)` goes into the query string; keep URLs well under limits. */
+const ID_CHUNK_SIZE = 200
+const PAGE_SIZE = 1000
+
+interface EmbeddableRecord {
+  id: string
+  text: string
+}
+
+export interface EmbedRecordsResult {
+  embedded: number
+  unchanged: number
+  removed: number
+}
+
+export function messageEmbeddingText(m: {
+  sender: string
+  recipient: string
+  subject: string | null
+  body: string
+  sent_at: string | null
+}): string {
+  const header = `Message from ${m.sender} to ${m.recipient}${m.sent_at ? `, sent ${m.sent_at.slice(0, 10)}` : ''}`
+  const subject = m.subject?.trim() ? `\nSubject: ${m.subject.trim()}` : ''
+  return `${header}${subject}\n\n${m.body.trim()}`.slice(0, MAX_EMBED_CHARS)
+}
+
+export function eventEmbeddingText(e: {
+  title: string
+  description: string
+  type: string
+  primary_timestamp: string | null
+  location: string | null
+}): string {
+  const meta = [e.type, e.primary_timestamp?.slice(0, 10), e.location].filter(Boolean).join(' · ')
+  return `${e.title.trim()}\n${meta}\n\n${e.description.trim()}`.slice(0, MAX_EMBED_CHARS)
+}
+
+export function journalEmbeddingText(j: {
+  event_text: string | null
+  reference_date: string | null
+  reference_time_description: string | null
+}): string {
+  if (!j.event_text?.trim()) return ''
+  const when = [j.reference_date, j.reference_time_description].filter(Boolean).join(', ')
+  return `Journal entry${when ? ` (${when})` : ''}\n\n${j.event_text.trim()}`.slice(0, MAX_EMBED_CHARS)
+}
+
+export function hashEmbeddingText(text: string): string {
+  return createHash('sha256').update(`${EMBEDDING_MODEL}\n${text}`).digest('hex')
+}
+
+/**
+ * Load embeddable text for records of one kind. With `ids`, only those rows;
+ * without, every row in the case (paged past the 1000-row cap).
+ */
+async function loadRecords(
+  client: Client,
+  caseId: string,
+  kind: EmbeddingKind,
+  ids?: string[]
+): Promise<EmbeddableRecord[]> {
+  const fetchPage = async (idFilter: string[] | null, from: number) => {
+    if (kind === 'message') {
+      let q = client
+        .from('messages')
+        .select('id, sender, recipient, subject, body, sent_at')
+        .eq('case_id', caseId)
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1)
+      if (idFilter) q = q.in('id', idFilter)
+      const { data, error } = await q
+      if (error) throw new Error(`load messages failed: ${error.message}`)
+      return (data ?? []).map(m => ({ id: m.id, text: messageEmbeddingText(m) }))
+    }
+    if (kind === 'event') {
+      let q = client
+        .from('events')
+        .select('id, title, description, type, primary_timestamp, location')
+        .eq('case_id', caseId)
+        .order('id')
+        .range(from, from + PAGE_SIZE - 1)
+      if (idFilter) q = q.in('id', idFilter)
+      const { data, error } = await q
+      if (error) throw new Error(`load events failed: ${error.message}`)
+      return (data ?? []).map(e => ({ id: e.id, text: eventEmbeddingText(e) }))
+    }
+    let q = client
+      .from('journal_entries')
+      .select('id, event_text, reference_date, reference_time_description')
+      .eq('case_id', caseId)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (idFilter) q = q.in('id', idFilter)
+    const { data, error } = await q
+    if (error) throw new Error(`load journal entries failed: ${error.message}`)
+    return (data ?? []).map(j => ({ id: j.id, text: journalEmbeddingText(j) }))
+  }
+
+  const out: EmbeddableRecord[] = []
+  if (ids) {
+    for (const idChunk of chunk(ids, ID_CHUNK_SIZE)) {
+      out.push(...await fetchPage(idChunk, 0))
+    }
+  } else {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      const page = await fetchPage(null, from)
+      out.push(...page)
+      if (page.length < PAGE_SIZE) break
+    }
+  }
+  return out.filter(r => r.text.length > 0)
+}
+
+/** record_id → content_hash for existing embeddings of one kind. */
+async function loadExistingHashes(
+  client: Client,
+  caseId: string,
+  kind: EmbeddingKind,
+  ids?: string[]
+): Promise<Map<string, string>> {
+  const out = new Map<string, string>()
+  const fetchPage = async (idFilter: string[] | null, from: number) => {
+    let q = client
+      .from('embeddings')
+      .select('record_id, content_hash')
+      .eq('case_id', caseId)
+      .eq('kind', kind)
+      .order('record_id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (idFilter) q = q.in('record_id', idFilter)
+    const { data, error } = await q
+    if (error) throw new Error(`load embeddings failed: ${error.message}`)
+    for (const row of data ?? []) out.set(row.record_id, row.content_hash)
+    return data?.length ?? 0
+  }
+
+  if (ids) {
+    for (const idChunk of chunk(ids, ID_CHUNK_SIZE)) await fetchPage(idChunk, 0)
+  } else {
+    for (let from = 0; ; from += PAGE_SIZE) {
+      if (await fetchPage(null, from) < PAGE_SIZE) break
+    }
+  }
+  return out
+}
+
+async function createEmbeddings(openai: OpenAI, texts: string[]): Promise<number[][]> {
+  const res = await openai.embeddings.create({
+    model: EMBEDDING_MODEL,
+    dimensions: EMBEDDING_DIMENSIONS,
+    input: texts
+  })
+  return [...res.data].sort((a, b) => a.index - b.index).map(d => d.embedding)
+}
+
+/**
+ * Bring the embeddings for one kind in line with the source table.
+ *
+ * With `recordIds` (incremental path, after an insert) only those records are
+ * considered. Without (backfill), the whole case is scanned and embeddings
+ * whose record no longer exists are deleted. Records whose text hash is
+ * unchanged are skipped either way, so re-running is cheap.
+ *
+ * Expects a service-role client: `embeddings` has no write policies.
+ */
+export async function syncEmbeddings(
+  client: Client,
+  caseId: string,
+  kind: EmbeddingKind,
+  apiKey: string,
+  recordIds?: string[]
+): Promise<EmbedRecordsResult> {
+  const ids = recordIds ? [...new Set(recordIds)] : undefined
+  const [records, existing] = await Promise.all([
+    loadRecords(client, caseId, kind, ids),
+    loadExistingHashes(client, caseId, kind, ids)
+  ])
+
+  const pending = records
+    .map(r => ({ ...r, hash: hashEmbeddingText(r.text) }))
+    .filter(r => existing.get(r.id) !== r.hash)
+
+  const openai = new OpenAI({ apiKey })
+  for (const batch of chunk(pending, EMBED_BATCH_SIZE)) {
+    const vectors = await createEmbeddings(openai, batch.map(r => r.text))
+    const now = new Date().toISOString()
+    const { error } = await client
+      .from('embeddings')
+      .upsert(batch.map((r, i) => ({
+        case_id: caseId,
+        kind,
+        record_id: r.id,
+        content_hash: r.hash,
+        model: EMBEDDING_MODEL,
+        embedding: JSON.stringify(vectors[i]),
+        updated_at: now
+      })), { onConflict: 'case_id,kind,record_id' })
+    if (error) throw new Error(`upsert embeddings failed: ${error.message}`)
+  }
+
+  // Records that vanished (or now have no text) since they were embedded.
+  const live = new Set(records.map(r => r.id))
+  const orphaned = [...existing.keys()].filter(id => !live.has(id))
+  for (const idChunk of chunk(orphaned, ID_CHUNK_SIZE)) {
+    const { error } = await client
+      .from('embeddings')
+      .delete()
+      .eq('case_id', caseId)
+      .eq('kind', kind)
+      .in('record_id', idChunk)
+    if (error) throw new Error(`delete embeddings failed: ${error.message}`)
+  }
+
+  return {
+    embedded: pending.length,
+    unchanged: records.length - pending.length,
+    removed: orphaned.length
+  }
+}
+
+export interface SemanticMatch {
+  kind: EmbeddingKind
+  recordId: string
+  similarity: number
+}
+
+/**
+ * Embed `query` and return the nearest records in the case. Runs under the
+ * caller's client, so RLS on `embeddings` applies.
+ */
+export async function searchEmbeddings(
+  client: Client,
+  caseId: string,
+  query: string,
+  apiKey: string,
+  options: { kinds?: EmbeddingKind[], limit?: number } = {}
+): Promise<SemanticMatch[]> {
+  const openai = new OpenAI({ apiKey })
+  const [vector] = await createEmbeddings(openai, [query.slice(0, MAX_EMBED_CHARS)])
+
+  const { data, error } = await client.rpc('match_case_embeddings', {
+    p_case_id: caseId,
+    p_query_embedding: JSON.stringify(vector),
+    p_kinds: options.kinds?.length ? options.kinds : undefined,
+    p_match_count: options.limit ?? 20
+  })
+  if (error) throw new Error(`match_case_embeddings failed: ${error.message}`)
+
+  return (data ?? []).map(row => ({
+    kind: row.kind as EmbeddingKind,
+    recordId: row.record_id,
+    similarity: row.similarity
+  }))
+}
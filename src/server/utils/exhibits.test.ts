@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { buildExhibitPacket, exhibitLetter, formatExhibitCite, wrapLine } from './exhibits'
+import type { ExhibitMessageInput, ExhibitThreadInput } from './exhibits'
+
+function message(overrides: Partial<ExhibitMessageInput>): ExhibitMessageInput {
+  return {
+    id: 'm1',
+    sender: 'Alex Parent',
+    recipient: 'Sam Parent',
+    subject: 'Pickup',
+    body: 'Hello',
+    sent_at: '2025-03-01T14:05:00Z',
+    first_viewed_at: '2025-03-01T15:00:00Z',
+    evidence_id: 'ev-1',
+    message_number: 1,
+    sequence_number: 1,
+    ...overrides
+  }
+}
+
+function thread(threadId: string, messages: ExhibitMessageInput[]): ExhibitThreadInput {
+  return { threadId, subject: null, participants: [], messages }
+}
+
+describe('exhibitLetter', () => {
+  it('letters spreadsheet-style past Z', () => {
+    expect([0, 1, 25, 26, 27, 51, 52, 701, 702].map(exhibitLetter))
+      .toEqual(['A', 'B', 'Z', 'AA', 'AB', 'AZ', 'BA', 'ZZ', 'AAA'])
+  })
+})
+
+describe('formatExhibitCite', () => {
+  it('formats single lines and ranges', () => {
+    expect(formatExhibitCite('A', 47)).toBe('[Ex. A, ln 47]')
+    expect(formatExhibitCite('B', 3, 3)).toBe('[Ex. B, ln 3]')
+    expect(formatExhibitCite('C', 3, 9)).toBe('[Ex. C, ln 3-9]')
+  })
+})
+
+describe('wrapLine', () => {
+  it('wraps on word boundaries and hard-splits long words', () => {
+    expect(wrapLine('one two three', 7)).toEqual(['one two', 'three'])
+    expect(wrapLine('abcdefghij', 4)).toEqual(['abcd', 'efgh', 'ij'])
+    expect(wrapLine('   ')).toEqual([])
+  })
+})
+
+describe('buildExhibitPacket', () => {
+  const packet = buildExhibitPacket([
+    thread('t-1', [
+      message({ id: 'm2', body: 'Second message', sent_at: '2025-03-02T09:00:00Z', message_number: 2, sequence_number: 2, first_viewed_at: null }),
+      message({ id: 'm1', body: 'First line\n\nSecond line' })
+    ]),
+    thread('t-empty', []),
+    thread('t-2', [
+      message({ id: 'm3', body: '', subject: 'Schedule', evidence_id: 'ev-2', sent_at: '2025-04-01T10:00:00Z' })
+    ])
+  ], { caseTitle: 'Parent v. Parent', generatedAt: new Date('2025-05-01T00:00:00Z') })
+
+  it('letters non-empty threads in order and numbers lines per exhibit', () => {
+    expect(packet.exhibits.map(e => e.letter)).toEqual(['A', 'B'])
+
+    const [a, b] = packet.exhibits
+    // Messages are sorted by sent_at; blank body lines are not numbered.
+    expect(a!.messages.map(m => [m.messageId, m.startLine, m.endLine])).toEqual([
+      ['m1', 1, 2],
+      ['m2', 3, 3]
+    ])
+    expect(a!.lineCount).toBe(3)
+    expect(a!.messages[1]!.cite).toBe('[Ex. A, ln 3]')
+
+    // Numbering restarts per exhibit; empty bodies still get a line.
+    expect(b!.messages[0]!.cite).toBe('[Ex. B, ln 1]')
+    expect(b!.messages[0]!.lines[0]!.text).toBe('(no message text)')
+  })
+
+  it('derives subject and participants when the thread row has none', () => {
+    const [a] = packet.exhibits
+    expect(a!.subject).toBe('Pickup')
+    expect(a!.participants).toEqual(['Alex Parent', 'Sam Parent'])
+    expect(a!.evidenceIds).toEqual(['ev-1'])
+  })
+
+  it('writes a foundation paragraph and per-message foundation lines', () => {
+    const [a] = packet.exhibits
+    expect(a!.foundation).toContain('Exhibit A is a true and correct copy of 2 messages')
+    expect(a!.foundation).toContain('from 2025-03-01 14:05 UTC to 2025-03-02 09:00 UTC')
+    expect(a!.foundation).toContain('evidence ev-1')
+
+    expect(packet.markdown).toContain('- ln 1-2: OFW msg #1, from Alex Parent to Sam Parent, sent 2025-03-01 14:05 UTC, first viewed 2025-03-01 15:00 UTC, source evidence ev-1')
+    expect(packet.markdown).toContain('first viewed not recorded')
+  })
+
+  it('renders the index and numbered body lines into markdown', () => {
+    expect(packet.markdown).toContain('**Case:** Parent v. Parent')
+    expect(packet.markdown).toContain('- **Ex. A**: Pickup (Alex Parent, Sam Parent); 2 messages, 2025-03-01 to 2025-03-02, lines 1-3')
+    expect(packet.markdown).toContain('1. First line\n2. Second line')
+    expect(packet.markdown).toContain('[Ex. A, ln 1]')
+  })
+})
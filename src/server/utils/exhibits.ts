@@ -0,0 +1,273 @@
+/**
+ * Exhibit packet builder — turns OFW threads into court exhibits.
+ *
+ * Each thread becomes one exhibit with a letter (A, B, … Z, AA, AB, …). Every
+ * message body is hard-wrapped and line-numbered continuously within its
+ * exhibit, so a cite like `[Ex. A, ln 47]` points at the same line no matter
+ * which renderer (markdown, PDF, DOCX) produced the page. Blank body lines are
+ * dropped rather than numbered.
+ *
+ * Pure: no DB or network access. The export endpoint loads threads + messages
+ * and hands them here.
+ */
+
+export const EXHIBIT_LINE_WIDTH = 80
+
+export interface ExhibitMessageInput {
+  id: string
+  sender: string
+  recipient: string
+  subject: string | null
+  body: string
+  sent_at: string
+  first_viewed_at: string | null
+  evidence_id: string
+  message_number: number | null
+  sequence_number: number
+}
+
+export interface ExhibitThreadInput {
+  threadId: string
+  subject: string | null
+  participants: string[]
+  messages: ExhibitMessageInput[]
+}
+
+export interface ExhibitLine {
+  number: number
+  text: string
+}
+
+export interface ExhibitMessage {
+  messageId: string
+  label: string
+  sender: string
+  recipient: string
+  sentAt: string
+  firstViewedAt: string | null
+  evidenceId: string
+  startLine: number
+  endLine: number
+  cite: string
+  lines: ExhibitLine[]
+}
+
+export interface Exhibit {
+  letter: string
+  threadId: string
+  subject: string
+  participants: string[]
+  firstSentAt: string | null
+  lastSentAt: string | null
+  lineCount: number
+  evidenceIds: string[]
+  foundation: string
+  messages: ExhibitMessage[]
+}
+
+export interface ExhibitPacketOptions {
+  caseTitle?: string | null
+  generatedAt?: Date
+}
+
+export interface ExhibitPacket {
+  exhibits: Exhibit[]
+  markdown: string
+}
+
+/** 0 → A, 25 → Z, 26 → AA, 27 → AB (spreadsheet-style). */
+export function exhibitLetter(index: number): string {
+  let n = index
+  let letter = ''
+  do {
+    letter = String.fromCharCode(65 + (n % 26)) + letter
+    n = Math.floor(n / 26) - 1
+  } while (n >= 0)
+  return letter
+}
+
+/** `[Ex. A, ln 47]`, or `[Ex. A, ln 47-52]` when the cite spans lines. */
+export function formatExhibitCite(letter: string, startLine: number, endLine?: number): string {
+  const range = endLine && endLine !== startLine ? `${startLine}-${endLine}` : `${startLine}`
+  return `[Ex. ${letter}, ln ${range}]`
+}
+
+/** Greedy word wrap. Words longer than `width` are split hard. */
+export function wrapLine(text: string, width = EXHIBIT_LINE_WIDTH): string[] {
+  const words = text.trim().split(/\s+/).filter(Boolean)
+  const out: string[] = []
+  let current = ''
+
+  for (let word of words) {
+    while (word.length > width) {
+      if (current) {
+        out.push(current)
+        current = ''
+      }
+      out.push(word.slice(0, width))
+      word = word.slice(width)
+    }
+    if (!word) continue
+    if (!current) {
+      current = word
+    } else if (current.length + 1 + word.length <= width) {
+      current += ` ${word}`
+    } else {
+      out.push(current)
+      current = word
+    }
+  }
+  if (current) out.push(current)
+  return out
+}
+
+function formatTimestamp(value: string | null): string | null {
+  if (!value) return null
+  const date = new Date(value)
+  if (Number.isNaN(date.getTime())) return null
+  return `${date.toISOString().replace('T', ' ').slice(0, 16)} UTC`
+}
+
+function messageLabel(msg: ExhibitMessageInput): string {
+  return msg.message_number != null ? `OFW msg #${msg.message_number}` : `OFW msg (seq. ${msg.sequence_number})`
+}
+
+function joinNames(names: string[]): string {
+  if (names.length <= 1) return names[0] ?? 'unknown parties'
+  if (names.length === 2) return `${names[0]} and ${names[1]}`
+  return `${names.slice(0, -1).join(', ')}, and ${names[names.length - 1]}`
+}
+
+function buildFoundation(exhibit: Omit<Exhibit, 'foundation'>): string {
+  const count = exhibit.messages.length
+  const first = formatTimestamp(exhibit.firstSentAt)
+  const last = formatTimestamp(exhibit.lastSentAt)
+  const span = first && last && first !== last ? `from ${first} to ${last}` : first ? `on ${first}` : 'on unrecorded dates'
+  const sources = exhibit.evidenceIds.length === 1
+    ? `the OurFamilyWizard export stored as evidence ${exhibit.evidenceIds[0]}`
+    : `the OurFamilyWizard exports stored as evidence ${exhibit.evidenceIds.join(', ')}`
+
+  return `Exhibit ${exhibit.letter} is a true and correct copy of ${count} message${count === 1 ? '' : 's'} `
+    + `in the OurFamilyWizard thread "${exhibit.subject}", exchanged between ${joinNames(exhibit.participants)} ${span}. `
+    + `The messages were parsed from ${sources}. For each message, the sender, recipient, the time it was sent, `
+    + 'and the time it was first viewed as recorded by OurFamilyWizard are listed below with the exhibit lines it occupies.'
+}
+
+function buildExhibit(thread: ExhibitThreadInput, index: number): Exhibit {
+  const letter = exhibitLetter(index)
+  const sorted = [...thread.messages].sort((a, b) => {
+    if (a.sent_at === b.sent_at) return a.sequence_number - b.sequence_number
+    return a.sent_at < b.sent_at ? -1 : 1
+  })
+
+  let nextLine = 1
+  const messages: ExhibitMessage[] = sorted.map((msg) => {
+    const wrapped = msg.body
+      .split(/\r?\n/)
+      .flatMap(line => wrapLine(line))
+    // An empty body still occupies one line so every message has a cite target.
+    const texts = wrapped.length ? wrapped : ['(no message text)']
+    const lines = texts.map(text => ({ number: nextLine++, text }))
+    const startLine = lines[0]!.number
+    const endLine = lines[lines.length - 1]!.number
+
+    return {
+      messageId: msg.id,
+      label: messageLabel(msg),
+      sender: msg.sender,
+      recipient: msg.recipient,
+      sentAt: msg.sent_at,
+      firstViewedAt: msg.first_viewed_at,
+      evidenceId: msg.evidence_id,
+      startLine,
+      endLine,
+      cite: formatExhibitCite(letter, startLine),
+      lines
+    }
+  })
+
+  const participants = thread.participants.length
+    ? thread.participants
+    : [...new Set(sorted.flatMap(m => [m.sender, m.recipient]).filter(Boolean))]
+
+  const base = {
+    letter,
+    threadId: thread.threadId,
+    subject: thread.subject?.trim() || sorted[0]?.subject?.trim() || '(no subject)',
+    participants,
+    firstSentAt: sorted[0]?.sent_at ?? null,
+    lastSentAt: sorted[sorted.length - 1]?.sent_at ?? null,
+    lineCount: nextLine - 1,
+    evidenceIds: [...new Set(sorted.map(m => m.evidence_id))],
+    messages
+  }
+
+  return { ...base, foundation: buildFoundation(base) }
+}
+
+function renderMarkdown(exhibits: Exhibit[], options: ExhibitPacketOptions): string {
+  const lines: string[] = []
+  const generatedAt = options.generatedAt ?? new Date()
+
+  lines.push('# Exhibit packet', '')
+  if (options.caseTitle?.trim()) lines.push(`**Case:** ${options.caseTitle.trim()}`)
+  lines.push(`**Generated on:** ${formatTimestamp(generatedAt.toISOString())}`)
+  lines.push(`**Exhibits:** ${exhibits.length}`, '')
+
+  lines.push('## Exhibit index', '')
+  // A list rather than a table: the PDF renderer only understands headings,
+  // paragraphs and lists.
+  for (const ex of exhibits) {
+    const first = ex.firstSentAt?.slice(0, 10) ?? 'undated'
+    const last = ex.lastSentAt?.slice(0, 10) ?? first
+    const dates = first === last ? first : `${first} to ${last}`
+    const count = ex.messages.length
+    lines.push(
+      `- **Ex. ${ex.letter}**: ${ex.subject} (${ex.participants.join(', ')}); `
+      + `${count} message${count === 1 ? '' : 's'}, ${dates}, lines 1-${ex.lineCount}`
+    )
+  }
+  lines.push('')
+
+  for (const ex of exhibits) {
+    lines.push('---', '')
+    lines.push(`## Exhibit ${ex.letter}: ${ex.subject}`, '')
+    lines.push('### Foundation', '')
+    lines.push(ex.foundation, '')
+    for (const msg of ex.messages) {
+      const range = msg.startLine === msg.endLine ? `ln ${msg.startLine}` : `ln ${msg.startLine}-${msg.endLine}`
+      const viewed = formatTimestamp(msg.firstViewedAt) ?? 'not recorded'
+      lines.push(
+        `- ${range}: ${msg.label}, from ${msg.sender} to ${msg.recipient}, sent ${formatTimestamp(msg.sentAt)}, `
+        + `first viewed ${viewed}, source evidence ${msg.evidenceId}`
+      )
+    }
+    lines.push('')
+
+    lines.push('### Messages', '')
+    for (const msg of ex.messages) {
+      lines.push(`**${msg.label}** from ${msg.sender} to ${msg.recipient}, sent ${formatTimestamp(msg.sentAt)} ${msg.cite}`, '')
+      for (const line of msg.lines) {
+        lines.push(`${line.number}. ${line.text}`)
+      }
+      lines.push('')
+    }
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Build the exhibit packet. Threads are lettered in the order given; callers
+ * decide the order (the export endpoint uses first message date).
+ */
+export function buildExhibitPacket(threads: ExhibitThreadInput[], options: ExhibitPacketOptions = {}): ExhibitPacket {
+  const exhibits = threads
+    .filter(t => t.messages.length > 0)
+    .map((thread, idx) => buildExhibit(thread, idx))
+
+  return {
+    exhibits,
+    markdown: renderMarkdown(exhibits, options)
+  }
+}
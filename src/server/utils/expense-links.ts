@@ -0,0 +1,66 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json, Tables } from '~/types/database.types'
+import type { ExpenseInput, ExpenseInsert } from './expenses'
+
+/**
+ * 400 unless the receipt and every linked message belong to the case. RLS
+ * would let an owner of two cases cross-link them otherwise.
+ */
+export async function verifyExpenseLinks(
+  supabase: SupabaseClient<Database>,
+  caseId: string,
+  input: Pick<ExpenseInput, 'receiptEvidenceId' | 'messageIds'>
+): Promise<void> {
+  if (input.receiptEvidenceId) {
+    const { data, error } = await supabase
+      .from('evidence')
+      .select('id')
+      .eq('id', input.receiptEvidenceId)
+      .eq('case_id', caseId)
+      .maybeSingle()
+    if (error) {
+      throw createError({ statusCode: 500, statusMessage: error.message })
+    }
+    if (!data) {
+      throw createError({ statusCode: 400, statusMessage: 'The receipt must be an evidence item from this case.' })
+    }
+  }
+
+  if (input.messageIds.length) {
+    const { count, error } = await supabase
+      .from('messages')
+      .select('id', { count: 'exact', head: true })
+      .eq('case_id', caseId)
+      .in('id', input.messageIds)
+    if (error) {
+      throw createError({ statusCode: 500, statusMessage: error.message })
+    }
+    if ((count ?? 0) !== input.messageIds.length) {
+      throw createError({ statusCode: 400, statusMessage: 'Linked messages must come from this case.' })
+    }
+  }
+}
+
+/**
+ * Insert (no `expenseId`) or update an expense and make its linked messages
+ * exactly `messageIds`, in one transaction (save_expense, migration 0083).
+ * Null when `expenseId` is not an expense in the row's case.
+ */
+export async function saveExpense(
+  supabase: SupabaseClient<Database>,
+  expenseId: string | null,
+  row: ExpenseInsert,
+  messageIds: string[]
+): Promise<Tables<'expenses'> | null> {
+  const { data, error } = await supabase
+    .rpc('save_expense', {
+      p_expense_id: expenseId,
+      p_expense: row as unknown as Json,
+      p_message_ids: messageIds
+    })
+    .maybeSingle()
+  if (error) {
+    throw createError({ statusCode: 500, statusMessage: error.message })
+  }
+  return data
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+import { buildExpenseProposal } from './expense-proposal'
+
+describe('buildExpenseProposal', () => {
+  it('normalizes a legible receipt into an expense prefill', () => {
+    const proposal = buildExpenseProposal('medical_bill', {
+      vendor: '  Bright Smiles   Pediatric Dental ',
+      document_date: '2025-03-14',
+      total: 45.5,
+      currency: 'usd',
+      line_items: [{ description: 'Cleaning co-pay', amount: 45.5 }],
+      child_name: 'Maya',
+      category: 'not-a-category'
+    }, 'ev-1')
+
+    expect(proposal.currency).toBe('USD')
+    expect(proposal.expense).toEqual({
+      description: 'Bright Smiles Pediatric Dental — Cleaning co-pay (Maya)',
+      category: 'medical',
+      amountCents: 4550,
+      incurredOn: '2025-03-14',
+      receiptEvidenceId: 'ev-1'
+    })
+  })
+
+  it('sums line items when the total is missing and drops unreadable dates', () => {
+    const proposal = buildExpenseProposal('school_invoice', {
+      vendor: null,
+      document_date: 'March 2025',
+      total: null,
+      currency: null,
+      line_items: [
+        { description: 'Field trip', amount: 20 },
+        { description: 'Yearbook', amount: 35.25 },
+        { description: ' ', amount: 3 }
+      ],
+      child_name: null,
+      category: 'activities'
+    }, 'ev-2')
+
+    expect(proposal.lineItems).toHaveLength(2)
+    expect(proposal.expense).toMatchObject({
+      description: 'School invoice',
+      category: 'activities',
+      amountCents: 5525,
+      incurredOn: null
+    })
+  })
+})
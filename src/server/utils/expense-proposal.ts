@@ -0,0 +1,109 @@
+/**
+ * Turn the model's receipt / bill / invoice reading into an expense the user
+ * can confirm. The model's fields are loose (free-text dates, dollar floats,
+ * a guessed category); everything here is normalised to the ledger's shapes
+ * and anything implausible is dropped rather than guessed at.
+ */
+
+import { EXPENSE_CATEGORIES } from './expenses'
+import type { ExpenseCategory } from './expenses'
+
+export type BillingDocumentKind = 'receipt' | 'medical_bill' | 'school_invoice'
+
+export interface RawBillingDocument {
+  vendor: string | null
+  document_date: string | null
+  total: number | null
+  currency: string | null
+  line_items: Array<{ description: string, amount: number | null }>
+  child_name: string | null
+  category: string | null
+}
+
+export interface ExpenseProposal {
+  kind: BillingDocumentKind
+  vendor: string | null
+  childName: string | null
+  currency: string
+  lineItems: Array<{ description: string, amountCents: number | null }>
+  /** Prefill for the expense form; the user confirms or edits before saving. */
+  expense: {
+    description: string
+    category: ExpenseCategory
+    amountCents: number | null
+    incurredOn: string | null
+    receiptEvidenceId: string
+  }
+}
+
+const KIND_LABELS: Record<BillingDocumentKind, string> = {
+  receipt: 'Receipt',
+  medical_bill: 'Medical bill',
+  school_invoice: 'School invoice'
+}
+
+// Used when the model doesn't pick a category we recognise.
+const KIND_CATEGORIES: Record<BillingDocumentKind, ExpenseCategory> = {
+  receipt: 'other',
+  medical_bill: 'medical',
+  school_invoice: 'education'
+}
+
+function toCents(amount: number | null | undefined): number | null {
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) return null
+  return Math.round(amount * 100)
+}
+
+function toIsoDate(value: string | null | undefined): string | null {
+  const match = value?.trim().match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (!match) return null
+  const iso = `${match[1]}-${match[2]}-${match[3]}`
+  const d = new Date(`${iso}T00:00:00Z`)
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === iso ? iso : null
+}
+
+function clean(value: string | null | undefined): string | null {
+  const trimmed = value?.replace(/\s+/g, ' ').trim()
+  return trimmed || null
+}
+
+export function buildExpenseProposal(
+  kind: BillingDocumentKind,
+  raw: RawBillingDocument,
+  evidenceId: string
+): ExpenseProposal {
+  const vendor = clean(raw.vendor)
+  const childName = clean(raw.child_name)
+  const lineItems = raw.line_items
+    .map(item => ({ description: clean(item.description) ?? '', amountCents: toCents(item.amount) }))
+    .filter(item => item.description)
+
+  // Fall back to the line items when the total wasn't legible.
+  let amountCents = toCents(raw.total)
+  if (amountCents === null && lineItems.length && lineItems.every(item => item.amountCents !== null)) {
+    amountCents = lineItems.reduce((sum, item) => sum + item.amountCents!, 0)
+  }
+
+  const category = EXPENSE_CATEGORIES.includes(raw.category as ExpenseCategory)
+    ? raw.category as ExpenseCategory
+    : KIND_CATEGORIES[kind]
+
+  const subject = vendor ?? KIND_LABELS[kind]
+  const detail = lineItems.length === 1 ? lineItems[0]!.description : null
+  const description = [subject, detail].filter(Boolean).join(' — ') + (childName ? ` (${childName})` : '')
+
+  return {
+    kind,
+    vendor,
+    childName,
+    currency: clean(raw.currency)?.toUpperCase() ?? 'USD',
+    lineItems,
+    expense: {
+      description,
+      category,
+      amountCents,
+      incurredOn: toIsoDate(raw.document_date),
+      receiptEvidenceId: evidenceId
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { expenseStatus, parseExpenseInput, summarizeExpenseBalance } from './expenses'
+import type { ExpenseInput } from './expenses'
+
+function expense(overrides: Partial<ExpenseInput> = {}): ExpenseInput {
+  return {
+    description: 'Dentist co-pay',
+    category: 'medical',
+    amountCents: 12000,
+    incurredOn: '2025-03-03',
+    paidBy: 'you',
+    splitPercent: 50,
+    receiptEvidenceId: null,
+    reimbursementRequestedOn: null,
+    reimbursementPaidOn: null,
+    notes: null,
+    messageIds: [],
+    ...overrides
+  }
+}
+
+describe('parseExpenseInput', () => {
+  it('normalizes a valid body and rejects bad input', () => {
+    const parsed = parseExpenseInput({
+      description: '  Soccer registration ',
+      category: 'activities',
+      amountCents: 8550,
+      incurredOn: '2025-04-01',
+      paidBy: 'coparent',
+      notes: ' ',
+      messageIds: ['6f1c2a0e-3b1d-4c55-9a7e-0d2b9f1e8a11', '6f1c2a0e-3b1d-4c55-9a7e-0d2b9f1e8a11']
+    })
+    expect(parsed).toMatchObject({ description: 'Soccer registration', splitPercent: 50, notes: null, reimbursementPaidOn: null })
+    expect(parsed.messageIds).toHaveLength(1)
+
+    expect(() => parseExpenseInput({ ...expense(), amountCents: 12.5 })).toThrow(/amount/)
+    expect(() => parseExpenseInput({ ...expense(), category: 'groceries' })).toThrow(/category/)
+    expect(() => parseExpenseInput({ ...expense(), splitPercent: 120 })).toThrow(/share/)
+    expect(() => parseExpenseInput({ ...expense(), reimbursementPaidOn: '2025-02-30' })).toThrow(/paid date/)
+  })
+})
+
+describe('summarizeExpenseBalance', () => {
+  it('nets unsettled shares in both directions', () => {
+    const balance = summarizeExpenseBalance([
+      expense(),
+      expense({ amountCents: 40000, splitPercent: 100, category: 'child_support', reimbursementRequestedOn: '2025-03-10' }),
+      expense({ amountCents: 9000, paidBy: 'coparent', reimbursementRequestedOn: '2025-02-01' }),
+      // Settled or not shared: ignored.
+      expense({ reimbursementRequestedOn: '2025-01-05', reimbursementPaidOn: '2025-01-20' }),
+      expense({ splitPercent: 0 })
+    ])
+    expect(balance).toEqual({
+      owedToYouCents: 46000,
+      owedByYouCents: 4500,
+      netCents: 41500,
+      outstandingCount: 3,
+      requestedCount: 2,
+      oldestRequestedOn: '2025-02-01'
+    })
+  })
+
+  it('derives status from the reimbursement dates', () => {
+    expect(expenseStatus(expense())).toBe('open')
+    expect(expenseStatus(expense({ reimbursementRequestedOn: '2025-03-04' }))).toBe('requested')
+    expect(expenseStatus(expense({ reimbursementPaidOn: '2025-03-04' }))).toBe('reimbursed')
+    expect(expenseStatus(expense({ splitPercent: 0 }))).toBe('not_shared')
+  })
+})
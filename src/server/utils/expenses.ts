@@ -0,0 +1,233 @@
+/**
+ * Expense and reimbursement ledger.
+ *
+ * Each expense records who fronted the money (`paidBy`) and the share the
+ * other parent owes back (`splitPercent`). Until `reimbursementPaidOn` is set
+ * that share is outstanding, owed to you when you paid and owed by you when
+ * the co-parent did. Amounts are integer cents throughout.
+ */
+
+import type { Database } from '~/types/database.types'
+import type { Custodian } from './parenting-schedule'
+import { optionalText } from './validation'
+
+type ExpenseRow = Database['public']['Tables']['expenses']['Row']
+export type ExpenseInsert = Database['public']['Tables']['expenses']['Insert']
+
+export type ExpenseCategory = 'medical' | 'education' | 'activities' | 'childcare' | 'clothing' | 'travel' | 'child_support' | 'other'
+
+export const EXPENSE_CATEGORIES: ExpenseCategory[] = [
+  'medical',
+  'education',
+  'activities',
+  'childcare',
+  'clothing',
+  'travel',
+  'child_support',
+  'other'
+]
+
+/**
+ * - not_shared: nothing is owed back (split 0%)
+ * - open: the other parent's share hasn't been asked for yet
+ * - requested: reimbursement asked for, not yet paid
+ * - reimbursed: settled
+ */
+export type ExpenseStatus = 'not_shared' | 'open' | 'requested' | 'reimbursed'
+
+export interface ExpenseInput {
+  description: string
+  category: ExpenseCategory
+  amountCents: number
+  incurredOn: string
+  paidBy: Custodian
+  splitPercent: number
+  receiptEvidenceId: string | null
+  reimbursementRequestedOn: string | null
+  reimbursementPaidOn: string | null
+  notes: string | null
+  /** Messages where reimbursement was requested or discussed. */
+  messageIds: string[]
+}
+
+export interface Expense extends Omit<ExpenseInput, 'messageIds'> {
+  id: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface ExpenseBalance {
+  /** Outstanding shares the co-parent owes you. */
+  owedToYouCents: number
+  /** Outstanding shares you owe the co-parent. */
+  owedByYouCents: number
+  /** owedToYou − owedByYou: positive means the co-parent owes you on balance. */
+  netCents: number
+  outstandingCount: number
+  requestedCount: number
+  /** Earliest request date still unpaid, for "waiting since" copy. */
+  oldestRequestedOn: string | null
+}
+
+// Guard against typos like an extra few zeros; far above any real co-pay.
+const MAX_AMOUNT_CENTS = 100_000_000
+const MAX_LINKED_MESSAGES = 50
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+function isCalendarDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false
+  const d = new Date(`${value}T00:00:00Z`)
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === value
+}
+
+function optionalDate(value: unknown, message: string): string | null {
+  if (value == null || value === '') return null
+  if (!isCalendarDate(value)) throw new Error(message)
+  return value
+}
+
+/**
+ * Validate an expense from a request body. Throws an Error with a message
+ * that is safe to show the user.
+ */
+export function parseExpenseInput(input: unknown): ExpenseInput {
+  const body = (input ?? {}) as Record<string, unknown>
+
+  const description = optionalText(body.description)
+  if (!description) {
+    throw new Error('Describe what the expense was for.')
+  }
+
+  const category = body.category as ExpenseCategory
+  if (!EXPENSE_CATEGORIES.includes(category)) {
+    throw new Error('Choose a category for the expense.')
+  }
+
+  const amountCents = Number(body.amountCents)
+  if (!Number.isInteger(amountCents) || amountCents <= 0 || amountCents > MAX_AMOUNT_CENTS) {
+    throw new Error('Enter an amount greater than zero.')
+  }
+
+  if (!isCalendarDate(body.incurredOn)) {
+    throw new Error('The expense date must be a valid date.')
+  }
+
+  const paidBy = body.paidBy as Custodian
+  if (paidBy !== 'you' && paidBy !== 'coparent') {
+    throw new Error('Say who paid for the expense.')
+  }
+
+  const splitPercent = body.splitPercent == null || body.splitPercent === '' ? 50 : Number(body.splitPercent)
+  if (!Number.isFinite(splitPercent) || splitPercent < 0 || splitPercent > 100) {
+    throw new Error('The other parent\'s share must be between 0% and 100%.')
+  }
+
+  const receiptEvidenceId = optionalText(body.receiptEvidenceId)
+  if (receiptEvidenceId && !UUID_PATTERN.test(receiptEvidenceId)) {
+    throw new Error('The receipt must be an evidence item from this case.')
+  }
+
+  const reimbursementRequestedOn = optionalDate(body.reimbursementRequestedOn, 'The reimbursement request date must be a valid date.')
+  const reimbursementPaidOn = optionalDate(body.reimbursementPaidOn, 'The reimbursement paid date must be a valid date.')
+
+  const rawMessageIds = body.messageIds ?? []
+  if (!Array.isArray(rawMessageIds) || rawMessageIds.length > MAX_LINKED_MESSAGES
+    || !rawMessageIds.every(id => typeof id === 'string' && UUID_PATTERN.test(id))) {
+    throw new Error(`Link up to ${MAX_LINKED_MESSAGES} messages from this case.`)
+  }
+
+  return {
+    description,
+    category,
+    amountCents,
+    incurredOn: body.incurredOn,
+    paidBy,
+    splitPercent: Math.round(splitPercent * 100) / 100,
+    receiptEvidenceId,
+    reimbursementRequestedOn,
+    reimbursementPaidOn,
+    notes: optionalText(body.notes),
+    messageIds: [...new Set(rawMessageIds as string[])]
+  }
+}
+
+export function expenseFromRow(row: ExpenseRow): Expense {
+  return {
+    id: row.id,
+    description: row.description,
+    category: row.category as ExpenseCategory,
+    amountCents: row.amount_cents,
+    incurredOn: row.incurred_on,
+    paidBy: row.paid_by as Custodian,
+    // numeric comes back as a number or a string depending on the driver.
+    splitPercent: Number(row.split_percent),
+    receiptEvidenceId: row.receipt_evidence_id,
+    reimbursementRequestedOn: row.reimbursement_requested_on,
+    reimbursementPaidOn: row.reimbursement_paid_on,
+    notes: row.notes,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  }
+}
+
+export function expenseToRow(input: ExpenseInput, caseId: string, userId: string): ExpenseInsert {
+  return {
+    case_id: caseId,
+    user_id: userId,
+    description: input.description,
+    category: input.category,
+    amount_cents: input.amountCents,
+    incurred_on: input.incurredOn,
+    paid_by: input.paidBy,
+    split_percent: input.splitPercent,
+    receipt_evidence_id: input.receiptEvidenceId,
+    reimbursement_requested_on: input.reimbursementRequestedOn,
+    reimbursement_paid_on: input.reimbursementPaidOn,
+    notes: input.notes
+  }
+}
+
+type ExpenseAmounts = Pick<ExpenseInput, 'amountCents' | 'splitPercent' | 'paidBy' | 'reimbursementRequestedOn' | 'reimbursementPaidOn'>
+
+/** The other parent's share of an expense, in cents. */
+export function expenseShareCents(expense: Pick<ExpenseInput, 'amountCents' | 'splitPercent'>): number {
+  return Math.round(expense.amountCents * expense.splitPercent / 100)
+}
+
+export function expenseStatus(expense: ExpenseAmounts): ExpenseStatus {
+  if (expense.reimbursementPaidOn) return 'reimbursed'
+  if (!expenseShareCents(expense)) return 'not_shared'
+  return expense.reimbursementRequestedOn ? 'requested' : 'open'
+}
+
+/** Balance owed between the parents across every unsettled expense. */
+export function summarizeExpenseBalance(expenses: ExpenseAmounts[]): ExpenseBalance {
+  const balance: ExpenseBalance = {
+    owedToYouCents: 0,
+    owedByYouCents: 0,
+    netCents: 0,
+    outstandingCount: 0,
+    requestedCount: 0,
+    oldestRequestedOn: null
+  }
+
+  for (const expense of expenses) {
+    const status = expenseStatus(expense)
+    if (status !== 'open' && status !== 'requested') continue
+
+    const share = expenseShareCents(expense)
+    if (expense.paidBy === 'you') balance.owedToYouCents += share
+    else balance.owedByYouCents += share
+    balance.outstandingCount++
+
+    if (status === 'requested') {
+      balance.requestedCount++
+      const requested = expense.reimbursementRequestedOn!
+      if (!balance.oldestRequestedOn || requested < balance.oldestRequestedOn) balance.oldestRequestedOn = requested
+    }
+  }
+
+  balance.netCents = balance.owedToYouCents - balance.owedByYouCents
+  return balance
+}
@@ -0,0 +1,171 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json } from '~/types/database.types'
+import type { EventType, ExportFocus, ExportMetadata, ExtractionEventType } from '~/types'
+import type { PdfEvent, PdfExportOptions } from '~/utils/generate-pdf'
+import type { DocxMarkdownSection } from '~/utils/generate-docx'
+import { formatExtractionEventType, legacyToExtractionTypeMap } from '~/utils/eventTypes'
+import { loadFullEvents } from './full-events'
+import type { FullEventDetail } from './full-events'
+
+/**
+ * Every `exports` column except `docx_snapshot`, which can hold every event and
+ * message body of the case. Only the Word download reads the snapshot.
+ */
+export const EXPORT_COLUMNS = 'id, user_id, case_id, title, markdown_content, focus, metadata, created_at, updated_at'
+
+function extractionTypeOf(event: FullEventDetail): ExtractionEventType {
+  return (event.extractionType as ExtractionEventType | null | undefined)
+    || legacyToExtractionTypeMap[event.type as EventType]
+}
+
+// Same focus filters the export builder applies before saving.
+function matchesFocus(event: FullEventDetail, focus: ExportFocus): boolean {
+  const type = extractionTypeOf(event)
+  if (focus === 'incidents-only') return type === 'coparent_conflict' || type === 'gatekeeping'
+  if (focus === 'positive-parenting') return type === 'parenting_time' || type === 'caregiving'
+  return true
+}
+
+/**
+ * The AI summary is only persisted inside the saved markdown, under
+ * "## Executive Summary". Pull it back out so the DOCX matches the saved export.
+ */
+function extractExecutiveSummary(markdown: string): string | null {
+  const match = markdown.match(/^## Executive Summary\s*\n([\s\S]*?)(?=\n---\s*\n|\n## |$)/m)
+  if (!match?.[1]) return null
+  const summary = match[1]
+    .split('\n')
+    .filter(line => !/^_AI-generated analysis.*_$/.test(line.trim()))
+    .join('\n')
+    .trim()
+  return summary || null
+}
+
+/**
+ * Sections the export builder writes straight into the markdown, keyed by the
+ * metadata flag that says they were included. Rendered from the saved text so
+ * the figures match the export as it was saved.
+ */
+const MARKDOWN_SECTIONS: { flag: keyof ExportMetadata, heading: string, title: string }[] = [
+  { flag: 'include_overnights', heading: 'Parenting time & overnights', title: 'Parenting Time & Overnights' },
+  { flag: 'include_expenses', heading: 'Outstanding expenses & reimbursements', title: 'Outstanding Expenses' },
+  { flag: 'include_communication_metrics', heading: 'Communication & responsiveness', title: 'Communication & Responsiveness' }
+]
+
+export function extractMarkdownSections(markdown: string, metadata: ExportMetadata): DocxMarkdownSection[] {
+  const sections: DocxMarkdownSection[] = []
+  for (const { flag, heading, title } of MARKDOWN_SECTIONS) {
+    if (!metadata[flag]) continue
+    const start = markdown.indexOf(`\n## ${heading}\n`)
+    if (start < 0) continue
+    const bodyStart = start + heading.length + 5
+    const end = markdown.indexOf('\n## ', bodyStart)
+    const text = markdown.slice(bodyStart, end < 0 ? undefined : end).trim()
+    if (text) sections.push({ title, markdown: text })
+  }
+  return sections
+}
+
+function attachmentLabels(value: Json): string[] {
+  if (!Array.isArray(value)) return []
+  return value.filter((s): s is string => typeof s === 'string' && s.length > 0)
+}
+
+export interface ExportDocxSource {
+  caseId: string | null
+  focus: ExportFocus
+  metadata: ExportMetadata
+  markdown: string
+  /** Only events and messages created at or before this ISO timestamp. */
+  createdBefore: string
+}
+
+/**
+ * Build the structured `PdfExportOptions` model behind a timeline export from
+ * the case's events (and OFW messages when included) plus the caption in
+ * `metadata`. Saved with the export as `exports.docx_snapshot` so its Word
+ * download renders the export as it was saved.
+ */
+export async function buildExportDocxOptions(
+  supabase: SupabaseClient<Database>,
+  source: ExportDocxSource
+): Promise<PdfExportOptions> {
+  const { caseId, focus, metadata } = source
+  const isCompleteRecord = focus === 'complete-record'
+
+  const fullEvents = caseId
+    ? await loadFullEvents(supabase, { caseId, createdBefore: source.createdBefore })
+    : []
+
+  const pdfEvents: PdfEvent[] = fullEvents
+    .filter(e => matchesFocus(e, focus))
+    .map(e => isCompleteRecord
+      ? {
+          title: e.title,
+          timestamp: e.timestamp,
+          type: formatExtractionEventType(extractionTypeOf(e)),
+          description: e.description,
+          location: e.location,
+          participants: e.participants,
+          durationMinutes: e.durationMinutes,
+          safetyConcern: e.safetyConcern,
+          agreementViolation: e.agreementViolation,
+          childInvolved: e.childInvolved,
+          coparentInteraction: e.coparentInteraction,
+          childStatements: e.childStatements,
+          welfareCategory: e.welfareCategory,
+          welfareDirection: e.welfareDirection,
+          welfareSeverity: e.welfareSeverity,
+          evidenceDetails: e.evidenceDetails,
+          actionItems: e.actionItems,
+          communications: e.communications
+        }
+      : {
+          title: e.title,
+          timestamp: e.timestamp,
+          type: formatExtractionEventType(extractionTypeOf(e)),
+          description: e.description,
+          location: e.location,
+          participants: e.participants,
+          evidenceSummary: e.evidenceDetails?.length
+            ? `${e.evidenceDetails.length} evidence item${e.evidenceDetails.length === 1 ? '' : 's'}`
+            : null
+        })
+
+  if (metadata.include_messages && caseId && !isCompleteRecord) {
+    const { data: messages, error: messagesError } = await supabase
+      .from('messages')
+      .select('sequence_number, message_number, sent_at, sender, recipient, subject, body, attachments')
+      .eq('case_id', caseId)
+      .lte('created_at', source.createdBefore)
+      .order('sent_at', { ascending: true })
+
+    if (messagesError) {
+      throw createError({ statusCode: 500, statusMessage: messagesError.message })
+    }
+
+    for (const msg of messages ?? []) {
+      const atts = attachmentLabels(msg.attachments)
+      const num = msg.message_number ?? msg.sequence_number
+      pdfEvents.push({
+        title: `${msg.sender}${msg.subject ? `: ${msg.subject}` : ''}`,
+        timestamp: msg.sent_at,
+        type: 'OFW message',
+        description: msg.body.trim() + (atts.length ? `\n[Attachments: ${atts.join(', ')}]` : ''),
+        participants: msg.recipient ? [`To: ${msg.recipient}`] : undefined,
+        evidenceSummary: `[OFW msg #${num}, sent ${msg.sent_at.replace('T', ' ').slice(0, 16)}]`
+      })
+    }
+    pdfEvents.sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+  }
+
+  return {
+    caseTitle: metadata.case_title?.trim() || undefined,
+    courtName: metadata.court_name?.trim() || undefined,
+    recipient: metadata.recipient?.trim() || undefined,
+    overviewNotes: metadata.include_overview === false ? undefined : metadata.overview_notes?.trim() || undefined,
+    events: pdfEvents,
+    isCompleteRecord,
+    aiSummary: metadata.ai_summary_included ? extractExecutiveSummary(source.markdown) : null
+  }
+}
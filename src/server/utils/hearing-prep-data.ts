@@ -0,0 +1,199 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ExtractionEventType } from '~/types'
+import type { Database } from '~/types/database.types'
+import { legacyToExtractionTypeMap } from '~/utils/eventTypes'
+import {
+  buildHearingChecklist,
+  hearingWindow,
+  summarizeHearingPeriod
+} from './hearing-prep'
+import type {
+  DigestEventSource,
+  HearingChecklistItem,
+  HearingDigest,
+  HearingExhibitSource,
+  HearingWindow
+} from './hearing-prep'
+import { getDateStringInTimezone } from './timezone'
+
+const PAGE_SIZE = 1000
+
+export interface HearingExhibit extends HearingExhibitSource {
+  sourceType: string
+  position: number
+}
+
+export interface HearingPrepData {
+  caseTitle: string | null
+  nextCourtDate: string | null
+  lastCourtDate: string | null
+  /** Null when the case has no upcoming hearing; checklist and digest are then empty. */
+  hearing: HearingWindow | null
+  checklist: HearingChecklistItem[]
+  digest: HearingDigest | null
+  exhibits: HearingExhibit[]
+}
+
+/**
+ * Everything the hearing prep workspace and its export bundle need, for a
+ * case the caller has already checked access to.
+ */
+export async function loadHearingPrep(
+  supabase: SupabaseClient<Database>,
+  caseId: string,
+  timezone: string
+): Promise<HearingPrepData> {
+  const [{ data: caseRow, error: caseError }, { data: exhibitRows, error: exhibitsError }] = await Promise.all([
+    supabase
+      .from('cases')
+      .select('title, next_court_date, last_court_date')
+      .eq('id', caseId)
+      .maybeSingle(),
+    supabase
+      .from('hearing_exhibits')
+      .select('evidence_id, note, position, created_at, evidence(original_filename, summary, source_type)')
+      .eq('case_id', caseId)
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: true })
+  ])
+
+  if (caseError || exhibitsError) {
+    throw createError({ statusCode: 500, statusMessage: (caseError ?? exhibitsError)!.message })
+  }
+  if (!caseRow) {
+    throw createError({ statusCode: 404, statusMessage: 'Case not found' })
+  }
+
+  const exhibits: HearingExhibit[] = (exhibitRows ?? []).map(row => ({
+    evidenceId: row.evidence_id,
+    name: row.evidence?.original_filename || 'Untitled evidence',
+    summary: row.evidence?.summary ?? null,
+    sourceType: row.evidence?.source_type ?? 'document',
+    note: row.note,
+    position: row.position,
+    createdAt: row.created_at
+  }))
+
+  const now = new Date()
+  const hearing = hearingWindow(caseRow.next_court_date, caseRow.last_court_date, now, timezone)
+  const base = {
+    caseTitle: caseRow.title,
+    nextCourtDate: caseRow.next_court_date,
+    lastCourtDate: caseRow.last_court_date,
+    exhibits
+  }
+
+  if (!hearing) {
+    return { ...base, hearing: null, checklist: [], digest: null }
+  }
+
+  const { periodStart } = hearing
+  const [actionRows, eventRows, threadRows] = await Promise.all([
+    loadChecklistSources(supabase, caseId, periodStart),
+    loadPeriodEvents(supabase, caseId, periodStart, now.toISOString()),
+    loadPeriodThreads(supabase, caseId, periodStart)
+  ])
+
+  const events: DigestEventSource[] = []
+  for (const row of eventRows) {
+    const timestamp = row.primary_timestamp ?? row.created_at
+    events.push({
+      id: row.id,
+      title: row.title,
+      timestamp,
+      extractionType: (row.type_v2 as ExtractionEventType | null) ?? legacyToExtractionTypeMap[row.type] ?? 'parenting_time',
+      safetyConcern: !!row.safety_concern,
+      agreementViolation: !!row.agreement_violation
+    })
+  }
+
+  const threads = threadRows.map(row => ({
+    threadId: row.thread_id,
+    subject: row.subject,
+    messageCount: row.message_count,
+    firstSentAt: row.first_sent_at,
+    lastSentAt: row.last_sent_at,
+    tone: row.tone,
+    summary: row.summary
+  }))
+
+  return {
+    ...base,
+    hearing,
+    checklist: buildHearingChecklist(actionRows, hearing, getDateStringInTimezone(now, timezone)),
+    digest: summarizeHearingPeriod(events, threads)
+  }
+}
+
+/** Action items the checklist can show: not cancelled, and not done before the period. */
+async function loadChecklistSources(
+  supabase: SupabaseClient<Database>,
+  caseId: string,
+  periodStart: string | null
+) {
+  const rows = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('action_items')
+      .select('id, description, type, priority, status, deadline, event_id, updated_at')
+      .eq('case_id', caseId)
+      .neq('status', 'cancelled')
+    if (periodStart) query = query.or(`status.neq.done,updated_at.gte."${periodStart}"`)
+    const { data, error } = await query
+      .order('id')
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (error) throw createError({ statusCode: 500, statusMessage: error.message })
+    rows.push(...(data ?? []))
+    if ((data?.length ?? 0) < PAGE_SIZE) break
+  }
+  return rows
+}
+
+/** Events dated (primary_timestamp, else created_at) within the period, up to `until`. */
+async function loadPeriodEvents(
+  supabase: SupabaseClient<Database>,
+  caseId: string,
+  periodStart: string | null,
+  until: string
+) {
+  const dated = (column: string) => periodStart
+    ? `${column}.gte."${periodStart}",${column}.lte."${until}"`
+    : `${column}.lte."${until}"`
+  const rows = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('events')
+      .select('id, type, type_v2, title, primary_timestamp, created_at, safety_concern, agreement_violation')
+      .eq('case_id', caseId)
+      .or(`and(${dated('primary_timestamp')}),and(primary_timestamp.is.null,${dated('created_at')})`)
+      .order('id')
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (error) throw createError({ statusCode: 500, statusMessage: error.message })
+    rows.push(...(data ?? []))
+    if ((data?.length ?? 0) < PAGE_SIZE) break
+  }
+  return rows
+}
+
+/** Threads with a message since the period started. */
+async function loadPeriodThreads(
+  supabase: SupabaseClient<Database>,
+  caseId: string,
+  periodStart: string | null
+) {
+  const rows = []
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('message_threads')
+      .select('thread_id, subject, message_count, first_sent_at, last_sent_at, tone, summary')
+      .eq('case_id', caseId)
+    if (periodStart) query = query.gte('last_sent_at', periodStart)
+    const { data, error } = await query
+      .order('thread_id')
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (error) throw createError({ statusCode: 500, statusMessage: error.message })
+    rows.push(...(data ?? []))
+    if ((data?.length ?? 0) < PAGE_SIZE) break
+  }
+  return rows
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import { buildHearingBundleMarkdown, buildHearingChecklist, hearingWindow, summarizeHearingPeriod } from './hearing-prep'
+import type { ChecklistSource } from './hearing-prep'
+
+function actionItem(overrides: Partial<ChecklistSource>): ChecklistSource {
+  return {
+    id: 'a',
+    description: 'Gather school attendance records',
+    type: 'obtain',
+    priority: 'normal',
+    status: 'open',
+    deadline: null,
+    event_id: null,
+    updated_at: '2025-03-01T00:00:00Z',
+    ...overrides
+  }
+}
+
+describe('hearingWindow', () => {
+  it('counts local days to the hearing and activates inside the window', () => {
+    const now = new Date('2025-05-01T15:00:00Z')
+    const soon = hearingWindow('2025-05-20T14:00:00Z', '2025-01-10T15:00:00Z', now, 'America/New_York')
+    expect(soon).toMatchObject({ hearingDay: '2025-05-20', daysUntil: 19, active: true, periodStart: '2025-01-10T15:00:00Z' })
+
+    expect(hearingWindow('2025-08-01T14:00:00Z', null, now, 'America/New_York')).toMatchObject({ daysUntil: 92, active: false })
+    expect(hearingWindow('2025-04-30T14:00:00Z', null, now, 'America/New_York')).toBeNull()
+    // A "last" hearing after the next one is stale data, not a period start.
+    expect(hearingWindow('2025-05-20T14:00:00Z', '2025-06-01T00:00:00Z', now, 'UTC')?.periodStart).toBeNull()
+  })
+})
+
+describe('buildHearingChecklist', () => {
+  it('orders open items by priority and deadline and keeps items done during the period', () => {
+    const checklist = buildHearingChecklist([
+      actionItem({ id: 'late', priority: 'normal', deadline: '2025-04-20' }),
+      actionItem({ id: 'urgent', priority: 'urgent' }),
+      actionItem({ id: 'later', priority: 'normal', deadline: '2025-06-01' }),
+      actionItem({ id: 'done-now', status: 'done', updated_at: '2025-04-02T00:00:00Z' }),
+      actionItem({ id: 'done-before', status: 'done', updated_at: '2024-12-01T00:00:00Z' }),
+      actionItem({ id: 'dropped', status: 'cancelled' })
+    ], { hearingDay: '2025-05-20', periodStart: '2025-01-10T15:00:00Z' }, '2025-05-01')
+
+    expect(checklist.map(item => item.id)).toEqual(['urgent', 'late', 'later', 'done-now'])
+    expect(checklist[1]).toMatchObject({ overdue: true, dueBeforeHearing: true })
+    expect(checklist[2]).toMatchObject({ overdue: false, dueBeforeHearing: false })
+  })
+})
+
+describe('buildHearingBundleMarkdown', () => {
+  it('renders counts, events oldest first and thread table', () => {
+    const digest = summarizeHearingPeriod([
+      { id: 'e1', title: 'Late pickup', timestamp: '2025-02-01T18:00:00Z', extractionType: 'coparent_conflict', safetyConcern: false, agreementViolation: true },
+      { id: 'e2', title: 'Soccer game', timestamp: '2025-03-01T18:00:00Z', extractionType: 'parenting_time', safetyConcern: false, agreementViolation: false },
+      { id: 'e3', title: 'Argument at exchange', timestamp: '2025-04-01T18:00:00Z', extractionType: 'coparent_conflict', safetyConcern: true, agreementViolation: false }
+    ], [
+      { threadId: 't1', subject: 'Summer | camp', messageCount: 4, firstSentAt: '2025-03-02T10:00:00Z', lastSentAt: '2025-03-05T10:00:00Z', tone: 'tense', summary: null }
+    ])
+
+    expect(digest.byType).toEqual([{ type: 'coparent_conflict', count: 2 }, { type: 'parenting_time', count: 1 }])
+    expect(digest.flaggedCount).toBe(2)
+
+    const markdown = buildHearingBundleMarkdown({
+      caseTitle: 'Smith v. Smith',
+      hearing: { hearingDate: '2025-05-20T14:00:00.000Z', hearingDay: '2025-05-20', daysUntil: 19, active: true, periodStart: '2025-01-10T15:00:00Z' },
+      checklist: [],
+      digest,
+      exhibits: [{ evidenceId: 'ev', name: 'Texts.pdf', summary: null, note: 'Shows refusal', createdAt: '2025-04-01T00:00:00Z' }]
+    })
+
+    expect(markdown).toContain('**Period covered:** since the hearing on 2025-01-10')
+    expect(markdown).toContain('1. **Texts.pdf** — Shows refusal')
+    expect(markdown).toContain('| Co-parent Conflict | 2 |')
+    expect(markdown.indexOf('Late pickup')).toBeLessThan(markdown.indexOf('Argument at exchange'))
+    expect(markdown).toContain('| Summer / camp | 4 | 2025-03-02 | 2025-03-05 | tense |')
+  })
+})
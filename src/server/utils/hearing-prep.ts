@@ -0,0 +1,292 @@
+/**
+ * Hearing preparation.
+ *
+ * Prep mode switches on once `cases.next_court_date` is within
+ * HEARING_PREP_WINDOW_DAYS. Everything it shows is scoped to the period since
+ * the previous hearing (`cases.last_court_date`), or the whole record when no
+ * previous hearing is known.
+ */
+
+import type { ExtractionEventType } from '~/types'
+import type { Database } from '~/types/database.types'
+// Relative, not `~/`: vitest runs this module without Nuxt's aliases.
+import { formatExtractionEventType } from '../../app/utils/eventTypes'
+import { getDateStringInTimezone } from './timezone'
+
+type ActionItemRow = Database['public']['Tables']['action_items']['Row']
+
+export const HEARING_PREP_WINDOW_DAYS = 30
+
+export interface HearingWindow {
+  hearingDate: string
+  /** Local calendar day of the hearing, YYYY-MM-DD. */
+  hearingDay: string
+  /** Whole days from today to the hearing day; 0 on the day itself. */
+  daysUntil: number
+  active: boolean
+  /** The previous hearing, which starts the prep period; null means the whole record. */
+  periodStart: string | null
+}
+
+export type ChecklistSource = Pick<
+  ActionItemRow,
+  'id' | 'description' | 'type' | 'priority' | 'status' | 'deadline' | 'event_id' | 'updated_at'
+>
+
+export interface HearingChecklistItem {
+  id: string
+  description: string
+  type: ActionItemRow['type']
+  priority: ActionItemRow['priority']
+  status: ActionItemRow['status']
+  deadline: string | null
+  eventId: string | null
+  done: boolean
+  /** Has a deadline on or before the hearing day. */
+  dueBeforeHearing: boolean
+  overdue: boolean
+}
+
+export interface DigestEventSource {
+  id: string
+  title: string
+  timestamp: string
+  extractionType: ExtractionEventType
+  safetyConcern: boolean
+  agreementViolation: boolean
+}
+
+export interface DigestThreadSource {
+  threadId: string
+  subject: string | null
+  messageCount: number
+  firstSentAt: string | null
+  lastSentAt: string | null
+  tone: string | null
+  summary: string | null
+}
+
+export interface HearingDigest {
+  eventCount: number
+  byType: Array<{ type: ExtractionEventType, count: number }>
+  flaggedCount: number
+  /** Newest first. */
+  events: DigestEventSource[]
+  /** Most recently active first. */
+  threads: DigestThreadSource[]
+}
+
+export interface HearingExhibitSource {
+  evidenceId: string
+  name: string
+  summary: string | null
+  note: string | null
+  createdAt: string
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const PRIORITY_RANK: Record<ActionItemRow['priority'], number> = {
+  urgent: 0,
+  high: 1,
+  normal: 2,
+  low: 3
+}
+
+function dayDiff(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS)
+}
+
+// Items without a deadline sort after those with one.
+function compareDeadlines(a: string | null, b: string | null): number {
+  if (a && b) return a.localeCompare(b)
+  return Number(!a) - Number(!b)
+}
+
+/**
+ * Where the case stands relative to its next hearing, or null when no future
+ * hearing is set. A last_court_date on or after the next hearing is ignored.
+ */
+export function hearingWindow(
+  nextCourtDate: string | null,
+  lastCourtDate: string | null,
+  now: Date,
+  timezone: string
+): HearingWindow | null {
+  if (!nextCourtDate) return null
+  const hearing = new Date(nextCourtDate)
+  if (Number.isNaN(hearing.getTime())) return null
+
+  const today = getDateStringInTimezone(now, timezone)
+  const hearingDay = getDateStringInTimezone(hearing, timezone)
+  const daysUntil = dayDiff(today, hearingDay)
+  if (daysUntil < 0) return null
+
+  const last = lastCourtDate && new Date(lastCourtDate) < hearing ? lastCourtDate : null
+
+  return {
+    hearingDate: hearing.toISOString(),
+    hearingDay,
+    daysUntil,
+    active: daysUntil <= HEARING_PREP_WINDOW_DAYS,
+    periodStart: last
+  }
+}
+
+/**
+ * Prep checklist from the case's action items: everything still open, plus
+ * items completed during the period so ticking one off doesn't make it vanish.
+ * Open items come first, by priority then deadline.
+ */
+export function buildHearingChecklist(
+  items: ChecklistSource[],
+  hearing: Pick<HearingWindow, 'hearingDay' | 'periodStart'>,
+  today: string
+): HearingChecklistItem[] {
+  const checklist: HearingChecklistItem[] = []
+
+  for (const item of items) {
+    if (item.status === 'cancelled') continue
+    const done = item.status === 'done'
+    if (done && hearing.periodStart && Date.parse(item.updated_at) < Date.parse(hearing.periodStart)) continue
+
+    const deadlineDay = item.deadline?.slice(0, 10) ?? null
+    checklist.push({
+      id: item.id,
+      description: item.description,
+      type: item.type,
+      priority: item.priority,
+      status: item.status,
+      deadline: item.deadline,
+      eventId: item.event_id,
+      done,
+      dueBeforeHearing: !!deadlineDay && deadlineDay <= hearing.hearingDay,
+      overdue: !done && !!deadlineDay && deadlineDay < today
+    })
+  }
+
+  return checklist.sort((a, b) =>
+    Number(a.done) - Number(b.done)
+    || PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]
+    || compareDeadlines(a.deadline, b.deadline)
+    || a.description.localeCompare(b.description)
+  )
+}
+
+/** What happened since the last hearing: event counts by type and active threads. */
+export function summarizeHearingPeriod(
+  events: DigestEventSource[],
+  threads: DigestThreadSource[]
+): HearingDigest {
+  const counts = new Map<ExtractionEventType, number>()
+  let flaggedCount = 0
+  for (const event of events) {
+    counts.set(event.extractionType, (counts.get(event.extractionType) ?? 0) + 1)
+    if (event.safetyConcern || event.agreementViolation) flaggedCount++
+  }
+
+  return {
+    eventCount: events.length,
+    byType: [...counts.entries()]
+      .map(([type, count]) => ({ type, count }))
+      .sort((a, b) => b.count - a.count || a.type.localeCompare(b.type)),
+    flaggedCount,
+    events: [...events].sort((a, b) => b.timestamp.localeCompare(a.timestamp)),
+    threads: [...threads].sort((a, b) => (b.lastSentAt ?? '').localeCompare(a.lastSentAt ?? ''))
+  }
+}
+
+function formatDay(iso: string): string {
+  return iso.slice(0, 10)
+}
+
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '/').replace(/\s+/g, ' ').trim()
+}
+
+export interface HearingBundleInput {
+  caseTitle: string | null
+  hearing: HearingWindow
+  checklist: HearingChecklistItem[]
+  digest: HearingDigest
+  exhibits: HearingExhibitSource[]
+}
+
+/**
+ * Markdown for the hearing bundle export: hearing details, open checklist,
+ * key exhibits, and everything on record since the previous hearing.
+ */
+export function buildHearingBundleMarkdown(input: HearingBundleInput): string {
+  const { hearing, checklist, digest, exhibits } = input
+  const lines: string[] = ['# Hearing preparation bundle', '']
+
+  if (input.caseTitle) lines.push(`**Case:** ${input.caseTitle}`)
+  lines.push(`**Hearing date:** ${hearing.hearingDay}`)
+  lines.push(`**Period covered:** ${hearing.periodStart ? `since the hearing on ${formatDay(hearing.periodStart)}` : 'entire record'}`)
+  lines.push(`**Prepared:** ${new Date().toISOString().slice(0, 10)}`, '')
+
+  const open = checklist.filter(item => !item.done)
+  if (open.length) {
+    lines.push('## Open preparation items', '')
+    for (const item of open) {
+      const due = item.deadline ? ` (due ${formatDay(item.deadline)}${item.overdue ? ', overdue' : ''})` : ''
+      lines.push(`- [ ] ${item.description}${due}`)
+    }
+    lines.push('')
+  }
+
+  if (exhibits.length) {
+    lines.push('## Key exhibits', '')
+    exhibits.forEach((exhibit, index) => {
+      lines.push(`${index + 1}. **${exhibit.name}**${exhibit.note ? ` — ${exhibit.note}` : ''}`)
+      if (exhibit.summary) lines.push(`   - ${exhibit.summary}`)
+    })
+    lines.push('')
+  }
+
+  lines.push('## Since the last hearing', '')
+  if (!digest.eventCount && !digest.threads.length) {
+    lines.push('_Nothing recorded in this period._', '')
+    return lines.join('\n')
+  }
+
+  if (digest.byType.length) {
+    lines.push('| Type | Events |', '| --- | ---: |')
+    for (const { type, count } of digest.byType) {
+      lines.push(`| ${formatExtractionEventType(type)} | ${count} |`)
+    }
+    lines.push(`| **Total** | **${digest.eventCount}** |`, '')
+    if (digest.flaggedCount) {
+      lines.push(`${digest.flaggedCount} of these events were flagged as a safety concern or agreement violation.`, '')
+    }
+  }
+
+  if (digest.events.length) {
+    lines.push('### Events', '')
+    // Oldest first reads better in a bundle handed to counsel.
+    for (const event of [...digest.events].reverse()) {
+      const flags = [
+        event.safetyConcern ? 'safety concern' : null,
+        event.agreementViolation ? 'agreement violation' : null
+      ].filter(Boolean)
+      lines.push(`- ${formatDay(event.timestamp)} — **${event.title}** (${formatExtractionEventType(event.extractionType)}${flags.length ? `; ${flags.join(', ')}` : ''})`)
+    }
+    lines.push('')
+  }
+
+  if (digest.threads.length) {
+    lines.push('### Message threads', '')
+    lines.push('| Subject | Messages | From | To | Tone |', '| --- | ---: | --- | --- | --- |')
+    for (const thread of digest.threads) {
+      lines.push(`| ${escapeCell(thread.subject || '(no subject)')} | ${thread.messageCount} | ${thread.firstSentAt ? formatDay(thread.firstSentAt) : '—'} | ${thread.lastSentAt ? formatDay(thread.lastSentAt) : '—'} | ${thread.tone ?? '—'} |`)
+    }
+    lines.push('')
+
+    const summarized = digest.threads.filter(thread => thread.summary)
+    for (const thread of summarized) {
+      lines.push(`**${thread.subject || '(no subject)'}:** ${thread.summary}`, '')
+    }
+  }
+
+  return lines.join('\n')
+}
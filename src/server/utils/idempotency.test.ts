@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { decideIdempotentRetry, fingerprintRequest, type IdempotencyRecord } from './idempotency'
+
+describe('fingerprintRequest', () => {
+  it('ignores key order but not scope, values or file contents', () => {
+    const a = fingerprintRequest('POST /api/exports', { title: 'A', metadata: { x: 1, y: [1, 2] } })
+    expect(fingerprintRequest('POST /api/exports', { metadata: { y: [1, 2], x: 1 }, title: 'A' })).toBe(a)
+    expect(fingerprintRequest('POST /api/journal/submit', { title: 'A', metadata: { x: 1, y: [1, 2] } })).not.toBe(a)
+    expect(fingerprintRequest('POST /api/exports', { title: 'B', metadata: { x: 1, y: [1, 2] } })).not.toBe(a)
+
+    const file = fingerprintRequest('POST /api/evidence-upload', { file: Buffer.from('one') })
+    expect(fingerprintRequest('POST /api/evidence-upload', { file: Buffer.from('one') })).toBe(file)
+    expect(fingerprintRequest('POST /api/evidence-upload', { file: Buffer.from('two') })).not.toBe(file)
+  })
+})
+
+describe('decideIdempotentRetry', () => {
+  const now = new Date('2025-03-03T12:00:00Z')
+  const record: IdempotencyRecord = {
+    request_fingerprint: 'abc',
+    status: 'completed',
+    response_status: 200,
+    response_body: { id: 'e1' },
+    created_at: '2025-03-03T11:59:00Z',
+    expires_at: '2025-03-04T11:59:00Z'
+  }
+
+  it('replays a completed request and rejects a different payload', () => {
+    expect(decideIdempotentRetry(record, 'abc', now)).toEqual({ action: 'replay', status: 200, body: { id: 'e1' } })
+    expect(decideIdempotentRetry(record, 'other', now)).toEqual({ action: 'mismatch' })
+  })
+
+  it('waits on a running request until it goes stale, and reclaims expired keys', () => {
+    const running = { ...record, status: 'in_progress', response_status: null, response_body: null }
+    expect(decideIdempotentRetry(running, 'abc', now)).toEqual({ action: 'in_progress' })
+    expect(decideIdempotentRetry({ ...running, created_at: '2025-03-03T11:50:00Z' }, 'abc', now)).toEqual({ action: 'reclaim' })
+    expect(decideIdempotentRetry({ ...record, expires_at: '2025-03-03T11:00:00Z' }, 'other', now)).toEqual({ action: 'reclaim' })
+  })
+})
@@ -0,0 +1,236 @@
+import { createHash } from 'node:crypto'
+import type { H3Event } from 'h3'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database, Json } from '~/types/database.types'
+
+/** Clients send UUIDs; anything token-like up to this length is accepted. */
+const MAX_KEY_LENGTH = 255
+const KEY_PATTERN = /^[\w.:-]+$/
+
+/** How long a stored response is replayed for the same key. */
+export const IDEMPOTENCY_TTL_HOURS = 24
+
+/**
+ * An in-progress claim older than this belongs to a request that died
+ * without finishing or releasing it; a retry may take it over.
+ */
+export const IDEMPOTENCY_STALE_MINUTES = 5
+
+/**
+ * The request's `Idempotency-Key` header, or null when absent. A retry with
+ * the same key must return what the first attempt created. Throws 400 on a
+ * malformed key rather than silently ignoring it.
+ */
+export function readIdempotencyKey(event: H3Event): string | null {
+  const raw = getHeader(event, 'idempotency-key')?.trim()
+  if (!raw) return null
+  if (raw.length > MAX_KEY_LENGTH || !KEY_PATTERN.test(raw)) {
+    throw createError({ statusCode: 400, statusMessage: 'Invalid Idempotency-Key header' })
+  }
+  return raw
+}
+
+/** Postgres unique_violation: a concurrent request with the same key won the insert. */
+export function isUniqueViolation(error: { code?: string } | null | undefined): boolean {
+  return error?.code === '23505'
+}
+
+function stableStringify(value: unknown): string {
+  if (Buffer.isBuffer(value)) return JSON.stringify(createHash('sha256').update(value).digest('hex'))
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value ?? null)
+}
+
+/**
+ * SHA-256 of the endpoint scope and request payload. Object key order does
+ * not matter; Buffers (uploaded files) are hashed by content.
+ */
+export function fingerprintRequest(scope: string, payload: unknown): string {
+  return createHash('sha256').update(`${scope}\n${stableStringify(payload)}`).digest('hex')
+}
+
+export interface IdempotencyRecord {
+  request_fingerprint: string
+  status: string
+  response_status: number | null
+  response_body: Json | null
+  created_at: string
+  expires_at: string
+}
+
+export type IdempotencyDecision
+  = | { action: 'replay', status: number, body: Json | null }
+    | { action: 'reclaim' }
+    | { action: 'in_progress' }
+    | { action: 'mismatch' }
+
+/** What to do with a request whose key is already claimed by `record`. */
+export function decideIdempotentRetry(record: IdempotencyRecord, fingerprint: string, now: Date): IdempotencyDecision {
+  if (Date.parse(record.expires_at) <= now.getTime()) return { action: 'reclaim' }
+  if (record.request_fingerprint !== fingerprint) return { action: 'mismatch' }
+  if (record.status === 'completed') {
+    return { action: 'replay', status: record.response_status ?? 200, body: record.response_body }
+  }
+  const age = now.getTime() - Date.parse(record.created_at)
+  return age >= IDEMPOTENCY_STALE_MINUTES * 60 * 1000 ? { action: 'reclaim' } : { action: 'in_progress' }
+}
+
+type IdempotencyClaim = { claimed: true } | { claimed: false, decision: IdempotencyDecision }
+
+async function claimKey(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  key: string,
+  scope: string,
+  fingerprint: string
+): Promise<IdempotencyClaim> {
+  const now = new Date()
+  const { error } = await supabase.from('idempotency_keys').insert({
+    user_id: userId,
+    key,
+    scope,
+    request_fingerprint: fingerprint,
+    status: 'in_progress',
+    expires_at: new Date(now.getTime() + IDEMPOTENCY_TTL_HOURS * 60 * 60 * 1000).toISOString()
+  })
+  if (!error) return { claimed: true }
+  if (!isUniqueViolation(error)) {
+    console.error('[idempotency] Failed to claim key:', error)
+    throw createError({ statusCode: 500, statusMessage: 'Failed to record Idempotency-Key' })
+  }
+
+  const { data: record, error: readError } = await supabase
+    .from('idempotency_keys')
+    .select('request_fingerprint, status, response_status, response_body, created_at, expires_at')
+    .eq('user_id', userId)
+    .eq('key', key)
+    .maybeSingle()
+  if (readError) {
+    console.error('[idempotency] Failed to read key:', readError)
+    throw createError({ statusCode: 500, statusMessage: 'Failed to read Idempotency-Key' })
+  }
+  // Released between our insert and read: the key is free again.
+  if (!record) return { claimed: false, decision: { action: 'reclaim' } }
+  return { claimed: false, decision: decideIdempotentRetry(record, fingerprint, now) }
+}
+
+/**
+ * Take over an expired or stale claim in one conditional UPDATE, so two
+ * retries racing for the same dead claim can't both win (or delete each
+ * other's fresh one). False when the row is gone or no longer reclaimable.
+ */
+async function reclaimKey(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  key: string,
+  scope: string,
+  fingerprint: string
+): Promise<boolean> {
+  const now = new Date()
+  const staleBefore = new Date(now.getTime() - IDEMPOTENCY_STALE_MINUTES * 60 * 1000)
+  const { data, error } = await supabase
+    .from('idempotency_keys')
+    .update({
+      scope,
+      request_fingerprint: fingerprint,
+      status: 'in_progress',
+      response_status: null,
+      response_body: null,
+      created_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + IDEMPOTENCY_TTL_HOURS * 60 * 60 * 1000).toISOString()
+    })
+    .eq('user_id', userId)
+    .eq('key', key)
+    .or(`expires_at.lte."${now.toISOString()}",and(status.eq.in_progress,created_at.lte."${staleBefore.toISOString()}")`)
+    .select('key')
+  if (error) {
+    console.error('[idempotency] Failed to reclaim key:', error)
+    throw createError({ statusCode: 500, statusMessage: 'Failed to record Idempotency-Key' })
+  }
+  return (data?.length ?? 0) > 0
+}
+
+async function releaseKey(supabase: SupabaseClient<Database>, userId: string, key: string) {
+  const { error } = await supabase.from('idempotency_keys').delete().eq('user_id', userId).eq('key', key)
+  if (error) console.error('[idempotency] Failed to release key:', error)
+}
+
+/**
+ * Run a create handler at most once per `Idempotency-Key`. Without the header
+ * the handler just runs. With it, the first request claims the key and its
+ * response is stored; retries within IDEMPOTENCY_TTL_HOURS get that response
+ * back (with an `Idempotent-Replayed: true` header) instead of running again.
+ *
+ * A retry while the first request is still running gets 409, and reusing a
+ * key for a different payload gets 422. A handler that throws releases the
+ * key so the client can retry, which makes it the handler's job to throw only
+ * after undoing its partial writes, or to pick them up again on the retry
+ * (as journal submit does with the entry's own key).
+ */
+export async function withIdempotency<T>(
+  event: H3Event,
+  options: {
+    supabase: SupabaseClient<Database>
+    userId: string
+    /** Endpoint name, e.g. 'POST /api/exports'. */
+    scope: string
+    /** Whatever identifies the request: parsed body fields, file contents. */
+    payload: unknown
+  },
+  handler: () => Promise<T>
+): Promise<T> {
+  const key = readIdempotencyKey(event)
+  if (!key) return handler()
+
+  const { supabase, userId, scope } = options
+  const fingerprint = fingerprintRequest(scope, options.payload)
+
+  let claim = await claimKey(supabase, userId, key, scope, fingerprint)
+  if (!claim.claimed && claim.decision.action === 'reclaim') {
+    // Lost the reclaim (or the row was released meanwhile): insert again and
+    // go by whatever claim is there now.
+    claim = await reclaimKey(supabase, userId, key, scope, fingerprint)
+      ? { claimed: true }
+      : await claimKey(supabase, userId, key, scope, fingerprint)
+  }
+
+  if (!claim.claimed) {
+    const { decision } = claim
+    if (decision.action === 'replay') {
+      setResponseStatus(event, decision.status)
+      setHeader(event, 'Idempotent-Replayed', 'true')
+      return decision.body as T
+    }
+    if (decision.action === 'mismatch') {
+      throw createError({ statusCode: 422, statusMessage: 'Idempotency-Key was already used for a different request' })
+    }
+    throw createError({ statusCode: 409, statusMessage: 'A request with this Idempotency-Key is still in progress' })
+  }
+
+  let result: T
+  try {
+    result = await handler()
+  } catch (error) {
+    await releaseKey(supabase, userId, key)
+    throw error
+  }
+
+  const { error } = await supabase
+    .from('idempotency_keys')
+    .update({
+      status: 'completed',
+      response_status: getResponseStatus(event),
+      response_body: (result ?? null) as Json
+    })
+    .eq('user_id', userId)
+    .eq('key', key)
+  if (error) console.error('[idempotency] Failed to store response:', error)
+
+  return result
+}
@@ -0,0 +1,9 @@
+/**
+ * The triggering event's data inside an Inngest `onFailure` handler, whose
+ * event wraps the original as `event.data.event`. Falls back to `event.data`
+ * itself for payloads that arrive unwrapped.
+ */
+export function failedEventData<T>(event: { data: unknown }): T | undefined {
+  const data = event.data as { event?: { data?: T } } | T | undefined
+  return (data as { event?: { data?: T } } | undefined)?.event?.data ?? (data as T | undefined)
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { findGapFillRanges } from './journal-gap-fill'
+
+describe('findGapFillRanges', () => {
+  it('groups uncovered source days into ranges, newest first', () => {
+    const ranges = findGapFillRanges({
+      coveredDays: ['2025-03-05', '2025-03-12'],
+      messageDays: ['2025-03-01', '2025-03-01', '2025-03-03', '2025-03-05', '2025-03-06', '2025-03-14', '2025-03-20'],
+      evidenceDays: ['2025-03-04', '2025-03-18']
+    }, '2025-03-20')
+
+    expect(ranges.map(r => [r.start, r.end, r.messageCount, r.evidenceCount])).toEqual([
+      // 03-20 is today and left out.
+      ['2025-03-14', '2025-03-18', 1, 1],
+      // The covered 03-05 splits what would otherwise bridge into one range.
+      ['2025-03-06', '2025-03-06', 1, 0],
+      ['2025-03-01', '2025-03-04', 3, 1]
+    ])
+    expect(ranges[2]!.days).toEqual([
+      { day: '2025-03-01', messageCount: 2, evidenceCount: 0 },
+      { day: '2025-03-03', messageCount: 1, evidenceCount: 0 },
+      { day: '2025-03-04', messageCount: 0, evidenceCount: 1 }
+    ])
+  })
+
+  it('splits source days further apart than the bridge and ignores anything past the lookback', () => {
+    const ranges = findGapFillRanges({
+      coveredDays: [],
+      messageDays: ['2024-01-01', '2025-03-01', '2025-03-06'],
+      evidenceDays: []
+    }, '2025-03-20')
+
+    expect(ranges.map(r => [r.start, r.end])).toEqual([
+      ['2025-03-06', '2025-03-06'],
+      ['2025-03-01', '2025-03-01']
+    ])
+  })
+})
@@ -0,0 +1,88 @@
+/**
+ * Gap-fill: find stretches of days with messages or evidence but no timeline
+ * events, so the user can reconstruct them from what they already uploaded.
+ *
+ * Days are local calendar days (YYYY-MM-DD). Message `sent_at` values are
+ * stored as wall-clock time, so their first ten characters already are the
+ * local day; everything else is converted by the caller.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** How far back the detector looks. */
+export const GAP_FILL_LOOKBACK_DAYS = 180
+
+/** Source days this far apart (with nothing covered between) join one range. */
+export const GAP_FILL_BRIDGE_DAYS = 3
+
+/** Ranges returned, most recent first. */
+export const MAX_GAP_FILL_RANGES = 10
+
+export interface GapFillDay {
+  day: string
+  messageCount: number
+  evidenceCount: number
+}
+
+export interface GapFillRange {
+  start: string
+  end: string
+  /** Only the days with sources, oldest first. */
+  days: GapFillDay[]
+  messageCount: number
+  evidenceCount: number
+}
+
+export interface GapFillSources {
+  /** Days with an event or a journal entry dated to them. */
+  coveredDays: Iterable<string>
+  /** One local day per message. */
+  messageDays: string[]
+  /** One local day per evidence item. */
+  evidenceDays: string[]
+}
+
+function dayDiff(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS)
+}
+
+export function gapFillSince(today: string): string {
+  return new Date(Date.parse(`${today}T00:00:00Z`) - GAP_FILL_LOOKBACK_DAYS * DAY_MS).toISOString().slice(0, 10)
+}
+
+/**
+ * Uncovered days with sources, grouped into ranges. Today is left out: it is
+ * still being lived and the normal journal flow covers it.
+ */
+export function findGapFillRanges(sources: GapFillSources, today: string): GapFillRange[] {
+  const covered = new Set(sources.coveredDays)
+  const since = gapFillSince(today)
+  const counts = new Map<string, GapFillDay>()
+  const bump = (day: string, field: 'messageCount' | 'evidenceCount') => {
+    if (day < since || day >= today || covered.has(day)) return
+    const entry = counts.get(day) ?? { day, messageCount: 0, evidenceCount: 0 }
+    entry[field]++
+    counts.set(day, entry)
+  }
+  for (const day of sources.messageDays) bump(day, 'messageCount')
+  for (const day of sources.evidenceDays) bump(day, 'evidenceCount')
+
+  const coveredSorted = [...covered].sort()
+  const coveredBetween = (from: string, to: string) => coveredSorted.some(d => d > from && d < to)
+
+  const ranges: GapFillRange[] = []
+  let current: GapFillRange | null = null
+  for (const day of [...counts.values()].sort((a, b) => a.day.localeCompare(b.day))) {
+    if (current && dayDiff(current.end, day.day) <= GAP_FILL_BRIDGE_DAYS + 1 && !coveredBetween(current.end, day.day)) {
+      current.end = day.day
+      current.days.push(day)
+      current.messageCount += day.messageCount
+      current.evidenceCount += day.evidenceCount
+      continue
+    }
+    current = { start: day.day, end: day.day, days: [day], messageCount: day.messageCount, evidenceCount: day.evidenceCount }
+    ranges.push(current)
+  }
+
+  return ranges.reverse().slice(0, MAX_GAP_FILL_RANGES)
+}
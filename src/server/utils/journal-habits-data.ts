@@ -0,0 +1,73 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '~/types/database.types'
+import { computeJournalStreak, detectJournalGaps } from './journal-habits'
+import type { JournalGap, JournalStreak } from './journal-habits'
+import { getDateStringInTimezone } from './timezone'
+
+const PAGE_SIZE = 1000
+/** Longest streaks are counted over the last year. */
+const STREAK_LOOKBACK_DAYS = 366
+
+export interface JournalHabits {
+  today: string
+  streak: JournalStreak
+  gaps: JournalGap[]
+}
+
+/**
+ * Streak across all of the user's journal entries, and gaps in the case's
+ * parenting-time events. Works with the request client or the service client.
+ * `today` defaults to the local day of `now`; the nudge passes the day its
+ * window started on, which is the previous day just after midnight.
+ */
+export async function loadJournalHabits(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  caseId: string | null,
+  timezone: string,
+  now = new Date(),
+  today = getDateStringInTimezone(now, timezone)
+): Promise<JournalHabits> {
+  const since = new Date(now.getTime() - STREAK_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString()
+
+  const loggedDays: string[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('journal_entries')
+      .select('created_at')
+      .eq('user_id', userId)
+      .gte('created_at', since)
+      .order('created_at')
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw createError({ statusCode: 500, statusMessage: error.message })
+    for (const row of data ?? []) {
+      loggedDays.push(getDateStringInTimezone(new Date(row.created_at), timezone))
+    }
+    if ((data?.length ?? 0) < PAGE_SIZE) break
+  }
+
+  let lastParentingDay: string | undefined
+  if (caseId) {
+    // Rows extracted before type_v2 existed only carry the legacy 'positive' type.
+    const { data, error } = await supabase
+      .from('events')
+      .select('primary_timestamp')
+      .eq('case_id', caseId)
+      .or('type_v2.eq.parenting_time,and(type_v2.is.null,type.eq.positive)')
+      .not('primary_timestamp', 'is', null)
+      .lte('primary_timestamp', now.toISOString())
+      .order('primary_timestamp', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    if (error) throw createError({ statusCode: 500, statusMessage: error.message })
+    if (data?.primary_timestamp) {
+      lastParentingDay = getDateStringInTimezone(new Date(data.primary_timestamp), timezone)
+    }
+  }
+
+  return {
+    today,
+    streak: computeJournalStreak(loggedDays, today),
+    gaps: caseId ? detectJournalGaps({ parenting_time: lastParentingDay }, today) : []
+  }
+}
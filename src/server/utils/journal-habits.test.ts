@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import {
+  computeJournalStreak,
+  describeJournalGap,
+  detectJournalGaps,
+  journalNudgeDay
+} from './journal-habits'
+import type { JournalNudgeSettings } from './journal-habits'
+
+describe('computeJournalStreak', () => {
+  it('counts the current run through yesterday until today is logged', () => {
+    const days = ['2025-03-01', '2025-03-02', '2025-03-03', '2025-03-04', '2025-03-07', '2025-03-08', '2025-03-08', '2025-03-09']
+    const open = computeJournalStreak(days, '2025-03-10')
+    expect(open).toMatchObject({ current: 3, longest: 4, loggedToday: false, lastLoggedDay: '2025-03-09' })
+    expect(open.recentDays).toHaveLength(14)
+    expect(open.recentDays.at(-1)).toEqual({ day: '2025-03-10', logged: false })
+
+    expect(computeJournalStreak([...days, '2025-03-10'], '2025-03-10').current).toBe(4)
+    expect(computeJournalStreak(days, '2025-03-11').current).toBe(0)
+  })
+})
+
+describe('detectJournalGaps', () => {
+  it('flags tracked types unlogged for three days or more', () => {
+    expect(detectJournalGaps({ parenting_time: '2025-03-09' }, '2025-03-10')).toEqual([])
+
+    const [gap] = detectJournalGaps({ parenting_time: '2025-03-04' }, '2025-03-10')
+    expect(gap).toEqual({ type: 'parenting_time', lastDay: '2025-03-04', daysSince: 6 })
+    expect(describeJournalGap(gap!)).toBe('You haven\'t logged a parenting-time day since Tuesday.')
+
+    expect(describeJournalGap({ type: 'parenting_time', lastDay: '2025-02-20', daysSince: 18 })).toBe('You haven\'t logged a parenting-time day since Feb 20.')
+    expect(detectJournalGaps({}, '2025-03-10')[0]).toMatchObject({ lastDay: null, daysSince: null })
+  })
+})
+
+describe('journalNudgeDay', () => {
+  const settings: JournalNudgeSettings = {
+    enabled: true,
+    time: '20:00',
+    days: [1, 2, 3, 4, 5],
+    quietHours: null
+  }
+
+  it('opens a window at the chosen time on chosen days', () => {
+    // 2025-03-10 is a Monday.
+    expect(journalNudgeDay(settings, '2025-03-10', '20:00')).toBe('2025-03-10')
+    expect(journalNudgeDay(settings, '2025-03-10', '20:14')).toBe('2025-03-10')
+    expect(journalNudgeDay(settings, '2025-03-10', '20:15')).toBeNull()
+    expect(journalNudgeDay(settings, '2025-03-10', '19:45')).toBeNull()
+    expect(journalNudgeDay(settings, '2025-03-09', '20:00')).toBeNull()
+    expect(journalNudgeDay({ ...settings, enabled: false }, '2025-03-10', '20:00')).toBeNull()
+  })
+
+  it('defers a nudge inside quiet hours to when they end, across midnight', () => {
+    const quiet = { ...settings, time: '22:30', quietHours: { start: '22:00', end: '07:00' } }
+    expect(journalNudgeDay(quiet, '2025-03-10', '22:30')).toBeNull()
+    expect(journalNudgeDay(quiet, '2025-03-11', '07:00')).toBe('2025-03-11')
+  })
+
+  it('dates a window that runs past midnight by the day it started on', () => {
+    const late = { ...settings, time: '23:55' }
+    expect(journalNudgeDay(late, '2025-03-10', '23:55')).toBe('2025-03-10')
+    expect(journalNudgeDay(late, '2025-03-11', '00:05')).toBe('2025-03-10')
+    expect(journalNudgeDay(late, '2025-03-11', '00:10')).toBeNull()
+    // Friday's window runs into Saturday, which is not a nudge day itself.
+    expect(journalNudgeDay(late, '2025-03-15', '00:05')).toBe('2025-03-14')
+    expect(journalNudgeDay(late, '2025-03-16', '00:05')).toBeNull()
+  })
+})
@@ -0,0 +1,232 @@
+/**
+ * Journaling habits: streaks, gaps and the daily nudge.
+ *
+ * All days are local calendar days (YYYY-MM-DD) in the user's timezone and
+ * all times are local wall-clock HH:MM, so callers convert with
+ * server/utils/timezone.ts before calling in here.
+ */
+
+import type { ExtractionEventType } from '~/types'
+import { escapeHtml } from './reminders'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Days shown in the streak strip on /home, today included. */
+export const STREAK_STRIP_DAYS = 14
+
+/** A tracked event type is a gap once this many days pass without one. */
+export const GAP_THRESHOLD_DAYS = 3
+
+/** Event types whose absence is worth pointing out. */
+export const GAP_TRACKED_TYPES: ExtractionEventType[] = ['parenting_time']
+
+/** How often the nudge cron runs; a nudge is due in the window starting at its time. */
+export const NUDGE_WINDOW_MINUTES = 15
+const MINUTES_PER_DAY = 24 * 60
+
+export interface JournalStreak {
+  /** Consecutive logged days ending today, or yesterday while today is still open. */
+  current: number
+  longest: number
+  loggedToday: boolean
+  lastLoggedDay: string | null
+  /** Oldest first, ending today. */
+  recentDays: Array<{ day: string, logged: boolean }>
+}
+
+export interface JournalGap {
+  type: ExtractionEventType
+  /** Last day with an event of this type; null when there has never been one. */
+  lastDay: string | null
+  daysSince: number | null
+}
+
+export interface QuietHours {
+  start: string
+  end: string
+}
+
+export interface JournalNudgeSettings {
+  enabled: boolean
+  /** HH:MM local. */
+  time: string
+  /** 0 = Sunday … 6 = Saturday. */
+  days: number[]
+  quietHours: QuietHours | null
+}
+
+function addDays(day: string, days: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+function dayDiff(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS)
+}
+
+function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number)
+  return h! * 60 + m!
+}
+
+export function weekdayOf(day: string): number {
+  return new Date(`${day}T00:00:00Z`).getUTCDay()
+}
+
+/** Current and longest streak of days with at least one journal entry. */
+export function computeJournalStreak(loggedDays: string[], today: string): JournalStreak {
+  const days = [...new Set(loggedDays)].filter(d => d <= today).sort()
+  const logged = new Set(days)
+
+  let longest = 0
+  let run = 0
+  let previous: string | null = null
+  for (const day of days) {
+    run = previous && dayDiff(previous, day) === 1 ? run + 1 : 1
+    longest = Math.max(longest, run)
+    previous = day
+  }
+
+  const loggedToday = logged.has(today)
+  let current = 0
+  for (let day = loggedToday ? today : addDays(today, -1); logged.has(day); day = addDays(day, -1)) {
+    current++
+  }
+
+  const recentDays = Array.from({ length: STREAK_STRIP_DAYS }, (_, i) => {
+    const day = addDays(today, i - STREAK_STRIP_DAYS + 1)
+    return { day, logged: logged.has(day) }
+  })
+
+  return {
+    current,
+    longest,
+    loggedToday,
+    lastLoggedDay: days.at(-1) ?? null,
+    recentDays
+  }
+}
+
+/** Tracked event types with nothing logged for GAP_THRESHOLD_DAYS or more. */
+export function detectJournalGaps(
+  lastDayByType: Partial<Record<ExtractionEventType, string>>,
+  today: string,
+  tracked: ExtractionEventType[] = GAP_TRACKED_TYPES
+): JournalGap[] {
+  const gaps: JournalGap[] = []
+  for (const type of tracked) {
+    const lastDay = lastDayByType[type] ?? null
+    const daysSince = lastDay ? dayDiff(lastDay, today) : null
+    if (daysSince === null || daysSince >= GAP_THRESHOLD_DAYS) {
+      gaps.push({ type, lastDay, daysSince })
+    }
+  }
+  return gaps
+}
+
+const GAP_NOUNS: Record<ExtractionEventType, string> = {
+  parenting_time: 'a parenting-time day',
+  caregiving: 'caregiving',
+  household: 'household work',
+  coparent_conflict: 'a co-parent conflict',
+  gatekeeping: 'gatekeeping',
+  communication: 'a communication',
+  medical: 'a medical event',
+  school: 'a school event',
+  legal: 'a legal event'
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+/** "You haven't logged a parenting-time day since Tuesday." */
+export function describeJournalGap(gap: JournalGap): string {
+  const noun = GAP_NOUNS[gap.type]
+  if (!gap.lastDay || gap.daysSince === null) return `You haven't logged ${noun} yet.`
+  const since = gap.daysSince < 7
+    ? WEEKDAYS[weekdayOf(gap.lastDay)]
+    : `${MONTHS[Number(gap.lastDay.slice(5, 7)) - 1]} ${Number(gap.lastDay.slice(8, 10))}`
+  return `You haven't logged ${noun} since ${since}.`
+}
+
+/** Whether a local HH:MM falls inside quiet hours; the window may wrap midnight. */
+export function isWithinQuietHours(time: string, quiet: QuietHours | null): boolean {
+  if (!quiet || quiet.start === quiet.end) return false
+  const t = toMinutes(time)
+  const start = toMinutes(quiet.start)
+  const end = toMinutes(quiet.end)
+  return start < end ? t >= start && t < end : t >= start || t < end
+}
+
+/** The preferred local time, or the end of quiet hours when it falls inside them. */
+export function deliveryTime(preferred: string, quiet: QuietHours | null): string {
+  return isWithinQuietHours(preferred, quiet) ? quiet!.end : preferred
+}
+
+/**
+ * The local day whose nudge window contains the cron run at local `time` on
+ * `today`, or null when no window does: the user opted in and the run falls
+ * in the window starting at their (quiet-hours-adjusted) time on one of
+ * their days. A window that starts just before midnight runs on into the
+ * next day and still belongs to the day it started on.
+ */
+export function journalNudgeDay(
+  settings: JournalNudgeSettings,
+  today: string,
+  time: string
+): string | null {
+  if (!settings.enabled) return null
+  const raw = toMinutes(time) - toMinutes(deliveryTime(settings.time, settings.quietHours))
+  const offset = (raw + MINUTES_PER_DAY) % MINUTES_PER_DAY
+  if (offset >= NUDGE_WINDOW_MINUTES) return null
+  const day = raw < 0 ? addDays(today, -1) : today
+  return settings.days.includes(weekdayOf(day)) ? day : null
+}
+
+export interface JournalNudgeProfile {
+  journal_nudge_enabled: boolean
+  journal_nudge_time: string
+  journal_nudge_days: number[]
+  quiet_hours_start: string | null
+  quiet_hours_end: string | null
+}
+
+/** Postgres `time` columns come back as HH:MM:SS. */
+export function nudgeSettingsFromProfile(profile: JournalNudgeProfile): JournalNudgeSettings {
+  return {
+    enabled: profile.journal_nudge_enabled,
+    time: profile.journal_nudge_time.slice(0, 5),
+    days: profile.journal_nudge_days,
+    quietHours: profile.quiet_hours_start && profile.quiet_hours_end
+      ? { start: profile.quiet_hours_start.slice(0, 5), end: profile.quiet_hours_end.slice(0, 5) }
+      : null
+  }
+}
+
+/** Subject and bodies for the journaling nudge. */
+export function renderJournalNudgeMessage(
+  input: { name: string | null, streak: JournalStreak, gaps: JournalGap[] },
+  options: { baseUrl: string }
+): { subject: string, text: string, html: string } {
+  const { streak, gaps } = input
+  const subject = streak.current > 0
+    ? `Keep your ${streak.current}-day journaling streak going`
+    : 'A minute to journal today?'
+  const greeting = input.name ? `Hi ${input.name},` : 'Hi,'
+  const lead = streak.current > 0
+    ? `You've journaled ${streak.current} ${streak.current === 1 ? 'day' : 'days'} in a row. A quick note about today keeps it going.`
+    : 'Nothing logged yet today. A few sentences about how the day went is enough.'
+  const gapLines = gaps.map(describeJournalGap)
+  const url = `${options.baseUrl}/journal/new`
+  const footer = 'You can change when these arrive, or turn them off, in Settings.'
+
+  const text = [greeting, '', lead, ...gapLines, '', `Journal now: ${url}`, '', footer].join('\n')
+  const html = [
+    `<p>${escapeHtml(greeting)}</p>`,
+    `<p>${lead}</p>`,
+    ...gapLines.map(line => `<p>${line}</p>`),
+    `<p><a href="${url}">Journal now</a></p>`,
+    `<p><small>${footer} <a href="${options.baseUrl}/settings">Settings</a></small></p>`
+  ].join('\n')
+
+  return { subject, text, html }
+}
@@ -0,0 +1,69 @@
+import { strToU8, zipSync } from 'fflate'
+import { describe, expect, it } from 'vitest'
+import { MAX_DOCX_XML_BYTES, extractDocxText, parseJournalImportEntries, splitJournalText } from './journal-import'
+
+function zipOf(name: string, content: string): Buffer {
+  return Buffer.from(zipSync({ [name]: strToU8(content) }))
+}
+
+describe('splitJournalText', () => {
+  it('splits on date headings in the common notes formats', () => {
+    const text = [
+      'My custody notes',
+      '',
+      '# Monday, March 3, 2025',
+      'Pickup was 40 minutes late.',
+      '',
+      '**3/5/25** - School call',
+      'Teacher said homework was missing.',
+      '',
+      'March 8th',
+      'He said March 9 would work for the swap.',
+      '2025-03-09:',
+      '',
+      '14 March 2025 — dentist',
+      'Cleaning went fine.'
+    ].join('\n')
+
+    const split = splitJournalText(text, '2025-04-01')
+    expect(split.skippedText).toBe('My custody notes')
+    expect(split.entries).toEqual([
+      { referenceDate: '2025-03-03', title: null, text: 'Pickup was 40 minutes late.' },
+      { referenceDate: '2025-03-05', title: 'School call', text: 'School call\nTeacher said homework was missing.' },
+      // Yearless headings take the previous heading's year; dates in prose are not headings.
+      { referenceDate: '2025-03-08', title: null, text: 'He said March 9 would work for the swap.' },
+      // 2025-03-09 has no body and is dropped.
+      { referenceDate: '2025-03-14', title: 'dentist', text: 'dentist\nCleaning went fine.' }
+    ])
+  })
+
+  it('puts a yearless first heading in the past and ignores future and impossible dates', () => {
+    const split = splitJournalText('Dec 30\nBefore the holidays.\nFebruary 30, 2025\nStill Dec 30.\n2031-01-01\nCourt date.', '2025-01-15')
+    expect(split.entries).toEqual([
+      { referenceDate: '2024-12-30', title: null, text: 'Before the holidays.\nFebruary 30, 2025\nStill Dec 30.\n2031-01-01\nCourt date.' }
+    ])
+  })
+})
+
+describe('extractDocxText', () => {
+  it('reads paragraphs out of word/document.xml', () => {
+    const xml = '<w:document><w:body><w:p><w:r><w:t>March 3, 2025</w:t></w:r></w:p><w:p><w:r><w:t>Late &amp; upset</w:t></w:r><w:r><w:br/><w:t>Second line</w:t></w:r></w:p></w:body></w:document>'
+    expect(extractDocxText(zipOf('word/document.xml', xml))).toBe('March 3, 2025\nLate & upset\nSecond line\n')
+    expect(() => extractDocxText(Buffer.from('not a zip'))).toThrow(/Word document/)
+    expect(() => extractDocxText(zipOf('notes.txt', 'March 3, 2025'))).toThrow(/Word document/)
+  })
+
+  it('refuses a document.xml that unpacks past the size cap', () => {
+    const bomb = zipOf('word/document.xml', 'a'.repeat(MAX_DOCX_XML_BYTES + 1))
+    expect(() => extractDocxText(bomb)).toThrow(/too large/)
+  })
+})
+
+describe('parseJournalImportEntries', () => {
+  it('requires a valid date and text per entry', () => {
+    expect(parseJournalImportEntries({ entries: [{ referenceDate: '2025-03-03', eventText: ' Late ' }] }))
+      .toEqual([{ referenceDate: '2025-03-03', eventText: 'Late' }])
+    expect(() => parseJournalImportEntries({ entries: [] })).toThrow(/non-empty/)
+    expect(() => parseJournalImportEntries({ entries: [{ referenceDate: '2025-02-30', eventText: 'x' }] })).toThrow(/Entry 1/)
+  })
+})
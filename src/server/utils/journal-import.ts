@@ -0,0 +1,233 @@
+/**
+ * Bulk journal import: turn a notes export or diary (.txt, .md, .docx) into
+ * dated journal entries by splitting on date headings.
+ *
+ * A date heading is a line that is only a date ("March 3, 2025",
+ * "## Mon 3/3/25", "2025-03-03:") or a date followed by a separator and a
+ * title ("3 March — late pickup"). Dates in running prose are left alone.
+ */
+
+import { unzipSync } from 'fflate'
+
+export const MAX_IMPORT_BYTES = 5 * 1024 * 1024
+export const MAX_IMPORT_ENTRIES = 200
+export const MAX_IMPORT_ENTRY_CHARS = 20000
+/** Cap on the unzipped word/document.xml, so a zip bomb can't exhaust memory. */
+export const MAX_DOCX_XML_BYTES = 16 * 1024 * 1024
+
+export const IMPORT_EXTENSIONS = ['.txt', '.md', '.docx']
+
+export interface ImportedJournalEntry {
+  /** YYYY-MM-DD */
+  referenceDate: string
+  /** Heading text after the date, if any. */
+  title: string | null
+  text: string
+}
+
+export interface JournalImportSplit {
+  entries: ImportedJournalEntry[]
+  /** Text before the first date heading; not imported. */
+  skippedText: string | null
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 1, january: 1,
+  feb: 2, february: 2,
+  mar: 3, march: 3,
+  apr: 4, april: 4,
+  may: 5,
+  jun: 6, june: 6,
+  jul: 7, july: 7,
+  aug: 8, august: 8,
+  sep: 9, sept: 9, september: 9,
+  oct: 10, october: 10,
+  nov: 11, november: 11,
+  dec: 12, december: 12
+}
+
+const MONTH = `(${Object.keys(MONTHS).join('|')})\\.?`
+const WEEKDAY = '(?:(?:mon|tue|tues|wed|thu|thur|thurs|fri|sat|sun)(?:day|nesday|rsday|urday)?\\.?,?\\s+)?'
+const ORDINAL = '(?:st|nd|rd|th)?'
+// The date, then either the end of the line or a separator and a title.
+const TAIL = '(?:\\s*$|\\s*[:\\-–—]+\\s*(.*)$)'
+
+const ISO_HEADING = new RegExp(`^${WEEKDAY}(\\d{4})-(\\d{1,2})-(\\d{1,2})${TAIL}`, 'i')
+const NUMERIC_HEADING = new RegExp(`^${WEEKDAY}(\\d{1,2})[/.](\\d{1,2})[/.](\\d{4}|\\d{2})${TAIL}`, 'i')
+const MONTH_FIRST_HEADING = new RegExp(`^${WEEKDAY}${MONTH}\\s+(\\d{1,2})${ORDINAL}(?:,?\\s+(\\d{4}))?${TAIL}`, 'i')
+const DAY_FIRST_HEADING = new RegExp(`^${WEEKDAY}(\\d{1,2})${ORDINAL}\\s+(?:of\\s+)?${MONTH}(?:,?\\s+(\\d{4}))?${TAIL}`, 'i')
+
+const MAX_HEADING_LENGTH = 120
+
+interface ParsedHeading {
+  year: number | null
+  month: number
+  day: number
+  title: string | null
+}
+
+function toDay(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+  return date.toISOString().slice(0, 10)
+}
+
+function fullYear(year: string): number {
+  return year.length === 2 ? 2000 + Number(year) : Number(year)
+}
+
+/** Markdown heading marks, bullets and emphasis around a heading line. */
+function stripHeadingMarks(line: string): string {
+  return line
+    .trim()
+    .replace(/^#{1,6}\s+/, '')
+    .replace(/^[-*•]\s+/, '')
+    .replace(/^(\*\*|__)(.+?)\1/, '$2')
+    .trim()
+}
+
+function parseHeading(line: string): ParsedHeading | null {
+  const stripped = stripHeadingMarks(line)
+  if (!stripped || stripped.length > MAX_HEADING_LENGTH) return null
+  const title = (value: string | undefined) => value?.trim() || null
+
+  let m = ISO_HEADING.exec(stripped)
+  if (m) return { year: Number(m[1]), month: Number(m[2]), day: Number(m[3]), title: title(m[4]) }
+
+  m = NUMERIC_HEADING.exec(stripped)
+  if (m) {
+    // US month/day unless the first number can only be a day.
+    const [a, b] = [Number(m[1]), Number(m[2])]
+    const [month, day] = a > 12 ? [b, a] : [a, b]
+    return { year: fullYear(m[3]!), month, day, title: title(m[4]) }
+  }
+
+  m = MONTH_FIRST_HEADING.exec(stripped)
+  if (m) {
+    return { year: m[3] ? Number(m[3]) : null, month: MONTHS[m[1]!.toLowerCase()]!, day: Number(m[2]), title: title(m[4]) }
+  }
+
+  m = DAY_FIRST_HEADING.exec(stripped)
+  if (m) {
+    return { year: m[3] ? Number(m[3]) : null, month: MONTHS[m[2]!.toLowerCase()]!, day: Number(m[1]), title: title(m[4]) }
+  }
+
+  return null
+}
+
+/**
+ * Split text into entries at date headings. Headings without a year take the
+ * previous heading's year, or the current one, stepping back a year when that
+ * would land after `today`. Future-dated headings are treated as text.
+ */
+export function splitJournalText(text: string, today: string): JournalImportSplit {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n')
+  const entries: Array<ImportedJournalEntry & { lines: string[] }> = []
+  const preamble: string[] = []
+  let lastYear: number | null = null
+
+  for (const line of lines) {
+    const heading = parseHeading(line)
+    let day: string | null = null
+    if (heading) {
+      let year: number = heading.year ?? lastYear ?? Number(today.slice(0, 4))
+      day = toDay(year, heading.month, heading.day)
+      if (day && heading.year === null && lastYear === null && day > today) {
+        year -= 1
+        day = toDay(year, heading.month, heading.day)
+      }
+      if (day && day <= today) lastYear = year
+      else day = null
+    }
+
+    if (day) {
+      entries.push({ referenceDate: day, title: heading!.title, text: '', lines: heading!.title ? [heading!.title] : [] })
+    } else if (entries.length) {
+      entries.at(-1)!.lines.push(line)
+    } else {
+      preamble.push(line)
+    }
+  }
+
+  const skippedText = preamble.join('\n').trim() || null
+  return {
+    entries: entries
+      .map(({ lines: body, ...entry }) => ({ ...entry, text: body.join('\n').replace(/\n{3,}/g, '\n\n').trim() }))
+      .filter(entry => entry.text.length > 0),
+    skippedText
+  }
+}
+
+/** Validate the confirmed entries posted back after the preview. */
+export function parseJournalImportEntries(body: unknown): Array<{ referenceDate: string, eventText: string }> {
+  const raw = (body as { entries?: unknown } | null)?.entries
+  if (!Array.isArray(raw) || raw.length === 0) throw new Error('entries must be a non-empty array')
+  if (raw.length > MAX_IMPORT_ENTRIES) throw new Error(`At most ${MAX_IMPORT_ENTRIES} entries can be imported at once`)
+
+  return raw.map((item, i) => {
+    const { referenceDate, eventText } = (item ?? {}) as { referenceDate?: unknown, eventText?: unknown }
+    if (typeof referenceDate !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(referenceDate)
+      || !toDay(Number(referenceDate.slice(0, 4)), Number(referenceDate.slice(5, 7)), Number(referenceDate.slice(8, 10)))) {
+      throw new Error(`Entry ${i + 1}: referenceDate must be YYYY-MM-DD`)
+    }
+    if (typeof eventText !== 'string' || !eventText.trim()) {
+      throw new Error(`Entry ${i + 1}: text is required`)
+    }
+    if (eventText.length > MAX_IMPORT_ENTRY_CHARS) {
+      throw new Error(`Entry ${i + 1}: text is longer than ${MAX_IMPORT_ENTRY_CHARS} characters`)
+    }
+    return { referenceDate, eventText: eventText.trim() }
+  })
+}
+
+const NOT_A_DOCX = 'Could not read the Word document. Save it as .docx and try again.'
+const ZIP_ENTRY_TOO_LARGE = 'The Word document is too large to import. Split it into smaller files and try again.'
+
+/**
+ * One file out of a zip archive, or null when missing. Throws a readable error
+ * when the archive can't be parsed or the file unpacks to more than `maxBytes`.
+ */
+function readZipEntry(zip: Buffer, name: string, maxBytes: number): Uint8Array | null {
+  let tooLarge = false
+  let files: Record<string, Uint8Array>
+  try {
+    // fflate unpacks into a buffer of the declared size and drops anything
+    // past it, so rejecting large declared sizes here is what bounds memory.
+    files = unzipSync(zip, {
+      filter: (file) => {
+        if (file.name !== name) return false
+        if (file.originalSize > maxBytes) tooLarge = true
+        return !tooLarge
+      }
+    })
+  } catch {
+    throw new Error(NOT_A_DOCX)
+  }
+  if (tooLarge) throw new Error(ZIP_ENTRY_TOO_LARGE)
+  return files[name] ?? null
+}
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(Number.parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, '\'')
+    .replace(/&amp;/g, '&')
+}
+
+/** Plain text of a .docx body, one line per paragraph. Throws when the file is not a .docx. */
+export function extractDocxText(docx: Buffer): string {
+  const xml = readZipEntry(docx, 'word/document.xml', MAX_DOCX_XML_BYTES)
+  if (!xml) throw new Error(NOT_A_DOCX)
+
+  return decodeXmlEntities(
+    Buffer.from(xml).toString('utf8')
+      .replace(/<w:tab\/>/g, '\t')
+      .replace(/<w:(br|cr)\/>/g, '\n')
+      .replace(/<\/w:p>/g, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+}
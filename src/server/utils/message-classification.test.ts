@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+import { matchClassifications } from './message-classification'
+
+describe('matchClassifications', () => {
+  it('maps batch refs back to message ids', () => {
+    expect(matchClassifications(['a', 'b'], [
+      { ref: 'm2', tone: 'hostile', flags: ['refusal', 'child_related'] },
+      { ref: 'm1', tone: 'neutral', flags: [] }
+    ])).toEqual([
+      { messageId: 'b', tone: 'hostile', flags: ['refusal', 'child_related'] },
+      { messageId: 'a', tone: 'neutral', flags: [] }
+    ])
+  })
+
+  it('drops unknown refs, repeats, tones and flags', () => {
+    expect(matchClassifications(['a', 'b'], [
+      { ref: 'm3', tone: 'tense', flags: [] },
+      { ref: 'b', tone: 'tense', flags: [] },
+      { ref: 'm1', tone: 'tense', flags: ['refusal', 'refusal', 'gatekeeping'] },
+      { ref: 'm1', tone: 'hostile', flags: [] },
+      { ref: 'm2', tone: 'mixed', flags: [] }
+    ])).toEqual([
+      { messageId: 'a', tone: 'tense', flags: ['refusal'] }
+    ])
+  })
+})
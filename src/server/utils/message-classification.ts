@@ -0,0 +1,92 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '~/types/database.types'
+
+type Client = SupabaseClient<Database>
+
+/**
+ * Bumped when the classifier prompt or vocabulary changes enough that older
+ * rows should be redone. The next run for a thread re-classifies messages
+ * whose classification_version is lower.
+ */
+export const MESSAGE_CLASSIFICATION_VERSION = 1
+
+/** Per-message tone. Same scale as thread tone, minus `mixed`. */
+export const MESSAGE_TONES = ['cooperative', 'neutral', 'tense', 'hostile'] as const
+
+export type MessageTone = typeof MESSAGE_TONES[number]
+
+/**
+ * Descriptive tags for a single message: what it does, not a verdict on the
+ * sender. Stored in message_classifications.flags.
+ */
+export const MESSAGE_FLAGS = [
+  'schedule_change_request',
+  'refusal',
+  'information_request',
+  'child_related',
+  'agreement',
+  'financial',
+  'medical',
+  'school',
+  'safety_concern'
+] as const
+
+export type MessageFlag = typeof MESSAGE_FLAGS[number]
+
+/** Messages per classifier call. */
+export const CLASSIFY_BATCH_MAX_MESSAGES = 20
+
+/** Body characters per classifier call (~3k tokens). */
+export const CLASSIFY_BATCH_MAX_CHARS = 12000
+
+export interface ClassifierOutput {
+  ref: string
+  tone: string
+  flags: string[]
+}
+
+export interface MessageClassification {
+  messageId: string
+  tone: MessageTone
+  flags: MessageFlag[]
+}
+
+/**
+ * Map classifier output back to message ids. The model sees short refs
+ * (`m1`, `m2`, …) in batch order rather than uuids; unknown or repeated refs,
+ * unknown tones and unknown flags are dropped. Messages the model skipped are
+ * left out, so the next run picks them up again.
+ */
+export function matchClassifications(messageIds: string[], output: ClassifierOutput[]): MessageClassification[] {
+  const out: MessageClassification[] = []
+  const seen = new Set<string>()
+  for (const item of output) {
+    const match = /^m(\d+)$/.exec(item.ref.trim())
+    const messageId = match ? messageIds[Number(match[1]) - 1] : undefined
+    if (!messageId || seen.has(messageId)) continue
+    if (!(MESSAGE_TONES as readonly string[]).includes(item.tone)) continue
+    seen.add(messageId)
+    const flags = [...new Set(item.flags)].filter((f): f is MessageFlag => (MESSAGE_FLAGS as readonly string[]).includes(f))
+    out.push({ messageId, tone: item.tone as MessageTone, flags })
+  }
+  return out
+}
+
+export interface PendingThread {
+  threadId: string
+  pendingCount: number
+}
+
+/**
+ * Threads in a case with messages that have no classification at the
+ * current MESSAGE_CLASSIFICATION_VERSION. Used by the backfill; imports get
+ * classified through the thread-summary fan-out.
+ */
+export async function classifyThreadsMissing(client: Client, caseId: string): Promise<PendingThread[]> {
+  const { data, error } = await client.rpc('case_threads_needing_classification', {
+    p_case_id: caseId,
+    p_version: MESSAGE_CLASSIFICATION_VERSION
+  })
+  if (error) throw new Error(`classifyThreadsMissing failed: ${error.message}`)
+  return (data ?? []).map(row => ({ threadId: row.thread_id, pendingCount: Number(row.pending_count) }))
+}
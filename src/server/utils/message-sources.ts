@@ -0,0 +1,81 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '~/types/database.types'
+
+type Client = SupabaseClient<Database>
+
+/** `messages.source` values. OFW rows dedupe on sequence_number; the rest on dedupe_key. */
+export type MessageSource = 'ofw' | 'sms' | 'whatsapp' | 'email'
+
+export type ImportedMessageSource = Exclude<MessageSource, 'ofw'>
+
+const PAGE_SIZE = 1000
+
+/** Thread-id prefixes minted by the non-OFW importers. */
+const IMPORTED_THREAD_PREFIXES = ['sms-', 'whatsapp-', 'email-']
+
+/** True for threads built by the OFW parser (subject slugs), false for chat / email threads. */
+export function isOfwThreadId(threadId: string): boolean {
+  return !IMPORTED_THREAD_PREFIXES.some(p => threadId.startsWith(p))
+}
+
+/**
+ * Render an instant as local wall-clock ISO (`YYYY-MM-DDTHH:MM:SS`) in `timeZone`,
+ * matching how OFW times are stored (as displayed, no offset).
+ */
+export function toWallClock(instant: Date | number, timeZone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(typeof instant === 'number' ? new Date(instant) : instant)
+  const get = (type: string) => parts.find(p => p.type === type)?.value ?? '00'
+  return `${get('year')}-${get('month')}-${get('day')}T${get('hour')}:${get('minute')}:${get('second')}`
+}
+
+/** Every dedupe_key already stored for this case + source, paged past the 1000-row cap. */
+export async function loadExistingDedupeKeys(
+  client: Client,
+  caseId: string,
+  source: ImportedMessageSource
+): Promise<Set<string>> {
+  const keys = new Set<string>()
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await client
+      .from('messages')
+      .select('dedupe_key')
+      .eq('case_id', caseId)
+      .eq('source', source)
+      .not('dedupe_key', 'is', null)
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1)
+    if (error) throw new Error(`Failed to load existing messages: ${error.message}`)
+    for (const row of data ?? []) {
+      if (row.dedupe_key) keys.add(row.dedupe_key)
+    }
+    if ((data?.length ?? 0) < PAGE_SIZE) break
+  }
+  return keys
+}
+
+/** Highest sequence_number for the source; new rows continue from here. */
+export async function maxSequenceNumber(
+  client: Client,
+  caseId: string,
+  source: ImportedMessageSource
+): Promise<number> {
+  const { data, error } = await client
+    .from('messages')
+    .select('sequence_number')
+    .eq('case_id', caseId)
+    .eq('source', source)
+    .order('sequence_number', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (error) throw new Error(`Failed to read sequence numbers: ${error.message}`)
+  return data?.sequence_number ?? 0
+}
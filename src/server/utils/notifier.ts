@@ -0,0 +1,104 @@
+/**
+ * Pluggable delivery for user notifications (reminders today).
+ *
+ * NOTIFIER picks the implementation: `email` sends through the Resend HTTP
+ * API, `file` appends JSON lines to NOTIFIER_FILE for local development, and
+ * `console` logs. Without NOTIFIER, email is used when RESEND_API_KEY is set
+ * and the console otherwise, so development never sends real mail. New
+ * channels (push, SMS) implement Notifier and are added to createNotifier.
+ */
+
+import { appendFile, mkdir } from 'node:fs/promises'
+import { dirname } from 'node:path'
+
+export interface NotificationMessage {
+  userId: string
+  email: string | null
+  subject: string
+  text: string
+  html: string
+}
+
+export interface DeliveryResult {
+  delivered: boolean
+  /** Why nothing was sent, e.g. the user has no email address. */
+  skipped?: string
+}
+
+export interface Notifier {
+  /** Recorded on reminder_deliveries.channel. */
+  channel: string
+  send(notification: NotificationMessage): Promise<DeliveryResult>
+}
+
+const RESEND_ENDPOINT = 'https://api.resend.com/emails'
+const DEFAULT_FROM = 'Daylight <reminders@daylight.legal>'
+const DEFAULT_FILE = '.data/notifications.log'
+
+export function createEmailNotifier(apiKey: string, from = DEFAULT_FROM): Notifier {
+  return {
+    channel: 'email',
+    async send(notification) {
+      if (!notification.email) return { delivered: false, skipped: 'no email address' }
+
+      const res = await fetch(RESEND_ENDPOINT, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          from,
+          to: [notification.email],
+          subject: notification.subject,
+          text: notification.text,
+          html: notification.html
+        })
+      })
+      if (!res.ok) {
+        throw new Error(`Email delivery failed (${res.status}): ${await res.text()}`)
+      }
+      return { delivered: true }
+    }
+  }
+}
+
+export function createFileNotifier(path = DEFAULT_FILE): Notifier {
+  return {
+    channel: 'file',
+    async send(notification) {
+      await mkdir(dirname(path), { recursive: true })
+      await appendFile(path, JSON.stringify({ at: new Date().toISOString(), ...notification }) + '\n')
+      return { delivered: true }
+    }
+  }
+}
+
+export function createConsoleNotifier(): Notifier {
+  return {
+    channel: 'console',
+    async send(notification) {
+      console.info(`[notifier] to ${notification.email ?? notification.userId}: ${notification.subject}\n${notification.text}`)
+      return { delivered: true }
+    }
+  }
+}
+
+/**
+ * The notifier configured by environment. Reads process.env directly because
+ * Inngest function context lacks useRuntimeConfig().
+ */
+export function createNotifier(env: NodeJS.ProcessEnv = process.env): Notifier {
+  const kind = env.NOTIFIER || (env.RESEND_API_KEY ? 'email' : 'console')
+  switch (kind) {
+    case 'email':
+      if (!env.RESEND_API_KEY) throw new Error('NOTIFIER=email requires RESEND_API_KEY')
+      return createEmailNotifier(env.RESEND_API_KEY, env.REMINDER_EMAIL_FROM || DEFAULT_FROM)
+    case 'file':
+      return createFileNotifier(env.NOTIFIER_FILE || DEFAULT_FILE)
+    case 'console':
+      return createConsoleNotifier()
+    default:
+      throw new Error(`Unknown NOTIFIER "${kind}" (expected email, file or console)`)
+  }
+}
@@ -0,0 +1,103 @@
+import { inflateSync } from 'node:zlib'
+import { describe, expect, it } from 'vitest'
+import { encodePng, planOFWAttachments, type OFWReportPage } from './ofw-attachments'
+import type { OFWMessage } from './ofw-parser'
+
+function message(id: number, sent: string, from: string, attachments?: string[]): OFWMessage {
+  return {
+    id,
+    messageNumber: id,
+    sent,
+    from,
+    to: 'Sam Parent',
+    firstViewed: null,
+    subject: 'Pickup',
+    body: 'See attached.',
+    attachments,
+    threadId: 'pickup',
+    wordCount: 2
+  }
+}
+
+const logo = { hash: 'logo', width: 120, height: 40 }
+
+describe('planOFWAttachments', () => {
+  it('assigns captioned images and attachment text pages to the listing message', () => {
+    const messages = [
+      message(1, '2024-01-02T21:05:00', 'Alex Parent', ['photo.jpg', 'receipt.pdf']),
+      message(2, '2024-01-03T08:00:00', 'Sam Parent')
+    ]
+    const pages: OFWReportPage[] = [
+      {
+        lines: ['Sent: 01/02/2024 at 9:05 PM', 'From: Alex Parent', 'To: Sam Parent', 'Subject: Pickup', 'See attached.', 'See Attachments: photo.jpg (1.2 MB), receipt.pdf (20 KB)'],
+        images: [logo]
+      },
+      { lines: ['photo.jpg'], images: [logo, { hash: 'photo', width: 800, height: 600 }] },
+      { lines: ['receipt.pdf', 'Soccer registration  $120.00'], images: [logo, { hash: 'icon', width: 12, height: 12 }] },
+      { lines: ['Total due  $120.00'], images: [] },
+      { lines: ['Sent: 01/03/2024 at 8:00 AM', 'From: Sam Parent', 'To: Alex Parent', 'Thanks.'], images: [] }
+    ]
+
+    expect(planOFWAttachments(pages, messages)).toEqual({
+      attachments: [
+        { messageId: 1, filename: 'photo.jpg', source: { kind: 'image', page: 1, image: 1 } },
+        { messageId: 1, filename: 'receipt.pdf', source: { kind: 'text', pages: [2, 3] } }
+      ],
+      missing: []
+    })
+  })
+
+  it('reports listed files the PDF did not include, ignoring body continuation pages', () => {
+    const messages = [message(7, '2024-02-10T12:30:00', 'Alex Parent', ['school-form.docx', 'photo.jpg'])]
+    const pages: OFWReportPage[] = [
+      {
+        lines: ['Sent: 02/10/2024 12:30 PM', 'From: Alex Parent', 'To: Sam Parent', 'Long message', 'See Attachments: school-form.docx, photo.jpg'],
+        images: []
+      },
+      { lines: ['...the rest of the long message.'], images: [] },
+      { lines: [], images: [{ hash: 'uncaptioned', width: 640, height: 480 }] }
+    ]
+
+    expect(planOFWAttachments(pages, messages)).toEqual({
+      attachments: [
+        { messageId: 7, filename: 'school-form.docx', source: { kind: 'image', page: 2, image: 0 } }
+      ],
+      missing: [{ messageId: 7, filename: 'photo.jpg' }]
+    })
+  })
+
+  it('skips branding on reports too short for it to repeat', () => {
+    const messages = [message(3, '2024-03-01T09:00:00', 'Alex Parent', ['photo.jpg'])]
+    const header = ['Sent: 03/01/2024 at 9:00 AM', 'From: Alex Parent', 'To: Sam Parent', 'See Attachments: photo.jpg (1.2 MB)']
+    const headerLogo = { ...logo, box: { top: 0.03, left: 0.05, width: 0.2, height: 0.05 } }
+
+    expect(planOFWAttachments([{ lines: header, images: [headerLogo] }], messages)).toEqual({
+      attachments: [],
+      missing: [{ messageId: 3, filename: 'photo.jpg' }]
+    })
+
+    // Without placement, an image on every page of a two-page report is branding too.
+    const twoPages: OFWReportPage[] = [
+      { lines: header, images: [logo] },
+      { lines: ['Page 2 of 2'], images: [logo] }
+    ]
+    expect(planOFWAttachments(twoPages, messages).missing).toEqual([{ messageId: 3, filename: 'photo.jpg' }])
+  })
+})
+
+describe('encodePng', () => {
+  it('writes a PNG whose header and pixel data round-trip', () => {
+    const rgba = new Uint8Array([255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255, 255, 255, 255, 0])
+    const png = Buffer.from(encodePng(2, 2, rgba))
+
+    expect(png.subarray(0, 8)).toEqual(Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]))
+    expect(png.subarray(12, 16).toString('latin1')).toBe('IHDR')
+    expect(png.readUInt32BE(16)).toBe(2)
+    expect(png.readUInt32BE(20)).toBe(2)
+
+    const idatLength = png.readUInt32BE(33)
+    expect(png.subarray(37, 41).toString('latin1')).toBe('IDAT')
+    const raw = inflateSync(png.subarray(41, 41 + idatLength))
+    expect([...raw]).toEqual([0, ...rgba.subarray(0, 8), 0, ...rgba.subarray(8)])
+  })
+})
@@ -0,0 +1,455 @@
+/**
+ * Attachments embedded in an OFW Message Report PDF.
+ *
+ * When a report is printed with attachments, OFW appends the attached files
+ * after the message that lists them on its "See Attachments:" line: photos
+ * come through as images, documents as pages of text. The parser in
+ * ofw-parser.ts only keeps the filenames; this module finds the files.
+ *
+ * Two passes over the PDF so image bytes are never all held at once:
+ *  1. read each page's text lines plus a hash and size for each image, and
+ *     let planOFWAttachments (pure) assign images and attachment pages to
+ *     the message that listed them
+ *  2. decode each planned file and hand it to the caller, one at a time
+ *
+ * Listed filenames the report did not include come back as `missing`, for
+ * ofw-ingest to record as need_to_get evidence mentions.
+ */
+
+import { createHash } from 'node:crypto'
+import { crc32, deflateSync } from 'node:zlib'
+import type { OFWMessage } from './ofw-parser'
+import { parseOFWDateTime } from './ofw-import'
+
+// ── Types ──
+
+export interface OFWPageImage {
+  hash: string
+  width: number
+  height: number
+  /** Where the image is drawn, as fractions of the page; top is from the top edge. */
+  box?: { top: number, left: number, width: number, height: number }
+}
+
+export interface OFWReportPage {
+  lines: string[]
+  images: OFWPageImage[]
+}
+
+/** `page` / `pages` are 0-based; `image` indexes that page's `images`. */
+export type OFWAttachmentSource
+  = | { kind: 'image', page: number, image: number }
+    | { kind: 'text', pages: number[] }
+
+export interface PlannedOFWAttachment {
+  /** OFWMessage.id (OFW's sequence number), not the messages row id. */
+  messageId: number
+  filename: string
+  source: OFWAttachmentSource
+}
+
+export interface OFWAttachmentPlan {
+  attachments: PlannedOFWAttachment[]
+  missing: { messageId: number, filename: string }[]
+}
+
+export interface OFWAttachmentFile {
+  messageId: number
+  filename: string
+  mimeType: string
+  content: Uint8Array
+}
+
+// ── Planning ──
+
+/** Smaller images are icons and rules, not attachments. */
+const MIN_IMAGE_SIDE = 32
+/** An image on this many pages, or on every page, is the report's branding. */
+const REPEATED_IMAGE_PAGES = 3
+/** An image drawn wholly within this top or bottom share of the page is a header or footer. */
+const PAGE_MARGIN_BAND = 0.12
+
+const SENT_LINE_RE = /^Sent:\s*(.+)$/
+const FROM_LINE_RE = /^From:\s+(.+)$/
+const LISTING_RE = /See Attachments:/
+
+function headerKey(from: string, sent: string): string {
+  return `${from.trim().toLowerCase()}|${sent}`
+}
+
+/** Messages whose Sent/From header starts on this page, top to bottom. */
+function pageHeaders(lines: string[], byHeader: Map<string, OFWMessage>): OFWMessage[] {
+  const found: OFWMessage[] = []
+  for (let i = 0; i < lines.length; i++) {
+    const sentMatch = lines[i]!.trim().match(SENT_LINE_RE)
+    if (!sentMatch) continue
+    const sent = parseOFWDateTime(sentMatch[1]!.replace(/\s+at\s+/i, ' '))
+    let j = i + 1
+    while (j < lines.length && !lines[j]!.trim()) j++
+    const fromMatch = lines[j]?.trim().match(FROM_LINE_RE)
+    if (!sent || !fromMatch) continue
+    const msg = byHeader.get(headerKey(fromMatch[1]!, sent))
+    if (msg && !found.includes(msg)) found.push(msg)
+  }
+  return found
+}
+
+/**
+ * A listed filename printed on the page outside "See Attachments:" lines —
+ * the caption OFW puts on an attachment page. When several messages listed
+ * the same name, the one printed on the nearest page before wins.
+ */
+function namedAttachment(
+  lines: string[],
+  byFilename: Map<string, OFWMessage[]>,
+  previousOwner: OFWMessage | null
+): { message: OFWMessage, filename: string } | null {
+  const text = lines.filter(l => !LISTING_RE.test(l)).join('\n').toLowerCase()
+  let best: { message: OFWMessage, filename: string, at: number } | null = null
+  for (const [key, owners] of byFilename) {
+    const at = text.indexOf(key)
+    if (at < 0 || (best && at >= best.at)) continue
+    const message = owners.find(m => m === previousOwner) ?? owners[0]!
+    const filename = message.attachments!.find(n => n.toLowerCase() === key)!
+    best = { message, filename, at }
+  }
+  return best && { message: best.message, filename: best.filename }
+}
+
+/** Logos and other report branding, whatever the report's length. */
+function isBranding(img: OFWPageImage, pagesWithImage: number, pageCount: number): boolean {
+  if (pagesWithImage >= REPEATED_IMAGE_PAGES) return true
+  if (pageCount > 1 && pagesWithImage === pageCount) return true
+  const box = img.box
+  return !!box && (box.top + box.height <= PAGE_MARGIN_BAND || box.top >= 1 - PAGE_MARGIN_BAND)
+}
+
+/**
+ * Assign the report's images and attachment pages to the messages that listed
+ * them.
+ *
+ * - An image belongs to the message whose filename is captioned on its page,
+ *   else the topmost attachment-listing message on the page, else the last
+ *   one on an earlier page. Tiny images, ones repeated across pages and ones
+ *   drawn in the page's header or footer band are skipped.
+ * - A page with no message header, no image and a listed filename on it is a
+ *   text attachment page; the header-less pages straight after it continue
+ *   the same file. Other header-less pages are message bodies running on.
+ *
+ * Images without a caption take the message's next unclaimed filename, or
+ * `attachment-N.png` once the listing runs out.
+ */
+export function planOFWAttachments(pages: OFWReportPage[], messages: OFWMessage[]): OFWAttachmentPlan {
+  const listing = messages.filter(m => m.attachments?.length)
+  if (!listing.length) return { attachments: [], missing: [] }
+
+  const byHeader = new Map(messages.map(m => [headerKey(m.from, m.sent), m]))
+  const byFilename = new Map<string, OFWMessage[]>()
+  for (const m of listing) {
+    for (const name of m.attachments!) {
+      const key = name.toLowerCase()
+      const owners = byFilename.get(key) ?? []
+      if (!owners.includes(m)) owners.push(m)
+      byFilename.set(key, owners)
+    }
+  }
+
+  const pagesPerImage = new Map<string, number>()
+  for (const page of pages) {
+    for (const hash of new Set(page.images.map(img => img.hash))) {
+      pagesPerImage.set(hash, (pagesPerImage.get(hash) ?? 0) + 1)
+    }
+  }
+
+  const claimed = new Map<number, Set<string>>()
+  const extraCount = new Map<number, number>()
+  const attachments: PlannedOFWAttachment[] = []
+
+  const claim = (message: OFWMessage, filename: string) => {
+    const names = claimed.get(message.id) ?? new Set<string>()
+    names.add(filename)
+    claimed.set(message.id, names)
+  }
+  const nextFilename = (message: OFWMessage): string => {
+    const names = claimed.get(message.id)
+    const unclaimed = message.attachments!.find(n => !names?.has(n))
+    if (unclaimed) return unclaimed
+    const n = (extraCount.get(message.id) ?? 0) + 1
+    extraCount.set(message.id, n)
+    return `attachment-${n}.png`
+  }
+
+  let previousOwner: OFWMessage | null = null
+  pages.forEach((page, index) => {
+    const headers = pageHeaders(page.lines, byHeader)
+    const pageOwner = headers.find(m => m.attachments?.length) ?? null
+    const named = namedAttachment(page.lines, byFilename, previousOwner)
+    const images = page.images
+      .map((img, i) => ({ img, i }))
+      .filter(({ img }) =>
+        img.width >= MIN_IMAGE_SIDE
+        && img.height >= MIN_IMAGE_SIDE
+        && !isBranding(img, pagesPerImage.get(img.hash) ?? 0, pages.length))
+
+    if (images.length) {
+      const owner = named?.message ?? pageOwner ?? previousOwner
+      if (owner) {
+        for (const { i } of images) {
+          const filename = named && !claimed.get(owner.id)?.has(named.filename) ? named.filename : nextFilename(owner)
+          claim(owner, filename)
+          attachments.push({ messageId: owner.id, filename, source: { kind: 'image', page: index, image: i } })
+        }
+      }
+    } else if (!headers.length) {
+      const last = attachments.at(-1)
+      const run = last?.source.kind === 'text' && last.source.pages.at(-1) === index - 1 ? last.source : null
+      if (run && (!named || (named.message.id === last!.messageId && named.filename === last!.filename))) {
+        run.pages.push(index)
+      } else if (named && !claimed.get(named.message.id)?.has(named.filename)) {
+        claim(named.message, named.filename)
+        attachments.push({ messageId: named.message.id, filename: named.filename, source: { kind: 'text', pages: [index] } })
+      }
+    }
+
+    if (headers.length) previousOwner = pageOwner
+  })
+
+  const missing: OFWAttachmentPlan['missing'] = []
+  for (const m of listing) {
+    for (const filename of new Set(m.attachments)) {
+      if (!claimed.get(m.id)?.has(filename)) missing.push({ messageId: m.id, filename })
+    }
+  }
+  return { attachments, missing }
+}
+
+// ── PNG encoding ──
+
+function pngChunk(type: string, data: Uint8Array): Buffer {
+  const out = Buffer.alloc(12 + data.length)
+  out.writeUInt32BE(data.length, 0)
+  out.write(type, 4, 'latin1')
+  out.set(data, 8)
+  out.writeUInt32BE(crc32(out.subarray(4, 8 + data.length)), 8 + data.length)
+  return out
+}
+
+/** 8-bit RGBA pixels → PNG file bytes. */
+export function encodePng(width: number, height: number, rgba: Uint8Array): Uint8Array {
+  const header = Buffer.alloc(13)
+  header.writeUInt32BE(width, 0)
+  header.writeUInt32BE(height, 4)
+  header[8] = 8 // bit depth
+  header[9] = 6 // colour type: RGBA
+
+  const stride = width * 4
+  const raw = Buffer.alloc((stride + 1) * height)
+  for (let y = 0; y < height; y++) {
+    // Each scanline starts with filter type 0 (none).
+    raw.set(rgba.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1)
+  }
+
+  return Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', deflateSync(raw)),
+    pngChunk('IEND', new Uint8Array(0))
+  ])
+}
+
+// ── PDF reading ──
+
+// pdfjs ImageKind values.
+const GRAYSCALE_1BPP = 1
+const RGB_24BPP = 2
+const RGBA_32BPP = 3
+
+interface PdfImage {
+  width: number
+  height: number
+  kind?: number
+  data?: Uint8Array | Uint8ClampedArray
+}
+
+type PdfjsModule = typeof import('pdfjs-dist/legacy/build/pdf.mjs')
+type PdfPage = Awaited<ReturnType<Awaited<ReturnType<PdfjsModule['getDocument']>['promise']>['getPage']>>
+
+function toRgba(img: PdfImage): Uint8Array | null {
+  const { width, height, data } = img
+  if (!data) return null
+  if (img.kind === RGBA_32BPP) return new Uint8Array(data.buffer, data.byteOffset, width * height * 4)
+
+  const out = new Uint8Array(width * height * 4)
+  if (img.kind === RGB_24BPP) {
+    for (let p = 0, s = 0; p < width * height; p++, s += 3) {
+      out[p * 4] = data[s]!
+      out[p * 4 + 1] = data[s + 1]!
+      out[p * 4 + 2] = data[s + 2]!
+      out[p * 4 + 3] = 255
+    }
+    return out
+  }
+  if (img.kind === GRAYSCALE_1BPP) {
+    // Rows are padded to whole bytes; a set bit is white.
+    const rowBytes = Math.ceil(width / 8)
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const bit = (data[y * rowBytes + (x >> 3)]! >> (7 - (x & 7))) & 1
+        const p = (y * width + x) * 4
+        out[p] = out[p + 1] = out[p + 2] = bit ? 255 : 0
+        out[p + 3] = 255
+      }
+    }
+    return out
+  }
+  return null
+}
+
+type Matrix = [number, number, number, number, number, number]
+
+/** `m` applied first, then `ctm` — PDF's `cm` operator. */
+function concatMatrix(m: Matrix, ctm: Matrix): Matrix {
+  return [
+    m[0] * ctm[0] + m[1] * ctm[2],
+    m[0] * ctm[1] + m[1] * ctm[3],
+    m[2] * ctm[0] + m[3] * ctm[2],
+    m[2] * ctm[1] + m[3] * ctm[3],
+    m[4] * ctm[0] + m[5] * ctm[2] + ctm[4],
+    m[4] * ctm[1] + m[5] * ctm[3] + ctm[5]
+  ]
+}
+
+/** An image fills the unit square under the CTM; return that square on the page. */
+function imageBox(ctm: Matrix, view: number[]): NonNullable<OFWPageImage['box']> {
+  const xs = [ctm[4], ctm[0] + ctm[4], ctm[2] + ctm[4], ctm[0] + ctm[2] + ctm[4]]
+  const ys = [ctm[5], ctm[1] + ctm[5], ctm[3] + ctm[5], ctm[1] + ctm[3] + ctm[5]]
+  const [x0, y0, x1, y1] = view as [number, number, number, number]
+  const pageWidth = x1 - x0 || 1
+  const pageHeight = y1 - y0 || 1
+  return {
+    top: (y1 - Math.max(...ys)) / pageHeight,
+    left: (Math.min(...xs) - x0) / pageWidth,
+    width: (Math.max(...xs) - Math.min(...xs)) / pageWidth,
+    height: (Math.max(...ys) - Math.min(...ys)) / pageHeight
+  }
+}
+
+async function readPageImages(
+  pdfjsLib: PdfjsModule,
+  page: PdfPage
+): Promise<{ img: PdfImage, box: NonNullable<OFWPageImage['box']> }[]> {
+  const { OPS } = pdfjsLib
+  const ops = await page.getOperatorList()
+  const images: { img: PdfImage, box: NonNullable<OFWPageImage['box']> }[] = []
+  // Track the transform so each image's placement on the page is known.
+  let ctm: Matrix = [1, 0, 0, 1, 0, 0]
+  const saved: Matrix[] = []
+  for (let i = 0; i < ops.fnArray.length; i++) {
+    const fn = ops.fnArray[i]
+    const args = ops.argsArray[i] as unknown[]
+    if (fn === OPS.save) {
+      saved.push(ctm)
+    } else if (fn === OPS.restore) {
+      ctm = saved.pop() ?? ctm
+    } else if (fn === OPS.transform) {
+      ctm = concatMatrix(args as Matrix, ctm)
+    } else if (fn === OPS.paintFormXObjectBegin) {
+      saved.push(ctm)
+      if (Array.isArray(args[0])) ctm = concatMatrix(args[0] as Matrix, ctm)
+    } else if (fn === OPS.paintFormXObjectEnd) {
+      ctm = saved.pop() ?? ctm
+    } else if (fn === OPS.paintInlineImageXObject) {
+      images.push({ img: args[0] as PdfImage, box: imageBox(ctm, page.view) })
+    } else if (fn === OPS.paintImageXObject || fn === OPS.paintImageXObjectRepeat) {
+      const id = args[0] as string
+      const objs = id.startsWith('g_') ? page.commonObjs : page.objs
+      const img = await new Promise<PdfImage>(resolve => objs.get(id, resolve))
+      images.push({ img, box: imageBox(ctm, page.view) })
+    }
+  }
+  return images
+}
+
+function readPageLines(items: unknown[]): string[] {
+  // Same line grouping as ofw-parser's extractText.
+  const lines: string[] = []
+  let lastY: number | null = null
+  let line = ''
+  for (const item of items) {
+    if (!item || typeof item !== 'object' || !('str' in item)) continue
+    const y = Math.round((item as unknown as { transform: number[] }).transform[5]!)
+    if (lastY !== null && Math.abs(y - lastY) > 5) {
+      lines.push(line)
+      line = ''
+    }
+    line += (item as { str: string }).str
+    lastY = y
+  }
+  if (line) lines.push(line)
+  return lines
+}
+
+/**
+ * Find the attachments embedded in an OFW Message Report and pass each one to
+ * `onFile` as it is decoded: images as PNG, text attachment pages as plain
+ * text. Returns the plan, whose `missing` lists files that were only named.
+ */
+export async function extractOFWAttachments(
+  pdfData: Uint8Array,
+  messages: OFWMessage[],
+  onFile: (file: OFWAttachmentFile) => Promise<void>
+): Promise<OFWAttachmentPlan> {
+  if (!messages.some(m => m.attachments?.length)) return { attachments: [], missing: [] }
+
+  const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.mjs')
+  const doc = await pdfjsLib.getDocument({
+    data: pdfData,
+    useSystemFonts: true,
+    // Decode images to raw pixels; there is no canvas on the server.
+    isOffscreenCanvasSupported: false,
+    isImageDecoderSupported: false
+  }).promise
+
+  try {
+    const pages: OFWReportPage[] = []
+    for (let i = 1; i <= doc.numPages; i++) {
+      const page = await doc.getPage(i)
+      const content = await page.getTextContent()
+      const images = (await readPageImages(pdfjsLib, page)).map(({ img, box }) => ({
+        hash: img.data ? createHash('sha256').update(img.data).digest('hex') : '',
+        width: img.width,
+        height: img.height,
+        box
+      }))
+      pages.push({ lines: readPageLines(content.items), images })
+    }
+
+    const plan = planOFWAttachments(pages, messages)
+    const stored = new Set<string>()
+    const undecoded: OFWAttachmentPlan['missing'] = []
+
+    for (const { messageId, filename, source } of plan.attachments) {
+      if (source.kind === 'text') {
+        const text = source.pages.map(p => pages[p]!.lines.join('\n')).join('\n\n')
+        await onFile({ messageId, filename, mimeType: 'text/plain', content: new TextEncoder().encode(text) })
+        stored.add(`${messageId}|${filename}`)
+        continue
+      }
+      const page = await doc.getPage(source.page + 1)
+      const img = (await readPageImages(pdfjsLib, page))[source.image]?.img
+      const rgba = img && toRgba(img)
+      if (!img || !rgba) {
+        undecoded.push({ messageId, filename })
+        continue
+      }
+      await onFile({ messageId, filename, mimeType: 'image/png', content: encodePng(img.width, img.height, rgba) })
+      stored.add(`${messageId}|${filename}`)
+    }
+
+    // An image pdfjs could not hand over as pixels leaves its file named only.
+    const missing = [...plan.missing, ...undecoded.filter(u => !stored.has(`${u.messageId}|${u.filename}`))]
+    return { attachments: plan.attachments, missing }
+  } finally {
+    await doc.destroy()
+  }
+}
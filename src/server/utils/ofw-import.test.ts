@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { normalizePastedText, parseCsv, parseOFWDateTime, parseOFWExport } from './ofw-import'
+
+const encode = (s: string) => new TextEncoder().encode(s)
+
+describe('parseCsv', () => {
+  it('handles quoted fields, doubled quotes and embedded newlines', () => {
+    const rows = parseCsv('a,b,c\r\n1,"two, ""2""","line one\nline two"\n')
+    expect(rows).toEqual([
+      ['a', 'b', 'c'],
+      ['1', 'two, "2"', 'line one\nline two']
+    ])
+  })
+})
+
+describe('parseOFWDateTime', () => {
+  it('normalizes US and ISO dates to local wall-clock ISO', () => {
+    expect(parseOFWDateTime('1/2/2024 9:05 PM')).toBe('2024-01-02T21:05:00')
+    expect(parseOFWDateTime('01/02/2024 at 12:15 am')).toBe('2024-01-02T00:15:00')
+    expect(parseOFWDateTime('01/02/2024 21:05:30')).toBe('2024-01-02T21:05:00')
+    expect(parseOFWDateTime('2024-01-02T21:05:00-06:00')).toBe('2024-01-02T21:05:00')
+    expect(parseOFWDateTime('Not viewed')).toBeNull()
+  })
+})
+
+describe('parseOFWExport', () => {
+  it('parses a CSV export by header name and dedupes on sender + sent', async () => {
+    const csv = [
+      'Date Sent,Sender,Recipient,Subject,Message,Attachments',
+      '1/2/2024 9:05 PM,Alex Parent,Sam Parent,Pickup,"Running late,\nbe there at 6",',
+      '1/2/2024 9:05 PM,Alex Parent,Sam Parent,Pickup,Running late,',
+      '1/3/2024 8:00 AM,Sam Parent,Alex Parent,Re: Pickup,OK,note.pdf (12 KB); photo.jpg'
+    ].join('\n')
+
+    const result = await parseOFWExport(encode(csv), 'export.csv')
+    expect(result.metadata.format).toBe('csv')
+    expect(result.metadata.totalMessages).toBe(2)
+    expect(result.metadata.threadCount).toBe(1)
+    expect(result.messages[0]!.body).toBe('Running late,\nbe there at 6')
+    expect(result.messages[1]!.attachments).toEqual(['note.pdf', 'photo.jpg'])
+  })
+
+  it('rejects a CSV without the required columns', async () => {
+    await expect(parseOFWExport(encode('Sent,From,Note\n1/2/2024,Alex,hi'), 'export.csv'))
+      .rejects.toThrow(/missing required column/)
+  })
+
+  it('parses pasted report text with loose header formatting', async () => {
+    const text = [
+      '  Sent: 1/2/2024 at 9:05pm',
+      'From: Alex Parent',
+      'To: Sam Parent (First Viewed: 1/2/2024 at 9:30pm)',
+      'Subject: Pickup',
+      '',
+      'Running late.',
+      ''
+    ].join('\r\n')
+
+    const result = await parseOFWExport(encode(text), 'paste.txt')
+    expect(result.metadata.format).toBe('text')
+    expect(result.messages).toHaveLength(1)
+    expect(result.messages[0]).toMatchObject({
+      sent: '2024-01-02T21:05:00',
+      firstViewed: '2024-01-02T21:30:00',
+      from: 'Alex Parent',
+      body: 'Running late.'
+    })
+  })
+
+  it('throws when a text file has no messages', async () => {
+    await expect(parseOFWExport(encode('hello'), 'notes.txt')).rejects.toThrow(/No OFW messages/)
+  })
+})
+
+describe('normalizePastedText', () => {
+  it('leaves body lines alone', () => {
+    expect(normalizePastedText('  indented body 1/2/2024 9:05pm')).toBe('  indented body 1/2/2024 9:05pm')
+  })
+})
@@ -0,0 +1,275 @@
+/**
+ * OFW import front-end: detect the export layout, then normalize it to the
+ * same OFWParseResult the PDF parser produces, so ofw-ingest and the
+ * `messages` table do not care where the messages came from.
+ *
+ * Formats:
+ *  - pdf_thread  — the "Message Report" PDF with "Message X of Y" markers
+ *  - pdf_single  — a PDF printed one message at a time (no markers, so no
+ *                  message numbers; otherwise the same header layout)
+ *  - csv         — a spreadsheet export, columns matched by header name
+ *  - text        — report text pasted into a .txt file; header lines are
+ *                  tidied (zero-padded dates, "9:05pm" → "9:05 PM") and then
+ *                  run through the PDF parser's text stages
+ */
+
+import {
+  buildOFWParseResult,
+  extractText,
+  parseOFWText,
+  type OFWParseResult,
+  type OFWRawMessage,
+  type OFWSourceFormat
+} from './ofw-parser'
+
+export type OFWFileKind = 'pdf' | 'csv' | 'text'
+
+// ── Detection ──
+
+const CSV_SENT_HEADERS = ['sent', 'date sent', 'sent date', 'sent at', 'sent on', 'date']
+const CSV_FROM_HEADERS = ['from', 'sender', 'author']
+const CSV_TO_HEADERS = ['to', 'recipient', 'recipients']
+const CSV_VIEWED_HEADERS = ['first viewed', 'first viewed date', 'viewed', 'date viewed', 'read']
+const CSV_SUBJECT_HEADERS = ['subject']
+const CSV_BODY_HEADERS = ['message', 'body', 'message body', 'message text', 'text', 'content']
+const CSV_ATTACHMENT_HEADERS = ['attachments', 'attachment', 'files']
+const CSV_NUMBER_HEADERS = ['message number', 'message #', 'message no', 'number', '#']
+
+function normalizeHeader(h: string): string {
+  return h.toLowerCase().replace(/[^a-z0-9#]+/g, ' ').trim()
+}
+
+function isPdf(data: Uint8Array): boolean {
+  // "%PDF"
+  return data.length >= 4 && data[0] === 0x25 && data[1] === 0x50 && data[2] === 0x44 && data[3] === 0x46
+}
+
+function decodeText(data: Uint8Array): string {
+  return new TextDecoder('utf-8').decode(data).replace(/^\uFEFF/, '')
+}
+
+/**
+ * Classify an upload by content first, filename second. A .txt that is really
+ * a CSV (or vice versa) is judged by its first line.
+ */
+export function detectOFWFileKind(data: Uint8Array, filename: string): OFWFileKind {
+  if (isPdf(data)) return 'pdf'
+
+  const text = decodeText(data.subarray(0, 4096))
+  const firstLine = text.split(/\r?\n/).find(l => l.trim()) ?? ''
+  const cells = parseCsv(firstLine)[0]?.map(normalizeHeader) ?? []
+  const looksLikeCsvHeader = cells.length >= 3
+    && cells.some(c => CSV_SENT_HEADERS.includes(c))
+    && cells.some(c => CSV_FROM_HEADERS.includes(c))
+
+  if (looksLikeCsvHeader) return 'csv'
+  if (filename.toLowerCase().endsWith('.csv') && !/^\s*Sent:/m.test(text)) return 'csv'
+  return 'text'
+}
+
+// ── Dates ──
+
+/**
+ * Parse the date formats seen in OFW exports and spreadsheets into the
+ * parser's local wall-clock ISO form (`YYYY-MM-DDTHH:MM:00`). Offsets on ISO
+ * input are ignored on purpose: OFW shows local times and the PDF path keeps
+ * them as displayed. Returns null for "Not viewed" and other non-dates.
+ */
+export function parseOFWDateTime(value: string): string | null {
+  const v = value.trim()
+  if (!v) return null
+
+  const us = v.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:,?\s+(?:at\s+)?(\d{1,2}):(\d{2})(?::\d{2})?\s*([AaPp])\.?[Mm]?\.?)?$/)
+  if (us) {
+    const [, mo, d, y, hStr, mi, ap] = us
+    let h = hStr ? parseInt(hStr, 10) : 0
+    if (ap && /p/i.test(ap) && h !== 12) h += 12
+    if (ap && /a/i.test(ap) && h === 12) h = 0
+    return `${y}-${mo!.padStart(2, '0')}-${d!.padStart(2, '0')}T${String(h).padStart(2, '0')}:${mi ?? '00'}:00`
+  }
+
+  // 24-hour US times ("01/02/2024 21:05") — spreadsheets often drop AM/PM.
+  const us24 = v.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})\s+(\d{1,2}):(\d{2})(?::\d{2})?$/)
+  if (us24) {
+    const [, mo, d, y, h, mi] = us24
+    return `${y}-${mo!.padStart(2, '0')}-${d!.padStart(2, '0')}T${h!.padStart(2, '0')}:${mi}:00`
+  }
+
+  const iso = v.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2}))?/)
+  if (iso) {
+    const [, y, mo, d, h, mi] = iso
+    return `${y}-${mo}-${d}T${h ?? '00'}:${mi ?? '00'}:00`
+  }
+
+  return null
+}
+
+// ── CSV ──
+
+/** RFC 4180: quoted fields, doubled quotes, newlines inside quotes. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i]!
+    if (inQuotes) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (c === '"') {
+        inQuotes = false
+      } else {
+        field += c
+      }
+      continue
+    }
+    if (c === '"') {
+      inQuotes = true
+    } else if (c === ',') {
+      row.push(field)
+      field = ''
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += c
+    }
+  }
+  if (field || row.length) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter(r => r.some(cell => cell.trim()))
+}
+
+function columnIndex(headers: string[], aliases: string[]): number {
+  return headers.findIndex(h => aliases.includes(h))
+}
+
+function splitAttachments(cell: string): string[] {
+  return cell
+    .split(/[;\n]|,(?=\s*[^,]+\.\w{2,4}\b)/)
+    .map(p => p.trim().replace(/\s*\(\d+\.?\d*\s*[KMGT]?B\)\s*$/i, '').trim())
+    .filter(n => n.length > 0 && /\.\w{2,4}$/.test(n))
+}
+
+export function parseOFWCsv(text: string, filename: string): OFWParseResult {
+  const [headerRow, ...rows] = parseCsv(text)
+  if (!headerRow) throw new Error('CSV export is empty.')
+
+  const headers = headerRow.map(normalizeHeader)
+  const col = {
+    sent: columnIndex(headers, CSV_SENT_HEADERS),
+    from: columnIndex(headers, CSV_FROM_HEADERS),
+    to: columnIndex(headers, CSV_TO_HEADERS),
+    viewed: columnIndex(headers, CSV_VIEWED_HEADERS),
+    subject: columnIndex(headers, CSV_SUBJECT_HEADERS),
+    body: columnIndex(headers, CSV_BODY_HEADERS),
+    attachments: columnIndex(headers, CSV_ATTACHMENT_HEADERS),
+    number: columnIndex(headers, CSV_NUMBER_HEADERS)
+  }
+
+  const missing = (['sent', 'from', 'body'] as const).filter(k => col[k] < 0)
+  if (missing.length) {
+    throw new Error(`CSV export is missing required column(s): ${missing.join(', ')}. Found: ${headerRow.join(', ')}`)
+  }
+
+  const cell = (row: string[], idx: number) => (idx >= 0 ? (row[idx] ?? '').trim() : '')
+
+  // Same dedupe key as the PDF path: (sender, sent). Keep the longest body.
+  const byKey = new Map<string, OFWRawMessage>()
+  for (const row of rows) {
+    const sent = parseOFWDateTime(cell(row, col.sent))
+    const from = cell(row, col.from)
+    if (!sent || !from) continue
+
+    const number = parseInt(cell(row, col.number), 10)
+    const msg: OFWRawMessage = {
+      sent,
+      from,
+      to: cell(row, col.to),
+      firstViewed: parseOFWDateTime(cell(row, col.viewed)),
+      subject: cell(row, col.subject),
+      body: (row[col.body] ?? '').replace(/\r\n?/g, '\n').trim(),
+      attachments: splitAttachments(cell(row, col.attachments)),
+      messageNumber: Number.isFinite(number) ? number : null
+    }
+    const key = `${from}|${sent}`
+    const prev = byKey.get(key)
+    if (!prev || msg.body.length > prev.body.length) byKey.set(key, msg)
+  }
+
+  const messages = [...byKey.values()]
+  const expected = messages.reduce((max, m) => Math.max(max, m.messageNumber ?? 0), 0)
+  return buildOFWParseResult(messages, filename, expected)
+}
+
+// ── Plaintext ──
+
+const HEADER_LINE_RE = /^\s*(Sent|From|To|Subject):/i
+const HEADER_DATE_RE = /(\d{1,2})\/(\d{1,2})\/(\d{4})(\s+(?:at\s+)?)(\d{1,2}):(\d{2})\s*([AaPp])\.?[Mm]\.?/g
+
+/**
+ * Make pasted report text look like the PDF text layer: Windows line endings
+ * and non-breaking spaces go, header labels lose leading indentation and get
+ * canonical casing, and header dates are zero-padded with upper-case AM/PM.
+ * Body lines are left alone.
+ */
+export function normalizePastedText(text: string): string {
+  return text
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .replace(/\u00A0/g, ' ')
+    .split('\n')
+    .map((line) => {
+      const m = line.match(HEADER_LINE_RE)
+      if (!m) return line
+      const label = m[1]!.charAt(0).toUpperCase() + m[1]!.slice(1).toLowerCase()
+      return `${label}:${line.slice(m[0].length)}`
+        .replace(HEADER_DATE_RE, (_all, mo: string, d: string, y: string, sep: string, h: string, mi: string, ap: string) =>
+          `${mo.padStart(2, '0')}/${d.padStart(2, '0')}/${y}${sep}${h}:${mi} ${ap.toUpperCase()}M`)
+        .trimEnd()
+    })
+    .join('\n')
+}
+
+// ── Entry point ──
+
+/**
+ * Parse any supported OFW export. Throws when a CSV or text file yields no
+ * messages, since that almost always means the wrong file was uploaded.
+ */
+export async function parseOFWExport(data: Uint8Array, filename: string): Promise<OFWParseResult> {
+  const kind = detectOFWFileKind(data, filename)
+
+  let result: OFWParseResult
+  let format: OFWSourceFormat
+  if (kind === 'pdf') {
+    result = parseOFWText(await extractText(data), filename)
+    // Only the thread-view Message Report prints "Message X of Y" markers.
+    format = result.metadata.reportExpected > 0 ? 'pdf_thread' : 'pdf_single'
+  } else if (kind === 'csv') {
+    result = parseOFWCsv(decodeText(data), filename)
+    format = 'csv'
+  } else {
+    result = parseOFWText(normalizePastedText(decodeText(data)), filename)
+    format = 'text'
+  }
+
+  if (kind !== 'pdf' && result.metadata.totalMessages === 0) {
+    throw new Error(
+      format === 'csv'
+        ? 'No messages found in the CSV export. Each row needs a sent date and a sender.'
+        : 'No OFW messages found in the text file. Paste messages with their Sent:, From:, To: and Subject: lines.'
+    )
+  }
+
+  result.metadata.format = format
+  return result
+}
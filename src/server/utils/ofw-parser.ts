@@ -16,6 +16,10 @@
  * Lifted verbatim from `Workspace/ofw-parser/server/utils/ofw-parser.ts`
  * (validated on a 1,271-message real case). Do not modify casually —
  * keep parity with the source so fixes flow back upstream.
+ *
+ * Local divergence: parseOFWPdf is split into extractText + parseOFWText +
+ * buildOFWParseResult so the CSV / plaintext front-ends in ofw-import.ts can
+ * reuse steps 2–6 without a PDF. Behavior for PDFs is unchanged.
  */
 
 // ── Types ──
@@ -34,6 +38,9 @@ export interface OFWMessage {
   wordCount: number
 }
 
+/** Layout the messages were read from. Set by the ofw-import front-end. */
+export type OFWSourceFormat = 'pdf_thread' | 'pdf_single' | 'csv' | 'text'
+
 export interface OFWParseResult {
   metadata: {
     source: string
@@ -44,6 +51,7 @@ export interface OFWParseResult {
     senders: string[]
     dateRange: { start: string; end: string }
     threadCount: number
+    format?: OFWSourceFormat
   }
   messages: OFWMessage[]
 }
@@ -75,7 +83,8 @@ interface ParsedHeader {
   lineIndex: number
 }
 
-interface Message {
+/** One message before numbering / thread assignment. Sent times are local ISO (`YYYY-MM-DDTHH:MM:00`). */
+export interface OFWRawMessage {
   sent: string
   from: string
   to: string
@@ -225,13 +234,13 @@ function extractHeaders(lines: string[]): ParsedHeader[] {
 
 // ── Step 4: Deduplicate ──
 
-function deduplicate(entries: ParsedHeader[]): Message[] {
-  const map = new Map<string, Message>()
+function deduplicate(entries: ParsedHeader[]): OFWRawMessage[] {
+  const map = new Map<string, OFWRawMessage>()
   for (const e of entries) {
     const body = e.bodyLines.join('\n').trim()
     const key = `${e.from}|${e.sent}`
     const prev = map.get(key)
-    const msg: Message = {
+    const msg: OFWRawMessage = {
       sent: e.sent, from: e.from, to: e.to, firstViewed: e.firstViewed,
       subject: e.subject || prev?.subject || '',
       body,
@@ -252,14 +261,14 @@ function deduplicate(entries: ParsedHeader[]): Message[] {
 
 // ── Step 5: Assign message numbers ──
 
-function assignNumbers(lines: string[], messages: Message[]): number {
+function assignNumbers(lines: string[], messages: OFWRawMessage[]): number {
   const markers: { line: number; num: number; total: number }[] = []
   for (let i = 0; i < lines.length; i++) {
     const m = lines[i]!.trim().match(MSG_MARKER_RE)
     if (m) markers.push({ line: i, num: +m[1]!, total: +m[2]! })
   }
 
-  const lookup = new Map<string, Message>()
+  const lookup = new Map<string, OFWRawMessage>()
   for (const msg of messages) lookup.set(`${msg.from}|${msg.sent}`, msg)
 
   let total = 0
@@ -300,8 +309,8 @@ function slugify(s: string): string {
   return baseSubject(s).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'untitled'
 }
 
-function buildThreads(messages: Message[]): Map<string, string> {
-  const groups = new Map<string, Message[]>()
+function buildThreads(messages: OFWRawMessage[]): Map<string, string> {
+  const groups = new Map<string, OFWRawMessage[]>()
   for (const msg of messages) {
     const base = baseSubject(msg.subject).toLowerCase()
     if (!groups.has(base)) groups.set(base, [])
@@ -338,15 +347,12 @@ function buildThreads(messages: Message[]): Map<string, string> {
 
 // ── Public API ──
 
-export async function parseOFWPdf(pdfData: Uint8Array, filename: string): Promise<OFWParseResult> {
-  const raw = await extractText(pdfData)
-  const lines = cleanText(raw)
-
-  const headers = extractHeaders(lines)
-  const messages = deduplicate(headers)
+/**
+ * Step 6 plus output shaping: thread ids, sequential ids, metadata.
+ * `messages` must already be deduplicated; they are sorted here.
+ */
+export function buildOFWParseResult(messages: OFWRawMessage[], filename: string, expected: number): OFWParseResult {
   messages.sort((a, b) => a.sent.localeCompare(b.sent))
-
-  const expected = assignNumbers(lines, messages)
   const threads = buildThreads(messages)
 
   const output: OFWMessage[] = messages.map((msg, i) => ({
@@ -380,3 +386,20 @@ export async function parseOFWPdf(pdfData: Uint8Array, filename: string): Promis
     messages: output
   }
 }
+
+/** Steps 2–6 on already-extracted report text (PDF text layer or a paste). */
+export function parseOFWText(raw: string, filename: string): OFWParseResult {
+  const lines = cleanText(raw)
+
+  const headers = extractHeaders(lines)
+  const messages = deduplicate(headers)
+  messages.sort((a, b) => a.sent.localeCompare(b.sent))
+
+  const expected = assignNumbers(lines, messages)
+  return buildOFWParseResult(messages, filename, expected)
+}
+
+export async function parseOFWPdf(pdfData: Uint8Array, filename: string): Promise<OFWParseResult> {
+  const raw = await extractText(pdfData)
+  return parseOFWText(raw, filename)
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { computeOvernightReport } from './overnights'
+import type { ParentingSchedule } from './parenting-schedule'
+
+// 2025-03-03 is a Monday; alternating weeks starting with you.
+const schedule: ParentingSchedule = {
+  rotation: 'alternating_weeks',
+  customCycle: null,
+  anchorDate: '2025-03-03',
+  anchorCustodian: 'you',
+  exchangeTime: '18:00',
+  exchangeLocation: null,
+  graceMinutes: 15,
+  holidays: []
+}
+
+describe('computeOvernightReport', () => {
+  it('splits ordered nights by month and year from the anchor', () => {
+    const report = computeOvernightReport(schedule, [], '2025-01-01', '2025-03-30')
+    expect(report.from).toBe('2025-03-03')
+    expect(report.months.map(m => m.period)).toEqual(['2025-03'])
+    expect(report.years).toHaveLength(1)
+    expect(report.total).toMatchObject({
+      nights: 28,
+      deviations: 0,
+      ordered: { you: 14, coparent: 14, youPercent: 50, coparentPercent: 50 },
+      actual: { you: 14, coparent: 14 }
+    })
+  })
+
+  it('moves nights for missed visits and overholds but not late exchanges', () => {
+    const report = computeOvernightReport(schedule, [
+      { date: '2025-03-11', kind: 'missed_visit', summary: 'Missed visit', eventIds: ['e1'], messageIds: [] },
+      { date: '2025-03-17', kind: 'overhold', summary: 'Overhold', eventIds: [], messageIds: ['m1'] },
+      { date: '2025-03-17', kind: 'missed_visit', summary: 'Duplicate night', eventIds: [], messageIds: [] },
+      { date: '2025-03-24', kind: 'late_exchange', summary: 'Late', eventIds: [], messageIds: [] },
+      // Already your night: nothing to move.
+      { date: '2025-03-04', kind: 'missed_visit', summary: 'Redundant', eventIds: [], messageIds: [] }
+    ], '2025-03-03', '2025-04-06')
+
+    expect(report.deviations.map(d => [d.date, d.ordered, d.actual])).toEqual([
+      ['2025-03-11', 'coparent', 'you'],
+      ['2025-03-17', 'you', 'coparent']
+    ])
+    expect(report.months.map(m => [m.period, m.nights, m.actual.you, m.deviations])).toEqual([
+      ['2025-03', 29, 15, 2],
+      ['2025-04', 6, 6, 0]
+    ])
+    expect(report.total.ordered.youPercent).toBe(60)
+    expect(report.total.actual).toMatchObject({ you: 21, coparent: 14 })
+  })
+})
@@ -0,0 +1,148 @@
+/**
+ * Overnight counts and parenting-time percentages.
+ *
+ * "Ordered" nights come straight from the parenting schedule; "actual" nights
+ * start from the ordered ones and apply the deviations a schedule check
+ * documented (see parenting-schedule.ts). A missed visit means the children
+ * stayed with you on a co-parent night; an overhold means they stayed with
+ * the co-parent on one of yours. Late exchanges don't move an overnight.
+ *
+ * Pure: callers load the schedule and violations.
+ */
+
+import { expectedCustodian } from './parenting-schedule'
+import type { Custodian, ParentingSchedule, ViolationKind } from './parenting-schedule'
+
+export interface OvernightDeviationInput {
+  date: string
+  kind: ViolationKind
+  summary: string
+  eventIds: string[]
+  messageIds: string[]
+}
+
+export interface OvernightDeviation extends OvernightDeviationInput {
+  ordered: Custodian
+  actual: Custodian
+}
+
+export interface OvernightTally {
+  you: number
+  coparent: number
+  /** Share of the period's nights with you, one decimal place. */
+  youPercent: number
+  coparentPercent: number
+}
+
+export interface OvernightPeriod {
+  /** 'YYYY-MM' for months, 'YYYY' for years, 'total' for the whole range. */
+  period: string
+  from: string
+  to: string
+  nights: number
+  ordered: OvernightTally
+  actual: OvernightTally
+  deviations: number
+}
+
+export interface OvernightReport {
+  from: string
+  to: string
+  months: OvernightPeriod[]
+  years: OvernightPeriod[]
+  total: OvernightPeriod
+  deviations: OvernightDeviation[]
+}
+
+/** Which way each violation kind moves the night, relative to the schedule. */
+const DEVIATION_CUSTODIAN: Partial<Record<ViolationKind, Custodian>> = {
+  missed_visit: 'you',
+  overhold: 'coparent'
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+function percent(part: number, whole: number): number {
+  return whole ? Math.round((part / whole) * 1000) / 10 : 0
+}
+
+interface Counter {
+  period: string
+  from: string
+  to: string
+  ordered: Record<Custodian, number>
+  actual: Record<Custodian, number>
+  deviations: number
+}
+
+function newCounter(period: string, date: string): Counter {
+  return { period, from: date, to: date, ordered: { you: 0, coparent: 0 }, actual: { you: 0, coparent: 0 }, deviations: 0 }
+}
+
+function toPeriod(c: Counter): OvernightPeriod {
+  const nights = c.ordered.you + c.ordered.coparent
+  const tally = (t: Record<Custodian, number>): OvernightTally => ({
+    you: t.you,
+    coparent: t.coparent,
+    youPercent: percent(t.you, nights),
+    coparentPercent: percent(t.coparent, nights)
+  })
+  return { period: c.period, from: c.from, to: c.to, nights, ordered: tally(c.ordered), actual: tally(c.actual), deviations: c.deviations }
+}
+
+/**
+ * Count nights from `from` through `to` (inclusive) by month, by year and in
+ * total. Nights before the schedule's anchor date are not counted. Deviations
+ * that agree with the schedule (e.g. a missed visit on a night that was yours
+ * anyway) are dropped; at most one deviation applies per night, the first
+ * given.
+ */
+export function computeOvernightReport(
+  schedule: ParentingSchedule,
+  deviations: OvernightDeviationInput[],
+  from: string,
+  to: string
+): OvernightReport {
+  const start = from < schedule.anchorDate ? schedule.anchorDate : from
+
+  const byDate = new Map<string, OvernightDeviationInput>()
+  for (const d of deviations) {
+    if (DEVIATION_CUSTODIAN[d.kind] && !byDate.has(d.date)) byDate.set(d.date, d)
+  }
+
+  const months = new Map<string, Counter>()
+  const years = new Map<string, Counter>()
+  const total = newCounter('total', start)
+  const applied: OvernightDeviation[] = []
+
+  for (let date = start; date <= to; date = addDays(date, 1)) {
+    const ordered = expectedCustodian(schedule, date)
+    const deviation = byDate.get(date)
+    const actual = deviation ? DEVIATION_CUSTODIAN[deviation.kind]! : ordered
+    if (deviation && actual !== ordered) applied.push({ ...deviation, ordered, actual })
+
+    const monthKey = date.slice(0, 7)
+    const yearKey = date.slice(0, 4)
+    if (!months.has(monthKey)) months.set(monthKey, newCounter(monthKey, date))
+    if (!years.has(yearKey)) years.set(yearKey, newCounter(yearKey, date))
+    for (const c of [months.get(monthKey)!, years.get(yearKey)!, total]) {
+      c.to = date
+      c.ordered[ordered]++
+      c.actual[actual]++
+      if (actual !== ordered) c.deviations++
+    }
+  }
+
+  return {
+    from: start,
+    to,
+    months: [...months.values()].map(toPeriod),
+    years: [...years.values()].map(toPeriod),
+    total: toPeriod(total),
+    deviations: applied
+  }
+}
@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest'
+import {
+  detectScheduleViolations,
+  expectedCustodian,
+  isCoparentSender,
+  parseParentingSchedule,
+  scheduleDays,
+  scheduleExchanges
+} from './parenting-schedule'
+import type { ParentingSchedule, ScheduleEventInput, ScheduleMessageInput } from './parenting-schedule'
+
+// 2025-03-03 is a Monday.
+function schedule(overrides: Partial<ParentingSchedule> = {}): ParentingSchedule {
+  return {
+    rotation: 'alternating_weeks',
+    customCycle: null,
+    anchorDate: '2025-03-03',
+    anchorCustodian: 'you',
+    exchangeTime: '18:00',
+    exchangeLocation: 'Library',
+    graceMinutes: 15,
+    holidays: [],
+    ...overrides
+  }
+}
+
+function event(overrides: Partial<ScheduleEventInput>): ScheduleEventInput {
+  return { id: 'e1', date: '2025-03-03', time: null, title: 'Park', description: '', ...overrides }
+}
+
+function message(overrides: Partial<ScheduleMessageInput>): ScheduleMessageInput {
+  return { id: 'm1', sentAt: '2025-03-03T12:00:00', sender: 'Sam Parent', body: '', fromCoparent: true, ...overrides }
+}
+
+describe('expectedCustodian', () => {
+  it('walks the preset cycle from the anchor, in both directions', () => {
+    const s = schedule({ rotation: '2-2-3' })
+    const fortnight = Array.from({ length: 14 }, (_, i) => expectedCustodian(s, `2025-03-${String(3 + i).padStart(2, '0')}`))
+    expect(fortnight.map(c => c === 'you' ? 'A' : 'B').join('')).toBe('AABBAAABBAABBB')
+    expect(expectedCustodian(s, '2025-03-02')).toBe('coparent')
+    expect(expectedCustodian(s, '2025-03-17')).toBe('you')
+  })
+
+  it('lets the last matching holiday override the rotation', () => {
+    const s = schedule({
+      holidays: [
+        { label: 'Spring break', start: '2025-03-05', end: '2025-03-12', custodian: 'coparent' },
+        { label: 'Birthday', start: '2025-03-11', end: '2025-03-11', custodian: 'you' }
+      ]
+    })
+    expect(expectedCustodian(s, '2025-03-05')).toBe('coparent')
+    expect(expectedCustodian(s, '2025-03-11')).toBe('you')
+  })
+})
+
+describe('scheduleExchanges', () => {
+  it('lists each handover with direction and holiday label', () => {
+    const s = schedule({ holidays: [{ label: 'Easter', start: '2025-03-12', end: '2025-03-12', custodian: 'you' }] })
+    // The anchor itself is a handover: the cycle's last day belongs to the co-parent.
+    expect(scheduleExchanges(s, '2025-03-03', '2025-03-17').map(x => [x.date, x.to, x.holiday])).toEqual([
+      ['2025-03-03', 'you', null],
+      ['2025-03-10', 'coparent', null],
+      ['2025-03-12', 'you', 'Easter'],
+      ['2025-03-13', 'coparent', null],
+      ['2025-03-17', 'you', null]
+    ])
+  })
+})
+
+describe('scheduleDays', () => {
+  it('shades only days on or after the anchor', () => {
+    const days = scheduleDays(schedule(), '2025-03-01', '2025-03-10')
+    expect(days).toHaveLength(10)
+    expect(days[0]).toEqual({ date: '2025-03-01', custodian: null, holiday: null, exchange: false })
+    expect(days[2]).toMatchObject({ date: '2025-03-03', custodian: 'you', exchange: true })
+    expect(days[9]).toMatchObject({ date: '2025-03-10', custodian: 'coparent', exchange: true })
+  })
+})
+
+describe('parseParentingSchedule', () => {
+  it('normalizes a valid body and rejects bad input', () => {
+    const parsed = parseParentingSchedule({
+      rotation: 'custom',
+      customCycle: ['you', 'coparent', 'coparent'],
+      anchorDate: '2025-03-03',
+      anchorCustodian: 'you',
+      exchangeTime: '18:00:00',
+      exchangeLocation: '  ',
+      holidays: []
+    })
+    expect(parsed).toMatchObject({ exchangeTime: '18:00', exchangeLocation: null, graceMinutes: 15 })
+
+    expect(() => parseParentingSchedule({ rotation: 'weekly' })).toThrow(/rotation/)
+    expect(() => parseParentingSchedule({ rotation: '2-2-3', anchorDate: '2025-02-30', anchorCustodian: 'you' })).toThrow(/date/)
+    expect(() => parseParentingSchedule({ rotation: '2-2-5-5', anchorDate: '2025-03-05', anchorCustodian: 'you' })).toThrow(/Monday/)
+    expect(() => parseParentingSchedule({
+      rotation: '2-2-3',
+      anchorDate: '2025-03-03',
+      anchorCustodian: 'you',
+      holidays: [{ label: 'July 4th', start: '2025-07-05', end: '2025-07-04', custodian: 'you' }]
+    })).toThrow(/July 4th/)
+  })
+})
+
+describe('isCoparentSender', () => {
+  it('matches on the opposing party name, then rules out the user', () => {
+    expect(isCoparentSender('Sam Parent', { coparentName: 'Sam', selfName: 'Alex Parent' })).toBe(true)
+    expect(isCoparentSender('Alex Parent', { coparentName: 'Sam', selfName: 'Alex Parent' })).toBe(false)
+    expect(isCoparentSender('Alex Parent', { coparentName: 'Parent', selfName: 'Alex Parent' })).toBe(false)
+    expect(isCoparentSender('Grandma', { selfName: 'Alex Parent' })).toBe(false)
+    expect(isCoparentSender('Alex Parent', {})).toBe(false)
+    expect(isCoparentSender('Grandma', { coparentName: 'Sam Parent' })).toBe(false)
+  })
+})
+
+describe('detectScheduleViolations', () => {
+  it('flags parenting time on a full co-parent day as a missed visit', () => {
+    const result = detectScheduleViolations(schedule(), {
+      events: [
+        event({ id: 'e1', date: '2025-03-11', title: 'Took Emma to the zoo' }),
+        // Exchange day: both parents have her for part of it.
+        event({ id: 'e2', date: '2025-03-10', title: 'Breakfast with Emma' }),
+        // Before the schedule took effect.
+        event({ id: 'e3', date: '2025-02-25', title: 'Movie night' })
+      ],
+      messages: [],
+      through: '2025-03-31'
+    })
+    expect(result).toHaveLength(1)
+    expect(result[0]).toMatchObject({ kind: 'missed_visit', date: '2025-03-11', expectedCustodian: 'coparent', eventIds: ['e1'] })
+  })
+
+  it('flags exchanges logged after the exchange time plus grace', () => {
+    const result = detectScheduleViolations(schedule(), {
+      events: [
+        event({ id: 'e1', date: '2025-03-17', time: '18:40', title: 'Pickup at the library' }),
+        event({ id: 'e2', date: '2025-03-31', time: '18:10', title: 'Pickup at the library' })
+      ],
+      messages: [],
+      through: '2025-03-31'
+    })
+    expect(result).toHaveLength(1)
+    expect(result[0]).toMatchObject({ kind: 'late_exchange', date: '2025-03-17', eventIds: ['e1'] })
+    expect(result[0]!.summary).toBe('Late exchange (scheduled 6:00 PM at Library)')
+    expect(result[0]!.reasons[0]).toContain('6:40 PM')
+  })
+
+  it('reads late, cancelled and overhold messages from the co-parent only', () => {
+    const result = detectScheduleViolations(schedule(), {
+      events: [],
+      messages: [
+        message({ id: 'm1', sentAt: '2025-03-10T17:45:00', body: 'Running about 30 minutes late, traffic.' }),
+        message({ id: 'm2', sentAt: '2025-03-16T20:00:00', body: 'I\'m keeping her until Wednesday, she has a cold.' }),
+        message({ id: 'm3', sentAt: '2025-03-23T09:00:00', body: 'I can\'t make it this week, something came up.' }),
+        message({ id: 'm4', sentAt: '2025-03-10T17:50:00', body: 'I am running late too', fromCoparent: false })
+      ],
+      through: '2025-03-31'
+    })
+    expect(result.map(v => [v.kind, v.date, v.messageIds])).toEqual([
+      ['late_exchange', '2025-03-10', ['m1']],
+      ['overhold', '2025-03-17', ['m2']],
+      ['missed_visit', '2025-03-24', ['m3']]
+    ])
+    expect(result[1]!.reasons[0]).toBe('Sam Parent: "I\'m keeping her until Wednesday, she has a cold."')
+  })
+})
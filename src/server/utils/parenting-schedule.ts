@@ -0,0 +1,520 @@
+/**
+ * Structured parenting-time schedule and schedule-violation detection.
+ *
+ * A schedule is a repeating day-by-day cycle starting on `anchorDate`, with
+ * holiday overrides on top. The custodian of a date is whoever has the child
+ * that night, so an exchange happens on a date whose custodian differs from
+ * the day before's.
+ *
+ * Detection is deterministic: `parenting_time` events and messages are
+ * checked against the expected custodian and the exchange time, and wording
+ * like "running late", "can't make it this weekend" or "keeping her until
+ * Tuesday" is matched with plain patterns. Every violation keeps the events
+ * and messages behind it so the user can check it before relying on it.
+ */
+
+import type { Database } from '~/types/database.types'
+
+type ScheduleRow = Database['public']['Tables']['parenting_schedules']['Row']
+type ScheduleInsert = Database['public']['Tables']['parenting_schedules']['Insert']
+
+export type Custodian = 'you' | 'coparent'
+
+export type RotationKind = 'alternating_weeks' | '2-2-3' | '2-2-5-5' | 'alternating_weekends' | 'custom'
+
+export type ViolationKind = 'late_exchange' | 'missed_visit' | 'overhold'
+
+export const CUSTODIANS: Custodian[] = ['you', 'coparent']
+
+export const ROTATION_KINDS: RotationKind[] = ['alternating_weeks', '2-2-3', '2-2-5-5', 'alternating_weekends', 'custom']
+
+export const VIOLATION_KINDS: ViolationKind[] = ['late_exchange', 'missed_visit', 'overhold']
+
+/** Pattern key + label used for the `patterns` row each violation kind links events to. */
+export const VIOLATION_PATTERNS: Record<ViolationKind, { key: string, label: string }> = {
+  late_exchange: { key: 'late_exchange', label: 'Late custody exchanges' },
+  missed_visit: { key: 'missed_visit', label: 'Missed parenting time' },
+  overhold: { key: 'overhold', label: 'Child kept past the scheduled exchange' }
+}
+
+/**
+ * Preset cycles read from the anchor date: 'A' is the anchor custodian, 'B'
+ * the other parent. All but alternating weeks are laid out Monday-first, so
+ * their anchor must be a Monday (parseParentingSchedule enforces it).
+ */
+const PRESET_CYCLES: Record<Exclude<RotationKind, 'custom'>, string> = {
+  'alternating_weeks': 'AAAAAAABBBBBBB',
+  // Mon–Tue A, Wed–Thu B, Fri–Sun A; the next week flips.
+  '2-2-3': 'AABBAAABBAABBB',
+  // Mon–Tue A, Wed–Thu B, Fri–Tue A, Wed–Sun B.
+  '2-2-5-5': 'AABBAAAAABBBBB',
+  // A has the week; B has Fri–Sun every other weekend.
+  'alternating_weekends': 'AAAABBBAAAAAAA'
+}
+
+/** Presets whose cycle is pinned to weekdays rather than to the start date. */
+const MONDAY_ANCHORED_ROTATIONS: RotationKind[] = ['2-2-3', '2-2-5-5', 'alternating_weekends']
+
+const MAX_CUSTOM_CYCLE_DAYS = 28
+
+export interface HolidayOverride {
+  label: string
+  /** First and last day (inclusive), `YYYY-MM-DD`. */
+  start: string
+  end: string
+  custodian: Custodian
+}
+
+export interface ParentingSchedule {
+  rotation: RotationKind
+  /** Day-by-day cycle for rotation 'custom'; null for presets. */
+  customCycle: Custodian[] | null
+  /** First day of the cycle, and the date the schedule takes effect. */
+  anchorDate: string
+  anchorCustodian: Custodian
+  /** `HH:MM`, local time. */
+  exchangeTime: string | null
+  exchangeLocation: string | null
+  graceMinutes: number
+  holidays: HolidayOverride[]
+}
+
+export interface ScheduleExchange {
+  date: string
+  from: Custodian
+  to: Custodian
+  time: string | null
+  location: string | null
+  holiday: string | null
+}
+
+// ── Dates (calendar days, no time zone) ──
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/
+
+function isCalendarDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) return false
+  const d = new Date(`${value}T00:00:00Z`)
+  return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === value
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+function diffDays(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000)
+}
+
+function minutesOf(time: string): number {
+  const [h, m] = time.split(':').map(Number)
+  return h! * 60 + m!
+}
+
+function otherParent(c: Custodian): Custodian {
+  return c === 'you' ? 'coparent' : 'you'
+}
+
+// ── Schedule ──
+
+/** The repeating cycle as custodians, starting on the anchor date. */
+export function scheduleCycle(schedule: ParentingSchedule): Custodian[] {
+  if (schedule.rotation === 'custom') return schedule.customCycle ?? []
+  const other = otherParent(schedule.anchorCustodian)
+  return [...PRESET_CYCLES[schedule.rotation]].map(slot => slot === 'A' ? schedule.anchorCustodian : other)
+}
+
+/** The holiday override covering `date`, if any. Later entries win over earlier ones. */
+export function holidayOn(schedule: ParentingSchedule, date: string): HolidayOverride | null {
+  for (let i = schedule.holidays.length - 1; i >= 0; i--) {
+    const h = schedule.holidays[i]!
+    if (h.start <= date && date <= h.end) return h
+  }
+  return null
+}
+
+/**
+ * Who should have the child on `date` (overnight). Dates before the anchor
+ * are read backwards through the cycle; callers that only care about the
+ * schedule's effective period should skip them.
+ */
+export function expectedCustodian(schedule: ParentingSchedule, date: string): Custodian {
+  const holiday = holidayOn(schedule, date)
+  if (holiday) return holiday.custodian
+  const cycle = scheduleCycle(schedule)
+  if (!cycle.length) return schedule.anchorCustodian
+  const offset = diffDays(schedule.anchorDate, date)
+  return cycle[((offset % cycle.length) + cycle.length) % cycle.length]!
+}
+
+/** Every handover from `from` through `to` (inclusive dates). */
+export function scheduleExchanges(schedule: ParentingSchedule, from: string, to: string): ScheduleExchange[] {
+  const out: ScheduleExchange[] = []
+  let previous = expectedCustodian(schedule, addDays(from, -1))
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    const current = expectedCustodian(schedule, date)
+    if (current !== previous) {
+      out.push({
+        date,
+        from: previous,
+        to: current,
+        time: schedule.exchangeTime,
+        location: schedule.exchangeLocation,
+        holiday: holidayOn(schedule, date)?.label ?? null
+      })
+    }
+    previous = current
+  }
+  return out
+}
+
+export interface ScheduleDay {
+  date: string
+  /** Null before the schedule's anchor date. */
+  custodian: Custodian | null
+  holiday: string | null
+  exchange: boolean
+}
+
+/** One entry per day from `from` through `to` (inclusive), for calendar shading. */
+export function scheduleDays(schedule: ParentingSchedule, from: string, to: string): ScheduleDay[] {
+  const exchanges = new Set(scheduleExchanges(schedule, from, to).map(x => x.date))
+  const out: ScheduleDay[] = []
+  for (let date = from; date <= to; date = addDays(date, 1)) {
+    const inEffect = date >= schedule.anchorDate
+    out.push({
+      date,
+      custodian: inEffect ? expectedCustodian(schedule, date) : null,
+      holiday: holidayOn(schedule, date)?.label ?? null,
+      exchange: inEffect && exchanges.has(date)
+    })
+  }
+  return out
+}
+
+/**
+ * Validate a schedule from a request body. Throws an Error with a message
+ * that is safe to show the user.
+ */
+export function parseParentingSchedule(input: unknown): ParentingSchedule {
+  const body = (input ?? {}) as Record<string, unknown>
+
+  const rotation = body.rotation as RotationKind
+  if (!ROTATION_KINDS.includes(rotation)) {
+    throw new Error('Choose a rotation for the schedule.')
+  }
+  if (!isCalendarDate(body.anchorDate)) {
+    throw new Error('The rotation start date must be a valid date.')
+  }
+  if (MONDAY_ANCHORED_ROTATIONS.includes(rotation) && new Date(`${body.anchorDate}T00:00:00Z`).getUTCDay() !== 1) {
+    throw new Error('This rotation must start on a Monday.')
+  }
+  const anchorCustodian = body.anchorCustodian as Custodian
+  if (!CUSTODIANS.includes(anchorCustodian)) {
+    throw new Error('Say who has the child on the rotation start date.')
+  }
+
+  let customCycle: Custodian[] | null = null
+  if (rotation === 'custom') {
+    const cycle = body.customCycle
+    if (!Array.isArray(cycle) || !cycle.length || cycle.length > MAX_CUSTOM_CYCLE_DAYS
+      || !cycle.every(c => CUSTODIANS.includes(c as Custodian))) {
+      throw new Error(`A custom rotation needs 1–${MAX_CUSTOM_CYCLE_DAYS} days, each assigned to you or the co-parent.`)
+    }
+    customCycle = cycle as Custodian[]
+  }
+
+  const exchangeTime = typeof body.exchangeTime === 'string' && body.exchangeTime.trim()
+    ? body.exchangeTime.trim().slice(0, 5)
+    : null
+  if (exchangeTime && !TIME_PATTERN.test(exchangeTime)) {
+    throw new Error('Exchange time must look like 18:00.')
+  }
+
+  const exchangeLocation = typeof body.exchangeLocation === 'string' && body.exchangeLocation.trim()
+    ? body.exchangeLocation.trim()
+    : null
+
+  const graceMinutes = body.graceMinutes == null || body.graceMinutes === '' ? 15 : Number(body.graceMinutes)
+  if (!Number.isInteger(graceMinutes) || graceMinutes < 0 || graceMinutes > 24 * 60) {
+    throw new Error('Grace period must be a whole number of minutes.')
+  }
+
+  const rawHolidays = body.holidays ?? []
+  if (!Array.isArray(rawHolidays)) {
+    throw new Error('Holidays must be a list.')
+  }
+  const holidays = rawHolidays.map((raw, i): HolidayOverride => {
+    const h = (raw ?? {}) as Record<string, unknown>
+    const label = typeof h.label === 'string' ? h.label.trim() : ''
+    if (!label) throw new Error(`Holiday ${i + 1} needs a name.`)
+    if (!isCalendarDate(h.start) || !isCalendarDate(h.end) || h.end < h.start) {
+      throw new Error(`"${label}" needs a start date on or before its end date.`)
+    }
+    if (!CUSTODIANS.includes(h.custodian as Custodian)) {
+      throw new Error(`Say who has the child for "${label}".`)
+    }
+    return { label, start: h.start, end: h.end, custodian: h.custodian as Custodian }
+  })
+
+  return {
+    rotation,
+    customCycle,
+    anchorDate: body.anchorDate,
+    // A custom cycle spells out every day, so its first day is the anchor custodian.
+    anchorCustodian: customCycle ? customCycle[0]! : anchorCustodian,
+    exchangeTime,
+    exchangeLocation,
+    graceMinutes,
+    holidays
+  }
+}
+
+export function scheduleFromRow(row: ScheduleRow): ParentingSchedule {
+  return {
+    rotation: row.rotation as RotationKind,
+    customCycle: (row.custom_cycle as Custodian[] | null) ?? null,
+    anchorDate: row.anchor_date,
+    anchorCustodian: row.anchor_custodian as Custodian,
+    // Postgres `time` comes back as HH:MM:SS.
+    exchangeTime: row.exchange_time ? row.exchange_time.slice(0, 5) : null,
+    exchangeLocation: row.exchange_location,
+    graceMinutes: row.grace_minutes,
+    holidays: Array.isArray(row.holidays) ? (row.holidays as unknown as HolidayOverride[]) : []
+  }
+}
+
+export function scheduleToRow(
+  schedule: ParentingSchedule,
+  caseId: string,
+  userId: string
+): ScheduleInsert {
+  return {
+    case_id: caseId,
+    user_id: userId,
+    rotation: schedule.rotation,
+    custom_cycle: schedule.customCycle,
+    anchor_date: schedule.anchorDate,
+    anchor_custodian: schedule.anchorCustodian,
+    exchange_time: schedule.exchangeTime,
+    exchange_location: schedule.exchangeLocation,
+    grace_minutes: schedule.graceMinutes,
+    holidays: schedule.holidays as unknown as ScheduleInsert['holidays']
+  }
+}
+
+// ── Violation detection ──
+
+export interface ScheduleEventInput {
+  id: string
+  /** Local date and time of the event (`HH:MM`, null when only the day is known). */
+  date: string
+  time: string | null
+  title: string
+  description: string
+}
+
+export interface ScheduleMessageInput {
+  id: string
+  /** Wall-clock ISO, as stored in messages.sent_at. */
+  sentAt: string
+  sender: string
+  body: string
+  fromCoparent: boolean
+}
+
+export interface ScheduleViolation {
+  kind: ViolationKind
+  date: string
+  expectedCustodian: Custodian
+  summary: string
+  reasons: string[]
+  eventIds: string[]
+  messageIds: string[]
+}
+
+const CHILD = String.raw`(?:him|her|them|the (?:kids?|children|boys?|girls?))`
+
+const LATE_PATTERN = new RegExp(
+  String.raw`\b(?:i'?m|i am|we'?re|we are|running|be|been|was|were|is)\s+(?:a (?:bit|little) |\w+ )?late\b`
+  + String.raw`|\b\d+\s*(?:min(?:ute)?s?|hours?|hrs?)\s+late\b`
+  + String.raw`|\bstuck in traffic\b`
+  + String.raw`|\blate (?:for |to )?(?:the )?(?:pick ?-?up|drop ?-?off|exchange)\b`,
+  'i'
+)
+
+const MISSED_PATTERN = new RegExp(
+  String.raw`\b(?:can'?t|cannot|won'?t|will not|not able to|unable to)\s+`
+  + String.raw`(?:make it|make the (?:pick ?-?up|exchange|visit)|pick ${CHILD} up|take ${CHILD}|have ${CHILD}|do (?:this|the) (?:weekend|visit|pick ?-?up|exchange))\b`
+  + String.raw`|\bcancel(?:l?ing|l?ed|s)?\b[^.!?\n]*\b(?:visit|weekend|pick ?-?up|exchange|parenting time)\b`
+  + String.raw`|\bskip(?:ping)?\b[^.!?\n]*\b(?:weekend|visit)\b`,
+  'i'
+)
+
+const OVERHOLD_PATTERN = new RegExp(
+  String.raw`\b(?:keep(?:ing)?|kept|hold(?:ing)?|held)\s+${CHILD}\s+(?:an extra|another|until|till|through|over|for)\b`
+  + String.raw`|\bnot (?:bringing|returning|dropping off|sending) ${CHILD}\b`
+  + String.raw`|\bwon'?t be (?:bringing|returning|dropping off|sending) ${CHILD}\b`
+  + String.raw`|\b(?:didn'?t|did not|never) (?:bring|return|drop off|send) ${CHILD}\b`,
+  'i'
+)
+
+const EXCHANGE_PATTERN = /\b(?:pick ?-?up|picked (?:\w+ )?up|drop ?-?off|dropped (?:\w+ )?off|exchange|hand ?-?off|handed (?:\w+ )?off)\b/i
+
+const EXCERPT_CHARS = 160
+
+/** The sentence around the first match, trimmed for display. */
+function excerpt(text: string, pattern: RegExp): string {
+  const flat = text.replace(/\s+/g, ' ').trim()
+  const match = pattern.exec(flat)
+  if (!match) return flat.slice(0, EXCERPT_CHARS)
+  const start = Math.max(flat.lastIndexOf('. ', match.index) + 1, match.index - EXCERPT_CHARS / 2, 0)
+  const sentence = flat.slice(start).trim()
+  return sentence.length > EXCERPT_CHARS ? `${sentence.slice(0, EXCERPT_CHARS - 1)}…` : sentence
+}
+
+function formatClock(time: string): string {
+  const [h, m] = time.split(':').map(Number)
+  const suffix = h! >= 12 ? 'PM' : 'AM'
+  return `${((h! + 11) % 12) + 1}:${String(m).padStart(2, '0')} ${suffix}`
+}
+
+function violationSummary(
+  kind: ViolationKind,
+  schedule: ParentingSchedule,
+  date: string,
+  exchange: ScheduleExchange | undefined
+): string {
+  if (kind === 'late_exchange') {
+    const time = exchange?.time ? ` (scheduled ${formatClock(exchange.time)}${exchange.location ? ` at ${exchange.location}` : ''})` : ''
+    return `Late exchange${time}`
+  }
+  if (kind === 'missed_visit') return 'Missed parenting time: the co-parent was scheduled to have the child'
+  const holiday = holidayOn(schedule, date)?.label
+  return `Overhold: the child was not returned for your scheduled time${holiday ? ` (${holiday})` : ''}`
+}
+
+const NAME_TOKEN_PATTERN = /[^a-z0-9]+/
+
+function nameTokens(name: string): string[] {
+  return name.toLowerCase().split(NAME_TOKEN_PATTERN).filter(Boolean)
+}
+
+function namesMatch(a: string, b: string): boolean {
+  const ta = nameTokens(a)
+  const tb = nameTokens(b)
+  if (!ta.length || !tb.length) return false
+  const [shorter, longer] = ta.length <= tb.length ? [ta, tb] : [tb, ta]
+  return shorter.every(t => longer.includes(t))
+}
+
+/**
+ * Whether a message sender is the co-parent, judged by the case's opposing
+ * party name. Without that name no sender counts, so message checks stay
+ * quiet rather than reading the user's own messages as the co-parent's. A
+ * sender who also matches the user's own name (a shared surname) is the user.
+ */
+export function isCoparentSender(
+  sender: string,
+  names: { selfName?: string | null, coparentName?: string | null }
+): boolean {
+  if (!names.coparentName || !namesMatch(sender, names.coparentName)) return false
+  return !(names.selfName && namesMatch(sender, names.selfName))
+}
+
+/**
+ * Compare parenting_time events and messages against the schedule from its
+ * anchor date through `through` (inclusive) and return one violation per
+ * (kind, date), oldest first.
+ *
+ *  - late_exchange: co-parent says they are running late on an exchange day,
+ *    or a pickup / drop-off was logged after the exchange time plus grace.
+ *  - missed_visit: parenting time logged on a co-parent day that is not an
+ *    exchange day, or the co-parent cancels / skips their time.
+ *  - overhold: the co-parent says they are keeping the child into your time.
+ */
+export function detectScheduleViolations(
+  schedule: ParentingSchedule,
+  input: { events: ScheduleEventInput[], messages: ScheduleMessageInput[], through: string }
+): ScheduleViolation[] {
+  const from = schedule.anchorDate
+  const through = input.through
+  const exchanges = new Map(scheduleExchanges(schedule, from, addDays(through, 1)).map(x => [x.date, x]))
+  const found = new Map<string, ScheduleViolation>()
+
+  const flag = (kind: ViolationKind, date: string, reason: string, ref: { eventId?: string, messageId?: string }) => {
+    if (date < from || date > through) return
+    const key = `${kind}:${date}`
+    let v = found.get(key)
+    if (!v) {
+      v = {
+        kind,
+        date,
+        expectedCustodian: expectedCustodian(schedule, date),
+        summary: violationSummary(kind, schedule, date, exchanges.get(date)),
+        reasons: [],
+        eventIds: [],
+        messageIds: []
+      }
+      found.set(key, v)
+    }
+    if (!v.reasons.includes(reason)) v.reasons.push(reason)
+    if (ref.eventId && !v.eventIds.includes(ref.eventId)) v.eventIds.push(ref.eventId)
+    if (ref.messageId && !v.messageIds.includes(ref.messageId)) v.messageIds.push(ref.messageId)
+  }
+
+  for (const e of input.events) {
+    if (e.date < from || e.date > through) continue
+    const text = `${e.title}. ${e.description}`
+    const expected = expectedCustodian(schedule, e.date)
+    const exchange = exchanges.get(e.date)
+    const ref = { eventId: e.id }
+
+    // On an exchange day both parents have the child for part of it, so only
+    // full co-parent days count as a missed visit.
+    if (expected === 'coparent' && !exchange) {
+      flag('missed_visit', e.date, `You logged parenting time on a co-parent day: "${e.title}"`, ref)
+    }
+
+    const deadline = schedule.exchangeTime ? minutesOf(schedule.exchangeTime) + schedule.graceMinutes : null
+    if (exchange && e.time && deadline !== null && minutesOf(e.time) > deadline && EXCHANGE_PATTERN.test(text)) {
+      flag('late_exchange', e.date, `Exchange logged at ${formatClock(e.time)}, scheduled for ${formatClock(schedule.exchangeTime!)}: "${e.title}"`, ref)
+    } else if (exchange && LATE_PATTERN.test(text)) {
+      flag('late_exchange', e.date, `"${excerpt(text, LATE_PATTERN)}"`, ref)
+    }
+
+    if (OVERHOLD_PATTERN.test(text) && expected === 'you') {
+      flag('overhold', e.date, `"${excerpt(text, OVERHOLD_PATTERN)}"`, ref)
+    }
+  }
+
+  for (const m of input.messages) {
+    if (!m.fromCoparent) continue
+    const date = m.sentAt.slice(0, 10)
+    const next = addDays(date, 1)
+    const ref = { messageId: m.id }
+    const quote = (pattern: RegExp) => `${m.sender}: "${excerpt(m.body, pattern)}"`
+
+    if (LATE_PATTERN.test(m.body) && exchanges.has(date)) {
+      flag('late_exchange', date, quote(LATE_PATTERN), ref)
+    }
+    if (MISSED_PATTERN.test(m.body)) {
+      // Cancellations usually come the day before; pin them to the co-parent day they cancel.
+      const target = expectedCustodian(schedule, date) === 'coparent'
+        ? date
+        : expectedCustodian(schedule, next) === 'coparent' ? next : null
+      if (target) flag('missed_visit', target, quote(MISSED_PATTERN), ref)
+    }
+    if (OVERHOLD_PATTERN.test(m.body)) {
+      const target = expectedCustodian(schedule, date) === 'you'
+        ? date
+        : expectedCustodian(schedule, next) === 'you' ? next : null
+      if (target) flag('overhold', target, quote(OVERHOLD_PATTERN), ref)
+    }
+  }
+
+  return [...found.values()].sort((a, b) => a.date.localeCompare(b.date) || a.kind.localeCompare(b.kind))
+}
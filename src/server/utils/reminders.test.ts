@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import { collectReminders, renderReminderMessage } from './reminders'
+import type { ReminderSources } from './reminders'
+
+const TZ = 'America/New_York'
+// 08:00 on Monday 2025-03-10 in New York.
+const NOW = new Date('2025-03-10T12:00:00Z')
+
+function sources(overrides: Partial<ReminderSources> = {}): ReminderSources {
+  return {
+    cases: [{ id: 'case-1', title: 'Smith v. Smith', next_court_date: null }],
+    actionItems: [],
+    deadlines: [],
+    ...overrides
+  }
+}
+
+function item(id: string, deadline: string, status: 'open' | 'in_progress' | 'done' = 'open') {
+  return { id, case_id: 'case-1', description: `Item ${id}`, status, deadline, event_id: null }
+}
+
+describe('collectReminders', () => {
+  it('reminds action items the day before, the day of, and weekly once overdue', () => {
+    const reminders = collectReminders(sources({
+      actionItems: [
+        item('tomorrow', '2025-03-11T15:00:00Z'),
+        // 23:30 on the 9th in New York is still "yesterday" there, though the 10th in UTC.
+        item('yesterday', '2025-03-10T03:30:00Z'),
+        item('today', '2025-03-10T20:00:00Z'),
+        item('overdue-2', '2025-03-08T15:00:00Z'),
+        item('overdue-8', '2025-03-02T15:00:00Z'),
+        item('later', '2025-03-12T15:00:00Z'),
+        item('done', '2025-03-10T15:00:00Z', 'done')
+      ]
+    }), NOW, TZ)
+
+    expect(reminders.map(r => [r.title, r.kind, r.daysUntil])).toEqual([
+      ['Item overdue-8', 'action_item_overdue', -8],
+      ['Item yesterday', 'action_item_overdue', -1],
+      ['Item today', 'action_item_due', 0],
+      ['Item tomorrow', 'action_item_due', 1]
+    ])
+    expect(reminders[2]!.key).toBe('action_item:today:2025-03-10:0')
+  })
+
+  it('uses each deadline\'s reminder days and fixed offsets for the next court date', () => {
+    const reminders = collectReminders(sources({
+      cases: [{ id: 'case-1', title: 'Smith v. Smith', next_court_date: '2025-03-17T14:00:00Z' }],
+      deadlines: [
+        { id: 'm', case_id: 'case-1', title: 'Mediation', starts_at: '2025-03-13T14:00:00Z', location: 'Room 2', reminder_days: [3] },
+        { id: 'd', case_id: 'case-1', title: 'Discovery', starts_at: '2025-03-13T14:00:00Z', location: null, reminder_days: [7, 1] }
+      ]
+    }), NOW, TZ)
+
+    expect(reminders.map(r => [r.kind, r.title, r.daysUntil, r.caseTitle])).toEqual([
+      ['case_deadline', 'Mediation', 3, 'Smith v. Smith'],
+      ['court_date', 'Court date', 7, 'Smith v. Smith']
+    ])
+
+    const message = renderReminderMessage(reminders, { name: 'Sam', baseUrl: 'https://example.test' })
+    expect(message.subject).toBe('2 reminders from Daylight')
+    expect(message.text).toContain('- Mediation is in 3 days (2025-03-13 · Room 2 · Smith v. Smith)')
+    expect(message.html).toContain('<a href="https://example.test/case">Mediation</a>')
+  })
+})
@@ -0,0 +1,203 @@
+/**
+ * Reminders for due action items and upcoming court dates.
+ *
+ * The hourly reminders cron calls collectReminders for each user whose local
+ * time has reached REMINDER_LOCAL_HOUR, drops keys already in
+ * reminder_deliveries, and hands the rest to a Notifier as one message. Keys
+ * encode the item, its date and the offset, so a rescheduled deadline gets
+ * fresh reminders and nothing is sent twice.
+ */
+
+import type { Database } from '~/types/database.types'
+import { getDateStringInTimezone } from './timezone'
+
+type Tables = Database['public']['Tables']
+
+/** Local hour (0–23) at which the day's reminders go out. */
+export const REMINDER_LOCAL_HOUR = 8
+
+/** Days before cases.next_court_date to remind; 0 = the day of. */
+export const COURT_DATE_REMINDER_DAYS = [7, 1, 0]
+
+/** Action items are reminded the day before and the day they are due. */
+const DUE_SOON_DAYS = [1, 0]
+
+/** Overdue items are reminded the day after they were due, then weekly. */
+const OVERDUE_REPEAT_DAYS = 7
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type ReminderKind = 'action_item_due' | 'action_item_overdue' | 'case_deadline' | 'court_date'
+
+export interface Reminder {
+  /** Stable per item, date and offset; the dedupe key in reminder_deliveries. */
+  key: string
+  kind: ReminderKind
+  caseId: string
+  caseTitle: string | null
+  title: string
+  /** When the item is due or happens (ISO). */
+  at: string
+  /** Local calendar day of `at`, YYYY-MM-DD. */
+  day: string
+  /** Days from today to `day`; negative when overdue. */
+  daysUntil: number
+  location: string | null
+  /** App path to open the item at, when it has a page. */
+  path: string | null
+}
+
+export interface ReminderSources {
+  cases: Array<Pick<Tables['cases']['Row'], 'id' | 'title' | 'next_court_date'>>
+  actionItems: Array<Pick<Tables['action_items']['Row'], 'id' | 'case_id' | 'description' | 'status' | 'deadline' | 'event_id'>>
+  deadlines: Array<Pick<Tables['case_deadlines']['Row'], 'id' | 'case_id' | 'title' | 'starts_at' | 'location' | 'reminder_days'>>
+}
+
+function dayDiff(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS)
+}
+
+function localDay(iso: string, timezone: string): string | null {
+  const d = new Date(iso)
+  return Number.isNaN(d.getTime()) ? null : getDateStringInTimezone(d, timezone)
+}
+
+/** Everything worth reminding the user about today, most urgent first. */
+export function collectReminders(sources: ReminderSources, now: Date, timezone: string): Reminder[] {
+  const today = getDateStringInTimezone(now, timezone)
+  const caseTitles = new Map(sources.cases.map(c => [c.id, c.title]))
+  const reminders: Reminder[] = []
+
+  for (const c of sources.cases) {
+    if (!c.next_court_date) continue
+    const day = localDay(c.next_court_date, timezone)
+    if (!day) continue
+    const daysUntil = dayDiff(today, day)
+    if (!COURT_DATE_REMINDER_DAYS.includes(daysUntil)) continue
+    reminders.push({
+      key: `court_date:${c.id}:${day}:${daysUntil}`,
+      kind: 'court_date',
+      caseId: c.id,
+      caseTitle: c.title,
+      title: 'Court date',
+      at: c.next_court_date,
+      day,
+      daysUntil,
+      location: null,
+      path: '/hearing'
+    })
+  }
+
+  for (const d of sources.deadlines) {
+    const day = localDay(d.starts_at, timezone)
+    if (!day) continue
+    const daysUntil = dayDiff(today, day)
+    if (!d.reminder_days.includes(daysUntil)) continue
+    reminders.push({
+      key: `case_deadline:${d.id}:${day}:${daysUntil}`,
+      kind: 'case_deadline',
+      caseId: d.case_id,
+      caseTitle: caseTitles.get(d.case_id) ?? null,
+      title: d.title,
+      at: d.starts_at,
+      day,
+      daysUntil,
+      location: d.location,
+      path: '/case'
+    })
+  }
+
+  for (const item of sources.actionItems) {
+    if (!item.deadline || !item.case_id || (item.status !== 'open' && item.status !== 'in_progress')) continue
+    const day = localDay(item.deadline, timezone)
+    if (!day) continue
+    const daysUntil = dayDiff(today, day)
+    const overdue = daysUntil < 0 && (-daysUntil - 1) % OVERDUE_REPEAT_DAYS === 0
+    if (!overdue && !DUE_SOON_DAYS.includes(daysUntil)) continue
+    reminders.push({
+      key: `action_item:${item.id}:${day}:${daysUntil}`,
+      kind: overdue ? 'action_item_overdue' : 'action_item_due',
+      caseId: item.case_id,
+      caseTitle: caseTitles.get(item.case_id) ?? null,
+      title: item.description,
+      at: item.deadline,
+      day,
+      daysUntil,
+      location: null,
+      path: item.event_id ? `/event/${item.event_id}` : null
+    })
+  }
+
+  return reminders.sort((a, b) => a.daysUntil - b.daysUntil || a.title.localeCompare(b.title))
+}
+
+export function describeReminderTiming(reminder: Pick<Reminder, 'kind' | 'daysUntil'>): string {
+  const { daysUntil } = reminder
+  if (daysUntil < 0) return daysUntil === -1 ? 'was due yesterday' : `overdue by ${-daysUntil} days`
+  const verb = reminder.kind === 'action_item_due' ? 'due' : 'is'
+  if (daysUntil === 0) return `${verb} today`
+  if (daysUntil === 1) return `${verb} tomorrow`
+  return `${verb} in ${daysUntil} days`
+}
+
+export interface ReminderMessage {
+  subject: string
+  text: string
+  html: string
+}
+
+/** Escapes text for an email's HTML body. */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+const SECTION_TITLES: Record<'dates' | 'tasks', string> = {
+  dates: 'Court dates and deadlines',
+  tasks: 'Action items'
+}
+
+/** Subject and plain-text/HTML bodies for one user's reminders. */
+export function renderReminderMessage(
+  reminders: Reminder[],
+  options: { name: string | null, baseUrl: string }
+): ReminderMessage {
+  const first = reminders[0]!
+  const subject = reminders.length === 1
+    ? `Reminder: ${first.title} ${describeReminderTiming(first)}`
+    : `${reminders.length} reminders from Daylight`
+
+  const sections = {
+    dates: reminders.filter(r => r.kind === 'court_date' || r.kind === 'case_deadline'),
+    tasks: reminders.filter(r => r.kind === 'action_item_due' || r.kind === 'action_item_overdue')
+  }
+  const greeting = options.name ? `Hi ${options.name},` : 'Hi,'
+
+  const textLines = [greeting, '']
+  const htmlParts = [`<p>${escapeHtml(greeting)}</p>`]
+
+  for (const section of ['dates', 'tasks'] as const) {
+    const items = sections[section]
+    if (!items.length) continue
+    textLines.push(`${SECTION_TITLES[section]}:`)
+    htmlParts.push(`<h3>${SECTION_TITLES[section]}</h3>`, '<ul>')
+    for (const r of items) {
+      const details = [r.day, r.location, r.caseTitle].filter(Boolean).join(' · ')
+      const url = r.path ? `${options.baseUrl}${r.path}` : null
+      textLines.push(`- ${r.title} ${describeReminderTiming(r)} (${details})${url ? `\n  ${url}` : ''}`)
+      const title = url ? `<a href="${url}">${escapeHtml(r.title)}</a>` : escapeHtml(r.title)
+      htmlParts.push(`<li><strong>${title}</strong> ${describeReminderTiming(r)}<br><small>${escapeHtml(details)}</small></li>`)
+    }
+    textLines.push('')
+    htmlParts.push('</ul>')
+  }
+
+  const footer = 'You can turn these emails off in Settings.'
+  textLines.push(footer)
+  htmlParts.push(`<p><small>${footer} <a href="${options.baseUrl}/settings">Settings</a></small></p>`)
+
+  return { subject, text: textLines.join('\n'), html: htmlParts.join('\n') }
+}
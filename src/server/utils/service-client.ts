@@ -15,3 +15,21 @@ export function getServiceClient(): SupabaseClient<Database> {
 
   return createClient<Database>(supabaseUrl, supabaseServiceKey)
 }
+
+/**
+ * Service-role client for Inngest functions. Reads process.env directly:
+ * Inngest runs in a webhook callback context where useRuntimeConfig() is
+ * unavailable.
+ */
+export function createServiceClient(): SupabaseClient<Database> {
+  const supabaseUrl = process.env.SUPABASE_URL
+  const supabaseServiceKey = process.env.SUPABASE_SECRET_KEY || process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Missing SUPABASE_URL or SUPABASE_SECRET_KEY environment variables')
+  }
+
+  return createClient<Database>(supabaseUrl, supabaseServiceKey, {
+    auth: { persistSession: false }
+  })
+}
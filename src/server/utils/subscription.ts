@@ -131,11 +131,13 @@ export async function canUploadEvidence(event: H3Event, userId: string): Promise
 
   const supabase = await serverSupabaseClient(event)
 
-  // Count existing evidence
+  // Count existing evidence. Attachments extracted from an imported message
+  // (message_id set) came in with that upload and don't count on their own.
   const { count, error } = await supabase
     .from('evidence')
     .select('*', { count: 'exact', head: true })
     .eq('user_id', userId)
+    .is('message_id', null)
 
   if (error) {
     console.error('[Subscription] Error counting evidence:', error)
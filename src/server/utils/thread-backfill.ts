@@ -0,0 +1,82 @@
+import type { H3Event } from 'h3'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { serverSupabaseClient, serverSupabaseUser } from '#supabase/server'
+import { inngest } from '../inngest/client'
+import type { Database } from '~/types/database.types'
+
+type Client = SupabaseClient<Database>
+
+interface BackfillBody {
+  /** When omitted, backfills only the calling user's cases. Employees can pass `allCases: true` to scan every case. */
+  caseId?: string
+  allCases?: boolean
+}
+
+export interface CaseBackfill<T> {
+  caseId: string
+  threads: T[]
+}
+
+/**
+ * Shared body of the /api/internal thread backfills. Employee-gated (404 for
+ * anyone else). For each case in scope, `findThreads` picks the threads and
+ * one `eventName` event is sent per thread.
+ */
+export async function enqueueThreadBackfill<T extends { threadId: string }>(
+  event: H3Event,
+  eventName: 'messages/thread.summarize_requested' | 'messages/thread.classify_requested',
+  findThreads: (client: Client, caseId: string) => Promise<T[]>
+): Promise<{ enqueued: number, perCase: CaseBackfill<T>[] }> {
+  const authUser = await serverSupabaseUser(event)
+  const claims = authUser as { sub?: string, id?: string } | null
+  const userId = claims?.sub ?? claims?.id ?? null
+  if (!userId) throw createError({ statusCode: 404, statusMessage: 'Not Found' })
+
+  const client = await serverSupabaseClient<Database>(event)
+
+  const { data: profile } = await client
+    .from('profiles')
+    .select('is_employee')
+    .eq('id', userId)
+    .maybeSingle()
+  if (profile?.is_employee !== true) {
+    throw createError({ statusCode: 404, statusMessage: 'Not Found' })
+  }
+
+  const body = await readBody<BackfillBody>(event).catch(() => ({} as BackfillBody))
+
+  let caseIds: string[]
+  if (body.caseId) {
+    caseIds = [body.caseId]
+  } else if (body.allCases) {
+    const { data, error } = await client.from('cases').select('id')
+    if (error) throw createError({ statusCode: 500, statusMessage: error.message })
+    caseIds = (data ?? []).map(c => c.id)
+  } else {
+    const { data, error } = await client.from('cases').select('id').eq('user_id', userId)
+    if (error) throw createError({ statusCode: 500, statusMessage: error.message })
+    caseIds = (data ?? []).map(c => c.id)
+  }
+
+  let enqueued = 0
+  const perCase: CaseBackfill<T>[] = []
+
+  for (const caseId of caseIds) {
+    const threads = await findThreads(client, caseId)
+    perCase.push({ caseId, threads })
+    if (!threads.length) continue
+
+    await inngest.send(threads.map(t => ({
+      name: eventName,
+      data: {
+        caseId,
+        userId,
+        evidenceId: null,
+        threadId: t.threadId
+      }
+    })))
+    enqueued += threads.length
+  }
+
+  return { enqueued, perCase }
+}
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest'
+import { needsSegmenting, segmentThreadMessages } from './thread-segments'
+
+const messages = (count: number, length = 100) => Array.from({ length: count }, () => ({ body: 'x'.repeat(length) }))
+
+describe('segmentThreadMessages', () => {
+  it('splits by message count and folds a short tail into the last segment', () => {
+    expect(segmentThreadMessages(messages(65))).toEqual([
+      { index: 0, start: 0, end: 30 },
+      { index: 1, start: 30, end: 65 }
+    ])
+    expect(segmentThreadMessages(messages(90)).map(r => r.end - r.start)).toEqual([30, 30, 30])
+  })
+
+  it('splits by body size, keeping an oversized message in a segment of its own', () => {
+    const ranges = segmentThreadMessages([...messages(3, 400), { body: 'y'.repeat(5000) }, ...messages(3, 400)], { maxChars: 1000 })
+    expect(ranges.map(r => [r.start, r.end])).toEqual([[0, 2], [2, 3], [3, 4], [4, 7]])
+  })
+})
+
+describe('needsSegmenting', () => {
+  it('segments long or very large threads only', () => {
+    expect(needsSegmenting(messages(40))).toBe(false)
+    expect(needsSegmenting(messages(41))).toBe(true)
+    expect(needsSegmenting(messages(5, 20000))).toBe(true)
+  })
+})
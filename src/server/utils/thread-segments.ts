@@ -0,0 +1,76 @@
+/**
+ * Segmenting long message threads for map-reduce summarization.
+ *
+ * Threads up to SINGLE_PASS_MAX_MESSAGES are summarized in one prompt. Longer
+ * threads are split into chronological segments, each summarized on its own
+ * (map), and the thread summary is written from the segment summaries
+ * (reduce). Segments also let search_threads point at the part of a long
+ * thread that matched.
+ */
+
+/** Threads this short (and under SEGMENT_MAX_CHARS) are summarized in one pass. */
+export const SINGLE_PASS_MAX_MESSAGES = 40
+
+/** Messages per segment. Small enough that a segment summary keeps detail. */
+export const SEGMENT_MAX_MESSAGES = 30
+
+/**
+ * Body characters per segment (~6k tokens). A single long message still gets
+ * a segment of its own rather than being split.
+ */
+export const SEGMENT_MAX_CHARS = 24000
+
+export interface ThreadSegmentRange {
+  index: number
+  /** Index of the first message in the segment. */
+  start: number
+  /** One past the last message. */
+  end: number
+}
+
+export function needsSegmenting(messages: Array<{ body: string }>): boolean {
+  if (messages.length > SINGLE_PASS_MAX_MESSAGES) return true
+  return messages.reduce((sum, m) => sum + m.body.length, 0) > SEGMENT_MAX_CHARS * 2
+}
+
+/**
+ * Split chronological messages into contiguous segments of at most
+ * `maxMessages` messages and (where possible) `maxChars` body characters.
+ * A short trailing segment is folded into the previous one when it fits
+ * within 1.5x the limits, so a thread of 31 messages isn't 30 + 1.
+ */
+export function segmentThreadMessages(
+  messages: Array<{ body: string }>,
+  options: { maxMessages?: number, maxChars?: number } = {}
+): ThreadSegmentRange[] {
+  const maxMessages = options.maxMessages ?? SEGMENT_MAX_MESSAGES
+  const maxChars = options.maxChars ?? SEGMENT_MAX_CHARS
+  const ranges: ThreadSegmentRange[] = []
+
+  let start = 0
+  let chars = 0
+  for (let i = 0; i < messages.length; i++) {
+    const length = messages[i]!.body.length
+    if (i > start && (i - start >= maxMessages || chars + length > maxChars)) {
+      ranges.push({ index: ranges.length, start, end: i })
+      start = i
+      chars = 0
+    }
+    chars += length
+  }
+  if (start < messages.length) ranges.push({ index: ranges.length, start, end: messages.length })
+
+  const last = ranges.at(-1)
+  const previous = ranges.at(-2)
+  if (last && previous) {
+    const mergedMessages = last.end - previous.start
+    const mergedChars = messages.slice(previous.start, last.end).reduce((sum, m) => sum + m.body.length, 0)
+    const lastIsShort = last.end - last.start < maxMessages / 4
+    if (lastIsShort && mergedMessages <= maxMessages * 1.5 && mergedChars <= maxChars * 1.5) {
+      ranges.pop()
+      previous.end = last.end
+    }
+  }
+
+  return ranges
+}
@@ -1,5 +1,6 @@
 import type { SupabaseClient } from '@supabase/supabase-js'
 import type { Database } from '~/types/database.types'
+import { isOfwThreadId } from './message-sources'
 
 type Client = SupabaseClient<Database>
 
@@ -62,6 +63,32 @@ export async function summarizeThreadMissing(
   return out
 }
 
+/**
+ * thread_ids of a case's message_threads rows summarized below `version`.
+ * These are what an approved summary dry run re-summarizes. Paged past the
+ * supabase-js 1000-row cap.
+ */
+export async function threadsBelowSummaryVersion(
+  client: Client,
+  caseId: string,
+  version: number
+): Promise<string[]> {
+  const out: string[] = []
+  for (let from = 0; ; from += 1000) {
+    const { data, error } = await client
+      .from('message_threads')
+      .select('thread_id')
+      .eq('case_id', caseId)
+      .lt('summary_version', version)
+      .order('thread_id')
+      .range(from, from + 999)
+    if (error) throw new Error(`threadsBelowSummaryVersion failed: ${error.message}`)
+    for (const r of data ?? []) out.push(r.thread_id)
+    if ((data?.length ?? 0) < 1000) break
+  }
+  return out
+}
+
 /**
  * Compute drift between threads already on message_threads (from earlier
  * imports) and the threads present in a freshly parsed OFW upload.
@@ -75,6 +102,10 @@ export async function summarizeThreadMissing(
  * (case_id, sequence_number), a re-upload of an overlapping report inserts
  * zero rows under its evidence_id, so an evidence-scoped query returns
  * nothing and would falsely report 100% drift.
+ *
+ * SMS / WhatsApp / email threads are ignored: they never appear in an OFW
+ * report, so counting them would make every OFW upload after another import
+ * look drifted.
  */
 export async function diffThreadsForUpload(
   client: Client,
@@ -94,7 +125,7 @@ export async function diffThreadsForUpload(
 
   const existingThreadIds = new Set<string>()
   for (const r of existingRows ?? []) {
-    existingThreadIds.add(r.thread_id)
+    if (isOfwThreadId(r.thread_id)) existingThreadIds.add(r.thread_id)
   }
 
   let overlapping = 0
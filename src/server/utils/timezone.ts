@@ -26,6 +26,30 @@ export function getDateStringInTimezone(date: Date, timezone: string): string {
   }).format(date)
 }
 
+/**
+ * Get the local hour (0-23) in a specific timezone
+ */
+export function getHourInTimezone(date: Date, timezone: string): number {
+  const hour = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: '2-digit',
+    hourCycle: 'h23'
+  }).format(date)
+  return Number(hour)
+}
+
+/**
+ * Get the local wall-clock time (HH:MM, 24-hour) in a specific timezone
+ */
+export function getTimeInTimezone(date: Date, timezone: string): string {
+  return new Intl.DateTimeFormat('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).format(date)
+}
+
 function parseDateParts(dateStr: string): [number, number, number] | null {
   const parts = dateStr.split('-').map(Number)
   if (parts.length !== 3 || parts.some(part => Number.isNaN(part))) {
@@ -0,0 +1,4 @@
+/** Trimmed text from a request body field, or null when missing or blank. */
+export function optionalText(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}